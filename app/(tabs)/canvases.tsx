@@ -20,6 +20,7 @@ import {
   FileText,
   Image as ImageIcon,
   Maximize2,
+  Share2,
   X,
 } from 'lucide-react-native';
 import { useRouter } from 'expo-router';
@@ -30,12 +31,15 @@ import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import Navbar from '@/components/ui/Navbar';
 import Sidebar from '@/components/ui/Sidebar';
 import { useAuth } from '@/components/auth/AuthHandler';
+import CanvasExportSheet from '@/components/content/CanvasExportSheet';
+import { canvasService } from '@/lib/services/canvasService';
 
 const { width: screenWidth } = Dimensions.get('window');
 
 interface Canvas {
   id: string;
   messageId: string;
+  toolCallId: string;
   threadId: string;
   name: string;
   content: any;
@@ -94,7 +98,8 @@ const CanvasCard: React.FC<{
   canvas: Canvas;
   onCanvasClick: (canvas: Canvas) => void;
   onCanvasDelete: (messageId: string) => Promise<void>;
-}> = ({ canvas, onCanvasClick, onCanvasDelete }) => {
+  onCanvasExport: (canvas: Canvas) => void;
+}> = ({ canvas, onCanvasClick, onCanvasDelete, onCanvasExport }) => {
   const [isDeleting, setIsDeleting] = useState(false);
 
   const handleDelete = async () => {
@@ -233,6 +238,15 @@ const CanvasCard: React.FC<{
         )}
       </TouchableOpacity>
 
+      {/* Export button - next to delete */}
+      <TouchableOpacity
+        style={[styles.deleteButton, styles.exportButton]}
+        onPress={() => onCanvasExport(canvas)}
+        accessibilityLabel="Export canvas"
+      >
+        <Share2 size={14} color={Colors.text} />
+      </TouchableOpacity>
+
       {/* Content Preview */}
       <View style={styles.canvasContent}>
         <ContentPreview content={canvas.content} type={canvas.type} />
@@ -286,6 +300,7 @@ export default function CanvasesScreen() {
   const [currentPage, setCurrentPage] = useState(0);
   const [hasMore, setHasMore] = useState(true);
   const [showSidebar, setShowSidebar] = useState(false);
+  const [exportingCanvas, setExportingCanvas] = useState<Canvas | null>(null);
 
   const router = useRouter();
   const { user, profile } = useAuth();
@@ -428,6 +443,7 @@ export default function CanvasesScreen() {
         return {
           id: `${row.message_id}_${row.tool_call_id}`,
           messageId: row.message_id,
+          toolCallId: row.tool_call_id,
           threadId: row.thread_id,
           name: row.canvas_name || 'Untitled Canvas',
           content: canvasContent,
@@ -527,17 +543,34 @@ export default function CanvasesScreen() {
     fetchAllCanvases();
   }, [fetchAllCanvases]);
 
+  // Keep cards in sync with edits made in the canvas editor
+  useEffect(() => {
+    return canvasService.subscribe((updated) => {
+      const applyUpdate = (list: Canvas[]) =>
+        list.map((canvas) =>
+          canvas.messageId === updated.messageId && canvas.toolCallId === updated.toolCallId
+            ? { ...canvas, content: updated.content, version: updated.version }
+            : canvas
+        );
+      setCanvases(applyUpdate);
+      setAllCanvases(applyUpdate);
+    });
+  }, []);
+
   const handleCanvasClick = useCallback((canvas: Canvas) => {
-    // TODO: Implement canvas opening functionality
     console.log('[CanvasesScreen] Opening canvas:', canvas.name);
-    Alert.alert('Canvas Preview', `Canvas: ${canvas.name}\nType: ${canvas.type}\nLanguage: ${canvas.language}`);
-  }, []);
+    router.push({
+      pathname: '/canvas/[id]',
+      params: { id: canvas.messageId, toolCallId: canvas.toolCallId },
+    });
+  }, [router]);
 
   const renderCanvasItem = ({ item }: { item: Canvas }) => (
     <CanvasCard
       canvas={item}
       onCanvasClick={handleCanvasClick}
       onCanvasDelete={handleCanvasDelete}
+      onCanvasExport={setExportingCanvas}
     />
   );
 
@@ -616,6 +649,12 @@ export default function CanvasesScreen() {
         ListFooterComponent={renderFooter}
         ListEmptyComponent={renderEmpty}
       />
+
+      <CanvasExportSheet
+        visible={!!exportingCanvas}
+        canvas={exportingCanvas}
+        onClose={() => setExportingCanvas(null)}
+      />
       
       <Sidebar
         isVisible={showSidebar}
@@ -682,6 +721,9 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(255, 255, 255, 0.1)',
   },
+  exportButton: {
+    right: 48,
+  },
   canvasContent: {
     marginBottom: 16,
   },
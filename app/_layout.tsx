@@ -10,10 +10,22 @@ import 'react-native-reanimated';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import AuthHandler from '@/components/auth/AuthHandler';
 import ErrorBoundary from '@/components/ui/ErrorBoundary';
+import { initSSEHarness } from '@/lib/services/sseHarness';
+import { streamInspector } from '@/lib/services/streamInspector';
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
 
+// Record or replay chat streams in dev builds (EXPO_PUBLIC_SSE_HARNESS)
+if (__DEV__) {
+  initSSEHarness().catch(error => {
+    console.error('▶️ [SSEHarness] Failed to start:', error);
+  });
+}
+
+// Stream inspector is opt-in from Settings > Developer; it chains onto the harness recorder
+streamInspector.init();
+
 export default function RootLayout() {
   const colorScheme = useColorScheme();
   const [loaded] = useFonts({
@@ -39,6 +51,7 @@ export default function RootLayout() {
             <Stack.Screen name="auth" />
             <Stack.Screen name="conversation/[id]" />
             <Stack.Screen name="file/[id]" />
+            <Stack.Screen name="canvas/[id]" />
             <Stack.Screen name="+not-found" />
           </Stack>
           <StatusBar style="auto" />
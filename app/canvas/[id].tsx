@@ -0,0 +1,9 @@
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import CanvasEditor from '@/components/content/CanvasEditor';
+
+export default function CanvasScreen() {
+  const { id, toolCallId } = useLocalSearchParams<{ id: string; toolCallId: string }>();
+
+  return <CanvasEditor messageId={id} toolCallId={toolCallId} />;
+}
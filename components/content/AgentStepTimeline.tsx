@@ -0,0 +1,129 @@
+import React, { memo } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { Check, X, Minus } from 'lucide-react-native';
+import { AgentStep } from '@/lib/services/streamProviderChat';
+
+interface AgentStepTimelineProps {
+  steps?: AgentStep[];
+}
+
+const TOOL_LABELS: Record<string, string> = {
+  web_search: 'Searched the web',
+  image_gen: 'Generated an image',
+  generate_image: 'Generated an image',
+  image_edit: 'Edited an image',
+  code_interpreter: 'Ran code',
+  read_url: 'Read a web page',
+};
+
+const getStepLabel = (step: AgentStep) => {
+  if (step.toolCalls.length === 0) {
+    return step.status === 'running' ? 'Thinking...' : 'Wrote answer';
+  }
+
+  const labels = step.toolCalls.map(tc => TOOL_LABELS[tc.name] || `Used ${tc.name}`);
+  return Array.from(new Set(labels)).join(', ');
+};
+
+const StepStatusIcon = ({ status }: { status: AgentStep['status'] }) => {
+  switch (status) {
+    case 'running':
+      return <ActivityIndicator size="small" color="#94a3b8" style={styles.spinner} />;
+    case 'completed':
+      return <Check size={12} color="#10b981" />;
+    case 'error':
+      return <X size={12} color="#ef4444" />;
+    default:
+      return <Minus size={12} color="#94a3b8" />;
+  }
+};
+
+// Step-by-step progress of an agent loop answer
+const AgentStepTimeline = memo(function AgentStepTimeline({ steps }: AgentStepTimelineProps) {
+  // A single step is a plain answer, nothing to show
+  if (!steps || steps.length < 2) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {steps.map((step, index) => (
+        <View key={step.index} style={styles.stepRow}>
+          <View style={styles.rail}>
+            <View style={styles.iconWrapper}>
+              <StepStatusIcon status={step.status} />
+            </View>
+            {index < steps.length - 1 && <View style={styles.connector} />}
+          </View>
+          <View style={styles.stepContent}>
+            <Text style={styles.stepTitle}>Step {step.index}</Text>
+            <Text style={styles.stepLabel} numberOfLines={2}>
+              {getStepLabel(step)}
+            </Text>
+            {step.error && (
+              <Text style={styles.stepError} numberOfLines={2}>
+                {step.error}
+              </Text>
+            )}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    paddingVertical: 8,
+  },
+  stepRow: {
+    flexDirection: 'row',
+    alignItems: 'stretch',
+  },
+  rail: {
+    width: 20,
+    alignItems: 'center',
+  },
+  iconWrapper: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: 'rgba(148, 163, 184, 0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  spinner: {
+    transform: [{ scale: 0.6 }],
+  },
+  connector: {
+    flex: 1,
+    width: 1,
+    marginVertical: 2,
+    backgroundColor: 'rgba(148, 163, 184, 0.3)',
+  },
+  stepContent: {
+    flex: 1,
+    paddingLeft: 8,
+    paddingBottom: 10,
+  },
+  stepTitle: {
+    color: '#94a3b8',
+    fontSize: 11,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  stepLabel: {
+    color: '#e2e8f0',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  stepError: {
+    color: '#ef4444',
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
+
+export default AgentStepTimeline;
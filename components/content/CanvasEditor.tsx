@@ -0,0 +1,364 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  NativeSyntheticEvent,
+  TextInputSelectionChangeEventData,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { ArrowLeft, History, Save, Share2, Sparkles, X } from 'lucide-react-native';
+import CanvasExportSheet from '@/components/content/CanvasExportSheet';
+import CanvasVersionHistory from '@/components/content/CanvasVersionHistory';
+import { canvasService, CanvasDocument, CanvasSelection } from '@/lib/services/canvasService';
+import { useAssistantStore } from '@/lib/assistantStore';
+
+interface CanvasEditorProps {
+  messageId: string;
+  toolCallId: string;
+}
+
+const MONO_FONT = Platform.OS === 'ios' ? 'Menlo' : 'monospace';
+
+// Editable canvas with saved versions, history diffs and AI rewrites of a selection
+export default function CanvasEditor({ messageId, toolCallId }: CanvasEditorProps) {
+  const router = useRouter();
+  const model = useAssistantStore(state => state.currentAssistant?.model);
+
+  const [canvas, setCanvas] = useState<CanvasDocument | null>(null);
+  const [draft, setDraft] = useState('');
+  const [selection, setSelection] = useState<CanvasSelection>({ start: 0, end: 0 });
+  const [instruction, setInstruction] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRewriting, setIsRewriting] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+
+  const isDirty = !!canvas && draft !== canvas.content;
+  const hasSelection = selection.end > selection.start;
+  const isCode = canvas?.type === 'code';
+  // Unedited block canvases export from their blocks; edits export as the Markdown draft
+  const exportCanvas = useMemo(() => {
+    if (!canvas) return null;
+    return { ...canvas, content: canvas.blocks && draft === canvas.content ? canvas.blocks : draft };
+  }, [canvas, draft]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    canvasService.loadCanvas(messageId, toolCallId)
+      .then(loaded => {
+        if (cancelled) return;
+        setCanvas(loaded);
+        setDraft(loaded?.content || '');
+      })
+      .catch(error => {
+        console.error('🎨 [CanvasEditor] Failed to load canvas:', error);
+        if (!cancelled) Alert.alert('Error', 'Could not load this canvas.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [messageId, toolCallId]);
+
+  const applyCanvas = useCallback((updated: CanvasDocument) => {
+    setCanvas(updated);
+    setDraft(updated.content);
+    setSelection({ start: 0, end: 0 });
+  }, []);
+
+  // Unsaved edits become a version first so a rewrite or restore never loses them
+  const saveDraft = useCallback(async (): Promise<CanvasDocument | null> => {
+    if (!canvas) return null;
+    if (draft === canvas.content) return canvas;
+
+    setIsSaving(true);
+    try {
+      const updated = await canvasService.saveVersion(canvas, draft, 'user');
+      setCanvas(updated);
+      return updated;
+    } catch (error: any) {
+      console.error('🎨 [CanvasEditor] Failed to save canvas:', error);
+      Alert.alert('Save Failed', error.message || 'Could not save your changes.');
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [canvas, draft]);
+
+  const handleBack = useCallback(() => {
+    if (!isDirty) {
+      router.back();
+      return;
+    }
+
+    Alert.alert('Unsaved Changes', 'Save your edits as a new version before leaving?', [
+      { text: 'Discard', style: 'destructive', onPress: () => router.back() },
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Save',
+        onPress: async () => {
+          if (await saveDraft()) router.back();
+        },
+      },
+    ]);
+  }, [isDirty, router, saveDraft]);
+
+  const handleSelectionChange = useCallback(
+    (event: NativeSyntheticEvent<TextInputSelectionChangeEventData>) => {
+      setSelection(event.nativeEvent.selection);
+    },
+    []
+  );
+
+  const handleRewrite = useCallback(async () => {
+    const trimmed = instruction.trim();
+    if (!trimmed || !hasSelection) return;
+
+    const saved = await saveDraft();
+    if (!saved) return;
+
+    setIsRewriting(true);
+    try {
+      const updated = await canvasService.rewriteSelection(saved, selection, trimmed, model);
+      applyCanvas(updated);
+      setInstruction('');
+    } catch (error: any) {
+      console.error('🎨 [CanvasEditor] Rewrite failed:', error);
+      Alert.alert('Rewrite Failed', error.message || 'Could not rewrite the selection.');
+    } finally {
+      setIsRewriting(false);
+    }
+  }, [instruction, hasSelection, saveDraft, selection, model, applyCanvas]);
+
+  const handleRestore = useCallback(async (version: number) => {
+    const saved = await saveDraft();
+    if (!saved) return;
+
+    try {
+      applyCanvas(await canvasService.restoreVersion(saved, version));
+      setShowHistory(false);
+    } catch (error: any) {
+      console.error('🎨 [CanvasEditor] Restore failed:', error);
+      Alert.alert('Restore Failed', error.message || 'Could not restore this version.');
+    }
+  }, [saveDraft, applyCanvas]);
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#9333ea" />
+      </SafeAreaView>
+    );
+  }
+
+  if (!canvas) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered]}>
+        <Text style={styles.emptyText}>This canvas could not be found.</Text>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backLink}>
+          <Text style={styles.backLinkText}>Go back</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={handleBack} style={styles.iconButton} accessibilityLabel="Back">
+          <ArrowLeft size={20} color="#ffffff" />
+        </TouchableOpacity>
+        <View style={styles.headerTitleContainer}>
+          <Text style={styles.headerTitle} numberOfLines={1}>{canvas.name}</Text>
+          <Text style={styles.headerSubtitle}>
+            Version {canvas.version}{isDirty ? ' · Edited' : ''}
+          </Text>
+        </View>
+        <TouchableOpacity
+          onPress={() => setShowExport(true)}
+          style={styles.iconButton}
+          accessibilityLabel="Export canvas"
+        >
+          <Share2 size={20} color="#ffffff" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => setShowHistory(true)}
+          style={styles.iconButton}
+          accessibilityLabel="Version history"
+        >
+          <History size={20} color="#ffffff" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={saveDraft}
+          style={[styles.iconButton, !isDirty && styles.disabled]}
+          disabled={!isDirty || isSaving}
+          accessibilityLabel="Save version"
+        >
+          {isSaving ? (
+            <ActivityIndicator size="small" color="#ffffff" />
+          ) : (
+            <Save size={20} color="#ffffff" />
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.body}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <TextInput
+          style={[styles.editor, isCode && styles.codeEditor]}
+          value={draft}
+          onChangeText={setDraft}
+          onSelectionChange={handleSelectionChange}
+          multiline
+          editable={!isRewriting}
+          autoCapitalize={isCode ? 'none' : 'sentences'}
+          autoCorrect={!isCode}
+          textAlignVertical="top"
+          scrollEnabled
+        />
+
+        {hasSelection && (
+          <View style={styles.rewriteBar}>
+            <Sparkles size={16} color="#a855f7" />
+            <TextInput
+              style={styles.rewriteInput}
+              value={instruction}
+              onChangeText={setInstruction}
+              placeholder={`Rewrite ${selection.end - selection.start} selected characters…`}
+              placeholderTextColor="#6b7280"
+              editable={!isRewriting}
+              onSubmitEditing={handleRewrite}
+              returnKeyType="send"
+            />
+            {isRewriting ? (
+              <ActivityIndicator size="small" color="#a855f7" />
+            ) : (
+              <TouchableOpacity
+                onPress={() => setSelection({ start: selection.end, end: selection.end })}
+                style={styles.iconButton}
+                accessibilityLabel="Clear selection"
+              >
+                <X size={16} color="#9ca3af" />
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </KeyboardAvoidingView>
+
+      <CanvasVersionHistory
+        visible={showHistory}
+        versions={canvas.versions}
+        currentVersion={canvas.version}
+        onRestore={handleRestore}
+        onClose={() => setShowHistory(false)}
+      />
+
+      <CanvasExportSheet
+        visible={showExport}
+        canvas={exportCanvas}
+        onClose={() => setShowExport(false)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#161618',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  headerTitleContainer: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  headerSubtitle: {
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  iconButton: {
+    padding: 6,
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  body: {
+    flex: 1,
+  },
+  editor: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 15,
+    lineHeight: 22,
+    color: '#e5e7eb',
+  },
+  codeEditor: {
+    fontSize: 13,
+    lineHeight: 19,
+    fontFamily: MONO_FONT,
+  },
+  rewriteBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 12,
+    marginBottom: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(168, 85, 247, 0.4)',
+    backgroundColor: 'rgba(168, 85, 247, 0.1)',
+  },
+  rewriteInput: {
+    flex: 1,
+    fontSize: 14,
+    color: '#ffffff',
+    paddingVertical: 4,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#9ca3af',
+  },
+  backLink: {
+    marginTop: 12,
+    padding: 8,
+  },
+  backLinkText: {
+    fontSize: 15,
+    color: '#a855f7',
+  },
+});
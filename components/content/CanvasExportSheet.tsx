@@ -0,0 +1,214 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Share2, FolderPlus, Check } from 'lucide-react-native';
+import { canvasExportService, CanvasExportSource } from '@/lib/services/canvasExportService';
+import { CanvasExportFormat, getExportFormats, getLanguageFile } from '@/lib/utils/canvasFormats';
+
+interface CanvasExportSheetProps {
+  visible: boolean;
+  canvas: CanvasExportSource | null;
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<Exclude<CanvasExportFormat, 'source'>, { label: string; extension: string }> = {
+  markdown: { label: 'Markdown', extension: '.md' },
+  text: { label: 'Plain text', extension: '.txt' },
+  html: { label: 'HTML', extension: '.html' },
+};
+
+// Pick an export format, then share the file or save it into the workspace
+export default function CanvasExportSheet({ visible, canvas, onClose }: CanvasExportSheetProps) {
+  const formats = useMemo(() => (canvas ? getExportFormats(canvas) : []), [canvas]);
+  const [format, setFormat] = useState<CanvasExportFormat>('markdown');
+  const [busyAction, setBusyAction] = useState<'share' | 'save' | null>(null);
+
+  useEffect(() => {
+    if (visible && formats.length > 0) {
+      setFormat(formats[0]);
+    }
+  }, [visible, formats]);
+
+  if (!canvas) return null;
+
+  const describeFormat = (option: CanvasExportFormat) => {
+    if (option === 'source') {
+      return { label: 'Source file', extension: `.${getLanguageFile(canvas.language).extension}` };
+    }
+    return FORMAT_LABELS[option];
+  };
+
+  const handleShare = async () => {
+    setBusyAction('share');
+    try {
+      await canvasExportService.shareCanvas(canvas, format);
+      onClose();
+    } catch (error: any) {
+      console.error('📤 [CanvasExportSheet] Share failed:', error);
+      Alert.alert('Export Failed', error.message || 'Could not export this canvas.');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleSave = async () => {
+    setBusyAction('save');
+    try {
+      const saved = await canvasExportService.saveToWorkspace(canvas, format);
+      onClose();
+      Alert.alert('Saved to Workspace', `${saved.fileName} was added to your workspace files.`);
+    } catch (error: any) {
+      console.error('📤 [CanvasExportSheet] Save to workspace failed:', error);
+      Alert.alert('Save Failed', error.message || 'Could not save this canvas to the workspace.');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.backdrop}>
+          <TouchableWithoutFeedback>
+            <View style={styles.sheet}>
+              <Text style={styles.title}>Export Canvas</Text>
+              <Text style={styles.subtitle} numberOfLines={1}>{canvas.name}</Text>
+
+              <View style={styles.formats}>
+                {formats.map(option => {
+                  const { label, extension } = describeFormat(option);
+                  const isSelected = option === format;
+                  return (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.formatRow, isSelected && styles.formatRowSelected]}
+                      onPress={() => setFormat(option)}
+                      disabled={!!busyAction}
+                    >
+                      <Text style={styles.formatLabel}>{label}</Text>
+                      <Text style={styles.formatExtension}>{extension}</Text>
+                      {isSelected && <Check size={16} color="#a855f7" />}
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              <View style={styles.actions}>
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.secondaryButton]}
+                  onPress={handleSave}
+                  disabled={!!busyAction}
+                >
+                  {busyAction === 'save' ? (
+                    <ActivityIndicator size="small" color="#ffffff" />
+                  ) : (
+                    <FolderPlus size={16} color="#ffffff" />
+                  )}
+                  <Text style={styles.actionText}>Save to Workspace</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.primaryButton]}
+                  onPress={handleShare}
+                  disabled={!!busyAction}
+                >
+                  {busyAction === 'share' ? (
+                    <ActivityIndicator size="small" color="#ffffff" />
+                  ) : (
+                    <Share2 size={16} color="#ffffff" />
+                  )}
+                  <Text style={styles.actionText}>Share</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    padding: 20,
+    paddingBottom: 32,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    backgroundColor: '#1f1f23',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  subtitle: {
+    marginTop: 2,
+    fontSize: 13,
+    color: '#9ca3af',
+  },
+  formats: {
+    marginTop: 16,
+    gap: 8,
+  },
+  formatRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    backgroundColor: 'rgba(255, 255, 255, 0.04)',
+  },
+  formatRowSelected: {
+    borderColor: '#a855f7',
+    backgroundColor: 'rgba(168, 85, 247, 0.1)',
+  },
+  formatLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: '#ffffff',
+  },
+  formatExtension: {
+    fontSize: 13,
+    color: '#9ca3af',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 20,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  primaryButton: {
+    backgroundColor: '#9333ea',
+  },
+  secondaryButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
@@ -0,0 +1,297 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { X, RotateCcw, Sparkles, User } from 'lucide-react-native';
+import { CanvasVersion } from '@/lib/services/canvasService';
+import { DiffLine, diffLines, getDiffStats } from '@/lib/utils/textDiff';
+
+interface CanvasVersionHistoryProps {
+  visible: boolean;
+  versions: CanvasVersion[];
+  currentVersion: number;
+  onRestore: (version: number) => Promise<void>;
+  onClose: () => void;
+}
+
+const MONO_FONT = Platform.OS === 'ios' ? 'Menlo' : 'monospace';
+
+const SOURCE_LABELS: Record<CanvasVersion['source'], string> = {
+  model: 'AI edit',
+  user: 'Your edit',
+  restore: 'Restore',
+};
+
+const formatTime = (iso: string) => {
+  try {
+    return new Date(iso).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  } catch {
+    return '';
+  }
+};
+
+const DiffRow = ({ line }: { line: DiffLine }) => (
+  <View style={[
+    styles.diffRow,
+    line.type === 'added' && styles.diffRowAdded,
+    line.type === 'removed' && styles.diffRowRemoved,
+  ]}>
+    <Text style={styles.diffMarker}>
+      {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+    </Text>
+    <Text style={styles.diffText}>{line.text || ' '}</Text>
+  </View>
+);
+
+// Versions of a canvas, newest first, with a diff against the version before each one
+export default function CanvasVersionHistory({
+  visible,
+  versions,
+  currentVersion,
+  onRestore,
+  onClose,
+}: CanvasVersionHistoryProps) {
+  const sorted = useMemo(() => [...versions].sort((a, b) => b.version - a.version), [versions]);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const selected = sorted.find(entry => entry.version === selectedVersion) || sorted[0];
+  const previous = selected ? sorted.find(entry => entry.version < selected.version) : undefined;
+
+  const diff = useMemo(
+    () => (selected ? diffLines(previous?.content || '', selected.content) : []),
+    [selected, previous]
+  );
+  const stats = getDiffStats(diff);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setIsRestoring(true);
+    try {
+      await onRestore(selected.version);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Version History</Text>
+          <TouchableOpacity onPress={onClose} style={styles.iconButton} accessibilityLabel="Close">
+            <X size={20} color="#ffffff" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView horizontal style={styles.versionList} contentContainerStyle={styles.versionListContent} showsHorizontalScrollIndicator={false}>
+          {sorted.map(entry => {
+            const isSelected = entry.version === selected?.version;
+            return (
+              <TouchableOpacity
+                key={entry.version}
+                style={[styles.versionChip, isSelected && styles.versionChipSelected]}
+                onPress={() => setSelectedVersion(entry.version)}
+              >
+                {entry.source === 'model' ? (
+                  <Sparkles size={12} color={isSelected ? '#ffffff' : '#9ca3af'} />
+                ) : entry.source === 'restore' ? (
+                  <RotateCcw size={12} color={isSelected ? '#ffffff' : '#9ca3af'} />
+                ) : (
+                  <User size={12} color={isSelected ? '#ffffff' : '#9ca3af'} />
+                )}
+                <Text style={[styles.versionChipText, isSelected && styles.versionChipTextSelected]}>
+                  v{entry.version}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
+        {selected && (
+          <View style={styles.details}>
+            <View style={styles.detailsRow}>
+              <View style={styles.detailsInfo}>
+                <Text style={styles.detailsTitle}>
+                  Version {selected.version} · {SOURCE_LABELS[selected.source]}
+                  {selected.version === currentVersion ? ' · Current' : ''}
+                </Text>
+                <Text style={styles.detailsMeta}>
+                  {formatTime(selected.createdAt)} · +{stats.added} −{stats.removed}
+                </Text>
+                {!!selected.note && (
+                  <Text style={styles.detailsNote} numberOfLines={2}>{selected.note}</Text>
+                )}
+              </View>
+              {selected.version !== currentVersion && (
+                <TouchableOpacity
+                  style={styles.restoreButton}
+                  onPress={handleRestore}
+                  disabled={isRestoring}
+                >
+                  {isRestoring ? (
+                    <ActivityIndicator size="small" color="#ffffff" />
+                  ) : (
+                    <RotateCcw size={14} color="#ffffff" />
+                  )}
+                  <Text style={styles.restoreButtonText}>Restore</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        )}
+
+        <ScrollView style={styles.diff} contentContainerStyle={styles.diffContent}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View>
+              {diff.map((line, index) => (
+                <DiffRow key={index} line={line} />
+              ))}
+            </View>
+          </ScrollView>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#161618',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  iconButton: {
+    padding: 4,
+  },
+  versionList: {
+    flexGrow: 0,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  versionListContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  versionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  versionChipSelected: {
+    backgroundColor: '#9333ea',
+    borderColor: '#9333ea',
+  },
+  versionChipText: {
+    fontSize: 13,
+    color: '#9ca3af',
+  },
+  versionChipTextSelected: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  details: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  detailsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  detailsInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  detailsTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  detailsMeta: {
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  detailsNote: {
+    fontSize: 12,
+    color: '#d1d5db',
+    fontStyle: 'italic',
+  },
+  restoreButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#3b82f6',
+  },
+  restoreButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  diff: {
+    flex: 1,
+  },
+  diffContent: {
+    paddingVertical: 8,
+  },
+  diffRow: {
+    flexDirection: 'row',
+    paddingHorizontal: 12,
+    paddingVertical: 1,
+  },
+  diffRowAdded: {
+    backgroundColor: 'rgba(16, 185, 129, 0.15)',
+  },
+  diffRowRemoved: {
+    backgroundColor: 'rgba(239, 68, 68, 0.15)',
+  },
+  diffMarker: {
+    width: 16,
+    fontSize: 12,
+    color: '#9ca3af',
+    fontFamily: MONO_FONT,
+  },
+  diffText: {
+    fontSize: 12,
+    color: '#e2e8f0',
+    fontFamily: MONO_FONT,
+  },
+});
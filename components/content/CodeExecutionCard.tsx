@@ -0,0 +1,258 @@
+import React, { memo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Image,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import * as Sharing from 'expo-sharing';
+import { Terminal, ChevronDown, ChevronRight, Download, FileText, Check, X } from 'lucide-react-native';
+import { CodeExecutionArtifact, CodeExecutionData } from '@/lib/utils/toolDataExtractors';
+import { codeInterpreterService } from '@/lib/services/codeInterpreterService';
+
+interface CodeExecutionCardProps {
+  execution: CodeExecutionData;
+}
+
+const MONO_FONT = Platform.OS === 'ios' ? 'Menlo' : 'monospace';
+
+// Long output is cut in the card; the full text is in the tool result
+const MAX_VISIBLE_OUTPUT_CHARS = 4000;
+
+const isImageArtifact = (artifact: CodeExecutionArtifact) =>
+  artifact.mimeType.startsWith('image/') && artifact.mimeType !== 'image/svg+xml';
+
+const formatSize = (bytes?: number) => {
+  if (!bytes) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const tail = (text: string) =>
+  text.length > MAX_VISIBLE_OUTPUT_CHARS ? `…${text.slice(-MAX_VISIBLE_OUTPUT_CHARS)}` : text;
+
+const ArtifactRow = ({ artifact }: { artifact: CodeExecutionArtifact }) => {
+  const [isDownloading, setIsDownloading] = useState(false);
+  const previewUri = artifact.uri || artifact.url;
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const uri = await codeInterpreterService.downloadArtifact(artifact);
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(uri, { mimeType: artifact.mimeType, dialogTitle: artifact.name });
+      } else {
+        Alert.alert('Saved', `${artifact.name} was saved to the device.`);
+      }
+    } catch (error: any) {
+      console.error('🐍 [CodeExecutionCard] Failed to download artifact:', error);
+      Alert.alert('Download Failed', error.message || 'Could not download the file.');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <View style={styles.artifact}>
+      {isImageArtifact(artifact) && previewUri && (
+        <Image source={{ uri: previewUri }} style={styles.artifactImage} resizeMode="contain" />
+      )}
+      <View style={styles.artifactRow}>
+        <FileText size={14} color="#94a3b8" />
+        <Text style={styles.artifactName} numberOfLines={1}>{artifact.name}</Text>
+        {!!artifact.size && <Text style={styles.artifactSize}>{formatSize(artifact.size)}</Text>}
+        <TouchableOpacity
+          onPress={handleDownload}
+          disabled={isDownloading}
+          style={styles.iconButton}
+          accessibilityLabel={`Download ${artifact.name}`}
+        >
+          {isDownloading ? (
+            <ActivityIndicator size="small" color="#9ca3af" />
+          ) : (
+            <Download size={14} color="#9ca3af" />
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+// Code, live output and produced files of one code interpreter run
+const CodeExecutionCard = memo(function CodeExecutionCard({ execution }: CodeExecutionCardProps) {
+  const [isCodeExpanded, setIsCodeExpanded] = useState(false);
+  const { status, code, stdout, stderr, error, exitCode, artifacts, durationMs } = execution;
+  const hasOutput = !!(stdout || stderr || error);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Terminal size={14} color="#94a3b8" />
+        <Text style={styles.title}>Code Interpreter</Text>
+        {status === 'running' && <ActivityIndicator size="small" color="#94a3b8" />}
+        {status === 'success' && <Check size={14} color="#10b981" />}
+        {status === 'error' && <X size={14} color="#ef4444" />}
+        {durationMs !== undefined && (
+          <Text style={styles.statusText}>{(durationMs / 1000).toFixed(1)}s</Text>
+        )}
+      </View>
+
+      {!!code && (
+        <View>
+          <TouchableOpacity
+            style={styles.sectionToggle}
+            onPress={() => setIsCodeExpanded(!isCodeExpanded)}
+            activeOpacity={0.7}
+          >
+            {isCodeExpanded ? (
+              <ChevronDown size={14} color="#94a3b8" />
+            ) : (
+              <ChevronRight size={14} color="#94a3b8" />
+            )}
+            <Text style={styles.sectionLabel}>Code</Text>
+          </TouchableOpacity>
+          {isCodeExpanded && (
+            <ScrollView horizontal style={styles.codeBlock} showsHorizontalScrollIndicator={false}>
+              <Text style={styles.codeText} selectable>{code}</Text>
+            </ScrollView>
+          )}
+        </View>
+      )}
+
+      {(hasOutput || status === 'running') && (
+        <View style={styles.outputBlock}>
+          {!hasOutput && <Text style={styles.placeholderText}>Running…</Text>}
+          {!!stdout && <Text style={styles.outputText} selectable>{tail(stdout)}</Text>}
+          {!!stderr && <Text style={[styles.outputText, styles.stderrText]} selectable>{tail(stderr)}</Text>}
+          {!!error && <Text style={[styles.outputText, styles.stderrText]}>{error}</Text>}
+          {exitCode !== undefined && exitCode !== 0 && (
+            <Text style={styles.exitCodeText}>Exited with code {exitCode}</Text>
+          )}
+        </View>
+      )}
+
+      {artifacts.length > 0 && (
+        <View style={styles.artifacts}>
+          {artifacts.map((artifact, index) => (
+            <ArtifactRow key={`${artifact.name}_${index}`} artifact={artifact} />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(148, 163, 184, 0.2)',
+    backgroundColor: 'rgba(148, 163, 184, 0.08)',
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(148, 163, 184, 0.2)',
+  },
+  title: {
+    flex: 1,
+    color: '#e2e8f0',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  statusText: {
+    fontSize: 12,
+    color: '#94a3b8',
+  },
+  sectionToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  sectionLabel: {
+    color: '#94a3b8',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  codeBlock: {
+    marginHorizontal: 12,
+    marginBottom: 8,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+  },
+  codeText: {
+    color: '#e2e8f0',
+    fontSize: 12,
+    fontFamily: MONO_FONT,
+  },
+  outputBlock: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 4,
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+  },
+  placeholderText: {
+    color: '#6b7280',
+    fontSize: 12,
+  },
+  outputText: {
+    color: '#d1d5db',
+    fontSize: 12,
+    fontFamily: MONO_FONT,
+  },
+  stderrText: {
+    color: '#fca5a5',
+  },
+  exitCodeText: {
+    color: '#f59e0b',
+    fontSize: 12,
+  },
+  artifacts: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 8,
+  },
+  artifact: {
+    gap: 6,
+  },
+  artifactImage: {
+    width: '100%',
+    height: 200,
+    borderRadius: 8,
+    backgroundColor: '#ffffff',
+  },
+  artifactRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  artifactName: {
+    flex: 1,
+    color: '#e2e8f0',
+    fontSize: 13,
+  },
+  artifactSize: {
+    color: '#6b7280',
+    fontSize: 12,
+  },
+  iconButton: {
+    padding: 4,
+  },
+});
+
+export default CodeExecutionCard;
@@ -0,0 +1,73 @@
+import React, { memo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { ChevronDown, ChevronRight, ScrollText } from 'lucide-react-native';
+import { ThreadSummary } from '@/lib/services/threadSummaryService';
+
+interface ConversationSummaryHeaderProps {
+  summary: ThreadSummary | null;
+}
+
+// Collapsible rolling summary of the turns no longer sent to the model
+const ConversationSummaryHeader = memo(function ConversationSummaryHeader({ summary }: ConversationSummaryHeaderProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (!summary?.summary) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setIsExpanded(!isExpanded)}
+        activeOpacity={0.7}
+      >
+        <ScrollText size={14} color="#94a3b8" />
+        <Text style={styles.title}>
+          Summary of {summary.messageCount} earlier messages
+        </Text>
+        {isExpanded ? (
+          <ChevronDown size={16} color="#94a3b8" />
+        ) : (
+          <ChevronRight size={16} color="#94a3b8" />
+        )}
+      </TouchableOpacity>
+      {isExpanded && (
+        <Text style={styles.summaryText}>{summary.summary}</Text>
+      )}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 8,
+    marginBottom: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(148, 163, 184, 0.2)',
+    backgroundColor: 'rgba(148, 163, 184, 0.08)',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  title: {
+    flex: 1,
+    color: '#94a3b8',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  summaryText: {
+    color: '#e2e8f0',
+    fontSize: 13,
+    lineHeight: 19,
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+  },
+});
+
+export default ConversationSummaryHeader;
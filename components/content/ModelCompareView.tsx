@@ -0,0 +1,220 @@
+import React, { memo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  useWindowDimensions,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
+} from 'react-native';
+import { AlertCircle, Check, Clock, Hash, Zap } from 'lucide-react-native';
+import { ProviderAvatar } from '@/components/ui/ProviderAvatar';
+import StreamingMarkdown from './StreamingMarkdown';
+import type { CompareCandidate, ModelCompareRun } from '@/hooks/useChat';
+
+interface ModelCompareViewProps {
+  run: ModelCompareRun;
+  markdownStyle?: any;
+  onPick: (candidateIndex: number) => void;
+}
+
+const COLUMN_GAP = 12;
+
+const formatSeconds = (ms?: number) => (ms === undefined ? '–' : `${(ms / 1000).toFixed(1)}s`);
+
+const CandidateStats = ({ candidate }: { candidate: CompareCandidate }) => (
+  <View style={styles.stats}>
+    <View style={styles.stat}>
+      <Zap size={12} color="#9ca3af" />
+      <Text style={styles.statText}>{formatSeconds(candidate.firstTokenMs)}</Text>
+    </View>
+    <View style={styles.stat}>
+      <Clock size={12} color="#9ca3af" />
+      <Text style={styles.statText}>
+        {candidate.status === 'streaming' ? '…' : formatSeconds(candidate.latencyMs)}
+      </Text>
+    </View>
+    <View style={styles.stat}>
+      <Hash size={12} color="#9ca3af" />
+      <Text style={styles.statText}>
+        {candidate.tokens === undefined ? '–' : `${candidate.tokensEstimated ? '~' : ''}${candidate.tokens} tok`}
+      </Text>
+    </View>
+  </View>
+);
+
+// Swipeable columns with one model's answer each; picking one resolves the run
+const ModelCompareView = memo(function ModelCompareView({ run, markdownStyle, onPick }: ModelCompareViewProps) {
+  const { width } = useWindowDimensions();
+  const [page, setPage] = useState(0);
+
+  // Leave a sliver of the next column visible so it's clear the row scrolls
+  const columnWidth = Math.min(width - 72, 560);
+
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const index = Math.round(event.nativeEvent.contentOffset.x / (columnWidth + COLUMN_GAP));
+    setPage(Math.max(0, Math.min(index, run.candidates.length - 1)));
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        snapToInterval={columnWidth + COLUMN_GAP}
+        decelerationRate="fast"
+        onMomentumScrollEnd={handleScroll}
+        contentContainerStyle={styles.row}
+      >
+        {run.candidates.map((candidate, index) => (
+          <View key={`${candidate.model}-${index}`} style={[styles.column, { width: columnWidth }]}>
+            <View style={styles.columnHeader}>
+              <ProviderAvatar
+                message={{ metadata: { model: candidate.model, provider: candidate.provider } }}
+                isStreaming={candidate.status === 'streaming'}
+                hasContent={candidate.content.length > 0}
+                size={16}
+              />
+              <Text style={styles.modelName} numberOfLines={1}>{candidate.name}</Text>
+              {candidate.status === 'streaming' && <ActivityIndicator size="small" color="#9ca3af" />}
+            </View>
+
+            <CandidateStats candidate={candidate} />
+
+            <View style={styles.answer}>
+              {candidate.content ? (
+                <StreamingMarkdown content={candidate.content} style={markdownStyle} />
+              ) : candidate.status === 'streaming' ? (
+                <Text style={styles.placeholderText}>Waiting for the first token…</Text>
+              ) : null}
+
+              {candidate.status === 'error' && (
+                <View style={styles.errorRow}>
+                  <AlertCircle size={14} color="#f87171" />
+                  <Text style={styles.errorText}>{candidate.error || 'This model failed to answer'}</Text>
+                </View>
+              )}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.pickButton, candidate.status !== 'completed' && styles.pickButtonDisabled]}
+              onPress={() => onPick(index)}
+              disabled={candidate.status !== 'completed'}
+              accessibilityLabel={`Use the answer from ${candidate.name}`}
+            >
+              <Check size={14} color="#ffffff" />
+              <Text style={styles.pickButtonText}>Use this answer</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+      </ScrollView>
+
+      <View style={styles.pager}>
+        {run.candidates.map((candidate, index) => (
+          <View key={`${candidate.model}-${index}`} style={[styles.dot, index === page && styles.activeDot]} />
+        ))}
+      </View>
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 8,
+  },
+  row: {
+    gap: COLUMN_GAP,
+    paddingRight: COLUMN_GAP,
+  },
+  column: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#404040',
+    backgroundColor: 'rgba(255, 255, 255, 0.03)',
+    padding: 12,
+  },
+  columnHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  modelName: {
+    flex: 1,
+    color: '#f3f4f6',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  stats: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 6,
+    marginBottom: 8,
+  },
+  stat: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  statText: {
+    color: '#9ca3af',
+    fontSize: 12,
+  },
+  answer: {
+    flexGrow: 1,
+    minHeight: 60,
+  },
+  placeholderText: {
+    color: '#6b7280',
+    fontSize: 13,
+    fontStyle: 'italic',
+  },
+  errorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 6,
+  },
+  errorText: {
+    flex: 1,
+    color: '#fca5a5',
+    fontSize: 13,
+  },
+  pickButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#3b82f6',
+  },
+  pickButtonDisabled: {
+    opacity: 0.4,
+  },
+  pickButtonText: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  pager: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#525252',
+  },
+  activeDot: {
+    backgroundColor: '#d1d5db',
+  },
+});
+
+export default ModelCompareView;
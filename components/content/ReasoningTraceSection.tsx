@@ -0,0 +1,219 @@
+import React, { memo, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Share } from 'react-native';
+import { Brain, ChevronDown, ChevronRight, Copy, Search } from 'lucide-react-native';
+import {
+  formatReasoningDuration,
+  getReasoningDurationMs,
+  segmentReasoningSteps,
+} from '@/lib/utils/reasoningTrace';
+
+interface ReasoningTraceSectionProps {
+  content?: string;
+  metadata?: any; // Message reasoningMetadata
+  isStreaming?: boolean;
+}
+
+// Split text around case-insensitive matches of the query
+const highlightMatches = (text: string, query: string) => {
+  if (!query) return text;
+
+  const parts: React.ReactNode[] = [];
+  const lowerText = text.toLowerCase();
+  const lowerQuery = query.toLowerCase();
+  let index = 0;
+
+  while (index < text.length) {
+    const match = lowerText.indexOf(lowerQuery, index);
+    if (match === -1) {
+      parts.push(text.slice(index));
+      break;
+    }
+    if (match > index) parts.push(text.slice(index, match));
+    parts.push(
+      <Text key={match} style={styles.highlight}>{text.slice(match, match + query.length)}</Text>
+    );
+    index = match + query.length;
+  }
+
+  return parts;
+};
+
+// Collapsible "Thought for Ns" section with the model's reasoning, split into steps
+const ReasoningTraceSection = memo(function ReasoningTraceSection({
+  content,
+  metadata,
+  isStreaming = false,
+}: ReasoningTraceSectionProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [query, setQuery] = useState('');
+
+  const steps = useMemo(
+    () => (isExpanded && content ? segmentReasoningSteps(content, metadata?.phases) : []),
+    [isExpanded, content, metadata?.phases]
+  );
+
+  if (!content?.trim()) {
+    return null;
+  }
+
+  const trimmedQuery = query.trim();
+  const visibleSteps = trimmedQuery
+    ? steps.filter(step =>
+        `${step.title || ''}\n${step.content}`.toLowerCase().includes(trimmedQuery.toLowerCase())
+      )
+    : steps;
+
+  const isThinking = isStreaming && !metadata?.completedAt;
+  const label = isThinking ? 'Thinking…' : formatReasoningDuration(getReasoningDurationMs(metadata));
+
+  const handleCopy = () => {
+    // The share sheet's Copy action puts the trace on the clipboard
+    Share.share({ message: content });
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setIsExpanded(!isExpanded)}
+        activeOpacity={0.7}
+      >
+        <Brain size={14} color="#a78bfa" />
+        <Text style={styles.title}>{label}</Text>
+        {isExpanded ? (
+          <ChevronDown size={16} color="#94a3b8" />
+        ) : (
+          <ChevronRight size={16} color="#94a3b8" />
+        )}
+      </TouchableOpacity>
+
+      {isExpanded && (
+        <View style={styles.body}>
+          <View style={styles.toolbar}>
+            <View style={styles.searchField}>
+              <Search size={14} color="#6b7280" />
+              <TextInput
+                style={styles.searchInput}
+                value={query}
+                onChangeText={setQuery}
+                placeholder="Search reasoning"
+                placeholderTextColor="#6b7280"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+            <TouchableOpacity onPress={handleCopy} style={styles.copyButton} accessibilityLabel="Copy reasoning">
+              <Copy size={14} color="#9ca3af" />
+            </TouchableOpacity>
+          </View>
+
+          {visibleSteps.length === 0 ? (
+            <Text style={styles.emptyText}>No steps match "{trimmedQuery}"</Text>
+          ) : (
+            visibleSteps.map((step, index) => (
+              <View key={index} style={styles.step}>
+                <Text style={styles.stepNumber}>{steps.indexOf(step) + 1}</Text>
+                <View style={styles.stepBody}>
+                  {step.title && (
+                    <Text style={styles.stepTitle}>{highlightMatches(step.title, trimmedQuery)}</Text>
+                  )}
+                  {!!step.content && (
+                    <Text style={styles.stepText}>{highlightMatches(step.content, trimmedQuery)}</Text>
+                  )}
+                </View>
+              </View>
+            ))
+          )}
+        </View>
+      )}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(167, 139, 250, 0.2)',
+    backgroundColor: 'rgba(167, 139, 250, 0.06)',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  title: {
+    flex: 1,
+    color: '#c4b5fd',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  body: {
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  searchField: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  searchInput: {
+    flex: 1,
+    color: '#e5e7eb',
+    fontSize: 13,
+    paddingVertical: 6,
+  },
+  copyButton: {
+    padding: 6,
+  },
+  emptyText: {
+    color: '#6b7280',
+    fontSize: 13,
+    paddingVertical: 4,
+  },
+  step: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingVertical: 6,
+  },
+  stepNumber: {
+    width: 18,
+    color: '#8b5cf6',
+    fontSize: 12,
+    fontWeight: '600',
+    lineHeight: 19,
+  },
+  stepBody: {
+    flex: 1,
+  },
+  stepTitle: {
+    color: '#e2e8f0',
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  stepText: {
+    color: '#cbd5e1',
+    fontSize: 13,
+    lineHeight: 19,
+  },
+  highlight: {
+    backgroundColor: 'rgba(250, 204, 21, 0.35)',
+    color: '#ffffff',
+  },
+});
+
+export default ReasoningTraceSection;
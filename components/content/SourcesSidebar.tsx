@@ -69,6 +69,7 @@ const SourceItem = memo(function SourceItem({
   const domain = extractDomain(source.url);
   const faviconUrl = getFaviconUrl(source.url);
   const fallbackStyle = getRandomGradient(index);
+  const isReadPage = source.metadata?.type === 'read_url';
 
   const handlePress = useCallback(async () => {
     try {
@@ -112,6 +113,11 @@ const SourceItem = memo(function SourceItem({
           </Text>
           <Text style={styles.sourceDomain} numberOfLines={1}>
             {domain}
+            {isReadPage && (
+              <Text style={styles.readPageLabel}>
+                {' · Read page'}{source.metadata?.wordCount ? ` · ${source.metadata.wordCount.toLocaleString()} words` : ''}
+              </Text>
+            )}
           </Text>
         </View>
         
@@ -300,6 +306,9 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     fontWeight: '500',
   },
+  readPageLabel: {
+    color: '#8b5cf6',
+  },
   sourceDescription: {
     fontSize: 14,
     color: '#4b5563',
@@ -0,0 +1,40 @@
+import React, { memo, useMemo, useRef } from 'react';
+import { View } from 'react-native';
+import Markdown from 'react-native-markdown-display';
+import { MarkdownBlocks, splitMarkdownBlocks } from '@/lib/utils/markdownBlocks';
+
+interface StreamingMarkdownProps {
+  content: string;
+  style?: any;
+}
+
+const MarkdownBlock = memo(function MarkdownBlock({ content, style }: { content: string; style?: any }) {
+  return <Markdown style={style}>{content}</Markdown>;
+});
+
+// Renders markdown block by block so a streaming delta only re-parses the
+// block still being written; completed blocks are memoized
+const StreamingMarkdown = memo(function StreamingMarkdown({ content, style }: StreamingMarkdownProps) {
+  const blocksRef = useRef<MarkdownBlocks | undefined>(undefined);
+
+  const { blocks, offset } = useMemo(() => {
+    blocksRef.current = splitMarkdownBlocks(content || '', blocksRef.current);
+    return blocksRef.current;
+  }, [content]);
+
+  const openBlock = (content || '').slice(offset);
+
+  return (
+    <View>
+      {blocks.map((block, index) => (
+        <MarkdownBlock key={index} content={block} style={style} />
+      ))}
+      {openBlock.length > 0 && (
+        // Same key it will have once completed, so it updates in place
+        <MarkdownBlock key={blocks.length} content={openBlock} style={style} />
+      )}
+    </View>
+  );
+});
+
+export default StreamingMarkdown;
@@ -0,0 +1,254 @@
+import React, { memo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Share, Platform } from 'react-native';
+import { Braces, ChevronDown, ChevronRight, Copy } from 'lucide-react-native';
+import { StructuredOutputResult } from '@/lib/utils/structuredOutput';
+
+interface StructuredOutputCardProps {
+  result: StructuredOutputResult;
+}
+
+// Columns shown when an array of objects is rendered as a table
+const MAX_TABLE_COLUMNS = 8;
+
+const MONO_FONT = Platform.OS === 'ios' ? 'Menlo' : 'monospace';
+
+const isPlainObject = (value: any) =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const formatCell = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const getTableColumns = (rows: any[]): string[] | null => {
+  if (rows.length === 0 || !rows.every(isPlainObject)) return null;
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  return columns.slice(0, MAX_TABLE_COLUMNS);
+};
+
+const DataTable = ({ rows, columns }: { rows: any[]; columns: string[] }) => (
+  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+    <View>
+      <View style={[styles.tableRow, styles.tableHeaderRow]}>
+        {columns.map(column => (
+          <Text key={column} style={[styles.tableCell, styles.tableHeaderCell]} numberOfLines={1}>
+            {column}
+          </Text>
+        ))}
+      </View>
+      {rows.map((row, index) => (
+        <View key={index} style={styles.tableRow}>
+          {columns.map(column => (
+            <Text key={column} style={styles.tableCell} numberOfLines={2}>
+              {formatCell(row[column])}
+            </Text>
+          ))}
+        </View>
+      ))}
+    </View>
+  </ScrollView>
+);
+
+const ValueText = ({ value }: { value: any }) => {
+  const style =
+    typeof value === 'string' ? styles.stringValue :
+    typeof value === 'number' ? styles.numberValue :
+    styles.literalValue;
+  return <Text style={style}>{typeof value === 'string' ? `"${value}"` : String(value)}</Text>;
+};
+
+// Collapsible JSON tree; top levels start expanded
+const TreeNode = ({ label, value, depth }: { label?: string; value: any; depth: number }) => {
+  const [isExpanded, setIsExpanded] = useState(depth < 2);
+  const isContainer = value !== null && typeof value === 'object';
+
+  if (!isContainer) {
+    return (
+      <View style={[styles.treeRow, { paddingLeft: depth * 12 + 16 }]}>
+        {label !== undefined && <Text style={styles.treeKey}>{label}: </Text>}
+        <ValueText value={value} />
+      </View>
+    );
+  }
+
+  const entries: Array<[string, any]> = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item])
+    : Object.entries(value);
+  const summary = Array.isArray(value) ? `[${value.length}]` : `{${entries.length}}`;
+
+  return (
+    <View>
+      <TouchableOpacity
+        style={[styles.treeRow, { paddingLeft: depth * 12 }]}
+        onPress={() => setIsExpanded(!isExpanded)}
+        activeOpacity={0.7}
+      >
+        {isExpanded ? (
+          <ChevronDown size={14} color="#94a3b8" />
+        ) : (
+          <ChevronRight size={14} color="#94a3b8" />
+        )}
+        {label !== undefined && <Text style={styles.treeKey}>{label}: </Text>}
+        <Text style={styles.treeSummary}>{summary}</Text>
+      </TouchableOpacity>
+      {isExpanded && entries.map(([key, child]) => (
+        <TreeNode key={key} label={key} value={child} depth={depth + 1} />
+      ))}
+    </View>
+  );
+};
+
+// Data card for a structured (JSON-schema) response
+const StructuredOutputCard = memo(function StructuredOutputCard({ result }: StructuredOutputCardProps) {
+  const { data, status, errors } = result;
+  const columns = Array.isArray(data) ? getTableColumns(data) : null;
+
+  const handleCopy = () => {
+    // The share sheet's Copy action puts the JSON on the clipboard
+    Share.share({ message: JSON.stringify(data, null, 2) });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Braces size={14} color="#94a3b8" />
+        <Text style={styles.title} numberOfLines={1}>{result.name}</Text>
+        {status === 'streaming' && <Text style={styles.statusText}>Receiving…</Text>}
+        {status === 'repaired' && <Text style={[styles.statusText, styles.repairedStatus]}>Repaired</Text>}
+        {status === 'invalid' && <Text style={[styles.statusText, styles.invalidStatus]}>Doesn't match schema</Text>}
+        {status !== 'streaming' && data !== null && (
+          <TouchableOpacity onPress={handleCopy} style={styles.copyButton} accessibilityLabel="Copy as JSON">
+            <Copy size={14} color="#9ca3af" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.body}>
+        {data === null ? (
+          <Text style={styles.emptyText}>No data</Text>
+        ) : columns ? (
+          <DataTable rows={data} columns={columns} />
+        ) : (
+          <TreeNode value={data} depth={0} />
+        )}
+      </View>
+
+      {status === 'invalid' && errors.length > 0 && (
+        <View style={styles.errors}>
+          {errors.slice(0, 3).map(error => (
+            <Text key={error} style={styles.errorText}>{error}</Text>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(148, 163, 184, 0.2)',
+    backgroundColor: 'rgba(148, 163, 184, 0.08)',
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(148, 163, 184, 0.2)',
+  },
+  title: {
+    flex: 1,
+    color: '#e2e8f0',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  statusText: {
+    fontSize: 12,
+    color: '#94a3b8',
+  },
+  repairedStatus: {
+    color: '#f59e0b',
+  },
+  invalidStatus: {
+    color: '#ef4444',
+  },
+  copyButton: {
+    padding: 4,
+  },
+  body: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  emptyText: {
+    color: '#6b7280',
+    fontSize: 13,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(148, 163, 184, 0.12)',
+  },
+  tableHeaderRow: {
+    borderBottomColor: 'rgba(148, 163, 184, 0.3)',
+  },
+  tableCell: {
+    width: 120,
+    paddingVertical: 6,
+    paddingRight: 12,
+    color: '#e2e8f0',
+    fontSize: 13,
+  },
+  tableHeaderCell: {
+    color: '#94a3b8',
+    fontWeight: '600',
+  },
+  treeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 3,
+    flexWrap: 'wrap',
+  },
+  treeKey: {
+    color: '#93c5fd',
+    fontSize: 13,
+    fontFamily: MONO_FONT,
+  },
+  treeSummary: {
+    color: '#94a3b8',
+    fontSize: 13,
+    fontFamily: MONO_FONT,
+  },
+  stringValue: {
+    color: '#86efac',
+    fontSize: 13,
+    fontFamily: MONO_FONT,
+  },
+  numberValue: {
+    color: '#fcd34d',
+    fontSize: 13,
+    fontFamily: MONO_FONT,
+  },
+  literalValue: {
+    color: '#c4b5fd',
+    fontSize: 13,
+    fontFamily: MONO_FONT,
+  },
+  errors: {
+    paddingHorizontal: 12,
+    paddingBottom: 10,
+    gap: 2,
+  },
+  errorText: {
+    color: '#fca5a5',
+    fontSize: 12,
+  },
+});
+
+export default StructuredOutputCard;
@@ -92,6 +92,15 @@ const ToolSkeletons = memo(function ToolSkeletons({
     );
   };
 
+  const isUrlReaderTool = (toolName?: string) => {
+    if (!toolName) return false;
+    return (
+      toolName === 'read_url' ||
+      toolName === 'fetch_url' ||
+      toolName === 'browse'
+    );
+  };
+
   const isCodeInterpreterTool = (toolName?: string) => {
     if (!toolName) return false;
     return (
@@ -107,7 +116,7 @@ const ToolSkeletons = memo(function ToolSkeletons({
   );
 
   const hasWebSearchTool = toolCalls.some((call) =>
-    isWebSearchTool(call.function?.name || call.name)
+    isWebSearchTool(call.function?.name || call.name) || isUrlReaderTool(call.function?.name || call.name)
   );
 
   const hasCodeInterpreterTool = toolCalls.some((call) =>
@@ -116,7 +125,8 @@ const ToolSkeletons = memo(function ToolSkeletons({
 
   // Check if current streaming tool matches specific types
   const isCurrentImageGenerationTool = currentToolCallName && isImageGenerationTool(currentToolCallName);
-  const isCurrentWebSearchTool = currentToolCallName && isWebSearchTool(currentToolCallName);
+  const isCurrentWebSearchTool = currentToolCallName &&
+    (isWebSearchTool(currentToolCallName) || isUrlReaderTool(currentToolCallName));
   const isCurrentCodeInterpreterTool = currentToolCallName && isCodeInterpreterTool(currentToolCallName);
 
   // Helper function to get tool text
@@ -129,6 +139,9 @@ const ToolSkeletons = memo(function ToolSkeletons({
     if (isWebSearchTool(toolName)) {
       return 'Searching Web...';
     }
+    if (isUrlReaderTool(toolName)) {
+      return 'Reading Page...';
+    }
     if (isCodeInterpreterTool(toolName)) {
       return 'Executing Code...';
     }
@@ -176,7 +189,7 @@ const ToolSkeletons = memo(function ToolSkeletons({
     );
   }
 
-  // Code Interpreter Skeleton (when tool call has completed and has results)
+  // Code Interpreter (output streams into the execution card below)
   if (
     (hasCodeInterpreterTool && effectiveIsStreaming && isCurrentStreamingMessage) ||
     (isCurrentCodeInterpreterTool && effectiveIsStreaming && isCurrentStreamingMessage && hasCodeInterpreterTool)
@@ -184,7 +197,6 @@ const ToolSkeletons = memo(function ToolSkeletons({
     return (
       <View style={styles.container}>
         <ShimmerText text={getToolText(currentToolCallName)} />
-        <SourcesAvatarsSkeleton />
       </View>
     );
   }
@@ -16,6 +16,8 @@ import {
   Share,
   Check,
   MoreHorizontal,
+  Pin,
+  PinOff,
 } from 'lucide-react-native';
 import { supabase } from '../../lib/supabase';
 import SourcesAvatars from '../content/SourcesAvatars';
@@ -33,6 +35,8 @@ interface ActionButtonsProps {
   content: string;
   handleModelSwitchAndRerun?: () => Promise<void>;
   handleShareClick?: () => void;
+  isPinned?: boolean;
+  onTogglePin?: () => void; // Pinned messages are kept when the history is trimmed
   firecrawlSearchData?: any;
   onSourcesClick?: (sources: any) => void;
   hasFileAttachments?: boolean;
@@ -58,6 +62,8 @@ const ActionButtons = memo(({
   content,
   handleModelSwitchAndRerun,
   handleShareClick,
+  isPinned = false,
+  onTogglePin,
   firecrawlSearchData,
   onSourcesClick,
   hasFileAttachments = false,
@@ -288,6 +294,21 @@ const ActionButtons = memo(({
             </TouchableOpacity>
           )}
 
+          {/* Pin Button */}
+          {onTogglePin && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={onTogglePin}
+              accessibilityLabel={isPinned ? "Unpin message" : "Pin message"}
+            >
+              {isPinned ? (
+                <PinOff size={14} color="#9ca3af" />
+              ) : (
+                <Pin size={14} color="#9ca3af" />
+              )}
+            </TouchableOpacity>
+          )}
+
           {/* Model Switch & Rerun Button (only if no file attachments) */}
           {!hasFileAttachments && !dalleImageData && handleModelSwitchAndRerun && (
             <TouchableOpacity
@@ -388,6 +409,21 @@ const ActionButtons = memo(({
           )}
         </TouchableOpacity>
 
+        {/* Pin Button */}
+        {onTogglePin && (
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={onTogglePin}
+            accessibilityLabel={isPinned ? "Unpin message" : "Pin message"}
+          >
+            {isPinned ? (
+              <PinOff size={14} color="#9ca3af" />
+            ) : (
+              <Pin size={14} color="#9ca3af" />
+            )}
+          </TouchableOpacity>
+        )}
+
         {/* Tool Data Buttons */}
         {effectiveFirecrawlData && onSourcesClick ? (
           <>
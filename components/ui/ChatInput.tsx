@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -28,6 +28,9 @@ import {
   Download,
   Upload,
   Edit3,
+  Server,
+  Terminal,
+  Braces,
 } from 'lucide-react-native';
 import * as ImagePicker from 'expo-image-picker';
 import * as MediaLibrary from 'expo-media-library';
@@ -38,6 +41,9 @@ import ImageModelSelector from './ImageModelSelector';
 import ImageStyleSelector, { ImageStyle, IMAGE_STYLES } from './ImageStyleSelector';
 import { AVAILABLE_IMAGE_MODELS, DEFAULT_IMAGE_MODEL, ImageModelInfo } from '@/constants/ImageModels';
 import { editImage, supportsImageEditing } from '@/lib/services/imageEditingService';
+import { getModelCapabilities } from '@/constants/ModelCapabilities';
+import { getModelInfo } from '@/constants/Models';
+import { StructuredOutputSchema, parseResponseFormat } from '@/lib/utils/structuredOutput';
 import {
   ClaudeIcon,
   CohereIcon,
@@ -79,6 +85,8 @@ const getImageModelIcon = (provider: string, size: number = 12) => {
       return <PerplexityIcon size={size} />;
     case 'openrouter':
       return <OpenRouterIcon size={size} color="#ffffff" />;
+    case 'custom':
+      return <Server size={size} color="#ffffff" />;
     case 'flux':
       return <FluxIcon size={size} color="#ffffff" />;
     default:
@@ -196,7 +204,12 @@ const getFileTypeLabel = (filename: string) => {
 };
 
 interface ChatInputProps {
-  onSendMessage: (content: string, files?: any[], toolChoice?: { toolId: string; toolName: string } | null) => void;
+  onSendMessage: (
+    content: string,
+    files?: any[],
+    toolChoice?: { toolId: string; toolName: string } | null,
+    responseSchema?: StructuredOutputSchema // Answer only this turn with JSON matching the schema
+  ) => void;
   placeholder?: string;
   disabled?: boolean;
   isLoading?: boolean;
@@ -207,6 +220,7 @@ interface ChatInputProps {
   onStopGeneration?: () => void;
   showAdvancedFeatures?: boolean;
   maxLength?: number;
+  model?: string; // Chat model; tools and attachments it can't take are blocked
 }
 
 interface RecentPhoto {
@@ -222,6 +236,7 @@ interface Tool {
   title: string;
   icon: React.ComponentType<any>;
   onPress: () => void;
+  unavailableReason?: string; // Set when the current model can't use this tool
 }
 
 
@@ -238,6 +253,7 @@ export default function ChatInput({
   onStopGeneration,
   showAdvancedFeatures = true,
   maxLength = 4000,
+  model,
 }: ChatInputProps) {
   const [inputText, setInputText] = useState('');
   const [showBottomSheet, setShowBottomSheet] = useState(false);
@@ -247,6 +263,9 @@ export default function ChatInput({
   const [isEditingImage, setIsEditingImage] = useState(false);
   const [showImageModelModal, setShowImageModelModal] = useState(false);
   const [showStyleModal, setShowStyleModal] = useState(false);
+  const [responseSchema, setResponseSchema] = useState<StructuredOutputSchema | null>(null);
+  const [showSchemaModal, setShowSchemaModal] = useState(false);
+  const [schemaDraft, setSchemaDraft] = useState('');
   const [slideAnimation] = useState(new Animated.Value(0));
 
   // File upload hook
@@ -262,8 +281,21 @@ export default function ChatInput({
     clearFiles
   } = useFileUpload(threadId, workspaceId);
 
-  const effectiveDisabled = disabled || !isConnected;
-  const effectivePlaceholder = !isConnected ? "Connecting..." : placeholder;
+  const capabilities = useMemo(() => getModelCapabilities(model || ''), [model]);
+  const modelName = (model && getModelInfo(model)?.name) || 'This model';
+
+  // Drop a tool the newly selected model can't call
+  useEffect(() => {
+    if (!capabilities.tools && selectedTool) {
+      setSelectedTool(null);
+      setSelectedImageStyle(null);
+    }
+  }, [capabilities.tools, selectedTool]);
+
+  // Offline turns go to the outbox, but new uploads still need a connection
+  const effectiveDisabled = disabled;
+  const attachmentsDisabled = disabled || !isConnected;
+  const effectivePlaceholder = !isConnected ? "Offline - messages will send later" : placeholder;
 
 
 
@@ -280,6 +312,11 @@ export default function ChatInput({
     
     let messageContent = inputText.trim();
     const attachedFiles = files.filter(f => f.status === 'completed');
+
+    if (attachedFiles.some(f => f.isImage) && !capabilities.vision) {
+      Alert.alert('Images Not Supported', `${modelName} can't read images. Remove the image or switch to a model with vision.`);
+      return;
+    }
     
     // If image generation is selected, enhance the message with style and model info
     if (selectedTool?.toolId === 'create-image') {
@@ -304,18 +341,36 @@ export default function ChatInput({
       clearFiles();
       
       // Send the message with enhanced tool information
-      onSendMessage(messageContent, attachedFiles, enhancedTool);
+      onSendMessage(messageContent, attachedFiles, enhancedTool, responseSchema || undefined);
     } else {
     setInputText('');
     clearFiles();
     
       // Send the message with regular tool choice
-    onSendMessage(messageContent, attachedFiles, selectedTool);
+    onSendMessage(messageContent, attachedFiles, selectedTool, responseSchema || undefined);
     }
     
-    // Clear tool selection after sending
+    // Clear tool selection and the one-turn schema after sending
     setSelectedTool(null);
     setSelectedImageStyle(null);
+    setResponseSchema(null);
+  };
+
+  const openSchemaEditor = () => {
+    hideBottomSheet();
+    setSchemaDraft(responseSchema ? JSON.stringify(responseSchema.schema, null, 2) : '');
+    setShowSchemaModal(true);
+  };
+
+  // Accepts a bare JSON schema or a json_schema response_format, like assistant settings
+  const applySchemaDraft = () => {
+    const schema = parseResponseFormat(schemaDraft.trim());
+    if (!schema) {
+      Alert.alert('Invalid Schema', 'Paste a JSON schema of type "object" or a json_schema response format.');
+      return;
+    }
+    setResponseSchema(schema);
+    setShowSchemaModal(false);
   };
 
   const handleSubmitEditing = () => {
@@ -452,7 +507,8 @@ export default function ChatInput({
       id: 'create-image',
       title: 'Create image',
       icon: Palette,
-      onPress: () => toggleTool('create-image', 'Create image')
+      onPress: () => toggleTool('create-image', 'Create image'),
+      unavailableReason: capabilities.tools ? undefined : `${modelName} doesn't support tools.`
     },
     {
       id: 'edit-image',
@@ -464,7 +520,21 @@ export default function ChatInput({
       id: 'web-search',
       title: 'Web search',
       icon: Search,
-      onPress: () => toggleTool('web-search', 'Web search')
+      onPress: () => toggleTool('web-search', 'Web search'),
+      unavailableReason: capabilities.tools ? undefined : `${modelName} doesn't support tools.`
+    },
+    {
+      id: 'code-interpreter',
+      title: 'Run code',
+      icon: Terminal,
+      onPress: () => toggleTool('code-interpreter', 'Run code'),
+      unavailableReason: capabilities.tools ? undefined : `${modelName} doesn't support tools.`
+    },
+    {
+      id: 'json-output',
+      title: 'JSON output',
+      icon: Braces,
+      onPress: openSchemaEditor
     },
     {
       id: 'add-files',
@@ -479,7 +549,7 @@ export default function ChatInput({
           'Add Files',
           'What would you like to add?',
           [
-            {
+            ...(capabilities.fileSearch ? [{
               text: 'Documents',
               onPress: async () => {
                 try {
@@ -491,8 +561,8 @@ export default function ChatInput({
                   Alert.alert('File Picker Error', 'Failed to open file picker. Please try again.');
                 }
               }
-            },
-            {
+            }] : []),
+            ...(capabilities.vision ? [{
               text: 'Photos',
               onPress: async () => {
                 try {
@@ -504,24 +574,28 @@ export default function ChatInput({
                   Alert.alert('Photo Picker Error', 'Failed to open photo picker. Please try again.');
                 }
               }
-            },
+            }] : []),
             {
               text: 'Cancel',
-              style: 'cancel'
+              style: 'cancel' as const
             }
           ]
         );
-      }
+      },
+      unavailableReason: capabilities.fileSearch || capabilities.vision
+        ? undefined
+        : `${modelName} doesn't accept file or image attachments.`
     },
   ];
 
 
 
   const renderToolItem = (tool: Tool) => {
-    const isSelected = selectedTool?.toolId === tool.id;
-    const isToggleTool = tool.id === 'create-image' || tool.id === 'web-search';
+    const isSelected = selectedTool?.toolId === tool.id || (tool.id === 'json-output' && !!responseSchema);
+    const isToggleTool = tool.id === 'create-image' || tool.id === 'web-search' || tool.id === 'code-interpreter';
     const isEditImageTool = tool.id === 'edit-image';
     const isLoading = isEditImageTool && isEditingImage;
+    const isUnavailable = !!tool.unavailableReason;
     
     return (
       <TouchableOpacity
@@ -529,9 +603,11 @@ export default function ChatInput({
         style={[
           styles.toolItem,
           isSelected && styles.toolItemSelected,
-          isLoading && styles.toolItemLoading
+          (isLoading || isUnavailable) && styles.toolItemLoading
         ]}
-        onPress={isLoading ? undefined : tool.onPress}
+        onPress={isLoading ? undefined : isUnavailable
+          ? () => Alert.alert('Not Available', tool.unavailableReason)
+          : tool.onPress}
         disabled={isLoading}
       >
         <View style={[styles.toolIcon, isSelected && styles.toolIconSelected]}>
@@ -613,6 +689,47 @@ export default function ChatInput({
     </Modal>
   );
 
+  const renderSchemaEditor = () => (
+    <Modal
+      visible={showSchemaModal}
+      transparent
+      animationType="fade"
+      onRequestClose={() => setShowSchemaModal(false)}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modelSelectorContainer}>
+          <Text style={styles.modelSelectorTitle}>JSON Output</Text>
+          <Text style={styles.schemaHint}>
+            The next message is answered with JSON matching this schema.
+          </Text>
+          <TextInput
+            style={styles.schemaInput}
+            value={schemaDraft}
+            onChangeText={setSchemaDraft}
+            placeholder={'{\n  "type": "object",\n  "properties": { ... }\n}'}
+            placeholderTextColor="#6b7280"
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            textAlignVertical="top"
+          />
+          <View style={styles.schemaActions}>
+            <TouchableOpacity style={styles.schemaButton} onPress={() => setShowSchemaModal(false)}>
+              <Text style={styles.schemaButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.schemaButton, styles.schemaButtonPrimary]}
+              onPress={applySchemaDraft}
+              disabled={!schemaDraft.trim()}
+            >
+              <Text style={styles.schemaButtonText}>Use Schema</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+
   const renderStyleSelector = () => (
     <Modal
       visible={showStyleModal}
@@ -813,6 +930,24 @@ export default function ChatInput({
           </View>
         )}
 
+        {/* Response Schema Indicator */}
+        {responseSchema && (
+          <View style={styles.selectedToolContainer}>
+            <View style={styles.selectedToolsRow}>
+              <TouchableOpacity style={styles.selectedToolChip} onPress={openSchemaEditor}>
+                <Braces size={14} color="#a855f7" style={styles.schemaChipIcon} />
+                <Text style={styles.selectedToolText}>JSON: {responseSchema.name}</Text>
+                <TouchableOpacity
+                  style={styles.selectedToolClear}
+                  onPress={() => setResponseSchema(null)}
+                >
+                  <Text style={styles.selectedToolClearText}>×</Text>
+                </TouchableOpacity>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
         {/* Input Container */}
         <View style={styles.inputWrapper}>
           <TextInput
@@ -831,11 +966,11 @@ export default function ChatInput({
           
           <View style={styles.buttonRow}>
             <TouchableOpacity 
-              style={[styles.plusButton, effectiveDisabled && styles.disabledButton]}
+              style={[styles.plusButton, attachmentsDisabled && styles.disabledButton]}
               onPress={handlePlusPress}
-              disabled={effectiveDisabled}
+              disabled={attachmentsDisabled}
             >
-              <Plus size={20} color={effectiveDisabled ? Colors.textSecondary : "#ffffff"} />
+              <Plus size={20} color={attachmentsDisabled ? Colors.textSecondary : "#ffffff"} />
             </TouchableOpacity>
             
             <TouchableOpacity 
@@ -887,16 +1022,22 @@ export default function ChatInput({
               {/* Handle */}
               <View style={styles.handle} />
 
-              {/* Photos Section */}
-              <PhotoSelector
-                onPhotoSelect={handlePhotoSelect}
-                onCameraPress={async () => {
-                         hideBottomSheet();
-                  await captureImage();
-                }}
-                onShowAllPress={handleShowAllPhotos}
-                maxPhotos={8}
-              />
+              {/* Photos Section - only for models that can see images */}
+              {capabilities.vision ? (
+                <PhotoSelector
+                  onPhotoSelect={handlePhotoSelect}
+                  onCameraPress={async () => {
+                           hideBottomSheet();
+                    await captureImage();
+                  }}
+                  onShowAllPress={handleShowAllPhotos}
+                  maxPhotos={8}
+                />
+              ) : (
+                <Text style={styles.photosUnavailableText}>
+                  {modelName} can't read images. Switch models to attach photos.
+                </Text>
+              )}
 
               {/* Tools Section */}
               <View style={styles.toolsSection}>
@@ -912,6 +1053,9 @@ export default function ChatInput({
 
       {/* Style Selection Modal */}
       {renderStyleSelector()}
+
+      {/* Response Schema Modal */}
+      {renderSchemaEditor()}
     </>
   );
 }
@@ -1231,6 +1375,13 @@ const styles = StyleSheet.create({
   toolItemLoading: {
     opacity: 0.6,
   },
+  photosUnavailableText: {
+    color: '#9ca3af',
+    fontSize: 13,
+    textAlign: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
   selectedToolsRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1369,5 +1520,45 @@ const styles = StyleSheet.create({
     height: '100%',
     borderRadius: 18,
   },
+  schemaChipIcon: {
+    marginRight: 8,
+  },
+  schemaHint: {
+    color: '#9ca3af',
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  schemaInput: {
+    minHeight: 160,
+    maxHeight: 300,
+    backgroundColor: '#262626',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#525252',
+    padding: 12,
+    color: '#ffffff',
+    fontSize: 13,
+    fontFamily: 'monospace',
+  },
+  schemaActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  schemaButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    backgroundColor: '#525252',
+  },
+  schemaButtonPrimary: {
+    backgroundColor: '#9333ea',
+  },
+  schemaButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '500',
+  },
 
 }); 
\ No newline at end of file
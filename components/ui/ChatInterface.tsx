@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -15,7 +15,6 @@ import {
   FlatList,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import Markdown from 'react-native-markdown-display';
 import {
   Menu,
   ChevronDown,
@@ -29,9 +28,17 @@ import {
   Bot,
   Check,
   X,
+  Clock,
+  ChevronLeft,
+  ChevronRight,
+  Server,
+  Square,
+  Play,
 } from 'lucide-react-native';
 import { Colors, Gradients } from '@/constants/Colors';
-import { useChat } from '@/hooks/useChat';
+import { useChat, MAX_COMPARE_MODELS } from '@/hooks/useChat';
+import { useModelCatalog } from '@/hooks/useModelCatalog';
+import { useChatPreferences } from '@/hooks/useChatPreferences';
 import { useAssistantStore } from '@/lib/assistantStore';
 import { OpenAIService } from '@/lib/openai';
 import { useFileUpload } from '@/lib/content';
@@ -54,12 +61,20 @@ import { ActionButtons } from '@/components/ui/ActionButtons';
 import { ProviderAvatar } from '@/components/ui/ProviderAvatar';
 import ChatInput from '@/components/ui/ChatInput';
 import { ALL_MODELS, MODEL_CATEGORY_COLORS, ModelInfo } from '@/constants/Models';
-import { extractToolData, extractSpecificToolData } from '@/lib/utils/toolDataExtractors';
+import { extractToolData, extractSpecificToolData, extractCodeExecutions } from '@/lib/utils/toolDataExtractors';
 import { processMessages, shouldRenderMessage } from '@/lib/utils/messageProcessor';
 import ImagePreview from '@/components/content/ImagePreview';
 import ToolSkeletons from '@/components/content/ToolSkeletons';
 import SourcesAvatarsSkeleton from '@/components/content/SourcesAvatarsSkeleton';
 import ImageGenerationSkeleton from '@/components/content/ImageGenerationSkeleton';
+import AgentStepTimeline from '@/components/content/AgentStepTimeline';
+import ConversationSummaryHeader from '@/components/content/ConversationSummaryHeader';
+import StructuredOutputCard from '@/components/content/StructuredOutputCard';
+import { StructuredOutputSchema } from '@/lib/utils/structuredOutput';
+import StreamingMarkdown from '@/components/content/StreamingMarkdown';
+import ReasoningTraceSection from '@/components/content/ReasoningTraceSection';
+import ModelCompareView from '@/components/content/ModelCompareView';
+import CodeExecutionCard from '@/components/content/CodeExecutionCard';
 
 interface ChatInterfaceProps {
   onMenuPress: () => void;
@@ -72,6 +87,8 @@ interface ChatInterfaceProps {
   onThreadTitleUpdated?: (threadId: string, newTitle: string) => void;
   pendingMessage?: string | null;
   onPendingMessageSent?: () => void;
+  agentMode?: boolean; // Defaults to the Agent Mode setting
+  maxAgentSteps?: number; // Defaults to the agent step setting
 }
 
 interface ModelOption {
@@ -85,7 +102,7 @@ interface ModelOption {
   provider: string;
 }
 
-const modelOptions: ModelOption[] = ALL_MODELS.map((model: ModelInfo) => ({
+const toModelOption = (model: ModelInfo): ModelOption => ({
   id: model.id,
   name: model.name,
   version: model.version,
@@ -94,7 +111,10 @@ const modelOptions: ModelOption[] = ALL_MODELS.map((model: ModelInfo) => ({
   description: model.description,
   category: model.category,
   provider: model.provider,
-}));
+});
+
+// Stable reference so turning Model Fallback off doesn't recreate sendMessage every render
+const NO_FALLBACK_MODELS: string[] = [];
 
 const suggestionCards = [
   "Help me write a professional email",
@@ -208,11 +228,19 @@ export default function ChatInterface({
   workspaceId,
   onThreadTitleUpdated,
   pendingMessage,
-  onPendingMessageSent
+  onPendingMessageSent,
+  agentMode,
+  maxAgentSteps
 }: ChatInterfaceProps) {
-  const [selectedModel, setSelectedModel] = useState(modelOptions[0]);
+  const { models: catalogModels } = useModelCatalog();
+  const chatPreferences = useChatPreferences();
+  const modelOptions = useMemo(() => catalogModels.map(toModelOption), [catalogModels]);
+  const [selectedModel, setSelectedModel] = useState(() => toModelOption(ALL_MODELS[0]));
   const [showModelSelector, setShowModelSelector] = useState(false);
   const [showAssistantSelector, setShowAssistantSelector] = useState(false);
+  const [comparePrompt, setComparePrompt] = useState<string | null>(null); // Turn waiting for compare models to be chosen
+  const [compareModelIds, setCompareModelIds] = useState<string[]>([]);
+  const [editingMessage, setEditingMessage] = useState<{ id: string; content: string } | null>(null);
   const [activeMessageButtons, setActiveMessageButtons] = useState<string | null>(null);
   
   // Tool call state tracking (similar to web app's thread store)
@@ -248,11 +276,23 @@ export default function ChatInterface({
     streamingMessageId,
     sendMessage,
     stopGeneration,
+    continueMessage,
     switchModel,
+    threadSummary,
+    compareModels,
+    pickCompareWinner,
+    pinMessage,
+    editMessage,
+    getBranchInfo,
+    switchBranch,
   } = useChat({
     threadId,
     workspaceId,
     model: selectedModel.model,
+    agentMode: agentMode ?? chatPreferences.agentMode,
+    maxAgentSteps,
+    fallbackModels: chatPreferences.modelFallback ? undefined : NO_FALLBACK_MODELS,
+    fallbackChains: chatPreferences.fallbackChains,
     onError: (error) => {
       console.error('Chat error:', error);
     },
@@ -325,9 +365,25 @@ export default function ChatInterface({
 
   // Message action handlers
   const handleEditMessage = useCallback((messageId: string) => {
-    // TODO: Implement message editing functionality
-    Alert.alert('Edit Message', 'Message editing will be implemented in a future update');
-  }, []);
+    const message = messages.find(msg => msg.id === messageId);
+    if (message) {
+      setEditingMessage({ id: message.id, content: message.content });
+    }
+  }, [messages]);
+
+  const handleSubmitEdit = useCallback(async () => {
+    if (!editingMessage?.content.trim()) return;
+
+    const { id, content } = editingMessage;
+    setEditingMessage(null);
+    try {
+      // The edit becomes a new branch; the original stays one swipe of the < > away
+      await editMessage(id, content);
+    } catch (error) {
+      console.error('Error editing message:', error);
+      Alert.alert('Error', 'Failed to edit message');
+    }
+  }, [editingMessage, editMessage]);
 
   const handleModelRerun = useCallback(async (messageId: string, content: string) => {
     try {
@@ -335,16 +391,34 @@ export default function ChatInterface({
       const messageIndex = messages.findIndex(msg => msg.id === messageId);
       if (messageIndex === -1) return;
 
+      // Compare the user turn behind this message, not the assistant's answer
+      const promptMessage = messages
+        .slice(0, messageIndex + 1)
+        .reverse()
+        .find(msg => msg.role === 'user');
+
       Alert.alert(
         'Rerun with Model',
-        `Rerun this message with ${selectedModel.name}?`,
+        `Rerun this message with ${selectedModel.name}, or compare models side by side?`,
         [
           { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Compare models',
+            onPress: () => {
+              setCompareModelIds([selectedModel.model]);
+              setComparePrompt(promptMessage?.content || content);
+            }
+          },
           {
             text: 'Rerun',
             onPress: async () => {
               try {
-                await sendMessage(content);
+                // Answer the same turn again as a sibling branch
+                if (promptMessage) {
+                  await sendMessage(promptMessage.content, promptMessage.files, null, { rerunOf: promptMessage.id });
+                } else {
+                  await sendMessage(content);
+                }
               } catch (error) {
                 console.error('Error rerunning message:', error);
                 Alert.alert('Error', 'Failed to rerun message');
@@ -359,6 +433,27 @@ export default function ChatInterface({
     }
   }, [messages, selectedModel, sendMessage]);
 
+  const toggleCompareModel = useCallback((modelId: string) => {
+    setCompareModelIds(prev => {
+      if (prev.includes(modelId)) return prev.filter(id => id !== modelId);
+      if (prev.length >= MAX_COMPARE_MODELS) return prev;
+      return [...prev, modelId];
+    });
+  }, []);
+
+  const handleStartCompare = useCallback(async () => {
+    if (!comparePrompt || compareModelIds.length < 2) return;
+
+    const prompt = comparePrompt;
+    setComparePrompt(null);
+    try {
+      await compareModels(prompt, compareModelIds);
+    } catch (error) {
+      console.error('Error comparing models:', error);
+      Alert.alert('Error', 'Failed to compare models');
+    }
+  }, [comparePrompt, compareModelIds, compareModels]);
+
   const handleAssistantSelect = useCallback(async (assistant: any) => {
     try {
       console.log('🤖 [ChatInterface] Switching to assistant:', assistant.name);
@@ -426,8 +521,13 @@ export default function ChatInterface({
     Alert.alert('Canvas', 'Canvas view will be implemented in a future update');
   }, []);
 
-  const handleSendMessage = async (content: string, files?: any[], toolChoice?: { toolId: string; toolName: string } | null) => {
-    await sendMessage(content, files, toolChoice);
+  const handleSendMessage = async (
+    content: string,
+    files?: any[],
+    toolChoice?: { toolId: string; toolName: string } | null,
+    responseSchema?: StructuredOutputSchema
+  ) => {
+    await sendMessage(content, files, toolChoice, responseSchema ? { responseSchema } : {});
   };
 
   const handleSuggestionPress = (suggestion: string) => {
@@ -486,6 +586,8 @@ export default function ChatInterface({
         return <PerplexityIcon size={size} />;
       case 'openrouter':
         return <OpenRouterIcon size={size} color="#ffffff" />;
+      case 'custom':
+        return <Server size={size} color="#ffffff" />;
       case 'fal':
         return <FluxIcon size={size} color="#ffffff" />;
       case 'flux':
@@ -495,7 +597,8 @@ export default function ChatInterface({
     }
   };
 
-  const markdownStyles = {
+  // Memoized so completed markdown blocks don't re-render on every delta
+  const markdownStyles = useMemo(() => ({
     body: {
       color: '#ffffff',
       fontSize: 16,
@@ -591,6 +694,36 @@ export default function ChatInterface({
       marginVertical: 8,
       paddingLeft: 16,
     },
+  }), []);
+
+  // "< 2/3 >" switcher between edits or reruns of the same turn
+  const renderBranchNavigator = (message: any, isUser: boolean) => {
+    // Tool follow-up answers branch together with their tool call message
+    const anchorId = message.metadata?.isFollowUpContent && message.parentId ? message.parentId : message.id;
+    const branch = getBranchInfo(anchorId);
+    if (!branch || branch.count < 2) return null;
+
+    return (
+      <View style={[styles.branchNavigator, isUser && styles.userBranchNavigator]}>
+        <TouchableOpacity
+          onPress={() => switchBranch(anchorId, -1)}
+          disabled={branch.index === 0 || isLoading}
+          style={styles.branchNavigatorButton}
+          accessibilityLabel="Previous version"
+        >
+          <ChevronLeft size={14} color={branch.index === 0 ? '#4b5563' : '#9ca3af'} />
+        </TouchableOpacity>
+        <Text style={styles.branchNavigatorText}>{branch.index + 1}/{branch.count}</Text>
+        <TouchableOpacity
+          onPress={() => switchBranch(anchorId, 1)}
+          disabled={branch.index === branch.count - 1 || isLoading}
+          style={styles.branchNavigatorButton}
+          accessibilityLabel="Next version"
+        >
+          <ChevronRight size={14} color={branch.index === branch.count - 1 ? '#4b5563' : '#9ca3af'} />
+        </TouchableOpacity>
+      </View>
+    );
   };
 
   const renderMessage = (message: any, index: number) => {
@@ -670,6 +803,17 @@ export default function ChatInterface({
       }
     }
     
+    // Code interpreter runs, from this message or the hidden tool call message it follows
+    const toolCallSource = message.metadata?.toolCallMessageId
+      ? messages.find((m: any) => m.id === message.metadata.toolCallMessageId)
+      : undefined;
+    const codeExecutions = extractCodeExecutions([
+      ...(message.tool_calls || message.toolCalls || []),
+      ...(toolCallSource && !shouldRenderMessage(toolCallSource)
+        ? (toolCallSource as any).tool_calls || toolCallSource.toolCalls || []
+        : []),
+    ]);
+    
     // Get previous message tool data for action buttons
     const previousMessageToolData = currentProcessedMessage?.previousMessageToolData;
     const previousMessageHasToolCalls = previousMessageToolData?.hasToolCalls || false;
@@ -709,9 +853,56 @@ export default function ChatInterface({
             <View style={styles.assistantMessageContent}>
               {/* No background bubble for assistant messages - content renders directly */}
               <View style={styles.assistantMessageText}>
-                <Markdown style={markdownStyles}>
-                  {message.content}
-                </Markdown>
+                {/* Steps taken by the agent loop before (and while) answering */}
+                <AgentStepTimeline steps={message.metadata?.agentSteps} />
+
+                {/* Model reasoning, collapsed to "Thought for Ns" */}
+                <ReasoningTraceSection
+                  content={message.reasoningContent}
+                  metadata={message.reasoningMetadata}
+                  isStreaming={isStreaming}
+                />
+
+                {/* Compare runs show every model's answer until one is picked */}
+                {message.metadata?.compare && message.metadata.compare.winner === undefined ? (
+                  <ModelCompareView
+                    run={message.metadata.compare}
+                    markdownStyle={markdownStyles}
+                    onPick={(candidateIndex) => pickCompareWinner(message.id, candidateIndex)}
+                  />
+                ) : message.metadata?.structuredOutput &&
+                (message.metadata.structuredOutput.data !== null || message.metadata.structuredOutput.status === 'streaming') ? (
+                  <StructuredOutputCard result={message.metadata.structuredOutput} />
+                ) : (
+                  <StreamingMarkdown content={message.content} style={markdownStyles} />
+                )}
+
+                {/* Partial answer waiting for connectivity to resume */}
+                {message.messageStatus === 'interrupted' && (
+                  <View style={styles.interruptedNotice}>
+                    <WifiOff size={14} color="#f59e0b" />
+                    <Text style={styles.interruptedNoticeText}>
+                      Connection lost. This answer will resume when you're back online.
+                    </Text>
+                  </View>
+                )}
+
+                {/* Partial answer the user stopped */}
+                {message.messageStatus === 'stopped' && (
+                  <View style={styles.stoppedNotice}>
+                    <Square size={12} color="#9ca3af" />
+                    <Text style={styles.stoppedNoticeText}>Stopped</Text>
+                    <TouchableOpacity
+                      style={styles.continueButton}
+                      onPress={() => continueMessage(message.id)}
+                      disabled={isLoading}
+                      activeOpacity={0.7}
+                    >
+                      <Play size={12} color="#ffffff" />
+                      <Text style={styles.continueButtonText}>Continue</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
                 
                 {/* Tool Skeletons - Show during tool execution */}
                 <ToolSkeletons
@@ -724,6 +915,11 @@ export default function ChatInterface({
                   currentToolCallName={message.metadata?.currentToolCall || currentToolCallName || undefined}
                   currentMessageId={message.metadata?.toolCallInProgress ? message.id : (currentMessageId || undefined)}
                 />
+
+                {/* Code interpreter runs with their output and files */}
+                {codeExecutions.map(execution => (
+                  <CodeExecutionCard key={execution.id} execution={execution} />
+                ))}
                 
                 {/* Generated images for assistant messages */}
                 {finalImageData && (
@@ -736,6 +932,8 @@ export default function ChatInterface({
                 )}
               </View>
 
+              {!isStreaming && renderBranchNavigator(message, false)}
+
               {/* Action buttons for assistant messages */}
               <ActionButtons
                 isUser={false}
@@ -748,6 +946,8 @@ export default function ChatInterface({
                 content={message.content}
                 handleModelSwitchAndRerun={async () => await handleModelRerun(message.id, message.content)}
                 handleShareClick={() => handleShareMessage(message)}
+                isPinned={!!message.metadata?.pinned}
+                onTogglePin={() => pinMessage(message.id, !message.metadata?.pinned)}
                 firecrawlSearchData={firecrawlSearchData}
                 onSourcesClick={handleSourcesClick}
                 hasFileAttachments={hasFileAttachments}
@@ -783,14 +983,27 @@ export default function ChatInterface({
               </View>
             )}
 
-            <View style={styles.userMessageBubble}>
+            <View style={[
+              styles.userMessageBubble,
+              message.messageStatus === 'pending' && styles.pendingMessageBubble,
+            ]}>
               <Text style={styles.userMessageText}>
                 {message.content}
               </Text>
             </View>
 
+            {/* Queued offline - replayed from the outbox on reconnect */}
+            {message.messageStatus === 'pending' && (
+              <View style={styles.pendingNotice}>
+                <Clock size={12} color={Colors.textSecondary} />
+                <Text style={styles.pendingNoticeText}>Waiting for connection</Text>
+              </View>
+            )}
+
+            {message.messageStatus !== 'pending' && renderBranchNavigator(message, true)}
+
             {/* Action buttons for user messages */}
-            {!isStreaming && (
+            {!isStreaming && message.messageStatus !== 'pending' && (
               <ActionButtons
                 isUser={true}
                 hasToolCalls={false}
@@ -803,6 +1016,8 @@ export default function ChatInterface({
                 content={message.content}
                 handleModelSwitchAndRerun={async () => await handleModelRerun(message.id, message.content)}
                 handleShareClick={() => handleShareMessage(message)}
+                isPinned={!!message.metadata?.pinned}
+                onTogglePin={() => pinMessage(message.id, !message.metadata?.pinned)}
                 hasFileAttachments={hasFileAttachments}
                 previousMessageHasDeepResearch={false}
               />
@@ -872,6 +1087,101 @@ export default function ChatInterface({
     </Modal>
   );
 
+  const renderCompareSelector = () => (
+    <Modal
+      visible={comparePrompt !== null}
+      transparent
+      animationType="fade"
+      onRequestClose={() => setComparePrompt(null)}
+    >
+      <TouchableOpacity 
+        style={styles.modalOverlay}
+        activeOpacity={1}
+        onPress={() => setComparePrompt(null)}
+      >
+        <View style={styles.modelSelectorContainer}>
+          <Text style={styles.modelSelectorTitle}>Compare Models</Text>
+          <Text style={styles.compareSelectorHint}>
+            Pick 2 or {MAX_COMPARE_MODELS} models to answer side by side
+          </Text>
+          <ScrollView 
+            style={styles.modelOptionsScroll}
+            showsVerticalScrollIndicator={true}
+            contentContainerStyle={styles.modelOptionsContent}
+          >
+            {modelOptions.map((model) => {
+              const isSelected = compareModelIds.includes(model.model);
+              return (
+                <TouchableOpacity
+                  key={model.id}
+                  style={[styles.modelOption, isSelected && styles.selectedModelOption]}
+                  onPress={() => toggleCompareModel(model.model)}
+                  disabled={!isSelected && compareModelIds.length >= MAX_COMPARE_MODELS}
+                >
+                  <View style={styles.modelIcon}>
+                    {getProviderIcon(model.provider, 20)}
+                  </View>
+                  <View style={styles.modelInfo}>
+                    <Text style={styles.modelName}>{model.name}</Text>
+                    <Text style={styles.modelProvider}>{model.provider}</Text>
+                  </View>
+                  {isSelected && <Check size={16} color="#3b82f6" />}
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+          <TouchableOpacity
+            style={[styles.compareStartButton, compareModelIds.length < 2 && styles.compareStartButtonDisabled]}
+            onPress={handleStartCompare}
+            disabled={compareModelIds.length < 2}
+          >
+            <Text style={styles.compareStartButtonText}>
+              Compare {compareModelIds.length} models
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+
+  const renderEditMessageModal = () => (
+    <Modal
+      visible={editingMessage !== null}
+      transparent
+      animationType="fade"
+      onRequestClose={() => setEditingMessage(null)}
+    >
+      <KeyboardAvoidingView
+        style={styles.modalOverlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.editMessageContainer}>
+          <Text style={styles.modelSelectorTitle}>Edit Message</Text>
+          <TextInput
+            style={styles.editMessageInput}
+            value={editingMessage?.content || ''}
+            onChangeText={(text) => setEditingMessage(prev => prev ? { ...prev, content: text } : prev)}
+            multiline
+            autoFocus
+            placeholderTextColor="#6b7280"
+          />
+          <View style={styles.editMessageActions}>
+            <TouchableOpacity style={styles.editMessageCancel} onPress={() => setEditingMessage(null)}>
+              <Text style={styles.editMessageCancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.compareStartButton, styles.editMessageSend, !editingMessage?.content.trim() && styles.compareStartButtonDisabled]}
+              onPress={handleSubmitEdit}
+              disabled={!editingMessage?.content.trim() || isLoading}
+            >
+              <Text style={styles.compareStartButtonText}>Send</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+
   const renderAssistantSelector = () => (
     <Modal
       visible={showAssistantSelector}
@@ -985,7 +1295,10 @@ export default function ChatInterface({
               </View>
             </View>
           ) : (
-            processMessages(messages).filter(m => m.shouldRender).map((message, index) => renderMessage(message, index))
+            <>
+              <ConversationSummaryHeader summary={threadSummary} />
+              {processMessages(messages).filter(m => m.shouldRender).map((message, index) => renderMessage(message, index))}
+            </>
           )}
         </ScrollView>
 
@@ -994,6 +1307,7 @@ export default function ChatInterface({
           <View style={styles.inputAreaContainer}>
             <ChatInput
               onSendMessage={handleSendMessage}
+              model={selectedModel.model}
               placeholder="Ask anything..."
               disabled={false}
               isLoading={isLoading}
@@ -1011,6 +1325,8 @@ export default function ChatInterface({
 
       {/* Model Selector Modal */}
       {renderModelSelector()}
+      {renderCompareSelector()}
+      {renderEditMessageModal()}
       {renderAssistantSelector()}
     </View>
   );
@@ -1231,6 +1547,81 @@ const styles = StyleSheet.create({
     borderRadius: 4,
     backgroundColor: '#3b82f6',
   },
+  branchNavigator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    marginTop: 4,
+  },
+  userBranchNavigator: {
+    alignSelf: 'flex-end',
+  },
+  branchNavigatorButton: {
+    padding: 4,
+  },
+  branchNavigatorText: {
+    color: '#9ca3af',
+    fontSize: 12,
+    fontVariant: ['tabular-nums'],
+  },
+  editMessageContainer: {
+    backgroundColor: '#353535',
+    borderRadius: 12,
+    padding: 16,
+    margin: 20,
+    alignSelf: 'stretch',
+    borderWidth: 1,
+    borderColor: '#525252',
+  },
+  editMessageInput: {
+    minHeight: 100,
+    maxHeight: 240,
+    color: '#ffffff',
+    fontSize: 15,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    textAlignVertical: 'top',
+  },
+  editMessageActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  editMessageCancel: {
+    marginTop: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  editMessageCancelText: {
+    color: '#9ca3af',
+    fontSize: 15,
+  },
+  editMessageSend: {
+    paddingHorizontal: 20,
+  },
+  compareSelectorHint: {
+    color: '#9ca3af',
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  compareStartButton: {
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: '#3b82f6',
+  },
+  compareStartButtonDisabled: {
+    opacity: 0.4,
+  },
+  compareStartButtonText: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
   messageFileAttachments: {
     marginTop: 8,
   },
@@ -1365,6 +1756,55 @@ const styles = StyleSheet.create({
   messageImageAttachments: {
     marginTop: 8,
   },
+  interruptedNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  interruptedNoticeText: {
+    color: '#f59e0b',
+    fontSize: 13,
+  },
+  stoppedNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  stoppedNoticeText: {
+    color: '#9ca3af',
+    fontSize: 13,
+  },
+  continueButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginLeft: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  continueButtonText: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  pendingMessageBubble: {
+    opacity: 0.6,
+  },
+  pendingNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    gap: 4,
+    marginTop: 4,
+  },
+  pendingNoticeText: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+  },
   inputAreaContainer: {
     backgroundColor: '#161618',
   },
@@ -1,5 +1,7 @@
 import React, { memo } from 'react';
-import { View, StyleSheet, Animated } from 'react-native';
+import { View, StyleSheet, Animated, TouchableOpacity, Alert } from 'react-native';
+import { Server, Shuffle } from 'lucide-react-native';
+import { getModelInfo, isCustomModel } from '@/constants/Models';
 import { OpenAIIcon } from './OpenAIIcon';
 import {
   ClaudeIcon,
@@ -23,6 +25,7 @@ interface ProviderAvatarProps {
 // Determine provider from model name (matching web app logic)
 const determineProviderFromModel = (model: string | undefined): string => {
   if (!model) return 'openai';
+  if (isCustomModel(model)) return 'custom';
 
   // Check for OpenRouter models which use a slash format
   if (model.includes('/')) {
@@ -85,6 +88,8 @@ const getProviderIcon = (provider: string, size: number = 14) => {
       return <PerplexityIcon size={iconSize} />; // Use default color
     case 'openrouter':
       return <OpenRouterIcon size={iconSize} color="#ffffff" />; // Explicit white
+    case 'custom':
+      return <Server size={iconSize} color="#ffffff" />; // User's own endpoint
     case 'openai':
     default:
       return <OpenAIIcon size={iconSize} color="#ffffff" />; // Explicit white
@@ -180,7 +185,7 @@ const ProviderAvatar = memo(({
   }
 
   // Return icon in styled container matching model selector
-  return (
+  const avatar = (
     <View style={[
       styles.providerIconContainer, 
       { 
@@ -192,6 +197,47 @@ const ProviderAvatar = memo(({
       {getProviderIcon(provider, iconSize)}
     </View>
   );
+
+  const fallback = message?.metadata?.fallback;
+  if (!fallback) {
+    return avatar;
+  }
+
+  // Badge the avatar when a fallback model answered in place of the selected one
+  const modelName = (model: string) => getModelInfo(model)?.name || model;
+  const badgeSize = Math.max(10, Math.round(size * 0.6));
+
+  const showFallbackDetails = () => {
+    const reasons = (fallback.attempts || [])
+      .map((attempt: any) => `${modelName(attempt.model)}: ${attempt.status === 429 ? 'rate limited' : `unavailable (${attempt.status})`}`)
+      .join('\n');
+    Alert.alert(
+      'Answered by fallback model',
+      `${modelName(fallback.model)} answered because ${modelName(fallback.originalModel)} couldn't.${reasons ? `\n\n${reasons}` : ''}`
+    );
+  };
+
+  return (
+    <TouchableOpacity
+      onPress={showFallbackDetails}
+      activeOpacity={0.7}
+      accessibilityLabel={`Answered by fallback model ${modelName(fallback.model)}`}
+    >
+      {avatar}
+      <View style={[
+        styles.fallbackBadge,
+        {
+          width: badgeSize,
+          height: badgeSize,
+          borderRadius: badgeSize / 2,
+          right: -badgeSize / 3,
+          bottom: -badgeSize / 3,
+        }
+      ]}>
+        <Shuffle size={Math.round(badgeSize * 0.65)} color="#1f2937" />
+      </View>
+    </TouchableOpacity>
+  );
 });
 
 const styles = StyleSheet.create({
@@ -203,6 +249,12 @@ const styles = StyleSheet.create({
   pulseLoader: {
     backgroundColor: '#6b7280',
   },
+  fallbackBadge: {
+    position: 'absolute',
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f59e0b', // amber-500
+  },
 });
 
 export { ProviderAvatar }; 
\ No newline at end of file
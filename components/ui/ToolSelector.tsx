@@ -9,8 +9,10 @@ import {
   Alert,
   Image,
 } from 'react-native';
-import { Settings2, Search, Image as ImageIcon, Palette, X, Check } from 'lucide-react-native';
+import { Settings2, Search, Image as ImageIcon, Palette, X, Check, Terminal } from 'lucide-react-native';
 import { Colors } from '@/constants/Colors';
+import { getModelCapabilities } from '@/constants/ModelCapabilities';
+import { getModelInfo } from '@/constants/Models';
 
 interface ToolSelectorProps {
   onToolChange?: (toolId: string | null) => void;
@@ -18,11 +20,13 @@ interface ToolSelectorProps {
   isLimitedMode?: boolean;
   disableTools?: boolean;
   onShowAuthOverlay?: (feature: string) => void;
+  model?: string; // Chat model; tools are blocked when it can't call them
 }
 
 interface Tool {
   id: string;
   name: string;
+  badgeLabel: string; // Short label for the active tool badge
   icon: any;
   category: string;
 }
@@ -39,15 +43,24 @@ const AVAILABLE_TOOLS: Tool[] = [
   {
     id: 'web_search',
     name: 'Web Search',
+    badgeLabel: 'Search',
     icon: Search,
     category: 'web',
   },
   {
     id: 'image_gen',
     name: 'Create Image',
+    badgeLabel: 'Image',
     icon: ImageIcon,
     category: 'creative',
   },
+  {
+    id: 'code_interpreter',
+    name: 'Run Code',
+    badgeLabel: 'Code',
+    icon: Terminal,
+    category: 'analysis',
+  },
 ];
 
 // Image styles matching web app (using placeholder images for now)
@@ -96,23 +109,36 @@ export function ToolSelector({
   isLimitedMode = false,
   disableTools = false,
   onShowAuthOverlay,
+  model,
 }: ToolSelectorProps) {
   const [isToolsModalVisible, setIsToolsModalVisible] = useState(false);
   const [isStylesModalVisible, setIsStylesModalVisible] = useState(false);
   const [activeToolId, setActiveToolId] = useState<string | null>(null);
   const [selectedStyle, setSelectedStyle] = useState<ImageStyle | null>(null);
 
+  const supportsTools = useMemo(() => getModelCapabilities(model || '').tools, [model]);
+
   const handleToolToggle = useCallback((toolId: string) => {
     if (isLimitedMode || disableTools) {
       setIsToolsModalVisible(false);
       if (onShowAuthOverlay) {
-        onShowAuthOverlay(toolId === 'web_search' ? 'Web Search' : 'Image Generation');
+        onShowAuthOverlay(
+          toolId === 'web_search' ? 'Web Search' :
+          toolId === 'code_interpreter' ? 'Code Interpreter' :
+          'Image Generation'
+        );
       } else {
         Alert.alert('Feature Locked', 'Please upgrade to access this feature.');
       }
       return;
     }
 
+    if (!supportsTools) {
+      setIsToolsModalVisible(false);
+      Alert.alert('Not Available', `${(model && getModelInfo(model)?.name) || 'This model'} doesn't support tools.`);
+      return;
+    }
+
     const isCurrentlyActive = activeToolId === toolId;
     
     if (isCurrentlyActive) {
@@ -126,7 +152,7 @@ export function ToolSelector({
     }
     
     setIsToolsModalVisible(false);
-  }, [activeToolId, isLimitedMode, disableTools, onToolChange, onShowAuthOverlay]);
+  }, [activeToolId, isLimitedMode, disableTools, supportsTools, model, onToolChange, onShowAuthOverlay]);
 
   const handleStyleSelect = useCallback((style: ImageStyle) => {
     setSelectedStyle(style);
@@ -141,8 +167,8 @@ export function ToolSelector({
   }, [onStyleSelection]);
 
   const activeTool = useMemo(() => {
-    return AVAILABLE_TOOLS.find(tool => tool.id === activeToolId);
-  }, [activeToolId]);
+    return supportsTools ? AVAILABLE_TOOLS.find(tool => tool.id === activeToolId) : undefined;
+  }, [activeToolId, supportsTools]);
 
   const renderToolButton = (tool: Tool) => {
     const isActive = activeToolId === tool.id;
@@ -154,6 +180,7 @@ export function ToolSelector({
         style={[
           styles.toolButton,
           isActive && styles.toolButtonActive,
+          !supportsTools && styles.toolButtonUnavailable,
         ]}
         onPress={() => handleToolToggle(tool.id)}
       >
@@ -208,7 +235,7 @@ export function ToolSelector({
           <View style={styles.toolBadge}>
             <activeTool.icon size={12} color={Colors.purple500} />
             <Text style={styles.badgeText}>
-              {activeTool.name === 'Search the web' ? 'Search' : 'Image'}
+              {activeTool.badgeLabel}
             </Text>
             <TouchableOpacity
               style={styles.badgeCloseButton}
@@ -386,6 +413,9 @@ const styles = StyleSheet.create({
   toolButtonActive: {
     backgroundColor: 'rgba(139, 92, 246, 0.1)',
   },
+  toolButtonUnavailable: {
+    opacity: 0.5,
+  },
   toolButtonText: {
     flex: 1,
     fontSize: 14,
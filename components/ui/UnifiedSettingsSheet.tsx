@@ -31,6 +31,10 @@ import {
   ChevronRight,
   ChevronLeft,
   User,
+  BarChart3,
+  Server,
+  Activity,
+  MessageSquare,
 } from 'lucide-react-native';
 import ProfileSettings from './settings/ProfileSettings';
 import PersonalizationSettings from './settings/PersonalizationSettings';
@@ -38,6 +42,10 @@ import PreferenceSettings from './settings/PreferenceSettings';
 import SecuritySettings from './settings/SecuritySettings';
 import AccountSettings from './settings/AccountSettings';
 import DataControls from './settings/DataControls';
+import UsageSettings from './settings/UsageSettings';
+import CustomProviderSettings from './settings/CustomProviderSettings';
+import StreamInspectorSettings from './settings/StreamInspectorSettings';
+import ChatSettings from './settings/ChatSettings';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -262,6 +270,42 @@ export default function UnifiedSettingsSheet({
               <ChevronRight size={16} color="#6b7280" />
             </TouchableOpacity>
 
+            <TouchableOpacity 
+              style={styles.menuItem} 
+              onPress={() => handleItemPress('chat')}
+              activeOpacity={0.7}
+            >
+              <View style={styles.menuItemLeft}>
+                <MessageSquare size={20} color="#ffffff" />
+                <Text style={styles.menuItemTitle}>Chat</Text>
+              </View>
+              <ChevronRight size={16} color="#6b7280" />
+            </TouchableOpacity>
+
+            <TouchableOpacity 
+              style={styles.menuItem} 
+              onPress={() => handleItemPress('usage')}
+              activeOpacity={0.7}
+            >
+              <View style={styles.menuItemLeft}>
+                <BarChart3 size={20} color="#ffffff" />
+                <Text style={styles.menuItemTitle}>Usage</Text>
+              </View>
+              <ChevronRight size={16} color="#6b7280" />
+            </TouchableOpacity>
+
+            <TouchableOpacity 
+              style={styles.menuItem} 
+              onPress={() => handleItemPress('custom-provider')}
+              activeOpacity={0.7}
+            >
+              <View style={styles.menuItemLeft}>
+                <Server size={20} color="#ffffff" />
+                <Text style={styles.menuItemTitle}>Custom Provider</Text>
+              </View>
+              <ChevronRight size={16} color="#6b7280" />
+            </TouchableOpacity>
+
             <TouchableOpacity 
               style={styles.menuItem} 
               onPress={() => handleItemPress('data')}
@@ -361,6 +405,23 @@ export default function UnifiedSettingsSheet({
             </View>
           </View>
 
+          {/* Developer Tools */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>DEVELOPER</Text>
+
+            <TouchableOpacity 
+              style={[styles.menuItem, { borderBottomWidth: 0 }]} 
+              onPress={() => handleItemPress('stream-inspector')}
+              activeOpacity={0.7}
+            >
+              <View style={styles.menuItemLeft}>
+                <Activity size={20} color="#ffffff" />
+                <Text style={styles.menuItemTitle}>Stream Inspector</Text>
+              </View>
+              <ChevronRight size={16} color="#6b7280" />
+            </TouchableOpacity>
+          </View>
+
           {/* Logout Section */}
           {onLogout && (
             <View style={styles.section}>
@@ -404,6 +465,22 @@ export default function UnifiedSettingsSheet({
         Component = PreferenceSettings;
         title = 'Preferences';
         break;
+      case 'chat':
+        Component = ChatSettings;
+        title = 'Chat';
+        break;
+      case 'usage':
+        Component = UsageSettings;
+        title = 'Usage';
+        break;
+      case 'custom-provider':
+        Component = CustomProviderSettings;
+        title = 'Custom Provider';
+        break;
+      case 'stream-inspector':
+        Component = StreamInspectorSettings;
+        title = 'Stream Inspector';
+        break;
       case 'data':
         Component = DataControls;
         title = 'Data Controls';
@@ -0,0 +1,319 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Switch,
+  TouchableOpacity,
+} from 'react-native';
+import { ChevronDown, ChevronUp, Minus, Plus, X } from 'lucide-react-native';
+import { AGENT_MAX_STEPS_RANGE, chatPreferences, ChatPreferences } from '@/lib/services/chatPreferences';
+import { useChatPreferences } from '@/hooks/useChatPreferences';
+import { getAvailableModels, getModelInfo, MODEL_FALLBACK_CHAINS } from '@/constants/Models';
+
+interface ChatSettingsProps {
+  user?: any;
+  onClose?: () => void;
+}
+
+export default function ChatSettings(_props: ChatSettingsProps) {
+  const preferences = useChatPreferences();
+  const models = useMemo(() => getAvailableModels(), []);
+  const [chainModelId, setChainModelId] = useState(() => models[0]?.id);
+
+  const handleChange = async (changes: Partial<ChatPreferences>) => {
+    try {
+      await chatPreferences.updatePreferences(changes);
+    } catch (error) {
+      console.error('⚙️ [ChatSettings] Failed to save setting:', error);
+    }
+  };
+
+  const changeAgentMaxSteps = (offset: number) => {
+    const { min, max } = AGENT_MAX_STEPS_RANGE;
+    handleChange({ agentMaxSteps: Math.min(max, Math.max(min, preferences.agentMaxSteps + offset)) });
+  };
+
+  const isCustomChain = !!chainModelId && !!preferences.fallbackChains[chainModelId];
+  const chain = (chainModelId
+    ? preferences.fallbackChains[chainModelId] ?? MODEL_FALLBACK_CHAINS[chainModelId] ?? []
+    : []
+  ).filter(id => id !== chainModelId && !!getModelInfo(id));
+  const addableModels = models.filter(model => model.id !== chainModelId && !chain.includes(model.id));
+
+  const saveChain = (nextChain: string[] | null) => {
+    if (!chainModelId) return;
+    const { [chainModelId]: _previous, ...otherChains } = preferences.fallbackChains;
+    handleChange({
+      fallbackChains: nextChain ? { ...otherChains, [chainModelId]: nextChain } : otherChains,
+    });
+  };
+
+  const moveInChain = (index: number, offset: number) => {
+    const nextChain = [...chain];
+    const [moved] = nextChain.splice(index, 1);
+    nextChain.splice(index + offset, 0, moved);
+    saveChain(nextChain);
+  };
+
+  const renderFallbackChain = () => (
+    <View style={styles.chainEditor}>
+      <Text style={styles.subsectionTitle}>Fallback order</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {models.map(model => (
+          <TouchableOpacity
+            key={model.id}
+            style={[styles.chip, model.id === chainModelId && styles.chipSelected]}
+            onPress={() => setChainModelId(model.id)}
+          >
+            <Text style={[styles.chipText, model.id === chainModelId && styles.chipTextSelected]}>
+              {model.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {chain.length === 0 ? (
+        <Text style={styles.sectionDescription}>No fallback models. Rejected messages fail without a retry.</Text>
+      ) : (
+        chain.map((id, index) => (
+          <View key={id} style={styles.chainRow}>
+            <Text style={styles.chainIndex}>{index + 1}</Text>
+            <Text style={styles.chainModelName} numberOfLines={1}>{getModelInfo(id)?.name || id}</Text>
+            <TouchableOpacity
+              style={styles.chainButton}
+              onPress={() => moveInChain(index, -1)}
+              disabled={index === 0}
+            >
+              <ChevronUp size={16} color={index === 0 ? '#4b5563' : '#9ca3af'} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.chainButton}
+              onPress={() => moveInChain(index, 1)}
+              disabled={index === chain.length - 1}
+            >
+              <ChevronDown size={16} color={index === chain.length - 1 ? '#4b5563' : '#9ca3af'} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.chainButton}
+              onPress={() => saveChain(chain.filter(chainId => chainId !== id))}
+            >
+              <X size={16} color="#9ca3af" />
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+
+      {addableModels.length > 0 && (
+        <>
+          <Text style={styles.subsectionTitle}>Add a fallback</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {addableModels.map(model => (
+              <TouchableOpacity
+                key={model.id}
+                style={styles.chip}
+                onPress={() => saveChain([...chain, model.id])}
+              >
+                <Plus size={12} color="#9ca3af" />
+                <Text style={styles.chipText}>{model.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </>
+      )}
+
+      {isCustomChain && (
+        <TouchableOpacity style={styles.resetButton} onPress={() => saveChain(null)}>
+          <Text style={styles.resetButtonText}>Reset to default order</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  return (
+    <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
+      <View style={styles.section}>
+        <View style={styles.toggleRow}>
+          <Text style={styles.sectionTitle}>Agent Mode</Text>
+          <Switch
+            value={preferences.agentMode}
+            onValueChange={value => handleChange({ agentMode: value })}
+            trackColor={{ false: '#374151', true: '#10b981' }}
+            thumbColor="#ffffff"
+          />
+        </View>
+        <Text style={styles.sectionDescription}>
+          Lets the assistant run several tools in a row, such as searching, reading pages and running code,
+          before it answers. Answers take longer and use more tokens.
+        </Text>
+        {preferences.agentMode && (
+          <View style={styles.stepperRow}>
+            <View style={styles.stepperLabel}>
+              <Text style={styles.subsectionTitle}>Maximum steps</Text>
+              <Text style={styles.sectionDescription}>The last step always answers without tools.</Text>
+            </View>
+            <View style={styles.stepper}>
+              <TouchableOpacity
+                style={styles.stepperButton}
+                onPress={() => changeAgentMaxSteps(-1)}
+                disabled={preferences.agentMaxSteps <= AGENT_MAX_STEPS_RANGE.min}
+              >
+                <Minus size={16} color={preferences.agentMaxSteps <= AGENT_MAX_STEPS_RANGE.min ? '#4b5563' : '#ffffff'} />
+              </TouchableOpacity>
+              <Text style={styles.stepperValue}>{preferences.agentMaxSteps}</Text>
+              <TouchableOpacity
+                style={styles.stepperButton}
+                onPress={() => changeAgentMaxSteps(1)}
+                disabled={preferences.agentMaxSteps >= AGENT_MAX_STEPS_RANGE.max}
+              >
+                <Plus size={16} color={preferences.agentMaxSteps >= AGENT_MAX_STEPS_RANGE.max ? '#4b5563' : '#ffffff'} />
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <View style={styles.toggleRow}>
+          <Text style={styles.sectionTitle}>Model Fallback</Text>
+          <Switch
+            value={preferences.modelFallback}
+            onValueChange={value => handleChange({ modelFallback: value })}
+            trackColor={{ false: '#374151', true: '#10b981' }}
+            thumbColor="#ffffff"
+          />
+        </View>
+        <Text style={styles.sectionDescription}>
+          When a model is overloaded or rate limited before it starts answering, the same message is retried
+          on a similar model from another provider. The answer shows which model replied.
+        </Text>
+        {preferences.modelFallback && renderFallbackChain()}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#252628',
+  },
+  section: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginBottom: 4,
+  },
+  sectionDescription: {
+    fontSize: 13,
+    color: '#9ca3af',
+    marginTop: 4,
+    lineHeight: 18,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  stepperLabel: {
+    flex: 1,
+    marginRight: 12,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  stepperButton: {
+    padding: 8,
+  },
+  stepperValue: {
+    minWidth: 24,
+    textAlign: 'center',
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  chainEditor: {
+    marginTop: 12,
+  },
+  subsectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#d1d5db',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  chipSelected: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#9ca3af',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  chainRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    marginTop: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  chainIndex: {
+    width: 20,
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  chainModelName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#ffffff',
+  },
+  chainButton: {
+    padding: 4,
+    marginLeft: 4,
+  },
+  resetButton: {
+    marginTop: 12,
+    alignSelf: 'flex-start',
+  },
+  resetButtonText: {
+    fontSize: 13,
+    color: '#3b82f6',
+    fontWeight: '500',
+  },
+});
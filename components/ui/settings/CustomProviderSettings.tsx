@@ -0,0 +1,334 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { RefreshCw, Save, Trash2 } from 'lucide-react-native';
+import { customProviderService } from '@/lib/services/customProviderService';
+
+interface CustomProviderSettingsProps {
+  user?: any;
+  onClose?: () => void;
+}
+
+// Models are entered one per line or comma separated
+const parseModelList = (text: string) => text.split(/[\n,]/).map(model => model.trim()).filter(Boolean);
+
+export default function CustomProviderSettings(_props: CustomProviderSettingsProps) {
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isFetchingModels, setIsFetchingModels] = useState(false);
+  const [isConfigured, setIsConfigured] = useState(false);
+  const [hasStoredKey, setHasStoredKey] = useState(false);
+  const [name, setName] = useState('');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [apiKey, setApiKey] = useState('');
+  const [modelsText, setModelsText] = useState('');
+
+  useEffect(() => {
+    (async () => {
+      const config = await customProviderService.loadConfig();
+      if (config) {
+        setIsConfigured(true);
+        setName(config.name);
+        setBaseUrl(config.baseUrl);
+        setModelsText(config.models.join('\n'));
+      }
+      setHasStoredKey(await customProviderService.hasApiKey());
+      setIsLoading(false);
+    })();
+  }, []);
+
+  const handleFetchModels = async () => {
+    if (!baseUrl.trim()) {
+      Alert.alert('Endpoint URL Required', 'Enter the endpoint URL first.');
+      return;
+    }
+
+    setIsFetchingModels(true);
+    try {
+      const models = await customProviderService.fetchModels({
+        baseUrl,
+        apiKey: apiKey.trim() || undefined,
+      });
+      if (models.length === 0) {
+        Alert.alert('No Models Found', 'The endpoint answered but listed no models. Enter them manually.');
+        return;
+      }
+      setModelsText(models.join('\n'));
+    } catch (error: any) {
+      console.error('🔌 [CustomProviderSettings] Failed to fetch models:', error);
+      Alert.alert('Connection Failed', error.message || 'Could not reach the endpoint.');
+    } finally {
+      setIsFetchingModels(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const models = parseModelList(modelsText);
+    if (!/^https?:\/\//i.test(baseUrl.trim())) {
+      Alert.alert('Invalid URL', 'The endpoint URL must start with http:// or https://.');
+      return;
+    }
+    if (models.length === 0) {
+      Alert.alert('No Models', 'Add at least one model the endpoint serves.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      // Leaving the key field empty keeps the stored key
+      await customProviderService.saveConfig({ name, baseUrl, models }, apiKey.trim() || undefined);
+      setIsConfigured(true);
+      setHasStoredKey(await customProviderService.hasApiKey());
+      setApiKey('');
+      Alert.alert('Saved', `${models.length} model${models.length === 1 ? '' : 's'} added to the model picker.`);
+    } catch (error: any) {
+      console.error('🔌 [CustomProviderSettings] Failed to save:', error);
+      Alert.alert('Error', 'Failed to save the custom provider.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = () => {
+    Alert.alert(
+      'Remove Custom Provider',
+      'Its models will be removed from the model picker and the stored API key deleted.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            await customProviderService.clearConfig();
+            setIsConfigured(false);
+            setHasStoredKey(false);
+            setName('');
+            setBaseUrl('');
+            setApiKey('');
+            setModelsText('');
+          },
+        },
+      ]
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator color="#9ca3af" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>OpenAI-Compatible Endpoint</Text>
+        <Text style={styles.sectionDescription}>
+          Chat with models on your own server, such as vLLM, Ollama or LiteLLM. Requests go straight from this
+          device to the endpoint.
+        </Text>
+
+        <Text style={styles.inputLabel}>Name</Text>
+        <TextInput
+          style={styles.textInput}
+          value={name}
+          onChangeText={setName}
+          placeholder="Team gateway"
+          placeholderTextColor="#6b7280"
+        />
+
+        <Text style={styles.inputLabel}>Endpoint URL</Text>
+        <TextInput
+          style={styles.textInput}
+          value={baseUrl}
+          onChangeText={setBaseUrl}
+          placeholder="http://192.168.1.20:11434/v1"
+          placeholderTextColor="#6b7280"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+        />
+
+        <Text style={styles.inputLabel}>API Key</Text>
+        <TextInput
+          style={styles.textInput}
+          value={apiKey}
+          onChangeText={setApiKey}
+          placeholder={hasStoredKey ? 'Stored securely, enter a new key to replace it' : 'Optional'}
+          placeholderTextColor="#6b7280"
+          autoCapitalize="none"
+          autoCorrect={false}
+          secureTextEntry
+        />
+        <Text style={styles.sectionFooter}>The key is kept in the device's secure storage.</Text>
+      </View>
+
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Models</Text>
+          <TouchableOpacity
+            style={styles.fetchButton}
+            onPress={handleFetchModels}
+            disabled={isFetchingModels}
+            activeOpacity={0.7}
+          >
+            {isFetchingModels ? (
+              <ActivityIndicator size="small" color="#9ca3af" />
+            ) : (
+              <RefreshCw size={14} color="#9ca3af" />
+            )}
+            <Text style={styles.fetchButtonText}>Load from endpoint</Text>
+          </TouchableOpacity>
+        </View>
+        <TextInput
+          style={[styles.textInput, styles.textArea]}
+          value={modelsText}
+          onChangeText={setModelsText}
+          placeholder={'llama3.1:8b\nqwen2.5-coder'}
+          placeholderTextColor="#6b7280"
+          autoCapitalize="none"
+          autoCorrect={false}
+          multiline
+        />
+        <Text style={styles.sectionFooter}>One model per line, as the endpoint names them.</Text>
+      </View>
+
+      <View style={styles.section}>
+        <TouchableOpacity
+          style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={isSaving}
+        >
+          <Save size={18} color="#ffffff" />
+          <Text style={styles.saveButtonText}>{isSaving ? 'Saving...' : 'Save Provider'}</Text>
+        </TouchableOpacity>
+
+        {isConfigured && (
+          <TouchableOpacity style={styles.actionButton} onPress={handleRemove}>
+            <Trash2 size={20} color="#ef4444" />
+            <Text style={[styles.actionButtonText, { color: '#ef4444' }]}>Remove Custom Provider</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#252628',
+  },
+  loadingContainer: {
+    flex: 1,
+    paddingVertical: 40,
+    alignItems: 'center',
+    backgroundColor: '#252628',
+  },
+  section: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginBottom: 4,
+  },
+  sectionDescription: {
+    fontSize: 13,
+    color: '#9ca3af',
+    marginBottom: 8,
+    lineHeight: 18,
+  },
+  sectionFooter: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 8,
+    lineHeight: 18,
+  },
+  inputLabel: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#d1d5db',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  textInput: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#ffffff',
+    minHeight: 44,
+  },
+  textArea: {
+    minHeight: 120,
+    textAlignVertical: 'top',
+  },
+  fetchButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 4,
+  },
+  fetchButtonText: {
+    fontSize: 13,
+    color: '#9ca3af',
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3b82f6',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    gap: 8,
+  },
+  saveButtonDisabled: {
+    opacity: 0.7,
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    gap: 12,
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#ffffff',
+  },
+});
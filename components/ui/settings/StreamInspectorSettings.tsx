@@ -0,0 +1,411 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Switch,
+  Alert,
+  Platform,
+} from 'react-native';
+import * as Sharing from 'expo-sharing';
+import { ChevronDown, ChevronRight, Download, Trash2 } from 'lucide-react-native';
+import {
+  streamInspector,
+  InspectedStream,
+  InspectedStreamStatus,
+  MAX_INSPECTED_STREAMS,
+} from '@/lib/services/streamInspector';
+
+interface StreamInspectorSettingsProps {
+  user?: any;
+  onClose?: () => void;
+}
+
+type DetailSection = 'request' | 'timings' | 'raw' | 'deltas' | 'tools' | 'reasoning';
+
+const DETAIL_SECTIONS: { id: DetailSection; label: string }[] = [
+  { id: 'request', label: 'Request' },
+  { id: 'timings', label: 'Timings' },
+  { id: 'raw', label: 'Raw SSE' },
+  { id: 'deltas', label: 'Deltas' },
+  { id: 'tools', label: 'Tool Calls' },
+  { id: 'reasoning', label: 'Reasoning' },
+];
+
+// Rows shown per list; the export always has everything
+const MAX_VISIBLE_ROWS = 200;
+const MAX_REQUEST_CHARS = 6000;
+
+const STATUS_COLORS: Record<InspectedStreamStatus, string> = {
+  streaming: '#3b82f6',
+  completed: '#10b981',
+  error: '#ef4444',
+  aborted: '#f59e0b',
+};
+
+const formatMs = (ms?: number) => (ms === undefined ? '—' : ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(2)}s`);
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.substring(0, max)}…` : text);
+
+export default function StreamInspectorSettings(_props: StreamInspectorSettingsProps) {
+  const [isEnabled, setIsEnabled] = useState(streamInspector.isEnabled());
+  const [streams, setStreams] = useState<InspectedStream[]>(() => streamInspector.getStreams());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [section, setSection] = useState<DetailSection>('timings');
+
+  useEffect(() => streamInspector.subscribe(setStreams), []);
+
+  const handleToggle = async (value: boolean) => {
+    setIsEnabled(value);
+    try {
+      await streamInspector.setEnabled(value);
+    } catch (error) {
+      console.error('🔬 [StreamInspectorSettings] Failed to save setting:', error);
+    }
+  };
+
+  const handleExport = async (ids?: string[]) => {
+    try {
+      const uri = await streamInspector.exportStreams(ids);
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(uri, { mimeType: 'application/json', dialogTitle: 'Export streams' });
+      } else {
+        Alert.alert('Exported', `Saved to ${uri}`);
+      }
+    } catch (error) {
+      console.error('🔬 [StreamInspectorSettings] Export failed:', error);
+      Alert.alert('Error', 'Failed to export streams.');
+    }
+  };
+
+  const handleClear = () => {
+    streamInspector.clear();
+    setSelectedId(null);
+  };
+
+  const renderRows = (rows: { key: string; label: string; value: string }[], emptyText: string) => {
+    if (rows.length === 0) {
+      return <Text style={styles.emptyText}>{emptyText}</Text>;
+    }
+
+    return (
+      <>
+        {rows.slice(0, MAX_VISIBLE_ROWS).map(row => (
+          <View key={row.key} style={styles.detailRow}>
+            <Text style={styles.detailTime}>{row.label}</Text>
+            <Text style={styles.codeText}>{row.value}</Text>
+          </View>
+        ))}
+        {rows.length > MAX_VISIBLE_ROWS && (
+          <Text style={styles.emptyText}>{rows.length - MAX_VISIBLE_ROWS} more in the export</Text>
+        )}
+      </>
+    );
+  };
+
+  const renderDetail = (stream: InspectedStream) => {
+    switch (section) {
+      case 'request':
+        return <Text style={styles.codeText}>{truncate(JSON.stringify(stream.request, null, 2), MAX_REQUEST_CHARS)}</Text>;
+      case 'timings':
+        return renderRows([
+          { key: 'first-line', label: 'First line', value: formatMs(stream.timings.firstLineMs) },
+          { key: 'first-reasoning', label: 'First reasoning', value: formatMs(stream.timings.firstReasoningMs) },
+          { key: 'first-content', label: 'First content', value: formatMs(stream.timings.firstContentMs) },
+          { key: 'first-tool', label: 'First tool call', value: formatMs(stream.timings.firstToolCallMs) },
+          { key: 'total', label: 'Total', value: formatMs(stream.timings.totalMs) },
+          { key: 'lines', label: 'Raw lines', value: `${stream.rawLines.length}${stream.truncated ? ' (truncated)' : ''}` },
+          { key: 'deltas', label: 'Deltas', value: String(stream.deltas.length) },
+          { key: 'content', label: 'Content', value: `${stream.content.length} chars` },
+        ], '');
+      case 'raw':
+        return renderRows(
+          stream.rawLines.map((entry, index) => ({ key: String(index), label: formatMs(entry.t), value: entry.line })),
+          'No lines received.'
+        );
+      case 'deltas':
+        return renderRows(
+          stream.deltas.map((delta, index) => ({
+            key: String(index),
+            label: formatMs(delta.t),
+            value: [
+              delta.reasoning !== undefined && `reasoning: ${JSON.stringify(delta.reasoning)}`,
+              delta.content !== undefined && `content: ${JSON.stringify(delta.content)}`,
+              delta.toolCallIndexes && `tool_calls: [${delta.toolCallIndexes.join(', ')}]`,
+              delta.finishReason && `finish: ${delta.finishReason}`,
+            ].filter(Boolean).join('\n') || '(empty)',
+          })),
+          'No deltas parsed.'
+        );
+      case 'tools':
+        return (
+          <>
+            {renderRows(
+              stream.toolCallSteps.map((step, index) => ({
+                key: String(index),
+                label: formatMs(step.t),
+                value: `#${step.index}${step.name ? ` ${step.name}` : ''}${step.id ? ` (${step.id})` : ''} +${JSON.stringify(step.argumentsDelta)} → ${step.argumentsLength} chars`,
+              })),
+              'No tool calls.'
+            )}
+            {stream.toolCalls.length > 0 && (
+              <>
+                <Text style={styles.subheading}>Accumulated</Text>
+                <Text style={styles.codeText}>{JSON.stringify(stream.toolCalls, null, 2)}</Text>
+              </>
+            )}
+          </>
+        );
+      case 'reasoning':
+        return renderRows(
+          stream.reasoningSegments.map((segment, index) => ({
+            key: String(index),
+            label: `${formatMs(segment.startT)} – ${formatMs(segment.endT)}`,
+            value: segment.content,
+          })),
+          'No reasoning.'
+        );
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
+      <View style={styles.section}>
+        <View style={styles.toggleRow}>
+          <Text style={styles.sectionTitle}>Record Streams</Text>
+          <Switch
+            value={isEnabled}
+            onValueChange={handleToggle}
+            trackColor={{ false: '#374151', true: '#10b981' }}
+            thumbColor="#ffffff"
+          />
+        </View>
+        <Text style={styles.sectionDescription}>
+          Keeps the last {MAX_INSPECTED_STREAMS} chat streams on this device with their requests, raw SSE lines, parsed deltas,
+          tool call accumulation and reasoning. Exports include the full conversation sent to the model.
+        </Text>
+
+        {streams.length > 0 && (
+          <View style={styles.actionRow}>
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleExport()} activeOpacity={0.7}>
+              <Download size={16} color="#ffffff" />
+              <Text style={styles.actionButtonText}>Export All</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={handleClear} activeOpacity={0.7}>
+              <Trash2 size={16} color="#ef4444" />
+              <Text style={[styles.actionButtonText, { color: '#ef4444' }]}>Clear</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Recent Streams</Text>
+        {streams.length === 0 && (
+          <Text style={styles.emptyText}>
+            {isEnabled ? 'Send a message to record its stream.' : 'Turn on recording to capture streams.'}
+          </Text>
+        )}
+
+        {streams.map(stream => {
+          const isSelected = stream.id === selectedId;
+          return (
+            <View key={stream.id} style={styles.streamItem}>
+              <TouchableOpacity
+                style={styles.streamHeader}
+                onPress={() => setSelectedId(isSelected ? null : stream.id)}
+                activeOpacity={0.7}
+              >
+                {isSelected ? <ChevronDown size={16} color="#9ca3af" /> : <ChevronRight size={16} color="#9ca3af" />}
+                <View style={styles.streamInfo}>
+                  <Text style={styles.streamTitle} numberOfLines={1}>
+                    {stream.model || stream.endpoint}
+                  </Text>
+                  <Text style={styles.streamMeta}>
+                    {new Date(stream.startedAt).toLocaleTimeString()} · {formatMs(stream.timings.totalMs)} · {stream.rawLines.length} lines
+                  </Text>
+                </View>
+                <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[stream.status] }]}>
+                  <Text style={styles.statusText}>{stream.status}</Text>
+                </View>
+              </TouchableOpacity>
+
+              {isSelected && (
+                <View style={styles.detail}>
+                  {stream.error && <Text style={styles.errorText}>{stream.error}</Text>}
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.tabs}>
+                    {DETAIL_SECTIONS.map(tab => (
+                      <TouchableOpacity
+                        key={tab.id}
+                        style={[styles.tab, section === tab.id && styles.tabActive]}
+                        onPress={() => setSection(tab.id)}
+                      >
+                        <Text style={[styles.tabText, section === tab.id && styles.tabTextActive]}>{tab.label}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </ScrollView>
+                  {renderDetail(stream)}
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.exportButton]}
+                    onPress={() => handleExport([stream.id])}
+                    activeOpacity={0.7}
+                  >
+                    <Download size={16} color="#ffffff" />
+                    <Text style={styles.actionButtonText}>Export Stream</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+          );
+        })}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#252628',
+  },
+  section: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginBottom: 4,
+  },
+  sectionDescription: {
+    fontSize: 13,
+    color: '#9ca3af',
+    marginTop: 4,
+    lineHeight: 18,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    gap: 8,
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#ffffff',
+  },
+  exportButton: {
+    alignSelf: 'flex-start',
+    marginTop: 12,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 8,
+  },
+  streamItem: {
+    marginTop: 8,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    overflow: 'hidden',
+  },
+  streamHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    gap: 8,
+  },
+  streamInfo: {
+    flex: 1,
+  },
+  streamTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#ffffff',
+  },
+  streamMeta: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  detail: {
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+  },
+  tabs: {
+    marginBottom: 8,
+  },
+  tab: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginRight: 6,
+    borderRadius: 6,
+  },
+  tabActive: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  tabText: {
+    fontSize: 13,
+    color: '#9ca3af',
+  },
+  tabTextActive: {
+    color: '#ffffff',
+  },
+  detailRow: {
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  detailTime: {
+    fontSize: 11,
+    color: '#6b7280',
+    marginBottom: 2,
+  },
+  subheading: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#d1d5db',
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  codeText: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 11,
+    color: '#d1d5db',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#ef4444',
+    marginBottom: 8,
+  },
+});
@@ -0,0 +1,364 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Trash2 } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { getModelInfo } from '@/constants/Models';
+import { usageLedger, UsageTotals, UsageFilter } from '@/lib/services/usageLedger';
+
+interface UsageSettingsProps {
+  user?: any;
+  onClose?: () => void;
+}
+
+type UsagePeriod = '30d' | 'all';
+
+interface UsageRow {
+  key: string;
+  label: string;
+  totals: UsageTotals;
+}
+
+// Rows shown per breakdown
+const MAX_ROWS = 10;
+
+const formatCost = (dollars: number) =>
+  dollars > 0 && dollars < 0.01 ? '<$0.01' : `$${dollars.toFixed(2)}`;
+
+const formatTokens = (tokens: number) => {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}K`;
+  return `${tokens}`;
+};
+
+/**
+ * Look up display names for thread or workspace ids
+ */
+async function fetchNames(table: 'threads' | 'workspaces', ids: string[]): Promise<Record<string, string>> {
+  const knownIds = ids.filter(id => id !== 'unknown');
+  if (knownIds.length === 0) return {};
+
+  const column = table === 'threads' ? 'title' : 'name';
+  const { data, error } = await supabase.from(table).select(`id, ${column}`).in('id', knownIds);
+  if (error) {
+    console.warn(`💰 [UsageSettings] Failed to load ${table} names:`, error);
+    return {};
+  }
+
+  return Object.fromEntries((data || []).map((row: any) => [row.id, row[column]]));
+}
+
+export default function UsageSettings({ user }: UsageSettingsProps) {
+  const [period, setPeriod] = useState<UsagePeriod>('30d');
+  const [isLoading, setIsLoading] = useState(true);
+  const [totals, setTotals] = useState<UsageTotals | null>(null);
+  const [byWorkspace, setByWorkspace] = useState<UsageRow[]>([]);
+  const [byModel, setByModel] = useState<UsageRow[]>([]);
+  const [byThread, setByThread] = useState<UsageRow[]>([]);
+
+  const loadUsage = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const filter: UsageFilter = period === '30d'
+        ? { since: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString() }
+        : {};
+
+      const [accountTotals, workspaceTotals, modelTotals, threadTotals] = await Promise.all([
+        usageLedger.getTotals(filter),
+        usageLedger.getTotalsBy('workspace', filter),
+        usageLedger.getTotalsBy('model', filter),
+        usageLedger.getTotalsBy('thread', filter),
+      ]);
+
+      const topThreads = threadTotals.slice(0, MAX_ROWS);
+      const [workspaceNames, threadNames] = await Promise.all([
+        fetchNames('workspaces', workspaceTotals.map(row => row.key)),
+        fetchNames('threads', topThreads.map(row => row.key)),
+      ]);
+
+      setTotals(accountTotals);
+      setByWorkspace(workspaceTotals.slice(0, MAX_ROWS).map(row => ({
+        ...row,
+        label: workspaceNames[row.key] || (row.key === 'unknown' ? 'No project' : 'Deleted project'),
+      })));
+      setByModel(modelTotals.slice(0, MAX_ROWS).map(row => ({
+        ...row,
+        label: getModelInfo(row.key)?.name || row.key,
+      })));
+      setByThread(topThreads.map(row => ({
+        ...row,
+        label: threadNames[row.key] || (row.key === 'unknown' ? 'Outside a chat' : 'Deleted chat'),
+      })));
+    } catch (error) {
+      console.error('💰 [UsageSettings] Failed to load usage:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [period, user?.id]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const handleClearUsage = () => {
+    Alert.alert(
+      'Reset Usage',
+      'This clears the usage history stored on this device. Provider billing is not affected.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            await usageLedger.clear();
+            loadUsage();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderRows = (rows: UsageRow[], emptyText: string) => {
+    if (rows.length === 0) {
+      return <Text style={styles.emptyText}>{emptyText}</Text>;
+    }
+
+    return rows.map(row => (
+      <View key={row.key} style={styles.usageRow}>
+        <View style={styles.usageRowInfo}>
+          <Text style={styles.usageRowTitle} numberOfLines={1}>{row.label}</Text>
+          <Text style={styles.usageRowDetail}>
+            {formatTokens(row.totals.totalTokens)} tokens
+            {row.totals.imageCount > 0 ? ` · ${row.totals.imageCount} images` : ''}
+            {row.totals.searchCount > 0 ? ` · ${row.totals.searchCount} searches` : ''}
+          </Text>
+        </View>
+        <Text style={styles.usageRowCost}>{formatCost(row.totals.costDollars)}</Text>
+      </View>
+    ));
+  };
+
+  return (
+    <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
+      {/* Period */}
+      <View style={styles.periodSelector}>
+        {([['30d', 'Last 30 days'], ['all', 'All time']] as const).map(([value, label]) => (
+          <TouchableOpacity
+            key={value}
+            style={[styles.periodButton, period === value && styles.periodButtonActive]}
+            onPress={() => setPeriod(value)}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.periodButtonText, period === value && styles.periodButtonTextActive]}>
+              {label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {isLoading || !totals ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator color="#9ca3af" />
+        </View>
+      ) : (
+        <>
+          {/* Account Totals */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Estimated Cost</Text>
+            <Text style={styles.totalCost}>{formatCost(totals.costDollars)}</Text>
+            <Text style={styles.sectionDescription}>
+              Estimated from list prices. Token counts are approximate when a provider doesn't report usage.
+            </Text>
+
+            <View style={styles.statsGrid}>
+              <View style={styles.statItem}>
+                <Text style={styles.statValue}>{formatTokens(totals.promptTokens)}</Text>
+                <Text style={styles.statLabel}>Input tokens</Text>
+              </View>
+              <View style={styles.statItem}>
+                <Text style={styles.statValue}>{formatTokens(totals.completionTokens)}</Text>
+                <Text style={styles.statLabel}>Output tokens</Text>
+              </View>
+              <View style={styles.statItem}>
+                <Text style={styles.statValue}>{formatTokens(totals.reasoningTokens)}</Text>
+                <Text style={styles.statLabel}>Reasoning tokens</Text>
+              </View>
+              <View style={styles.statItem}>
+                <Text style={styles.statValue}>{totals.imageCount}</Text>
+                <Text style={styles.statLabel}>Images</Text>
+              </View>
+              <View style={styles.statItem}>
+                <Text style={styles.statValue}>{totals.searchCount}</Text>
+                <Text style={styles.statLabel}>Web searches</Text>
+              </View>
+            </View>
+          </View>
+
+          {/* By Project */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>By Project</Text>
+            {renderRows(byWorkspace, 'No usage recorded yet')}
+          </View>
+
+          {/* By Model */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>By Model</Text>
+            {renderRows(byModel, 'No usage recorded yet')}
+          </View>
+
+          {/* By Chat */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Top Chats</Text>
+            {renderRows(byThread, 'No usage recorded yet')}
+          </View>
+
+          <View style={styles.section}>
+            <TouchableOpacity style={styles.actionButton} onPress={handleClearUsage}>
+              <Trash2 size={20} color="#f59e0b" />
+              <Text style={[styles.actionButtonText, { color: '#f59e0b' }]}>
+                Reset Usage History
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#252628',
+  },
+  periodSelector: {
+    flexDirection: 'row',
+    marginHorizontal: 20,
+    marginTop: 16,
+    padding: 4,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  periodButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  periodButtonActive: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  periodButtonText: {
+    fontSize: 14,
+    color: '#9ca3af',
+    fontWeight: '500',
+  },
+  periodButtonTextActive: {
+    color: '#ffffff',
+  },
+  loadingContainer: {
+    paddingVertical: 40,
+    alignItems: 'center',
+  },
+  section: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginBottom: 4,
+  },
+  sectionDescription: {
+    fontSize: 13,
+    color: '#9ca3af',
+    marginBottom: 16,
+    lineHeight: 18,
+  },
+  totalCost: {
+    fontSize: 32,
+    fontWeight: '700',
+    color: '#ffffff',
+    marginVertical: 4,
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  statItem: {
+    width: '31%',
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 2,
+  },
+  usageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+  },
+  usageRowInfo: {
+    flex: 1,
+    marginRight: 16,
+  },
+  usageRowTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#ffffff',
+    marginBottom: 2,
+  },
+  usageRowDetail: {
+    fontSize: 13,
+    color: '#9ca3af',
+  },
+  usageRowCost: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6b7280',
+    paddingVertical: 8,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    gap: 12,
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#ffffff',
+  },
+});
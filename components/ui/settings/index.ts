@@ -4,4 +4,8 @@ export { default as PersonalizationSettings } from './PersonalizationSettings';
 export { default as PreferenceSettings } from './PreferenceSettings';
 export { default as SecuritySettings } from './SecuritySettings';
 export { default as AccountSettings } from './AccountSettings';
-export { default as DataControls } from './DataControls';
\ No newline at end of file
+export { default as DataControls } from './DataControls';
+export { default as UsageSettings } from './UsageSettings';
+export { default as CustomProviderSettings } from './CustomProviderSettings';
+export { default as StreamInspectorSettings } from './StreamInspectorSettings';
+export { default as ChatSettings } from './ChatSettings';
\ No newline at end of file
@@ -27,18 +27,22 @@ import {
   FileVideo,
   FileImage,
   FileSpreadsheet,
+  Server,
+  Globe,
 } from 'lucide-react-native';
 
 import { Colors } from '@/constants/Colors';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/components/auth/AuthHandler';
 import { useAssistantStore } from '@/lib/assistantStore';
+import { useModelCatalog } from '@/hooks/useModelCatalog';
 import { Workspace } from '@/lib/workspace';
 import WorkspaceHeader from './WorkspaceHeader';
 import WorkspaceChats from './WorkspaceChats';
 import WorkspaceFiles from './WorkspaceFiles';
 import WorkspaceCreateDialog from './WorkspaceCreateDialog';
 import AssistantManagementDialog from './dialogs/AssistantManagementDialog';
+import SearchProfileDialog from './dialogs/SearchProfileDialog';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import Sidebar from '@/components/ui/Sidebar';
 import { ThreadManager } from '@/lib/threads';
@@ -70,7 +74,7 @@ interface ModelOption {
   provider: string;
 }
 
-const modelOptions: ModelOption[] = ALL_MODELS.map((model: ModelInfo) => ({
+const toModelOption = (model: ModelInfo): ModelOption => ({
   id: model.id,
   name: model.name,
   version: model.version,
@@ -79,7 +83,7 @@ const modelOptions: ModelOption[] = ALL_MODELS.map((model: ModelInfo) => ({
   description: model.description,
   category: model.category,
   provider: model.provider,
-}));
+});
 
 // File type icons component to match web app
 const FileTypeIcons = ({ files = [] }: { files: any[] }) => {
@@ -195,8 +199,11 @@ export default function SingleWorkspacePage({ workspaceId }: SingleWorkspacePage
   const [isFilesDialogOpen, setIsFilesDialogOpen] = useState(false);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isAssistantDialogOpen, setIsAssistantDialogOpen] = useState(false);
+  const [isSearchDialogOpen, setIsSearchDialogOpen] = useState(false);
   const [showSidebar, setShowSidebar] = useState(false);
-  const [selectedModel, setSelectedModel] = useState(modelOptions[0]);
+  const { models: catalogModels } = useModelCatalog();
+  const modelOptions = useMemo(() => catalogModels.map(toModelOption), [catalogModels]);
+  const [selectedModel, setSelectedModel] = useState(() => toModelOption(ALL_MODELS[0]));
   const [showModelSelector, setShowModelSelector] = useState(false);
 
   const router = useRouter();
@@ -429,6 +436,8 @@ export default function SingleWorkspacePage({ workspaceId }: SingleWorkspacePage
         return <PerplexityIcon size={size} />;
       case 'openrouter':
         return <OpenRouterIcon size={size} color="#ffffff" />;
+      case 'custom':
+        return <Server size={size} color="#ffffff" />;
       default:
         return <OpenAIIcon size={size} color="#ffffff" />;
     }
@@ -641,6 +650,23 @@ export default function SingleWorkspacePage({ workspaceId }: SingleWorkspacePage
               </View>
             </TouchableOpacity>
           </View>
+
+          {/* Web search defaults */}
+          <TouchableOpacity
+            style={[styles.buttonGrid, styles.searchSettingsButton]}
+            onPress={() => setIsSearchDialogOpen(true)}
+            activeOpacity={0.7}
+          >
+            <View style={[styles.connectedButton, styles.buttonContent]}>
+              <View style={styles.buttonText}>
+                <Text style={styles.buttonTitle}>Web search</Text>
+                <Text style={styles.buttonSubtitle}>Domains and recency for searches in this project</Text>
+              </View>
+              <View style={styles.buttonIcons}>
+                <Globe size={20} color={Colors.textSecondary} />
+              </View>
+            </View>
+          </TouchableOpacity>
         </View>
 
         {/* Chats in this project */}
@@ -667,6 +693,12 @@ export default function SingleWorkspacePage({ workspaceId }: SingleWorkspacePage
         onFilesChange={handleFilesChange}
       />
 
+      <SearchProfileDialog
+        open={isSearchDialogOpen}
+        onOpenChange={setIsSearchDialogOpen}
+        workspaceId={workspaceId}
+      />
+
       <AssistantManagementDialog
         open={isAssistantDialogOpen}
         onOpenChange={setIsAssistantDialogOpen}
@@ -1138,6 +1170,9 @@ const styles = StyleSheet.create({
     borderColor: 'rgba(255, 255, 255, 0.1)',
     overflow: 'hidden',
   },
+  searchSettingsButton: {
+    marginTop: 12,
+  },
   connectedButton: {
     flex: 1,
     backgroundColor: 'transparent',
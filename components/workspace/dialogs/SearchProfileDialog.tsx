@@ -0,0 +1,312 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { X, Save } from 'lucide-react-native';
+import { Colors } from '@/constants/Colors';
+import {
+  webSearchService,
+  normalizeDomains,
+  WebSearchProfile,
+  WebSearchRecency,
+} from '@/lib/services/webSearchService';
+
+interface SearchProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workspaceId: string;
+}
+
+const RECENCY_OPTIONS: { value: WebSearchRecency; label: string }[] = [
+  { value: 'any', label: 'Any time' },
+  { value: 'day', label: 'Past day' },
+  { value: 'week', label: 'Past week' },
+  { value: 'month', label: 'Past month' },
+  { value: 'year', label: 'Past year' },
+];
+
+const DEPTH_OPTIONS: { value: NonNullable<WebSearchProfile['searchContextSize']>; label: string }[] = [
+  { value: 'low', label: 'Quick' },
+  { value: 'medium', label: 'Balanced' },
+  { value: 'high', label: 'Thorough' },
+];
+
+const parseDomainList = (text: string) => normalizeDomains(text.split(/[\s,]+/));
+
+export default function SearchProfileDialog({
+  open,
+  onOpenChange,
+  workspaceId,
+}: SearchProfileDialogProps) {
+  const [includeText, setIncludeText] = useState('');
+  const [excludeText, setExcludeText] = useState('');
+  const [recency, setRecency] = useState<WebSearchRecency>('any');
+  const [depth, setDepth] = useState<NonNullable<WebSearchProfile['searchContextSize']>>('medium');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !workspaceId) return;
+
+    setLoading(true);
+    // Refreshed so the form shows changes made on other devices
+    webSearchService.getWorkspaceProfile(workspaceId, { refresh: true })
+      .then(profile => {
+        setIncludeText((profile?.includeDomains || []).join('\n'));
+        setExcludeText((profile?.excludeDomains || []).join('\n'));
+        setRecency(profile?.recency || 'any');
+        setDepth(profile?.searchContextSize || 'medium');
+      })
+      .finally(() => setLoading(false));
+  }, [open, workspaceId]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await webSearchService.saveWorkspaceProfile(workspaceId, {
+        includeDomains: parseDomainList(includeText),
+        excludeDomains: parseDomainList(excludeText),
+        recency,
+        searchContextSize: depth,
+      });
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error('Error saving search profile:', error);
+      Alert.alert('Error', error.message || 'Failed to save search settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={open}
+      transparent
+      animationType="fade"
+      onRequestClose={() => onOpenChange(false)}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContainer}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.title}>Web Search Settings</Text>
+            <TouchableOpacity
+              style={styles.closeButton}
+              onPress={() => onOpenChange(false)}
+            >
+              <X size={24} color={Colors.textLight} />
+            </TouchableOpacity>
+          </View>
+
+          {loading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color="#8b5cf6" />
+            </View>
+          ) : (
+            <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+              <Text style={styles.description}>
+                Defaults for web searches in this project. The assistant can still narrow a search further.
+              </Text>
+
+              <Text style={styles.label}>Only search these domains</Text>
+              <TextInput
+                style={styles.domainInput}
+                value={includeText}
+                onChangeText={setIncludeText}
+                placeholder={'e.g. arxiv.org\nnature.com'}
+                placeholderTextColor={Colors.textSecondary}
+                autoCapitalize="none"
+                autoCorrect={false}
+                multiline
+              />
+
+              <Text style={styles.label}>Never search these domains</Text>
+              <TextInput
+                style={styles.domainInput}
+                value={excludeText}
+                onChangeText={setExcludeText}
+                placeholder="e.g. pinterest.com"
+                placeholderTextColor={Colors.textSecondary}
+                autoCapitalize="none"
+                autoCorrect={false}
+                multiline
+              />
+
+              <Text style={styles.label}>Published</Text>
+              <View style={styles.chips}>
+                {RECENCY_OPTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.chip, recency === option.value && styles.chipSelected]}
+                    onPress={() => setRecency(option.value)}
+                  >
+                    <Text style={[styles.chipText, recency === option.value && styles.chipTextSelected]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.label}>Search depth</Text>
+              <View style={styles.chips}>
+                {DEPTH_OPTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.chip, depth === option.value && styles.chipSelected]}
+                    onPress={() => setDepth(option.value)}
+                  >
+                    <Text style={[styles.chipText, depth === option.value && styles.chipTextSelected]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </ScrollView>
+          )}
+
+          {/* Footer */}
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.saveButton, (saving || loading) && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={saving || loading}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Save size={16} color="#ffffff" />
+              )}
+              <Text style={styles.saveButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContainer: {
+    backgroundColor: '#161618',
+    borderRadius: 16,
+    margin: 20,
+    maxHeight: '80%',
+    width: '90%',
+    maxWidth: 600,
+    borderWidth: 1,
+    borderColor: '#374151',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#374151',
+  },
+  title: {
+    color: Colors.textLight,
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  loadingContainer: {
+    padding: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    flexGrow: 0,
+  },
+  contentInner: {
+    padding: 20,
+  },
+  description: {
+    color: Colors.textSecondary,
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  label: {
+    color: Colors.textLight,
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  domainInput: {
+    minHeight: 64,
+    borderWidth: 1,
+    borderColor: '#374151',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 8,
+    color: Colors.textLight,
+    fontSize: 14,
+    textAlignVertical: 'top',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#374151',
+  },
+  chipSelected: {
+    backgroundColor: '#8b5cf6',
+    borderColor: '#8b5cf6',
+  },
+  chipText: {
+    color: Colors.textSecondary,
+    fontSize: 13,
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#374151',
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#8b5cf6',
+    borderRadius: 8,
+    paddingVertical: 12,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
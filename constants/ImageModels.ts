@@ -31,6 +31,7 @@ export interface ImageModelInfo {
   category: 'standard' | 'fast' | 'premium' | 'beta';
   supportedSizes: string[];
   maxImages: number;
+  costPerImage?: number; // Approximate USD per image at default size and quality
   supportsEditing?: boolean;
   icon?: string;
 }
@@ -47,6 +48,7 @@ export const AVAILABLE_IMAGE_MODELS: ImageModelInfo[] = [
     category: 'standard',
     supportedSizes: ['1024x1024', '1024x1536', '1536x1024'],
     maxImages: 4,
+    costPerImage: 0.042,
     supportsEditing: true,
     icon: '🤖',
   },
@@ -59,6 +61,7 @@ export const AVAILABLE_IMAGE_MODELS: ImageModelInfo[] = [
     category: 'premium',
     supportedSizes: ['1024x1024', '1024x1536', '1536x1024'],
     maxImages: 1,
+    costPerImage: 0.04,
     supportsEditing: true,
     icon: '🎨',
   },
@@ -73,6 +76,7 @@ export const AVAILABLE_IMAGE_MODELS: ImageModelInfo[] = [
     category: 'premium',
     supportedSizes: ['1024x1024', '1024x1536', '1536x1024', '768x1344', '1344x768'],
     maxImages: 4,
+    costPerImage: 0.04,
     icon: '⚡',
   },
   {
@@ -84,6 +88,7 @@ export const AVAILABLE_IMAGE_MODELS: ImageModelInfo[] = [
     category: 'premium',
     supportedSizes: ['1024x1024', '1024x1536', '1536x1024', '2048x2048'],
     maxImages: 1,
+    costPerImage: 0.06,
     icon: '💎',
   },
   {
@@ -95,6 +100,7 @@ export const AVAILABLE_IMAGE_MODELS: ImageModelInfo[] = [
     category: 'standard',
     supportedSizes: ['1024x1024', '1024x1536', '1536x1024'],
     maxImages: 4,
+    costPerImage: 0.05,
     icon: '🔥',
   },
   {
@@ -106,6 +112,7 @@ export const AVAILABLE_IMAGE_MODELS: ImageModelInfo[] = [
     category: 'beta',
     supportedSizes: ['1024x1024', '1024x1536', '1536x1024'],
     maxImages: 4,
+    costPerImage: 0.025,
     icon: '🧪',
   },
   {
@@ -117,6 +124,7 @@ export const AVAILABLE_IMAGE_MODELS: ImageModelInfo[] = [
     category: 'fast',
     supportedSizes: ['1024x1024', '1024x1536', '1536x1024'],
     maxImages: 4,
+    costPerImage: 0.003,
     icon: '💨',
   },
   
@@ -130,6 +138,7 @@ export const AVAILABLE_IMAGE_MODELS: ImageModelInfo[] = [
     category: 'fast',
     supportedSizes: ['1024x1024', '1024x1536', '1536x1024'],
     maxImages: 4,
+    costPerImage: 0.02,
     icon: '🚀',
   },
   {
@@ -141,6 +150,7 @@ export const AVAILABLE_IMAGE_MODELS: ImageModelInfo[] = [
     category: 'premium',
     supportedSizes: ['1024x1024', '1024x1536', '1536x1024'],
     maxImages: 4,
+    costPerImage: 0.04,
     icon: '🏔️',
   },
   
@@ -154,6 +164,7 @@ export const AVAILABLE_IMAGE_MODELS: ImageModelInfo[] = [
     category: 'standard',
     supportedSizes: ['1024x1024', '1024x1536', '1536x1024'],
     maxImages: 4,
+    costPerImage: 0.07,
     icon: '🌅',
   },
   {
@@ -165,6 +176,7 @@ export const AVAILABLE_IMAGE_MODELS: ImageModelInfo[] = [
     category: 'beta',
     supportedSizes: ['1024x1024', '1024x1536', '1536x1024'],
     maxImages: 4,
+    costPerImage: 0.07,
     icon: '🤖',
   },
 ];
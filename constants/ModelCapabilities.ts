@@ -0,0 +1,155 @@
+import { DEFAULT_MODEL_LIMITS, getModelInfo } from './Models';
+
+// What a model accepts; drives the tool and attachment pickers and request parameter stripping
+export interface ModelCapabilities {
+  vision: boolean; // Image inputs
+  tools: boolean; // Function calling
+  parallelTools: boolean; // Several tool calls in one response
+  reasoning: boolean; // Thinks before answering
+  reasoningEffort: boolean; // Accepts reasoning_effort
+  temperature: boolean; // Accepts temperature, top_p and the penalties
+  fileSearch: boolean; // Document attachments retrieved from the vector store
+  maxOutputTokens: number;
+}
+
+type CapabilityFlags = Omit<ModelCapabilities, 'maxOutputTokens'>;
+
+const CHAT: CapabilityFlags = {
+  vision: false,
+  tools: true,
+  parallelTools: true,
+  reasoning: false,
+  reasoningEffort: false,
+  temperature: true,
+  fileSearch: true,
+};
+
+const VISION_CHAT: CapabilityFlags = { ...CHAT, vision: true };
+
+// o-series style: effort-controlled reasoning, fixed sampling
+const EFFORT_REASONING: CapabilityFlags = {
+  ...CHAT,
+  parallelTools: false,
+  reasoning: true,
+  reasoningEffort: true,
+  temperature: false,
+};
+
+// Used for models that aren't in the registry
+export const DEFAULT_MODEL_CAPABILITIES: ModelCapabilities = {
+  ...CHAT,
+  maxOutputTokens: DEFAULT_MODEL_LIMITS.maxOutputTokens,
+};
+
+// Capabilities keyed by ModelInfo.id
+export const MODEL_CAPABILITIES: Record<string, CapabilityFlags> = {
+  // OpenAI
+  'gpt-4o': VISION_CHAT,
+  'gpt-4o-mini': VISION_CHAT,
+  'o4-mini': { ...EFFORT_REASONING, vision: true },
+  'o3': { ...EFFORT_REASONING, vision: true },
+  'gpt-4.1': VISION_CHAT,
+  'gpt-4.1-mini': VISION_CHAT,
+  'gpt-4.1-nano': VISION_CHAT,
+  'gpt-4.5-preview': VISION_CHAT,
+
+  // Anthropic
+  'claude-sonnet-4': { ...VISION_CHAT, reasoning: true },
+  'claude-3-5-sonnet': VISION_CHAT,
+  'claude-3-5-haiku': CHAT,
+
+  // Google
+  'gemini-2-5-pro': { ...VISION_CHAT, reasoning: true },
+  'gemini-2-5-flash': { ...VISION_CHAT, reasoning: true },
+  'gemini-2-0-flash': VISION_CHAT,
+  'gemini-1-5-pro': VISION_CHAT,
+
+  // Mistral
+  'mistral-small': VISION_CHAT,
+  'open-mistral-nemo': CHAT,
+
+  // DeepSeek
+  'deepseek-chat': CHAT,
+  'deepseek-reasoner': { ...CHAT, tools: false, parallelTools: false, reasoning: true, temperature: false },
+
+  // Groq
+  'llama3-70b': { ...CHAT, parallelTools: false },
+
+  // xAI
+  'grok-4': { ...VISION_CHAT, reasoning: true },
+  'grok-3': CHAT,
+  'grok-3-fast': CHAT,
+  'grok-3-mini': { ...CHAT, reasoning: true, reasoningEffort: true },
+  'grok-3-mini-fast': { ...CHAT, reasoning: true, reasoningEffort: true },
+
+  // Cohere
+  'command-a': CHAT,
+  'command-r7b': CHAT,
+  'command-r-plus': CHAT,
+  'command-r': CHAT,
+
+  // Perplexity answers from its own web search
+  'sonar': { ...CHAT, tools: false, parallelTools: false, fileSearch: false },
+  'sonar-pro': { ...CHAT, tools: false, parallelTools: false, fileSearch: false },
+
+  // OpenRouter
+  'dolphin-mixtral': { ...CHAT, tools: false, parallelTools: false },
+};
+
+/**
+ * Capabilities for a model, looked up by ModelInfo id or API model name
+ */
+export function getModelCapabilities(model: string): ModelCapabilities {
+  const info = model ? getModelInfo(model) : undefined;
+  const flags = info ? MODEL_CAPABILITIES[info.id] : undefined;
+
+  if (!info || !flags) {
+    return DEFAULT_MODEL_CAPABILITIES;
+  }
+
+  return { ...flags, maxOutputTokens: info.maxOutputTokens };
+}
+
+export function isReasoningModel(model: string): boolean {
+  return getModelCapabilities(model).reasoning;
+}
+
+const SAMPLING_PARAMS = ['temperature', 'top_p', 'frequency_penalty', 'presence_penalty'];
+
+/**
+ * Drop request parameters the model would reject and clamp max_tokens to its limit
+ */
+export function stripUnsupportedParams<T extends Record<string, any>>(params: T, model: string): T {
+  const capabilities = getModelCapabilities(model);
+  const cleanParams: Record<string, any> = { ...params };
+
+  if (!capabilities.temperature) {
+    SAMPLING_PARAMS.forEach(key => delete cleanParams[key]);
+  }
+
+  if (!capabilities.reasoningEffort) {
+    delete cleanParams.reasoning_effort;
+  }
+
+  if (!capabilities.tools) {
+    delete cleanParams.tools;
+    delete cleanParams.tool_choice;
+    delete cleanParams.parallel_tool_calls;
+  } else if (!capabilities.parallelTools) {
+    delete cleanParams.parallel_tool_calls;
+  }
+
+  if (typeof cleanParams.max_tokens === 'number') {
+    cleanParams.max_tokens = Math.min(cleanParams.max_tokens, capabilities.maxOutputTokens);
+  }
+
+  return cleanParams as T;
+}
+
+export default {
+  MODEL_CAPABILITIES,
+  DEFAULT_MODEL_CAPABILITIES,
+  getModelCapabilities,
+  isReasoningModel,
+  stripUnsupportedParams,
+};
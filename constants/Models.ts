@@ -71,7 +71,16 @@ export const OPENROUTER_MODELS = {
 } as const;
 
 // Model providers
-export type ModelProvider = 'openai' | 'anthropic' | 'google' | 'cohere' | 'deepseek' | 'groq' | 'mistral' | 'perplexity' | 'xai' | 'openrouter';
+export type ModelProvider = 'openai' | 'anthropic' | 'google' | 'cohere' | 'deepseek' | 'groq' | 'mistral' | 'perplexity' | 'xai' | 'openrouter' | 'custom';
+
+// Models on the user's own OpenAI-compatible endpoint are named `custom:<model>`
+export const CUSTOM_MODEL_PREFIX = 'custom:';
+
+// Token prices in USD per 1M tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
 
 // Model display information
 export interface ModelInfo {
@@ -82,8 +91,35 @@ export interface ModelInfo {
   description: string;
   provider: ModelProvider;
   category?: 'flagship' | 'reasoning' | 'efficient' | 'legacy';
+  contextWindow: number; // Total tokens the model accepts (prompt + output)
+  maxOutputTokens: number; // Maximum tokens the model can generate in one response
+  pricing?: ModelPricing;
+  deprecated?: boolean; // Retired by the provider; hidden from pickers
+  replacedBy?: string; // ModelInfo id that assistants on this model migrate to
 }
 
+// Model entry served by the backend catalog; missing fields come from ALL_MODELS
+export interface CatalogModel {
+  id: string;
+  model: string;
+  provider: ModelProvider;
+  name?: string;
+  version?: string;
+  description?: string;
+  category?: ModelInfo['category'];
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  pricing?: ModelPricing;
+  deprecated?: boolean;
+  replacedBy?: string;
+}
+
+// Limits used for models that aren't in ALL_MODELS
+export const DEFAULT_MODEL_LIMITS = {
+  contextWindow: 8192,
+  maxOutputTokens: 4096,
+} as const;
+
 // All available models
 export const ALL_MODELS: ModelInfo[] = [
   // OpenAI Models
@@ -95,6 +131,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Most capable model, best for complex tasks',
     provider: 'openai',
     category: 'flagship',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    pricing: { input: 2.5, output: 10 },
   },
   {
     id: 'gpt-4o-mini',
@@ -104,6 +143,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Fast and efficient, good for most tasks',
     provider: 'openai',
     category: 'efficient',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    pricing: { input: 0.15, output: 0.6 },
   },
   {
     id: 'o4-mini',
@@ -113,6 +155,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Next-gen reasoning model',
     provider: 'openai',
     category: 'reasoning',
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    pricing: { input: 1.1, output: 4.4 },
   },
   {
     id: 'o3',
@@ -122,6 +167,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Advanced reasoning model for complex problems',
     provider: 'openai',
     category: 'reasoning',
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    pricing: { input: 2, output: 8 },
   },
   {
     id: 'gpt-4.1',
@@ -131,6 +179,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Enhanced version of GPT-4',
     provider: 'openai',
     category: 'flagship',
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    pricing: { input: 2, output: 8 },
   },
   {
     id: 'gpt-4.1-mini',
@@ -140,6 +191,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Efficient version of GPT-4.1',
     provider: 'openai',
     category: 'efficient',
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    pricing: { input: 0.4, output: 1.6 },
   },
   {
     id: 'gpt-4.1-nano',
@@ -149,6 +203,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Ultra-efficient version of GPT-4.1',
     provider: 'openai',
     category: 'efficient',
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    pricing: { input: 0.1, output: 0.4 },
   },
   {
     id: 'gpt-4.5-preview',
@@ -158,6 +215,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Next-generation model with enhanced capabilities',
     provider: 'openai',
     category: 'flagship',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    pricing: { input: 75, output: 150 },
   },
 
   // Anthropic Models
@@ -169,6 +229,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Most advanced Claude model',
     provider: 'anthropic',
     category: 'flagship',
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    pricing: { input: 3, output: 15 },
   },
   {
     id: 'claude-3-5-sonnet',
@@ -178,6 +241,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Capable Claude model with advanced reasoning',
     provider: 'anthropic',
     category: 'flagship',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    pricing: { input: 3, output: 15 },
   },
   {
     id: 'claude-3-5-haiku',
@@ -187,6 +253,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Fast and efficient Claude model',
     provider: 'anthropic',
     category: 'efficient',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.8, output: 4 },
   },
 
   // Google Models
@@ -198,6 +267,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Google\'s most advanced AI model',
     provider: 'google',
     category: 'flagship',
+    contextWindow: 1048576,
+    maxOutputTokens: 65536,
+    pricing: { input: 1.25, output: 10 },
   },
   {
     id: 'gemini-2-5-flash',
@@ -207,6 +279,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Fast and efficient Gemini model',
     provider: 'google',
     category: 'efficient',
+    contextWindow: 1048576,
+    maxOutputTokens: 65536,
+    pricing: { input: 0.3, output: 2.5 },
   },
   {
     id: 'gemini-2-0-flash',
@@ -216,6 +291,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Versatile Gemini model',
     provider: 'google',
     category: 'efficient',
+    contextWindow: 1048576,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.1, output: 0.4 },
   },
   {
     id: 'gemini-1-5-pro',
@@ -225,6 +303,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Previous generation Gemini Pro',
     provider: 'google',
     category: 'flagship',
+    contextWindow: 2097152,
+    maxOutputTokens: 8192,
+    pricing: { input: 1.25, output: 5 },
   },
 
   // Mistral Models
@@ -236,6 +317,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Efficient Mistral model',
     provider: 'mistral',
     category: 'efficient',
+    contextWindow: 32000,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.1, output: 0.3 },
   },
   {
     id: 'open-mistral-nemo',
@@ -245,6 +329,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Open source Mistral model',
     provider: 'mistral',
     category: 'efficient',
+    contextWindow: 128000,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.15, output: 0.15 },
   },
 
   // DeepSeek Models
@@ -256,6 +343,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Advanced reasoning and chat model',
     provider: 'deepseek',
     category: 'flagship',
+    contextWindow: 64000,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.27, output: 1.1 },
   },
   {
     id: 'deepseek-reasoner',
@@ -265,6 +355,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Specialized reasoning model',
     provider: 'deepseek',
     category: 'reasoning',
+    contextWindow: 64000,
+    maxOutputTokens: 32768,
+    pricing: { input: 0.55, output: 2.19 },
   },
 
   // Groq Models
@@ -276,6 +369,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Fast inference with Llama 3',
     provider: 'groq',
     category: 'flagship',
+    contextWindow: 8192,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.59, output: 0.79 },
   },
 
   // X AI Models
@@ -287,6 +383,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Most advanced Grok model',
     provider: 'xai',
     category: 'flagship',
+    contextWindow: 256000,
+    maxOutputTokens: 16384,
+    pricing: { input: 3, output: 15 },
   },
   {
     id: 'grok-3',
@@ -296,6 +395,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'X.AI\'s powerful conversational model',
     provider: 'xai',
     category: 'flagship',
+    contextWindow: 131072,
+    maxOutputTokens: 16384,
+    pricing: { input: 3, output: 15 },
   },
   {
     id: 'grok-3-fast',
@@ -305,6 +407,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Fast version of Grok 3',
     provider: 'xai',
     category: 'efficient',
+    contextWindow: 131072,
+    maxOutputTokens: 16384,
+    pricing: { input: 5, output: 25 },
   },
   {
     id: 'grok-3-mini',
@@ -314,6 +419,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Compact Grok model',
     provider: 'xai',
     category: 'efficient',
+    contextWindow: 131072,
+    maxOutputTokens: 16384,
+    pricing: { input: 0.3, output: 0.5 },
   },
   {
     id: 'grok-3-mini-fast',
@@ -323,6 +431,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Fastest Grok variant',
     provider: 'xai',
     category: 'efficient',
+    contextWindow: 131072,
+    maxOutputTokens: 16384,
+    pricing: { input: 0.6, output: 4 },
   },
 
   // Cohere Models
@@ -334,6 +445,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Advanced Cohere model',
     provider: 'cohere',
     category: 'flagship',
+    contextWindow: 256000,
+    maxOutputTokens: 8000,
+    pricing: { input: 2.5, output: 10 },
   },
   {
     id: 'command-r7b',
@@ -343,6 +457,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Efficient 7B parameter model',
     provider: 'cohere',
     category: 'efficient',
+    contextWindow: 128000,
+    maxOutputTokens: 4000,
+    pricing: { input: 0.0375, output: 0.15 },
   },
   {
     id: 'command-r-plus',
@@ -352,6 +469,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Enhanced version of Command R',
     provider: 'cohere',
     category: 'flagship',
+    contextWindow: 128000,
+    maxOutputTokens: 4000,
+    pricing: { input: 2.5, output: 10 },
   },
   {
     id: 'command-r',
@@ -361,6 +481,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Cohere\'s conversational AI model',
     provider: 'cohere',
     category: 'flagship',
+    contextWindow: 128000,
+    maxOutputTokens: 4000,
+    pricing: { input: 0.15, output: 0.6 },
   },
 
   // Perplexity Models
@@ -372,6 +495,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Search-enhanced AI model',
     provider: 'perplexity',
     category: 'flagship',
+    contextWindow: 128000,
+    maxOutputTokens: 8000,
+    pricing: { input: 1, output: 1 },
   },
   {
     id: 'sonar-pro',
@@ -381,6 +507,9 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Advanced search-enhanced model',
     provider: 'perplexity',
     category: 'flagship',
+    contextWindow: 200000,
+    maxOutputTokens: 8000,
+    pricing: { input: 3, output: 15 },
   },
 
   // OpenRouter Models
@@ -392,12 +521,187 @@ export const ALL_MODELS: ModelInfo[] = [
     description: 'Uncensored mixture of experts model',
     provider: 'openrouter',
     category: 'flagship',
+    contextWindow: 65536,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.9, output: 0.9 },
   },
 ];
 
 // Keep the original export for backward compatibility
 export const OPENAI_MODEL_INFO: ModelInfo[] = ALL_MODELS.filter(model => model.provider === 'openai');
 
+// Latest backend catalog merged with ALL_MODELS; null until it has loaded
+let modelCatalog: ModelInfo[] | null = null;
+
+// Models configured for the custom endpoint
+let customModels: ModelInfo[] = [];
+
+export function isCustomModel(model: string | undefined): boolean {
+  return !!model && model.startsWith(CUSTOM_MODEL_PREFIX);
+}
+
+/**
+ * Model name as the custom endpoint knows it
+ */
+export function getCustomModelName(model: string): string {
+  return isCustomModel(model) ? model.slice(CUSTOM_MODEL_PREFIX.length) : model;
+}
+
+/**
+ * ModelInfo for a model served by the custom endpoint
+ */
+export function toCustomModelInfo(modelName: string, providerName: string = 'Custom'): ModelInfo {
+  const model = `${CUSTOM_MODEL_PREFIX}${modelName}`;
+  return {
+    id: model,
+    name: modelName,
+    version: providerName,
+    model,
+    description: `Served by ${providerName}`,
+    provider: 'custom',
+    category: 'flagship',
+    ...DEFAULT_MODEL_LIMITS,
+  };
+}
+
+/**
+ * Overlay backend catalog entries on the bundled metadata. Bundled models the
+ * catalog doesn't mention are kept so older threads still resolve.
+ */
+export function mergeModelCatalog(entries: CatalogModel[]): ModelInfo[] {
+  const merged = entries.map((entry): ModelInfo => {
+    const local = ALL_MODELS.find(info => info.id === entry.id || info.model === entry.model);
+    const overrides = Object.fromEntries(
+      Object.entries(entry).filter(([, value]) => value !== undefined && value !== null)
+    ) as Partial<ModelInfo>;
+
+    return {
+      name: entry.model,
+      version: '',
+      description: '',
+      ...DEFAULT_MODEL_LIMITS,
+      ...local,
+      ...overrides,
+    } as ModelInfo;
+  });
+
+  const missing = ALL_MODELS.filter(local => !merged.some(info => info.id === local.id));
+  return [...merged, ...missing];
+}
+
+/**
+ * Replace the runtime model list; pass null to fall back to ALL_MODELS
+ */
+export function setModelCatalog(models: ModelInfo[] | null): void {
+  modelCatalog = models;
+}
+
+/**
+ * Replace the models offered by the custom endpoint
+ */
+export function setCustomModels(models: ModelInfo[]): void {
+  customModels = models;
+}
+
+/**
+ * Every known model, including deprecated ones
+ */
+export function getAllModels(): ModelInfo[] {
+  return [...(modelCatalog ?? ALL_MODELS), ...customModels];
+}
+
+/**
+ * Models that can be picked for new chats and assistants
+ */
+export function getAvailableModels(): ModelInfo[] {
+  return getAllModels().filter(info => !info.deprecated);
+}
+
+/**
+ * Find model info by model name or id
+ */
+export function getModelInfo(model: string): ModelInfo | undefined {
+  return getAllModels().find(info => info.model === model || info.id === model);
+}
+
+/**
+ * Model an assistant on a deprecated model should move to: its replacement,
+ * else the first available fallback. Undefined when no migration is needed.
+ */
+export function getReplacementModel(model: string): ModelInfo | undefined {
+  const info = getModelInfo(model);
+  if (!info?.deprecated) return undefined;
+
+  const replacement = info.replacedBy ? getModelInfo(info.replacedBy) : undefined;
+  if (replacement && !replacement.deprecated) return replacement;
+
+  return getFallbackModels(info.id).find(candidate => !candidate.deprecated) ?? getAvailableModels()[0];
+}
+
+/**
+ * Get the context window and output limits for a model
+ */
+export function getModelLimits(model: string): { contextWindow: number; maxOutputTokens: number } {
+  const info = getModelInfo(model);
+  return info
+    ? { contextWindow: info.contextWindow, maxOutputTokens: info.maxOutputTokens }
+    : { ...DEFAULT_MODEL_LIMITS };
+}
+
+/**
+ * Models to retry on, in order, when a provider rejects a turn with 429/5xx.
+ * Keyed and valued by ModelInfo id; entries not in ALL_MODELS are ignored.
+ */
+export const MODEL_FALLBACK_CHAINS: Record<string, string[]> = {
+  'gpt-4o': ['gpt-4.1', 'claude-sonnet-4', 'gemini-2-5-pro'],
+  'gpt-4o-mini': ['gpt-4.1-mini', 'gemini-2-0-flash', 'claude-3-5-haiku'],
+  'o4-mini': ['o3', 'gemini-2-5-pro', 'deepseek-reasoner'],
+  'o3': ['o4-mini', 'gemini-2-5-pro', 'claude-sonnet-4'],
+  'gpt-4.1': ['claude-sonnet-4', 'gemini-2-5-flash'],
+  'gpt-4.1-mini': ['gemini-2-5-flash', 'claude-3-5-haiku'],
+  'gpt-4.1-nano': ['gemini-2-0-flash', 'gpt-4o-mini'],
+  'gpt-4.5-preview': ['gpt-4.1', 'claude-sonnet-4'],
+  'claude-sonnet-4': ['gpt-4.1', 'gemini-2-5-flash'],
+  'claude-3-5-sonnet': ['claude-sonnet-4', 'gpt-4.1', 'gemini-2-5-flash'],
+  'claude-3-5-haiku': ['gpt-4.1-mini', 'gemini-2-0-flash'],
+  'gemini-2-5-pro': ['claude-sonnet-4', 'gpt-4.1'],
+  'gemini-2-5-flash': ['gpt-4.1-mini', 'claude-3-5-haiku'],
+  'gemini-2-0-flash': ['gemini-2-5-flash', 'gpt-4o-mini'],
+  'gemini-1-5-pro': ['gemini-2-5-pro', 'gpt-4.1'],
+  'mistral-small': ['gpt-4.1-mini', 'gemini-2-0-flash'],
+  'open-mistral-nemo': ['mistral-small', 'gpt-4o-mini'],
+  'deepseek-chat': ['gpt-4.1', 'gemini-2-5-flash'],
+  'deepseek-reasoner': ['o4-mini', 'gemini-2-5-pro'],
+  'llama3-70b': ['gpt-4.1-mini', 'gemini-2-5-flash'],
+  'grok-4': ['grok-3', 'claude-sonnet-4', 'gpt-4.1'],
+  'grok-3': ['gpt-4.1', 'claude-sonnet-4'],
+  'grok-3-fast': ['grok-3', 'gpt-4.1'],
+  'grok-3-mini': ['o4-mini', 'gpt-4.1-mini'],
+  'grok-3-mini-fast': ['grok-3-mini', 'gpt-4.1-mini'],
+  'command-a': ['gpt-4.1', 'claude-sonnet-4'],
+  'command-r-plus': ['command-a', 'gpt-4.1'],
+  'command-r': ['command-r-plus', 'gpt-4.1-mini'],
+  'command-r7b': ['command-r', 'gpt-4.1-nano'],
+  'sonar': ['sonar-pro', 'gpt-4.1-mini'],
+  'sonar-pro': ['sonar', 'gpt-4.1'],
+  'dolphin-mixtral': ['gpt-4.1-mini'],
+};
+
+/**
+ * Resolve the fallback models for a model, in retry order. An explicit chain
+ * (ids or model names) overrides the default one.
+ */
+export function getFallbackModels(model: string, chain?: string[]): ModelInfo[] {
+  const primary = getModelInfo(model);
+  const candidates = chain ?? (primary ? MODEL_FALLBACK_CHAINS[primary.id] : undefined) ?? [];
+
+  return candidates
+    .map(candidate => getModelInfo(candidate))
+    .filter((info, index, all): info is ModelInfo =>
+      !!info && info.id !== primary?.id && all.indexOf(info) === index
+    );
+}
+
 // Category colors for UI
 export const MODEL_CATEGORY_COLORS = {
   flagship: '#10b981', // emerald-500
@@ -420,4 +724,18 @@ export default {
   ALL_MODELS,
   OPENAI_MODEL_INFO,
   MODEL_CATEGORY_COLORS,
+  DEFAULT_MODEL_LIMITS,
+  MODEL_FALLBACK_CHAINS,
+  getModelInfo,
+  getModelLimits,
+  getFallbackModels,
+  mergeModelCatalog,
+  setModelCatalog,
+  getAllModels,
+  getAvailableModels,
+  getReplacementModel,
+  isCustomModel,
+  getCustomModelName,
+  toCustomModelInfo,
+  setCustomModels,
 }; 
\ No newline at end of file
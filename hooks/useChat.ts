@@ -1,4 +1,4 @@
-import { useState, useRef, useCallback, useEffect } from 'react';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { Alert } from 'react-native';
 import NetInfo from '@react-native-community/netinfo';
 import { supabase } from '@/lib/supabase';
@@ -8,23 +8,46 @@ import {
   StreamProviderChat,
   StreamingChatParams,
   StreamingCallbacks,
-  StreamingState 
+  StreamingState,
+  StreamResumeCursor,
+  AgentStep,
+  ModelFallback
 } from '@/lib/services/streamProviderChat';
 import { ChatCompletionService } from '@/lib/services/chatCompletionService';
 import { webSearchService } from '@/lib/services/webSearchService';
+import { messageOutbox, OutboxEntry } from '@/lib/services/messageOutbox';
+import { threadSummaryService, ThreadSummary } from '@/lib/services/threadSummaryService';
+import { chatPreferences } from '@/lib/services/chatPreferences';
+import { canvasService } from '@/lib/services/canvasService';
 import { buildStructuredSystemPrompt } from '@/lib/services/systemPromptBuilder';
-import { generateUUID } from '@/lib/services/streamingUtils';
+import { generateUUID, getProviderForModel } from '@/lib/services/streamingUtils';
 import { searchVectorStore, formatRetrievalResults, getThreadVectorStore, getWorkspaceVectorStore } from '@/lib/content';
 import { VectorStoreFile } from '@/lib/content';
+import { StructuredOutputSchema, parseResponseFormat } from '@/lib/utils/structuredOutput';
+import { createUpdateBatcher } from '@/lib/utils/updateBatcher';
+import { createReasoningTraceRecorder } from '@/lib/utils/reasoningTrace';
+import { estimateTokens } from '@/lib/utils/tokenEstimator';
+import { getModelInfo, ModelInfo } from '@/constants/Models';
+import {
+  BranchSelections,
+  ROOT_BRANCH_KEY,
+  buildMessageTree,
+  getActiveBranch,
+  getBranchPath,
+  getSiblings,
+  hasForkWithin,
+  selectBranch,
+} from '@/lib/utils/messageTree';
 
 export interface Message {
   id: string;
+  parentId?: string | null; // Message this one follows; siblings are edits or reruns
   content: string;
   role: 'user' | 'assistant' | 'system' | 'tool';
   timestamp: Date;
   isStreaming?: boolean;
   isStreamComplete?: boolean;
-  messageStatus?: 'streaming' | 'completed' | 'error';
+  messageStatus?: 'pending' | 'streaming' | 'completed' | 'error' | 'interrupted' | 'stopped';
   skipDatabaseSave?: boolean;
   metadata?: any;
   files?: VectorStoreFile[];
@@ -47,6 +70,10 @@ export interface UseChatOptions {
   maxTokens?: number;
   enableRetrieval?: boolean;
   enableMemories?: boolean;
+  agentMode?: boolean; // Let the model chain tool calls until it answers
+  maxAgentSteps?: number; // Defaults to the agent step setting
+  fallbackModels?: string[]; // Models to retry on after a 429/5xx; [] disables fallback
+  fallbackChains?: Record<string, string[]>; // Per-model fallback chains by ModelInfo id, used unless fallbackModels is set
   onError?: (error: Error) => void;
   onThreadTitleUpdated?: (threadId: string, newTitle: string) => void;
   onToolCall?: (toolCall: any, messageId?: string) => void;
@@ -68,16 +95,118 @@ export interface UseChatReturn {
       maxTokens?: number;
       provider?: string;
       model?: string;
+      responseSchema?: StructuredOutputSchema; // Answer this turn with JSON matching the schema
+      parentId?: string | null; // Fork the new turn from this message instead of the end of the branch
+      rerunOf?: string; // Answer this existing user message again as a sibling branch
     }
   ) => Promise<void>;
-  stopGeneration: () => void;
+  editMessage: (messageId: string, content: string) => Promise<void>; // Send the edit as a sibling of the original
+  getBranchInfo: (messageId: string) => { index: number; count: number } | null;
+  switchBranch: (messageId: string, direction: -1 | 1) => void; // Show the previous or next sibling
+  stopGeneration: () => void; // Keeps the partial answer as a stopped message
+  continueMessage: (messageId: string) => Promise<void>; // Resume a stopped answer from its partial text
   clearMessages: () => void;
   loadMessages: () => Promise<void>;
   retryLastMessage: () => Promise<void>;
   getCurrentStreamingState: () => StreamingState | null;
   switchModel: (newModel: string) => Promise<boolean>;
+  threadSummary: ThreadSummary | null;
+  compareModels: (content: string, models: string[]) => Promise<void>; // Stream one turn to 2-3 models side by side
+  pickCompareWinner: (messageId: string, candidateIndex: number) => Promise<void>;
+  pinMessage: (messageId: string, pinned: boolean) => Promise<void>; // Pinned messages survive history trimming
 }
 
+/**
+ * One model's answer in a side-by-side compare run
+ */
+export interface CompareCandidate {
+  model: string;
+  provider: string;
+  name: string;
+  content: string;
+  status: 'streaming' | 'completed' | 'error';
+  error?: string;
+  firstTokenMs?: number; // Time to first token
+  latencyMs?: number; // Time to the complete answer
+  tokens?: number; // Completion tokens
+  tokensEstimated?: boolean; // Provider didn't report usage
+}
+
+/**
+ * Compare run stored in the assistant message's metadata.compare. Until a
+ * winner is picked the message is not saved and is left out of the history.
+ */
+export interface ModelCompareRun {
+  startedAt: number;
+  candidates: CompareCandidate[];
+  winner?: number; // Index of the picked candidate
+}
+
+export const MAX_COMPARE_MODELS = 3;
+
+// Minimum time between message list updates while a response streams
+const STREAMING_UPDATE_INTERVAL_MS = 50;
+
+// Tools the model may call when a turn doesn't pass its own
+const CHAT_TOOL_NAMES = ['web_search', 'image_gen', 'image_edit', 'code_interpreter', 'read_url'];
+
+// A compare run whose winner hasn't been picked yet
+const isUnresolvedCompare = (message: Message): boolean =>
+  !!message.metadata?.compare && message.metadata.compare.winner === undefined;
+
+const createPendingMessage = (entry: OutboxEntry): Message => ({
+  id: entry.id,
+  content: entry.content,
+  role: 'user',
+  timestamp: new Date(entry.createdAt),
+  files: entry.files,
+  messageStatus: 'pending',
+});
+
+/**
+ * The stream's tool calls with their results; calls that never produced a
+ * result are marked cancelled.
+ */
+const settleToolCalls = (state: StreamingState) => {
+  const toolResults: any[] = state.metadata.toolResults || [];
+  return state.pendingToolCalls.map(toolCall => ({
+    ...toolCall,
+    isStreaming: false,
+    result: toolCall.result
+      ?? toolResults.find(result => result.tool_call_id === toolCall.id)?.result
+      ?? { error: true, message: 'Stopped by user', cancelled: true },
+  }));
+};
+
+/**
+ * The partial answer kept when the user stops generation
+ */
+const createStoppedMessage = (
+  message: Pick<Message, 'id' | 'parentId' | 'reasoningContent' | 'reasoningMetadata'>,
+  state: StreamingState
+): Message => {
+  const toolCalls = settleToolCalls(state);
+
+  return {
+    ...message,
+    content: state.content || (toolCalls.length > 0 ? ' ' : ''),
+    role: 'assistant',
+    timestamp: new Date(),
+    isStreaming: false,
+    isStreamComplete: true,
+    messageStatus: 'stopped',
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    metadata: {
+      ...state.metadata,
+      toolCallInProgress: false,
+      hasActiveToolCall: false,
+      isToolCallMessage: toolCalls.length > 0,
+      stopped: true,
+      stoppedAt: new Date().toISOString(),
+    },
+  };
+};
+
 export function useChat(options: UseChatOptions = {}): UseChatReturn {
   const {
     threadId,
@@ -91,6 +220,10 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
     maxTokens = 4096,
     enableRetrieval = true,
     enableMemories = true,
+    agentMode = false,
+    maxAgentSteps,
+    fallbackModels,
+    fallbackChains,
     onError,
     onThreadTitleUpdated,
     onToolCall,
@@ -103,11 +236,24 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
   const [isConnected, setIsConnected] = useState(true);
   const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const [currentStreamingState, setCurrentStreamingState] = useState<StreamingState | null>(null);
+  const [threadSummary, setThreadSummary] = useState<ThreadSummary | null>(null);
+  const [branchSelections, setBranchSelections] = useState<BranchSelections>({});
   
   const abortControllerRef = useRef<AbortController | null>(null);
   const lastUserMessageRef = useRef<string>('');
   const streamProviderChatRef = useRef<StreamProviderChat | null>(null);
   const completionProcessedRef = useRef<Set<string>>(new Set()); // Track processed completions per message ID
+  const outboxFlushingRef = useRef(false);
+
+  // `messages` holds every branch; only the active one is shown and sent to the provider
+  const messageTree = useMemo(
+    () => buildMessageTree(messages.filter(msg => msg.messageStatus !== 'pending')),
+    [messages]
+  );
+  const activeMessages = useMemo(() => [
+    ...getActiveBranch(messageTree, branchSelections),
+    ...messages.filter(msg => msg.messageStatus === 'pending'),
+  ], [messageTree, branchSelections, messages]);
 
   // Initialize StreamProviderChat
   useEffect(() => {
@@ -131,7 +277,13 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
   // Network connectivity monitoring
   useEffect(() => {
     const unsubscribe = NetInfo.addEventListener(state => {
-      setIsConnected(state.isConnected ?? false);
+      const connected = state.isConnected ?? false;
+      setIsConnected(connected);
+
+      // Park in-flight streams right away instead of waiting for the socket to fail
+      if (!connected && streamProviderChatRef.current?.getActiveStreamCount()) {
+        streamProviderChatRef.current.interruptAllStreams();
+      }
     });
 
     return unsubscribe;
@@ -142,10 +294,12 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
     if (threadId) {
       // Clear messages when switching threads to prevent showing old messages briefly
       setMessages([]);
+      setThreadSummary(null);
       loadMessages();
     } else {
       // Clear messages if no threadId
       setMessages([]);
+      setThreadSummary(null);
     }
   }, [threadId]);
 
@@ -170,11 +324,24 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
       // Use ThreadManager to load messages
       const messagesData = await ThreadManager.getThreadMessages(threadId);
       
-      const formattedMessages: Message[] = messagesData.map(msg => ({
+      // Parent ids are saved as the client message id; loaded messages use the row id
+      const rowIdByMessageId = new Map(messagesData.map(msg => [msg.message_id, msg.id]));
+      const resolveParentId = (msg: any, index: number): string | null => {
+        if (msg.metadata && 'parentId' in msg.metadata) {
+          const parentId = msg.metadata.parentId;
+          return parentId ? rowIdByMessageId.get(parentId) ?? parentId : null;
+        }
+        // Messages saved before branching form a single chain
+        return index > 0 ? messagesData[index - 1].id : null;
+      };
+
+      const formattedMessages: Message[] = messagesData.map((msg, index) => ({
         id: msg.id,
+        parentId: resolveParentId(msg, index),
         content: msg.content,
         role: msg.role as 'user' | 'assistant' | 'system' | 'tool',
         timestamp: new Date(msg.created_at),
+        messageStatus: msg.metadata?.stopped ? 'stopped' : undefined,
         metadata: msg.metadata,
         // Check tool_calls column first (new format), then fall back to metadata (old format)
         toolCalls: msg.tool_calls || msg.metadata?.toolCalls,
@@ -248,8 +415,36 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
         })(),
       }));
 
-      console.log(`🔄 [useChat] Loaded ${formattedMessages.length} messages for thread ${threadId}`);
-      setMessages(formattedMessages);
+      // Show turns queued offline after the saved history, dropping any that were answered.
+      // A turn saved before its answer streamed stays pending so the outbox asks again.
+      const savedMessageIds = new Set(messagesData.map(msg => msg.message_id));
+      const answeredMessageIds = new Set(messagesData
+        .filter(msg => msg.role === 'assistant' && msg.metadata?.parentId)
+        .map(msg => msg.metadata.parentId));
+      const queuedEntries = await messageOutbox.getEntries(threadId);
+      const pendingMessages: Message[] = [];
+      const unansweredEntryIds = new Map<string, string>(); // Row id -> outbox entry id
+
+      for (const entry of queuedEntries) {
+        if (answeredMessageIds.has(entry.id)) {
+          await messageOutbox.remove(entry.id);
+        } else if (savedMessageIds.has(entry.id)) {
+          unansweredEntryIds.set(rowIdByMessageId.get(entry.id), entry.id);
+        } else {
+          pendingMessages.push(createPendingMessage(entry));
+        }
+      }
+
+      console.log(`🔄 [useChat] Loaded ${formattedMessages.length} messages for thread ${threadId}`, {
+        pendingCount: pendingMessages.length,
+      });
+      const restoredMessages = formattedMessages.map(msg => {
+        const entryId = unansweredEntryIds.get(msg.id);
+        return entryId ? { ...msg, id: entryId, messageStatus: 'pending' as const } : msg;
+      });
+      setMessages([...restoredMessages, ...pendingMessages]);
+      setBranchSelections({});
+      setThreadSummary(await threadSummaryService.getSummary(threadId));
     } catch (error: any) {
       console.error('🔄 [useChat] Error loading thread messages:', error);
       onError?.(error);
@@ -273,6 +468,7 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
         ...message.metadata,
         toolCallId: message.toolCallId,
         name: message.name,
+        parentId: message.parentId ?? null,
         reasoningContent: message.reasoningContent,
         reasoningMetadata: message.reasoningMetadata,
         isStreaming: message.isStreaming,
@@ -345,6 +541,86 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
     }
   }, [threadId, workspaceId, onError]);
 
+  // Rewrite a saved message in place, e.g. when a stopped answer is continued
+  const updateMessageInDatabase = useCallback(async (message: Message) => {
+    if (!threadId || !workspaceId || message.skipDatabaseSave) {
+      return;
+    }
+
+    const fields = {
+      content: message.content,
+      tool_calls: message.toolCalls || null,
+      metadata: {
+        ...message.metadata,
+        parentId: message.parentId ?? null,
+        reasoningContent: message.reasoningContent,
+        reasoningMetadata: message.reasoningMetadata,
+        isStreaming: false,
+      },
+      updated_at: new Date().toISOString(),
+    };
+
+    try {
+      // Messages sent this session are keyed by their client id, loaded ones by row id
+      const { data, error } = await supabase
+        .from('thread_messages')
+        .update(fields)
+        .eq('message_id', message.id)
+        .select('id');
+      if (error) throw error;
+
+      if (!data?.length) {
+        const { error: rowError } = await supabase
+          .from('thread_messages')
+          .update(fields)
+          .eq('id', message.id);
+        if (rowError) throw rowError;
+      }
+
+      console.log(`💾 [useChat] Message updated in database: ${message.id}`);
+    } catch (error: any) {
+      console.error('Error updating message in database:', error);
+      onError?.(error);
+    }
+  }, [threadId, workspaceId, onError]);
+
+  const resumeInterruptedStreams = useCallback(async () => {
+    const streamProviderChat = streamProviderChatRef.current;
+    if (!streamProviderChat) return;
+
+    for (const messageId of streamProviderChat.getInterruptedMessageIds()) {
+      console.log('▶️ [useChat] Resuming interrupted message:', messageId);
+
+      setMessages(prev => prev.map(msg => 
+        msg.id === messageId 
+          ? { ...msg, isStreaming: true, messageStatus: 'streaming' }
+          : msg
+      ));
+      setStreamingMessageId(messageId);
+      setIsLoading(true);
+      abortControllerRef.current = new AbortController();
+
+      try {
+        // The original callbacks from sendMessage finish the same message
+        await streamProviderChat.resumeStream(messageId, undefined, {
+          signal: abortControllerRef.current.signal
+        });
+      } catch (error: any) {
+        console.error('❌ [useChat] Failed to resume message:', error);
+      } finally {
+        abortControllerRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  }, []);
+
+  // Finish interrupted answers once connectivity returns
+  useEffect(() => {
+    if (isConnected) {
+      resumeInterruptedStreams();
+    }
+  }, [isConnected, resumeInterruptedStreams]);
+
   const getCurrentStreamingState = useCallback(() => {
     return currentStreamingState;
   }, [currentStreamingState]);
@@ -358,12 +634,37 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
       maxTokens?: number;
       provider?: string;
       model?: string;
-    } = {}
+      responseSchema?: StructuredOutputSchema;
+      parentId?: string | null;
+      rerunOf?: string;
+    } = {},
+    queuedMessageId?: string,
+    queuedMessageSaved = false // The replayed turn reached the database before its answer streamed
   ) => {
     if (!content.trim() || isLoading) return;
 
+    // A rerun answers an existing user turn again instead of adding a new one
+    const rerunMessage = messageOptions.rerunOf
+      ? messages.find(msg => msg.id === messageOptions.rerunOf && msg.role === 'user')
+      : undefined;
+
+    if (!isConnected && rerunMessage) {
+      Alert.alert('Offline', 'Rerunning a message needs a connection. Please try again once you are back online.');
+      return;
+    }
+
     if (!isConnected) {
-      Alert.alert('No Internet Connection', 'Please check your internet connection and try again.');
+      // Queue the turn so it survives restarts and goes out once we're back online
+      const entry = await messageOutbox.enqueue({
+        id: Date.now().toString(),
+        threadId,
+        workspaceId,
+        content: content.trim(),
+        files: files && files.length > 0 ? files : undefined,
+        toolChoice: toolChoiceOverride,
+        options: messageOptions,
+      });
+      setMessages(prev => [...prev, createPendingMessage(entry)]);
       return;
     }
 
@@ -388,8 +689,14 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
     // Let the AI decide which tools to use instead of preprocessing
     let processedContent = content.trim();
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
+    // New turns continue the active branch unless an edit forks from an earlier message
+    const branchEnd = activeMessages
+      .filter(msg => msg.messageStatus !== 'pending' && !isUnresolvedCompare(msg))
+      .pop();
+
+    const userMessage: Message = rerunMessage || {
+      id: queuedMessageId || Date.now().toString(),
+      parentId: messageOptions.parentId !== undefined ? messageOptions.parentId : branchEnd?.id ?? null,
       content: content.trim(), // Use original content for display
       role: 'user',
       timestamp: new Date(),
@@ -399,23 +706,58 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
     const assistantMessageId = (Date.now() + 1).toString();
     const assistantMessage: Message = {
       id: assistantMessageId,
+      parentId: userMessage.id,
       content: '',
       role: 'assistant',
       timestamp: new Date(),
       isStreaming: true,
     };
 
-    setMessages(prev => [...prev, userMessage, assistantMessage]);
+    // History is the branch leading up to this turn; the outbox is never part of the tree
+    const previousMessages = getBranchPath(messageTree, userMessage.parentId)
+      .filter(msg => !isUnresolvedCompare(msg));
+
+    setMessages(prev => {
+      // Starting a new turn abandons a compare run nobody picked a winner for
+      const current = prev.filter(msg => !isUnresolvedCompare(msg));
+      if (rerunMessage) {
+        return [...current, assistantMessage];
+      }
+
+      // A replayed turn takes the place of its pending bubble
+      const pendingIndex = current.findIndex(msg => msg.id === userMessage.id);
+      if (pendingIndex === -1) {
+        return [...current, userMessage, assistantMessage];
+      }
+      return [
+        ...current.slice(0, pendingIndex),
+        userMessage,
+        assistantMessage,
+        ...current.slice(pendingIndex + 1),
+      ];
+    });
+    setBranchSelections(prev => ({
+      ...prev,
+      [userMessage.parentId ?? ROOT_BRANCH_KEY]: userMessage.id,
+      [userMessage.id]: assistantMessageId,
+    }));
     setIsLoading(true);
     setStreamingMessageId(assistantMessageId);
 
     // Save user message to database
-    await saveMessageToDatabase(userMessage);
+    if (!rerunMessage && !queuedMessageSaved) {
+      await saveMessageToDatabase(userMessage);
+    }
+
+    if (queuedMessageId) {
+      await messageOutbox.remove(queuedMessageId);
+    }
 
     // Update thread title if this is the first message
-    if (threadId && messages.length === 0) {
+    if (threadId && previousMessages.length === 0 && !rerunMessage) {
       // Update title in background - don't wait for it
-      ThreadManager.updateThreadTitle(threadId, userMessage.content).then((success) => {
+      const titleModel = useAssistantStore.getState().currentAssistant?.model || finalOptions.model || model;
+      ThreadManager.updateThreadTitle(threadId, userMessage.content, titleModel).then((success) => {
         if (success) {
           // Get the updated title and notify parent component
           ThreadManager.getThread(threadId).then((thread) => {
@@ -447,40 +789,6 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
       const actualModel = currentAssistant?.model || finalOptions.model || model;
       
       // Determine provider based on the current model
-      const getProviderForModel = (modelName: string): string => {
-        if (!modelName) return 'openai';
-        const lowerModel = modelName.toLowerCase();
-        
-        if (lowerModel.includes('gpt') || lowerModel.includes('o1') || lowerModel.includes('dall-e')) {
-          return 'openai';
-        }
-        if (lowerModel.includes('claude')) {
-          return 'anthropic';
-        }
-        if (lowerModel.includes('gemini') || lowerModel.includes('palm') || lowerModel.includes('bison')) {
-          return 'gemini';
-        }
-        if (lowerModel.includes('mistral') || lowerModel.includes('mixtral')) {
-          return 'mistral';
-        }
-        if (lowerModel.includes('deepseek')) {
-          return 'deepseek';
-        }
-        if (lowerModel.includes('grok') || lowerModel.includes('xai')) {
-          return 'xai';
-        }
-        if (lowerModel.includes('llama') || lowerModel.includes('mixtral-8x7b')) {
-          return 'groq';
-        }
-        if (lowerModel.includes('command') || lowerModel.includes('cohere')) {
-          return 'cohere';
-        }
-        if (lowerModel.includes('sonar') || lowerModel.includes('perplexity')) {
-          return 'perplexity';
-        }
-        return 'openai';
-      };
-
       const actualProvider = getProviderForModel(actualModel);
 
       console.log('🚀 [useChat] Using assistant model:', {
@@ -545,13 +853,21 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
         }
       }
 
+      // Turns covered by the thread summary are replaced by the summary in the system prompt
+      // The summary only describes this branch if it didn't fork within the summarized turns
+      const summarizedCount = threadSummary && threadSummary.messageCount < previousMessages.length &&
+        !hasForkWithin(messageTree, previousMessages, threadSummary.messageCount)
+        ? threadSummary.messageCount
+        : 0;
+
       // Prepare conversation history
-      const conversationHistory: any[] = messages.map(msg => ({
+      const conversationHistory: any[] = previousMessages.slice(summarizedCount).map(msg => ({
         role: msg.role,
         content: msg.content,
         tool_calls: msg.toolCalls,
         tool_call_id: msg.toolCallId,
         name: msg.name,
+        pinned: !!msg.metadata?.pinned,
       }));
 
       // Use processed content (which may include search results) for AI processing
@@ -650,126 +966,17 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
       });
 
       // Prepare available tools for the AI (not forced tool choice)
-      const availableTools = [
-        {
-          type: 'function',
-          function: {
-            name: 'web_search',
-            description: 'Search the web for current information and real-time data',
-            parameters: {
-              type: 'object',
-              properties: {
-                query: {
-                  type: 'string',
-                  description: 'The search query to execute'
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Maximum number of results to return (default: 10)',
-                  default: 10
-                },
-                searchContextSize: {
-                  type: 'string',
-                  description: 'Search context size - affects cost and quality (default: medium)',
-                  enum: ['low', 'medium', 'high'],
-                  default: 'medium'
-                }
-              },
-              required: ['query']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'image_gen',
-            description: 'Generate images using AI. Can create detailed, high-quality images from text descriptions.',
-            parameters: {
-              type: 'object',
-              properties: {
-                prompt: {
-                  type: 'string',
-                  description: 'Detailed description of the image to generate'
-                },
-                name: {
-                  type: 'string',
-                  description: 'Name or title for the generated image'
-                },
-                model: {
-                  type: 'string',
-                  description: 'Image generation model to use',
-                  enum: ['gpt-image-1', 'dall-e-3', 'flux-1.1-pro'],
-                  default: 'gpt-image-1'
-                },
-                size: {
-                  type: 'string',
-                  description: 'Image size',
-                  enum: ['1024x1024', '1792x1024', '1024x1792'],
-                  default: '1024x1024'
-                },
-                quality: {
-                  type: 'string',
-                  enum: ['low', 'medium', 'high'],
-                  description: 'Image quality level',
-                  default: 'medium'
-                }
-              },
-              required: ['prompt', 'name']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'image_edit',
-            description: 'Edit existing images using AI. Can modify, enhance, or transform uploaded images based on text instructions.',
-            parameters: {
-              type: 'object',
-              properties: {
-                prompt: {
-                  type: 'string',
-                  description: 'Detailed instructions for how to edit the image'
-                },
-                name: {
-                  type: 'string',
-                  description: 'Name or title for the edited image'
-                },
-                model: {
-                  type: 'string',
-                  description: 'Image editing model to use',
-                  enum: ['gpt-image-1', 'dall-e-3'],
-                  default: 'gpt-image-1'
-                },
-                size: {
-                  type: 'string',
-                  description: 'Output image size',
-                  enum: ['1024x1024', '1792x1024', '1024x1792'],
-                  default: '1024x1024'
-                },
-                image_urls: {
-                  type: 'array',
-                  items: {
-                    type: 'string'
-                  },
-                  description: 'URLs of the images to edit (extracted from conversation context)'
-                },
-                mask_url: {
-                  type: 'string',
-                  description: 'Optional mask image URL for selective editing'
-                }
-              },
-              required: ['prompt', 'name']
-            }
-          }
-        }
-      ];
+      const availableTools = streamProviderChatRef.current.getToolRegistry().getToolDefinitions(CHAT_TOOL_NAMES);
 
       // Build structured system prompt using systemPromptBuilder
       let systemPrompt = '';
       try {
         systemPrompt = await buildStructuredSystemPrompt(
           currentAssistant?.instructions || instructions || '',
-          contextData,
+          {
+            ...contextData,
+            thread_summary: summarizedCount > 0 ? threadSummary?.summary : undefined,
+          },
           {
             enableExamples: true,
             enableAntiPatterns: true,
@@ -795,6 +1002,11 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
         tool_choice: toolChoice || 'auto',
         stream: true,
         parallel_tool_calls: true,
+        agentLoop: agentMode
+          ? { maxSteps: maxAgentSteps ?? chatPreferences.getPreferences().agentMaxSteps }
+          : undefined,
+        fallbackModels: fallbackModels ?? fallbackChains?.[getModelInfo(actualModel)?.id ?? actualModel],
+        structuredOutput: messageOptions.responseSchema || parseResponseFormat(currentAssistant?.response_format) || undefined,
       };
 
       // Log tool choice if specified for debugging
@@ -802,23 +1014,88 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
         console.log(`🛠️ [useChat] Tool choice specified:`, toolChoiceOverride || toolChoice);
       }
 
+      // Apply streaming deltas in batches so the message list doesn't re-render on every token
+      const streamingUpdates = createUpdateBatcher(({ content, state }: { content: string; state: StreamingState }) => {
+        setCurrentStreamingState(state);
+        setMessages(prev => prev.map(msg => 
+          msg.id === assistantMessageId 
+            ? { 
+                ...msg, 
+                content,
+                isStreaming: true,
+                metadata: { ...msg.metadata, ...state.metadata }
+              }
+            : msg
+        ));
+      }, STREAMING_UPDATE_INTERVAL_MS);
+
+      // Reasoning for the whole turn, across tool follow-ups and agent steps
+      const reasoningRecorder = createReasoningTraceRecorder(actualModel);
+      const reasoningUpdates = createUpdateBatcher(() => {
+        setMessages(prev => prev.map(msg => 
+          msg.id === assistantMessageId 
+            ? { 
+                ...msg, 
+                reasoningContent: reasoningRecorder.getContent(),
+                reasoningMetadata: reasoningRecorder.snapshot()
+              }
+            : msg
+        ));
+      }, STREAMING_UPDATE_INTERVAL_MS);
+
+      // Live output of running tools (code interpreter stdout/stderr), keyed by tool call id
+      const toolProgress: Record<string, any> = {};
+      const toolProgressUpdates = createUpdateBatcher(() => {
+        setMessages(prev => prev.map((msg: any) => 
+          msg.id === assistantMessageId && msg.tool_calls
+            ? { 
+                ...msg, 
+                tool_calls: msg.tool_calls.map((tc: any) => 
+                  toolProgress[tc.id] ? { ...tc, progress: toolProgress[tc.id] } : tc
+                )
+              }
+            : msg
+        ));
+      }, STREAMING_UPDATE_INTERVAL_MS);
+
+      const getReasoningFields = (state: StreamingState): Pick<Message, 'reasoningContent' | 'reasoningMetadata'> => {
+        reasoningRecorder.endPhase();
+        reasoningUpdates.cancel();
+
+        if (reasoningRecorder.getContent()) {
+          return {
+            reasoningContent: reasoningRecorder.getContent(),
+            reasoningMetadata: reasoningRecorder.snapshot(),
+          };
+        }
+
+        // Tag-based reasoning (<think>) is parsed out of the content rather than streamed separately
+        const { reasoningContent, reasoningStartTime, reasoningDuration } = state.reasoningState;
+        return reasoningContent ? {
+          reasoningContent,
+          reasoningMetadata: {
+            model: actualModel,
+            startedAt: reasoningStartTime,
+            completedAt: reasoningStartTime && reasoningDuration ? reasoningStartTime + reasoningDuration : undefined,
+            durationMs: reasoningDuration,
+            phases: [],
+          },
+        } : {};
+      };
+
       // Set up streaming callbacks
       const callbacks: StreamingCallbacks = {
         onUpdate: (content: string, state: StreamingState) => {
-          setCurrentStreamingState(state);
-          setMessages(prev => prev.map(msg => 
-            msg.id === assistantMessageId 
-              ? { 
-                  ...msg, 
-                  content,
-                  isStreaming: true,
-                  metadata: { ...msg.metadata, ...state.metadata }
-                }
-              : msg
-          ));
+          // The answer has started, so the current reasoning phase is over
+          if (reasoningRecorder.endPhase()) {
+            reasoningUpdates.push(null);
+          }
+          streamingUpdates.push({ content, state });
         },
 
         onComplete: async (finalContent: string, state: StreamingState) => {
+          streamingUpdates.flush();
+          toolProgressUpdates.cancel();
           console.log('✅ [useChat] Stream completed:', {
             contentLength: finalContent.length,
             messageId: assistantMessageId,
@@ -902,6 +1179,7 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
             // Create tool call message with single space content (matching expected structure)
             const toolCallMessage: Message = {
               id: assistantMessageId,
+              parentId: userMessage.id,
               content: ' ', // Single space as per expected structure
               role: 'assistant',
               timestamp: new Date(),
@@ -931,17 +1209,13 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
                   }
                 }),
               },
-              reasoningContent: state.reasoningState.reasoningContent || undefined,
-              reasoningMetadata: state.reasoningState.reasoningDuration ? {
-                duration: state.reasoningState.reasoningDuration,
-                startTime: state.reasoningState.reasoningStartTime,
-              } : undefined,
             };
 
             // Create separate assistant response message with AI response content  
             const assistantResponseId = generateUUID();
             const assistantResponseMessage: Message = {
               id: assistantResponseId,
+              parentId: assistantMessageId,
               content: finalContent,
               role: 'assistant',
               timestamp: new Date(),
@@ -957,7 +1231,11 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
                 isFollowUpContent: true,
                 toolCallMessageId: assistantMessageId,
                 hasContentInFollowUp: true,
+                agentSteps: state.metadata.agentSteps,
+                fallback: state.metadata.fallback,
               },
+              // The tool call message is hidden, so the answer carries the turn's reasoning
+              ...getReasoningFields(state),
             };
 
             console.log('🔧 [useChat] Tool call message created:', {
@@ -1006,6 +1284,17 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
               }
             }
 
+            // Edits the model made to an existing canvas become versions of that canvas
+            if (threadId) {
+              toolCallsWithResults
+                .filter(toolCall => toolCall.function?.name === 'canvas_edit')
+                .forEach(toolCall => {
+                  canvasService.applyChatEdit(threadId, toolCall).catch(error => {
+                    console.error('🎨 [useChat] Failed to apply canvas edit:', error);
+                  });
+                });
+            }
+
             // Clear streaming state AFTER tool completion
             setCurrentStreamingState(null);
             setStreamingMessageId(null);
@@ -1021,6 +1310,7 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
             // CRITICAL FIX: Create tool call message immediately for skeleton display
             const toolCallMessage: Message = {
               id: assistantMessageId,
+              parentId: userMessage.id,
               content: ' ', // Single space as per expected structure
               role: 'assistant',
               timestamp: new Date(),
@@ -1047,6 +1337,7 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
             // Regular completion without tool calls
             const finalAssistantMessage: Message = {
               id: assistantMessageId,
+              parentId: userMessage.id,
               content: finalContent,
               role: 'assistant',
               timestamp: new Date(),
@@ -1055,11 +1346,7 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
                 ...state.metadata,
                 streamingState: state,
               },
-              reasoningContent: state.reasoningState.reasoningContent || undefined,
-              reasoningMetadata: state.reasoningState.reasoningDuration ? {
-                duration: state.reasoningState.reasoningDuration,
-                startTime: state.reasoningState.reasoningStartTime,
-              } : undefined,
+              ...getReasoningFields(state),
             };
 
             setMessages(prev => prev.map(msg => 
@@ -1082,6 +1369,9 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
         },
 
         onError: (error: Error) => {
+          streamingUpdates.cancel();
+          reasoningUpdates.cancel();
+          toolProgressUpdates.cancel();
           console.error('❌ [useChat] Streaming error:', error);
           setCurrentStreamingState(null);
           setStreamingMessageId(null); // Clear on error
@@ -1100,7 +1390,80 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
           ));
         },
 
+        onFallback: (fallback: ModelFallback) => {
+          console.log('🔀 [useChat] Retrying turn on fallback model:', {
+            messageId: assistantMessageId,
+            originalModel: fallback.originalModel,
+            model: fallback.model
+          });
+
+          setMessages(prev => prev.map(msg => 
+            msg.id === assistantMessageId 
+              ? { 
+                  ...msg, 
+                  metadata: { 
+                    ...msg.metadata, 
+                    fallback,
+                    model: fallback.model,
+                    provider: fallback.provider
+                  }
+                }
+              : msg
+          ));
+        },
+
+        onInterrupted: (cursor: StreamResumeCursor, state: StreamingState) => {
+          streamingUpdates.cancel();
+          reasoningUpdates.flush();
+          console.log('⏸️ [useChat] Stream interrupted, waiting for connectivity:', {
+            messageId: assistantMessageId,
+            sessionId: cursor.sessionId,
+            deltaOffset: cursor.deltaOffset,
+            contentLength: cursor.contentLength
+          });
+          setCurrentStreamingState(null);
+          setStreamingMessageId(null);
+
+          // Keep the partial answer visible until the stream is resumed
+          setMessages(prev => prev.map(msg => 
+            msg.id === assistantMessageId 
+              ? { 
+                  ...msg, 
+                  content: state.content,
+                  isStreaming: false,
+                  messageStatus: 'interrupted',
+                  metadata: { ...msg.metadata, resumeCursor: cursor }
+                }
+              : msg
+          ));
+        },
+
+        onStopped: async (state: StreamingState) => {
+          streamingUpdates.cancel();
+          toolProgressUpdates.cancel();
+          completionProcessedRef.current.add(assistantMessageId);
+          console.log('🛑 [useChat] Generation stopped, keeping partial answer:', {
+            messageId: assistantMessageId,
+            contentLength: state.content.length,
+            toolCallCount: state.pendingToolCalls.length
+          });
+          setCurrentStreamingState(null);
+          setStreamingMessageId(null);
+
+          const stoppedMessage = createStoppedMessage({
+            id: assistantMessageId,
+            parentId: userMessage.id,
+            ...getReasoningFields(state),
+          }, state);
+
+          setMessages(prev => prev.map(msg => 
+            msg.id === assistantMessageId ? stoppedMessage : msg
+          ));
+          await saveMessageToDatabase(stoppedMessage);
+        },
+
         onToolCall: (toolCall: any) => {
+          streamingUpdates.flush();
           console.log('🛠️ [useChat] Tool call detected:', {
             toolName: toolCall.function?.name,
             toolId: toolCall.id,
@@ -1131,6 +1494,24 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
           onToolCall?.(toolCall, targetMessageId);
         },
 
+        onToolProgress: (toolCall: any, progress: any) => {
+          toolProgress[toolCall.id] = progress;
+          toolProgressUpdates.push(null);
+        },
+
+        onAgentStep: (step: AgentStep, steps: AgentStep[]) => {
+          console.log(`🔁 [useChat] Agent step ${step.index} ${step.status}`, {
+            toolCalls: step.toolCalls.map(tc => tc.name),
+            assistantMessageId
+          });
+
+          setMessages(prev => prev.map(msg => 
+            msg.id === assistantMessageId 
+              ? { ...msg, metadata: { ...msg.metadata, agentSteps: steps } }
+              : msg
+          ));
+        },
+
         onToolCallComplete: (toolResult: any) => {
           console.log('✅ [useChat] Tool call completed:', {
             toolCallId: toolResult.tool_call_id,
@@ -1139,12 +1520,16 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
             assistantMessageId: assistantMessageId
           });
 
-          // Update message state to clear tool call in progress
+          // Attach the result and clear tool call in progress
+          toolProgressUpdates.flush();
           const targetMessageId = assistantMessageId;
-          setMessages(prev => prev.map(msg => 
+          setMessages(prev => prev.map((msg: any) => 
             msg.id === targetMessageId 
               ? { 
                   ...msg, 
+                  tool_calls: msg.tool_calls?.map((tc: any) => 
+                    tc.id === toolResult.tool_call_id ? { ...tc, result: toolResult.result } : tc
+                  ),
                   metadata: { 
                     ...msg.metadata, 
                     toolCallInProgress: false,
@@ -1158,10 +1543,13 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
         },
 
         onReasoningUpdate: (reasoningContent: string) => {
+          reasoningRecorder.append(reasoningContent);
+          reasoningUpdates.push(null);
           onReasoningUpdate?.(reasoningContent);
         },
 
         onReasoningComplete: (reasoningContent: string, duration?: number) => {
+          reasoningRecorder.endPhase();
           console.log('🧠 [useChat] Reasoning completed:', {
             duration: duration ? `${duration}ms` : 'unknown',
             contentLength: reasoningContent.length
@@ -1218,6 +1606,8 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
     isLoading, 
     isConnected, 
     messages, 
+    activeMessages,
+    messageTree,
     model, 
     provider, 
     instructions,
@@ -1227,8 +1617,13 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
     maxTokens,
     enableRetrieval,
     enableMemories,
+    agentMode,
+    maxAgentSteps,
+    fallbackModels,
+    fallbackChains,
     threadId,
     workspaceId,
+    threadSummary,
     saveMessageToDatabase, 
     onError,
     onToolCall,
@@ -1236,26 +1631,571 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
     onThreadTitleUpdated,
   ]);
 
+  const compareModels = useCallback(async (content: string, models: string[]) => {
+    const modelInfos = models
+      .map(modelId => getModelInfo(modelId))
+      .filter((info): info is ModelInfo => !!info)
+      .slice(0, MAX_COMPARE_MODELS);
+
+    if (!content.trim() || isLoading || modelInfos.length < 2) return;
+
+    if (!isConnected) {
+      Alert.alert('Offline', 'Comparing models needs a connection. Please try again once you are back online.');
+      return;
+    }
+
+    const streamProviderChat = streamProviderChatRef.current;
+    if (!streamProviderChat) {
+      Alert.alert('Error', 'Chat service not initialized');
+      return;
+    }
+
+    completionProcessedRef.current.clear();
+    lastUserMessageRef.current = content.trim();
+
+    const previousMessages = activeMessages.filter(msg => 
+      msg.messageStatus !== 'pending' && !isUnresolvedCompare(msg)
+    );
+
+    const startedAt = Date.now();
+    const userMessage: Message = {
+      id: startedAt.toString(),
+      parentId: previousMessages[previousMessages.length - 1]?.id ?? null,
+      content: content.trim(),
+      role: 'user',
+      timestamp: new Date(),
+    };
+
+    const compareMessageId = (startedAt + 1).toString();
+    const compareMessage: Message = {
+      id: compareMessageId,
+      parentId: userMessage.id,
+      content: '',
+      role: 'assistant',
+      timestamp: new Date(),
+      isStreaming: true,
+      metadata: {
+        compare: {
+          startedAt,
+          candidates: modelInfos.map(info => ({
+            model: info.model,
+            provider: getProviderForModel(info.model),
+            name: info.name,
+            content: '',
+            status: 'streaming',
+          })),
+        } as ModelCompareRun,
+      },
+    };
+
+    setMessages(prev => [...prev.filter(msg => !isUnresolvedCompare(msg)), userMessage, compareMessage]);
+    setBranchSelections(prev => ({
+      ...prev,
+      [userMessage.parentId ?? ROOT_BRANCH_KEY]: userMessage.id,
+      [userMessage.id]: compareMessageId,
+    }));
+    setIsLoading(true);
+    setStreamingMessageId(compareMessageId);
+
+    await saveMessageToDatabase(userMessage);
+
+    if (threadId && previousMessages.length === 0) {
+      ThreadManager.updateThreadTitle(threadId, userMessage.content, modelInfos[0]?.model).then((success) => {
+        if (success) {
+          ThreadManager.getThread(threadId).then((thread) => {
+            if (thread) {
+              onThreadTitleUpdated?.(threadId, thread.title);
+            }
+          });
+        }
+      }).catch((error) => {
+        console.error('Error updating thread title:', error);
+      });
+    }
+
+    const updateCandidate = (index: number, changes: Partial<CompareCandidate>) => {
+      setMessages(prev => prev.map(msg => {
+        if (msg.id !== compareMessageId) return msg;
+        const run: ModelCompareRun = msg.metadata.compare;
+        return {
+          ...msg,
+          metadata: {
+            ...msg.metadata,
+            compare: {
+              ...run,
+              candidates: run.candidates.map((candidate, i) => 
+                i === index ? { ...candidate, ...changes } : candidate
+              ),
+            },
+          },
+        };
+      }));
+    };
+
+    try {
+      console.log('⚖️ [useChat] Starting model compare:', {
+        models: modelInfos.map(info => info.model),
+        threadId,
+      });
+
+      const currentAssistant = useAssistantStore.getState().currentAssistant;
+      abortControllerRef.current = new AbortController();
+      const signal = abortControllerRef.current.signal;
+
+      // The summary only describes this branch if it didn't fork within the summarized turns
+      const summarizedCount = threadSummary && threadSummary.messageCount < previousMessages.length &&
+        !hasForkWithin(messageTree, previousMessages, threadSummary.messageCount)
+        ? threadSummary.messageCount
+        : 0;
+
+      const conversationHistory: any[] = [
+        ...previousMessages.slice(summarizedCount).map(msg => ({
+          role: msg.role,
+          content: msg.content,
+          tool_calls: msg.toolCalls,
+          tool_call_id: msg.toolCallId,
+          name: msg.name,
+          pinned: !!msg.metadata?.pinned,
+        })),
+        { role: 'user', content: userMessage.content },
+      ];
+
+      let systemPrompt = '';
+      try {
+        systemPrompt = await buildStructuredSystemPrompt(
+          currentAssistant?.instructions || instructions || '',
+          {
+            threadId,
+            workspaceId,
+            is_workspace_chat: !!workspaceId,
+            thread_summary: summarizedCount > 0 ? threadSummary?.summary : undefined,
+          },
+          {
+            enableExamples: true,
+            enableAntiPatterns: true,
+            enableQuantifiedGuidelines: true,
+            enableMemories: enableMemories,
+          }
+        );
+      } catch (error) {
+        console.warn('Failed to build structured system prompt, using basic instructions:', error);
+        systemPrompt = currentAssistant?.instructions || instructions || '';
+      }
+
+      // Every model gets the same turn at the same time; no tools or fallback so
+      // the answers stay comparable
+      const runCandidate = (info: ModelInfo, index: number) => new Promise<void>(resolve => {
+        const candidateMessageId = `${compareMessageId}_${index}`;
+        let firstTokenAt: number | undefined;
+        let settled = false;
+
+        const contentUpdates = createUpdateBatcher(
+          (text: string) => updateCandidate(index, { content: text }),
+          STREAMING_UPDATE_INTERVAL_MS
+        );
+
+        const settle = (changes: Partial<CompareCandidate>) => {
+          if (settled) return;
+          settled = true;
+          contentUpdates.cancel();
+          updateCandidate(index, {
+            ...changes,
+            firstTokenMs: firstTokenAt !== undefined ? firstTokenAt - startedAt : undefined,
+            latencyMs: Date.now() - startedAt,
+          });
+          resolve();
+        };
+
+        streamProviderChat.streamChatCompletion(
+          {
+            provider: getProviderForModel(info.model),
+            model: info.model,
+            messages: conversationHistory,
+            instructions: systemPrompt,
+            contextData: { threadId, workspaceId, messageId: candidateMessageId },
+            temperature,
+            max_tokens: Math.min(maxTokens, info.maxOutputTokens),
+            stream: true,
+            fallbackModels: [],
+          },
+          {
+            onUpdate: (text: string) => {
+              firstTokenAt = firstTokenAt ?? Date.now();
+              contentUpdates.push(text);
+            },
+            onComplete: (finalContent: string, state: StreamingState) => {
+              const usage = state.metadata.usage;
+              settle({
+                content: finalContent,
+                status: 'completed',
+                tokens: usage?.completion_tokens ?? estimateTokens(finalContent),
+                tokensEstimated: !usage,
+              });
+            },
+            onError: (error: Error) => {
+              console.error(`⚖️ [useChat] Compare stream failed for ${info.model}:`, error);
+              settle({ status: 'error', error: error.message });
+            },
+            onInterrupted: (_cursor: StreamResumeCursor, state: StreamingState) => {
+              // Compare runs aren't resumed; keep what arrived and let the user retry
+              streamProviderChat.discardInterruptedStream(candidateMessageId);
+              settle({ content: state.content, status: 'error', error: 'Connection lost' });
+            },
+            onStopped: (state: StreamingState) => {
+              settle({ content: state.content, status: 'error', error: 'Stopped' });
+            },
+          },
+          { signal }
+        ).catch((error: any) => {
+          settle({ status: 'error', error: error.name === 'AbortError' ? 'Stopped' : error.message });
+        });
+      });
+
+      await Promise.all(modelInfos.map(runCandidate));
+
+      console.log('⚖️ [useChat] Model compare finished:', { messageId: compareMessageId });
+    } catch (error: any) {
+      console.error('❌ [useChat] Error comparing models:', error);
+      setMessages(prev => prev.filter(msg => msg.id !== compareMessageId));
+      Alert.alert('Error', 'Failed to compare models. Please try again.');
+      onError?.(error);
+    } finally {
+      setMessages(prev => prev.map(msg => 
+        msg.id === compareMessageId ? { ...msg, isStreaming: false } : msg
+      ));
+      setIsLoading(false);
+      setStreamingMessageId(null);
+      abortControllerRef.current = null;
+    }
+  }, [
+    isLoading,
+    isConnected,
+    activeMessages,
+    instructions,
+    temperature,
+    maxTokens,
+    enableMemories,
+    threadId,
+    workspaceId,
+    threadSummary,
+    saveMessageToDatabase,
+    onError,
+    onThreadTitleUpdated,
+  ]);
+
+  // The picked answer becomes the thread's assistant message; the others stay in metadata.compare
+  const pickCompareWinner = useCallback(async (messageId: string, candidateIndex: number) => {
+    const message = messages.find(msg => msg.id === messageId);
+    const run: ModelCompareRun | undefined = message?.metadata?.compare;
+    const winner = run?.candidates[candidateIndex];
+
+    if (!message || !run || !winner || winner.status !== 'completed') return;
+
+    console.log(`⚖️ [useChat] Picked ${winner.model} as compare winner for message ${messageId}`);
+
+    const resolvedMessage: Message = {
+      ...message,
+      content: winner.content,
+      isStreaming: false,
+      isStreamComplete: true,
+      messageStatus: 'completed',
+      metadata: {
+        ...message.metadata,
+        model: winner.model,
+        provider: winner.provider,
+        compare: { ...run, winner: candidateIndex },
+      },
+    };
+
+    setMessages(prev => prev.map(msg => msg.id === messageId ? resolvedMessage : msg));
+    await saveMessageToDatabase(resolvedMessage);
+  }, [messages, saveMessageToDatabase]);
+
+  // Pinned messages are never dropped when the history is trimmed to the model's context window
+  const pinMessage = useCallback(async (messageId: string, pinned: boolean) => {
+    const message = messages.find(msg => msg.id === messageId);
+    if (!message || message.messageStatus === 'pending') return;
+
+    setMessages(prev => prev.map(msg => 
+      msg.id === messageId ? { ...msg, metadata: { ...msg.metadata, pinned } } : msg
+    ));
+
+    if (!threadId || message.skipDatabaseSave) return;
+
+    try {
+      // Merge into the saved metadata, which holds fields the in-memory message doesn't.
+      // Messages sent this session are keyed by their client id, loaded ones by row id.
+      let { data: row, error } = await supabase
+        .from('thread_messages')
+        .select('id, metadata')
+        .eq('message_id', messageId)
+        .maybeSingle();
+      if (error) throw error;
+
+      if (!row) {
+        ({ data: row, error } = await supabase
+          .from('thread_messages')
+          .select('id, metadata')
+          .eq('id', messageId)
+          .maybeSingle());
+        if (error) throw error;
+      }
+      if (!row) return;
+
+      const { error: updateError } = await supabase
+        .from('thread_messages')
+        .update({
+          metadata: { ...row.metadata, pinned },
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', row.id);
+      if (updateError) throw updateError;
+
+      console.log(`📌 [useChat] Message ${pinned ? 'pinned' : 'unpinned'}: ${messageId}`);
+    } catch (error: any) {
+      console.error('Error pinning message:', error);
+      setMessages(prev => prev.map(msg => 
+        msg.id === messageId ? { ...msg, metadata: { ...msg.metadata, pinned: !pinned } } : msg
+      ));
+      onError?.(error);
+    }
+  }, [messages, threadId, onError]);
+
+  const flushOutbox = useCallback(async () => {
+    if (outboxFlushingRef.current) return;
+    outboxFlushingRef.current = true;
+
+    try {
+      const [entry] = await messageOutbox.getEntries(threadId);
+      if (!entry) return;
+
+      // A previous replay may have saved the turn, and maybe its answer, before the app went away
+      const savedState = await messageOutbox.getSavedState(entry);
+      if (savedState === 'answered') {
+        console.log('📮 [useChat] Outbox message already answered, dropping:', entry.id);
+        await messageOutbox.remove(entry.id);
+        setMessages(prev => prev.map(msg => 
+          msg.id === entry.id ? { ...msg, messageStatus: 'completed' } : msg
+        ));
+        return;
+      }
+
+      console.log('📮 [useChat] Replaying outbox message:', { id: entry.id, savedState });
+      await messageOutbox.markAttempt(entry.id);
+      await sendMessage(
+        entry.content,
+        entry.files,
+        entry.toolChoice,
+        entry.options,
+        entry.id,
+        savedState === 'saved'
+      );
+    } catch (error: any) {
+      console.error('📮 [useChat] Failed to replay outbox message:', error);
+    } finally {
+      outboxFlushingRef.current = false;
+    }
+  }, [threadId, sendMessage]);
+
+  // Replay queued turns one at a time, in order, whenever we're online and idle
+  useEffect(() => {
+    if (isConnected && !isLoading && !streamingMessageId && 
+        messages.some(msg => msg.messageStatus === 'pending')) {
+      flushOutbox();
+    }
+  }, [isConnected, isLoading, streamingMessageId, messages, flushOutbox]);
+
+  // Fold older turns into the thread's rolling summary once the thread is long enough
+  useEffect(() => {
+    if (!threadId || !isConnected || isLoading || streamingMessageId) return;
+
+    const savedMessages = activeMessages.filter(msg => 
+      msg.messageStatus !== 'pending' && !msg.isStreaming && !isUnresolvedCompare(msg)
+    );
+    if (!threadSummaryService.shouldUpdate(savedMessages, threadSummary)) return;
+
+    // A summary of another branch can't be extended with this one
+    if (hasForkWithin(messageTree, savedMessages, threadSummary?.messageCount || 0)) return;
+
+    threadSummaryService.updateSummary(threadId, savedMessages, threadSummary).then(updated => {
+      if (updated) {
+        console.log(`📜 [useChat] Thread summary now covers ${updated.messageCount} messages`);
+        setThreadSummary(updated);
+      }
+    });
+  }, [threadId, isConnected, isLoading, streamingMessageId, activeMessages, messageTree, threadSummary]);
+
   const stopGeneration = useCallback(() => {
+    // Stop the streams first so they settle as stopped rather than failed
+    if (streamProviderChatRef.current) {
+      streamProviderChatRef.current.stopAllStreams();
+    }
+
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
       console.log('🛑 [useChat] Generation stopped by user');
     }
-    
-    if (streamProviderChatRef.current) {
-      streamProviderChatRef.current.abortAllStreams();
-    }
   }, []);
 
+  // Pick a stopped answer back up from its partial text, finishing the same message
+  const continueMessage = useCallback(async (messageId: string) => {
+    const message = messageTree.byId.get(messageId);
+    const streamProviderChat = streamProviderChatRef.current;
+    if (!message || message.messageStatus !== 'stopped' || isLoading || !streamProviderChat) return;
+
+    if (!isConnected) {
+      Alert.alert('Offline', 'Continuing an answer needs a connection. Please try again once you are back online.');
+      return;
+    }
+
+    const currentAssistant = useAssistantStore.getState().currentAssistant;
+    const continueModel = message.metadata?.model || currentAssistant?.model || model;
+    const partialContent = message.content.trim() ? message.content : '';
+    const stoppedToolCalls = message.toolCalls || [];
+
+    const conversationHistory = getBranchPath(messageTree, message.parentId)
+      .filter(msg => !isUnresolvedCompare(msg))
+      .map(msg => ({
+        role: msg.role,
+        content: msg.content,
+        tool_calls: msg.toolCalls,
+        tool_call_id: msg.toolCallId,
+        name: msg.name,
+        pinned: !!msg.metadata?.pinned,
+      }));
+
+    console.log('▶️ [useChat] Continuing stopped message:', {
+      messageId,
+      model: continueModel,
+      partialLength: partialContent.length
+    });
+
+    setMessages(prev => prev.map(msg => 
+      msg.id === messageId ? { ...msg, isStreaming: true, messageStatus: 'streaming' } : msg
+    ));
+    setStreamingMessageId(messageId);
+    setIsLoading(true);
+    abortControllerRef.current = new AbortController();
+
+    const streamingUpdates = createUpdateBatcher(({ content, state }: { content: string; state: StreamingState }) => {
+      setCurrentStreamingState(state);
+      setMessages(prev => prev.map(msg => 
+        msg.id === messageId ? { ...msg, content, isStreaming: true } : msg
+      ));
+    }, STREAMING_UPDATE_INTERVAL_MS);
+
+    // The stopped answer plus what the continuation added, including any new tool calls
+    const createContinuedMessage = (content: string, state: StreamingState, stopped: boolean): Message => {
+      const toolCalls = [...stoppedToolCalls, ...settleToolCalls(state)];
+      return {
+        ...message,
+        content,
+        isStreaming: false,
+        isStreamComplete: true,
+        messageStatus: stopped ? 'stopped' : 'completed',
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        metadata: {
+          ...message.metadata,
+          stopped,
+          stoppedAt: stopped ? new Date().toISOString() : undefined,
+          continuedAt: new Date().toISOString(),
+        },
+      };
+    };
+
+    const settle = async (content: string, state: StreamingState, stopped: boolean) => {
+      streamingUpdates.cancel();
+      setCurrentStreamingState(null);
+      setStreamingMessageId(null);
+
+      const settledMessage = createContinuedMessage(content, state, stopped);
+      setMessages(prev => prev.map(msg => msg.id === messageId ? settledMessage : msg));
+      await updateMessageInDatabase(settledMessage);
+    };
+
+    try {
+      await streamProviderChat.continueStoppedMessage(
+        {
+          provider: getProviderForModel(continueModel),
+          model: continueModel,
+          messages: conversationHistory,
+          instructions: currentAssistant?.instructions || instructions,
+          contextData: { threadId, workspaceId, messageId },
+          temperature,
+          max_tokens: maxTokens,
+          stream: true,
+          tools: tools || streamProviderChat.getToolRegistry().getToolDefinitions(CHAT_TOOL_NAMES),
+          tool_choice: 'auto',
+          parallel_tool_calls: true,
+        },
+        { content: partialContent, toolCalls: stoppedToolCalls },
+        {
+          onUpdate: (content: string, state: StreamingState) => {
+            streamingUpdates.push({ content, state });
+          },
+          // Resuming an interrupted continuation reuses these callbacks, so it settles here too
+          onComplete: (finalContent: string, state: StreamingState) => settle(finalContent, state, false),
+          onStopped: (state: StreamingState) => settle(state.content, state, true),
+          onInterrupted: (cursor: StreamResumeCursor, state: StreamingState) => {
+            streamingUpdates.cancel();
+            setCurrentStreamingState(null);
+            setStreamingMessageId(null);
+            setMessages(prev => prev.map(msg => 
+              msg.id === messageId
+                ? { ...msg, content: state.content, isStreaming: false, messageStatus: 'interrupted', metadata: { ...msg.metadata, resumeCursor: cursor } }
+                : msg
+            ));
+            // Keep what streamed so far as a stopped answer in case the stream is never resumed
+            updateMessageInDatabase(createContinuedMessage(state.content, state, true));
+          },
+          onError: (error: Error) => {
+            console.error('❌ [useChat] Continuing message failed:', error);
+            streamingUpdates.cancel();
+            setCurrentStreamingState(null);
+            setStreamingMessageId(null);
+            // Leave the stopped answer as it was so it can be continued again
+            setMessages(prev => prev.map(msg => msg.id === messageId ? message : msg));
+            onError?.(error);
+          },
+        },
+        { signal: abortControllerRef.current.signal }
+      );
+    } finally {
+      setIsLoading(false);
+      abortControllerRef.current = null;
+    }
+  }, [
+    messageTree,
+    isLoading,
+    isConnected,
+    model,
+    instructions,
+    tools,
+    temperature,
+    maxTokens,
+    threadId,
+    workspaceId,
+    updateMessageInDatabase,
+    onError,
+  ]);
+
   const clearMessages = useCallback(() => {
+    const streamProviderChat = streamProviderChatRef.current;
+    streamProviderChat?.getInterruptedMessageIds().forEach(messageId => {
+      streamProviderChat.discardInterruptedStream(messageId);
+    });
     setMessages([]);
     setCurrentStreamingState(null);
     console.log('🧹 [useChat] Messages cleared');
   }, []);
 
   const retryLastMessage = useCallback(async () => {
-    if (lastUserMessageRef.current) {
-      console.log('🔄 [useChat] Retrying last message:', lastUserMessageRef.current.substring(0, 50));
+    const lastUserMessage = [...activeMessages].reverse().find(msg => 
+      msg.role === 'user' && msg.messageStatus !== 'pending'
+    );
+
+    if (lastUserMessage) {
+      console.log('🔄 [useChat] Retrying last message:', lastUserMessage.content.substring(0, 50));
       
       // Remove the last assistant message if it exists and has an error
       setMessages(prev => {
@@ -1268,9 +2208,37 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
         return filtered;
       });
       
-      await sendMessage(lastUserMessageRef.current);
+      // Answer the same turn again rather than repeating it
+      await sendMessage(lastUserMessage.content, lastUserMessage.files, null, { rerunOf: lastUserMessage.id });
+    }
+  }, [activeMessages, sendMessage]);
+
+  const editMessage = useCallback(async (messageId: string, content: string) => {
+    const original = messages.find(msg => msg.id === messageId && msg.role === 'user');
+    if (!original || !content.trim()) return;
+
+    console.log(`✏️ [useChat] Editing message ${messageId} as a new branch`);
+    await sendMessage(content, original.files, null, { parentId: original.parentId ?? null });
+  }, [messages, sendMessage]);
+
+  const getBranchInfo = useCallback((messageId: string) => {
+    const message = messageTree.byId.get(messageId);
+    if (!message) return null;
+
+    const siblings = getSiblings(messageTree, message);
+    return { index: siblings.indexOf(message), count: siblings.length };
+  }, [messageTree]);
+
+  const switchBranch = useCallback((messageId: string, direction: -1 | 1) => {
+    const message = messageTree.byId.get(messageId);
+    if (!message) return;
+
+    const siblings = getSiblings(messageTree, message);
+    const target = siblings[siblings.indexOf(message) + direction];
+    if (target) {
+      setBranchSelections(prev => selectBranch(messageTree, prev, target));
     }
-  }, [sendMessage]);
+  }, [messageTree]);
 
   const switchModel = useCallback(async (newModel: string): Promise<boolean> => {
     try {
@@ -1295,16 +2263,24 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
   }, []);
 
   return {
-    messages,
+    messages: activeMessages,
     isLoading,
     isConnected,
     streamingMessageId,
     sendMessage,
     stopGeneration,
+    continueMessage,
     clearMessages,
     loadMessages,
     retryLastMessage,
     getCurrentStreamingState,
     switchModel,
+    threadSummary,
+    compareModels,
+    pickCompareWinner,
+    pinMessage,
+    editMessage,
+    getBranchInfo,
+    switchBranch,
   };
 } 
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { chatPreferences, ChatPreferences } from '@/lib/services/chatPreferences';
+
+/**
+ * Current chat preferences, kept in sync with Settings > Chat
+ */
+export function useChatPreferences(): ChatPreferences {
+  const [preferences, setPreferences] = useState<ChatPreferences>(() => chatPreferences.getPreferences());
+
+  useEffect(() => {
+    const unsubscribe = chatPreferences.subscribe(setPreferences);
+    chatPreferences.loadPreferences().then(setPreferences);
+    return unsubscribe;
+  }, []);
+
+  return preferences;
+}
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ModelInfo,
+  getAllModels,
+  getReplacementModel,
+  setModelCatalog,
+} from '@/constants/Models';
+import backendProviderService from '@/lib/services/backendProviderService';
+import { customProviderService } from '@/lib/services/customProviderService';
+import { useAssistantStore } from '@/lib/assistantStore';
+
+export interface UseModelCatalogReturn {
+  models: ModelInfo[]; // Pickable models; deprecated ones are left out
+  allModels: ModelInfo[];
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Live model list for pickers: the backend catalog (cached by
+ * BackendProviderService) plus custom endpoint models. Moves the current
+ * assistant off a retired model.
+ */
+export function useModelCatalog(): UseModelCatalogReturn {
+  const [allModels, setAllModels] = useState<ModelInfo[]>(() => getAllModels());
+  const [isLoading, setIsLoading] = useState(false);
+  const currentModel = useAssistantStore(state => state.currentAssistant?.model);
+
+  const loadCatalog = useCallback(async (forceRefresh: boolean) => {
+    setIsLoading(true);
+    try {
+      const [catalog] = await Promise.all([
+        backendProviderService.getModelCatalog(forceRefresh),
+        customProviderService.loadConfig(),
+      ]);
+      setModelCatalog(catalog);
+      setAllModels(getAllModels());
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCatalog(false);
+  }, [loadCatalog]);
+
+  // Custom endpoint models come and go with the provider settings
+  useEffect(() => customProviderService.subscribe(() => setAllModels(getAllModels())), []);
+
+  // Re-checked whenever the catalog or the assistant changes
+  useEffect(() => {
+    if (!currentModel) return;
+
+    const replacement = getReplacementModel(currentModel);
+    if (!replacement) return;
+
+    console.log(`🔄 [useModelCatalog] ${currentModel} is retired, migrating assistant to ${replacement.model}`);
+    useAssistantStore.getState().updateCurrentAssistantModel(replacement.model).catch(error => {
+      console.error('❌ [useModelCatalog] Failed to migrate assistant model:', error);
+    });
+  }, [currentModel, allModels]);
+
+  const models = useMemo(() => allModels.filter(info => !info.deprecated), [allModels]);
+  const refresh = useCallback(() => loadCatalog(true), [loadCatalog]);
+
+  return { models, allModels, isLoading, refresh };
+}
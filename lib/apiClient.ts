@@ -11,9 +11,52 @@ const getDefaultHeaders = () => ({
   'X-Requested-With': 'XMLHttpRequest',
 });
 
+/**
+ * Performs the HTTP request behind ApiClient.stream. Swapped for a replay
+ * transport to run streams from recorded fixtures without network.
+ */
+export type StreamTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Receives every raw SSE line of a stream, e.g. to record fixtures
+ */
+export interface StreamRecorder {
+  startRecording(endpoint: string, data: any): StreamRecording;
+}
+
+export interface StreamRecording {
+  recordLine(line: string): void;
+  finish(error?: any): void;
+}
+
 // API Client class
 export class ApiClient {
   private static baseURL = API_BASE_URL;
+  private static streamTransport: StreamTransport | null = null;
+  private static streamRecorder: StreamRecorder | null = null;
+
+  /**
+   * Route streaming requests through a custom transport (null restores fetch)
+   */
+  static setStreamTransport(transport: StreamTransport | null): void {
+    this.streamTransport = transport;
+    console.log(`🔌 [API] Stream transport: ${transport ? 'custom' : 'network'}`);
+  }
+
+  /**
+   * Capture raw SSE lines of every stream (null stops recording)
+   */
+  static setStreamRecorder(recorder: StreamRecorder | null): void {
+    this.streamRecorder = recorder;
+    console.log(`⏺️ [API] Stream recording ${recorder ? 'enabled' : 'disabled'}`);
+  }
+
+  /**
+   * The installed stream recorder, so streams made outside ApiClient can be recorded too
+   */
+  static getStreamRecorder(): StreamRecorder | null {
+    return this.streamRecorder;
+  }
 
   /**
    * Make a GET request
@@ -63,17 +106,30 @@ export class ApiClient {
   static async stream(
     endpoint: string,
     data: any,
-    onChunk: (chunk: string) => void,
+    onChunk: (chunk: string, chunkIndex: number) => void,
     onComplete?: (content: string) => void,
     onError?: (error: ApiError) => void,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    onConnection?: (sessionId: string) => void
   ): Promise<string> {
     const url = `${this.baseURL}${endpoint}`;
+    const transport = this.streamTransport || fetch;
+    const recording = this.streamRecorder?.startRecording(endpoint, data);
+    let streamError: any;
+
+    // Position of each chunk in the backend session, used as the resume offset.
+    // Uses the index the backend reports, counting from the requested offset otherwise.
+    let nextChunkIndex: number = data?.resume?.offset || 0;
+    const takeChunkIndex = (event: any): number => {
+      const chunkIndex = typeof event?.index === 'number' ? event.index : nextChunkIndex;
+      nextChunkIndex = chunkIndex + 1;
+      return chunkIndex;
+    };
     
     console.log(`🌊 [API] STREAM ${url}`);
 
     try {
-      const response = await fetch(url, {
+      const response = await transport(url, {
         method: 'POST',
         headers: {
           ...getDefaultHeaders(),
@@ -115,8 +171,7 @@ export class ApiClient {
         
         for (const line of lines) {
           if (line.trim() === '') continue;
-          
-
+          recording?.recordLine(line);
           
           if (line.startsWith('data: ')) {
             const data = line.slice(6);
@@ -133,6 +188,9 @@ export class ApiClient {
               // Handle different message types from backend
               if (parsed.type === 'connection') {
                 console.log('🔌 [API] Connection established:', parsed.sessionId);
+                if (parsed.sessionId) {
+                  onConnection?.(parsed.sessionId);
+                }
                 continue; // Don't process connection messages as content
               }
               
@@ -143,10 +201,13 @@ export class ApiClient {
               }
               
               if (parsed.type === 'chunk' && parsed.chunk) {
+                const chunkIndex = takeChunkIndex(parsed);
+
                 // Extract all delta data (content, tool calls, etc.)
                 const delta = parsed.chunk?.choices?.[0]?.delta;
                 const content = delta?.content || '';
                 const toolCalls = delta?.tool_calls;
+                const hasReasoning = !!(delta?.reasoning_content || delta?.metadata);
                 const finishReason = parsed.chunk?.choices?.[0]?.finish_reason;
                 
                 // Only accumulate actual text content
@@ -156,13 +217,13 @@ export class ApiClient {
                 
 
 
-                // Pass the chunk if it has ANY delta data (content, tool calls, finish reason, etc.)
-                if (delta && (content || toolCalls || finishReason)) {
+                // Pass the chunk if it has ANY delta data (content, reasoning, tool calls, finish reason, etc.)
+                if (delta && (content || toolCalls || finishReason || hasReasoning)) {
                   processedChunks++;
                   
                   // Pass the complete chunk structure to preserve all data
                   const chunkString = JSON.stringify(parsed.chunk);
-                  onChunk(chunkString);
+                  onChunk(chunkString, chunkIndex);
                   
                   // Add small delay to simulate streaming
                   await new Promise(resolve => setTimeout(resolve, 50));
@@ -219,6 +280,7 @@ export class ApiClient {
 
           for (const line of lines) {
             if (line.trim() === '') continue;
+            recording?.recordLine(line);
             
             if (line.startsWith('data: ')) {
               const data = line.slice(6);
@@ -234,6 +296,9 @@ export class ApiClient {
                 // Handle backend's custom SSE format
                 if (parsed.type === 'connection') {
                   console.log('🔌 [API] Connection established (native):', parsed.sessionId);
+                  if (parsed.sessionId) {
+                    onConnection?.(parsed.sessionId);
+                  }
                   continue;
                 }
                 
@@ -244,10 +309,13 @@ export class ApiClient {
                 }
                 
                 if (parsed.type === 'chunk' && parsed.chunk) {
+                  const chunkIndex = takeChunkIndex(parsed);
+
                   // Pass the entire chunk data to preserve tool calls, content, and other delta information
                   const delta = parsed.chunk.choices?.[0]?.delta;
                   const content = delta?.content || '';
                   const toolCalls = delta?.tool_calls;
+                  const hasReasoning = !!(delta?.reasoning_content || delta?.metadata);
                   const finishReason = parsed.chunk.choices?.[0]?.finish_reason;
                   
                   // Only accumulate actual text content
@@ -255,14 +323,14 @@ export class ApiClient {
                     accumulatedContent += content;
                   }
                   
-                  // Always pass the chunk if it has ANY delta data (content, tool calls, finish reason, etc.)
-                  if (delta && (content || toolCalls || finishReason)) {
+                  // Always pass the chunk if it has ANY delta data (content, reasoning, tool calls, finish reason, etc.)
+                  if (delta && (content || toolCalls || finishReason || hasReasoning)) {
 
                     
                     // Pass the complete chunk structure to preserve all data
                     const nativeChunkString = JSON.stringify(parsed.chunk);
 
-                    onChunk(nativeChunkString);
+                    onChunk(nativeChunkString, chunkIndex);
                   } else {
                     console.log('⚠️ [API] Native chunk has no processable delta data:', {
                       hasChoices: !!parsed.chunk?.choices?.length,
@@ -275,13 +343,15 @@ export class ApiClient {
                   // Fallback: try direct OpenAI format for compatibility
                   const content = parsed.choices?.[0]?.delta?.content || '';
                   const toolCalls = parsed.choices?.[0]?.delta?.tool_calls;
+                  const hasReasoning = !!parsed.choices?.[0]?.delta?.reasoning_content;
                   const finishReason = parsed.choices?.[0]?.finish_reason;
                   
                   if (content) {
                     accumulatedContent += content;
                   }
                   
-                  if (content || toolCalls || finishReason) {
+                  if (content || toolCalls || finishReason || hasReasoning) {
+                    const chunkIndex = takeChunkIndex(parsed);
                     const fallbackChunkString = JSON.stringify(parsed);
                     console.log(`🚀 [ApiClient] *** CALLING onChunk CALLBACK (FALLBACK) ***:`, {
                       chunkStringLength: fallbackChunkString.length,
@@ -289,7 +359,7 @@ export class ApiClient {
                       chunkPreview: fallbackChunkString.substring(0, 200),
                       timestamp: Date.now()
                     });
-                    onChunk(fallbackChunkString);
+                    onChunk(fallbackChunkString, chunkIndex);
                   }
                 }
               } catch (parseError) {
@@ -308,6 +378,7 @@ export class ApiClient {
 
     } catch (error: any) {
       console.error(`💥 [API] Stream Error:`, error);
+      streamError = error;
       
       if (error.name === 'AbortError') {
         throw error;
@@ -325,6 +396,94 @@ export class ApiClient {
       );
       onError?.(apiError);
       throw apiError;
+    } finally {
+      recording?.finish(streamError);
+    }
+  }
+
+  /**
+   * Stream JSON events from a non-chat SSE endpoint. Each `data:` line is parsed
+   * and handed to `onEvent`; a plain JSON response arrives as a single event
+   * with `isResponseBody` set.
+   */
+  static async streamEvents(
+    endpoint: string,
+    data: any,
+    onEvent: (event: any, isResponseBody: boolean) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const url = `${this.baseURL}${endpoint}`;
+    console.log(`🌊 [API] EVENTS ${url}`);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        ...getDefaultHeaders(),
+        'Accept': 'text/event-stream, application/json',
+        'Cache-Control': 'no-cache',
+      },
+      body: JSON.stringify(data),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorData = await this.parseErrorResponse(response);
+      throw new ApiError(
+        errorData.error || `HTTP ${response.status}: ${response.statusText}`,
+        response.status,
+        errorData
+      );
+    }
+
+    if (response.headers.get('content-type')?.includes('application/json')) {
+      onEvent(await response.json(), true);
+      return;
+    }
+
+    // Returns true once the stream signals it is done
+    const handleLine = (line: string): boolean => {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) return false;
+
+      const payload = trimmed.slice(5).trim();
+      if (payload === '[DONE]') return true;
+
+      try {
+        onEvent(JSON.parse(payload), false);
+      } catch (parseError) {
+        console.warn('❌ [API] Failed to parse event data:', payload.substring(0, 100));
+      }
+      return false;
+    };
+
+    const reader = response.body?.getReader();
+    if (!reader) {
+      const text = await response.text();
+      for (const line of text.split('\n')) {
+        if (handleLine(line)) break;
+      }
+      return;
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let done = false;
+
+    try {
+      while (!done) {
+        const result = await reader.read();
+        if (result.done || signal?.aborted) break;
+
+        buffer += decoder.decode(result.value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        done = lines.some(handleLine);
+      }
+      if (!done && buffer) {
+        handleLine(buffer);
+      }
+    } finally {
+      reader.releaseLock();
     }
   }
 
@@ -437,11 +596,36 @@ export class ApiClient {
      */
     streamChatCompletion: (
       data: any,
-      onChunk: (chunk: string) => void,
+      onChunk: (chunk: string, chunkIndex: number) => void,
+      onComplete?: (fullResponse: string) => void,
+      onError?: (error: Error) => void,
+      signal?: AbortSignal,
+      onConnection?: (sessionId: string) => void
+    ) => ApiClient.stream('/api/ai/chat/stream', data, onChunk, onComplete, onError, signal, onConnection),
+
+    /**
+     * Reattach to an interrupted chat stream session, replaying chunks after the given offset
+     */
+    resumeChatStream: (
+      sessionId: string,
+      offset: number,
+      onChunk: (chunk: string, chunkIndex: number) => void,
       onComplete?: (fullResponse: string) => void,
       onError?: (error: Error) => void,
       signal?: AbortSignal
-    ) => ApiClient.stream('/api/ai/chat/stream', data, onChunk, onComplete, onError, signal),
+    ) => ApiClient.stream(
+      '/api/ai/chat/stream',
+      { resume: { sessionId, offset } },
+      onChunk,
+      onComplete,
+      onError,
+      signal
+    ),
+
+    /**
+     * Tell the backend to stop generating for a stream session
+     */
+    cancelChatStream: (sessionId: string) => ApiClient.post('/api/ai/chat/stream/cancel', { sessionId }),
 
     /**
      * Generate title
@@ -458,6 +642,11 @@ export class ApiClient {
      */
     ask: (data: any) => ApiClient.post('/api/ai/ask', data),
 
+    /**
+     * Model catalog with availability and deprecation flags
+     */
+    models: () => ApiClient.get('/api/ai/models'),
+
     /**
      * Upload file
      */
@@ -517,6 +706,20 @@ export class ApiClient {
    */
   static tools = {
     codeInterpreter: (data: any) => ApiClient.post('/api/tools/code-interpreter', data),
+
+    /**
+     * Run code and receive stdout/stderr, artifacts and the final result as events
+     */
+    streamCodeInterpreter: (
+      data: any,
+      onEvent: (event: any, isResponseBody: boolean) => void,
+      signal?: AbortSignal
+    ) => ApiClient.streamEvents('/api/tools/code-interpreter', { ...data, stream: true }, onEvent, signal),
+
+    /**
+     * Fetch a web page and extract its readable text and metadata
+     */
+    readUrl: (data: any, signal?: AbortSignal) => ApiClient.post('/api/tools/read-url', data, { signal }),
   };
 
   /**
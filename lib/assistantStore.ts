@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { supabase } from '@/lib/supabase';
+import { isCustomModel } from '@/constants/Models';
 
 // Helper function to find the earliest created workspace
 const findEarliestWorkspace = (workspaces: any[]) => {
@@ -29,6 +30,7 @@ interface Assistant {
   tools: any[];
   tool_names: string[];
   metadata?: any;
+  response_format?: string | null; // JSON response_format; a json_schema turns on structured output
   avatar_url?: string;
   image_url?: string;
   is_default?: boolean;
@@ -506,6 +508,7 @@ export const useAssistantStore = create<AssistantStore>()(
           // Determine provider based on model
           const getProviderForModel = (modelName: string): string => {
             if (!modelName) return 'openai';
+            if (isCustomModel(modelName)) return 'custom';
             const lowerModel = modelName.toLowerCase();
             
             if (lowerModel.includes('gpt') || lowerModel.includes('o1') || lowerModel.includes('dall-e')) {
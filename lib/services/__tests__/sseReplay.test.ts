@@ -0,0 +1,147 @@
+import fs from 'fs';
+import path from 'path';
+import { ApiClient } from '../../apiClient';
+import {
+  SSEFixture,
+  createReplayTransport,
+  replayChunksThroughDeltaProcessing,
+  replayFixtureThroughDeltaProcessing
+} from '../sseHarness';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Fixtures recorded with EXPO_PUBLIC_SSE_HARNESS=record can be dropped into this directory
+const FIXTURE_DIRECTORY = path.join(__dirname, 'fixtures', 'sse');
+
+const fixtureNames = fs.readdirSync(FIXTURE_DIRECTORY)
+  .filter(file => file.endsWith('.json'))
+  .map(file => file.replace(/\.json$/, ''));
+
+const loadFixture = (name: string): SSEFixture =>
+  JSON.parse(fs.readFileSync(path.join(FIXTURE_DIRECTORY, `${name}.json`), 'utf8'));
+
+const parseArguments = (args?: string) => JSON.parse(args || '{}');
+
+beforeAll(() => {
+  // deltaProcessing and ApiClient log every chunk and every expected failure
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+describe('SSE fixtures replayed through deltaProcessing', () => {
+  it.each(fixtureNames)('%s completes with an answer or valid tool calls', name => {
+    const result = replayFixtureThroughDeltaProcessing(loadFixture(name));
+
+    expect(result.completed).toBe(true);
+    expect(result.chunkCount).toBeGreaterThan(0);
+    expect(result.content.length > 0 || result.toolCalls.length > 0).toBe(true);
+    for (const toolCall of result.toolCalls) {
+      expect(toolCall.id).toBeTruthy();
+      expect(toolCall.function?.name).toBeTruthy();
+      expect(() => parseArguments(toolCall.function?.arguments)).not.toThrow();
+    }
+  });
+
+  it('OpenAI: keeps the latest accumulated arguments of a split tool call', () => {
+    const result = replayFixtureThroughDeltaProcessing(loadFixture('openai-split-tool-arguments'));
+
+    expect(result.content).toBe('Let me look that up.');
+    expect(result.toolCallsFullyAccumulated).toBe(true);
+    expect(result.toolCalls).toHaveLength(1);
+    expect(result.toolCalls[0].id).toBe('call_wQ3n8');
+    expect(result.toolCalls[0].function?.name).toBe('web_search');
+    expect(parseArguments(result.toolCalls[0].function?.arguments)).toEqual({
+      query: 'expo sdk 53 release notes',
+      limit: 5
+    });
+  });
+
+  it('Anthropic: separates thinking from the answer and takes its duration from metadata', () => {
+    const result = replayFixtureThroughDeltaProcessing(loadFixture('anthropic-thinking'));
+
+    expect(result.reasoningContent).toBe(
+      'The user asks for the capital of Australia. People often guess Sydney, but it is Canberra.'
+    );
+    expect(result.content).toBe('The capital of Australia is **Canberra**.');
+    expect(result.reasoningState.isReasoningResponse).toBe(true);
+    expect(result.reasoningState.inReasoningBlock).toBe(false);
+    expect(result.reasoningState.reasoningDuration).toBe(2);
+    expect(result.toolCalls).toHaveLength(0);
+  });
+
+  it('Gemini: gives parallel tool calls without ids distinct ids', () => {
+    const result = replayFixtureThroughDeltaProcessing(loadFixture('gemini-parallel-tool-calls'));
+
+    expect(result.content).toBe('');
+    expect(result.toolCallsFullyAccumulated).toBe(true);
+    expect(result.toolCalls).toHaveLength(2);
+    expect(new Set(result.toolCalls.map(toolCall => toolCall.id)).size).toBe(2);
+    expect(result.toolCalls.map(toolCall => parseArguments(toolCall.function?.arguments).location))
+      .toEqual(['Paris', 'Tokyo']);
+  });
+
+  it('DeepSeek: closes the reasoning block when the answer starts', () => {
+    const result = replayFixtureThroughDeltaProcessing(loadFixture('deepseek-reasoning'));
+
+    expect(result.reasoningContent).toBe('We need 17 * 23. 17 * 20 = 340, 17 * 3 = 51, so 391.');
+    expect(result.content).toBe('17 × 23 = 391');
+    expect(result.reasoningState.isReasoningResponse).toBe(true);
+    expect(result.reasoningState.inReasoningBlock).toBe(false);
+    expect(result.reasoningState.reasoningDuration).toBeDefined();
+  });
+});
+
+describe('SSE fixtures replayed through ApiClient', () => {
+  afterEach(() => {
+    ApiClient.setStreamTransport(null);
+  });
+
+  it.each(fixtureNames)('%s reaches deltaProcessing the same as the direct replay', async name => {
+    const fixture = loadFixture(name);
+    ApiClient.setStreamTransport(createReplayTransport([fixture], { timing: 'instant' }));
+
+    const chunks: any[] = [];
+    const chunkIndexes: number[] = [];
+    const sessionIds: string[] = [];
+    await ApiClient.stream(
+      '/api/ai/chat/stream',
+      { provider: fixture.provider, model: fixture.model },
+      (chunk, chunkIndex) => {
+        chunks.push(JSON.parse(chunk));
+        chunkIndexes.push(chunkIndex);
+      },
+      undefined,
+      undefined,
+      undefined,
+      sessionId => sessionIds.push(sessionId)
+    );
+
+    const direct = replayFixtureThroughDeltaProcessing(fixture);
+    const throughClient = replayChunksThroughDeltaProcessing(chunks, {
+      provider: fixture.provider || 'openai',
+      model: fixture.model || 'unknown'
+    });
+
+    expect(sessionIds).toEqual([`sess_${fixture.id}`]);
+    expect(chunkIndexes).toEqual(chunks.map((_, index) => index));
+    expect(throughClient.content).toBe(direct.content);
+    expect(throughClient.reasoningContent).toBe(direct.reasoningContent);
+    expect(throughClient.toolCalls.map(toolCall => toolCall.function))
+      .toEqual(direct.toolCalls.map(toolCall => toolCall.function));
+  });
+
+  it('answers a request for a model without a fixture with a 404', async () => {
+    ApiClient.setStreamTransport(createReplayTransport([]));
+
+    await expect(
+      ApiClient.stream('/api/ai/chat/stream', { model: 'gpt-4o' }, () => {})
+    ).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,219 @@
+import fs from 'fs';
+import path from 'path';
+import { ApiClient, StreamTransport } from '../../apiClient';
+import { SSEFixture, createReplayTransport } from '../sseHarness';
+import { StreamingState, streamProviderChat } from '../streamProviderChat';
+import { ToolRegistry } from '../toolRegistry';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+// Custom providers stream through expo/fetch, which needs the native runtime
+jest.mock('expo/fetch', () => ({ fetch: jest.fn() }));
+jest.mock('../../supabase', () => ({
+  supabase: {
+    auth: {
+      getUser: async () => ({ data: { user: null } }),
+      getSession: async () => ({ data: { session: null } })
+    }
+  }
+}));
+
+const loadFixture = (name: string): SSEFixture =>
+  JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'sse', `${name}.json`), 'utf8'));
+
+const abortError = () => Object.assign(new Error('The operation was aborted.'), { name: 'AbortError' });
+
+const contentLine = (index: number, content: string) =>
+  `data: ${JSON.stringify({
+    type: 'chunk',
+    index,
+    chunk: { object: 'chat.completion.chunk', choices: [{ index: 0, delta: { content }, finish_reason: null }] }
+  })}`;
+
+/**
+ * Response streaming the given SSE lines. A hanging response then waits until the
+ * request is aborted and fails the read the way fetch does.
+ */
+const createLinesResponse = (lines: string[], signal?: AbortSignal | null, hang = false): Response => {
+  const encoder = new TextEncoder();
+  let index = 0;
+
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    headers: {
+      get: (name: string) => (name.toLowerCase() === 'content-type' ? 'text/event-stream' : null)
+    },
+    body: {
+      getReader: () => ({
+        read: () => {
+          if (index < lines.length) {
+            return Promise.resolve({ done: false, value: encoder.encode(`${lines[index++]}\n\n`) });
+          }
+          if (!hang) {
+            return Promise.resolve({ done: true, value: undefined });
+          }
+          return new Promise((_resolve, reject) => {
+            if (signal?.aborted) {
+              reject(abortError());
+              return;
+            }
+            signal?.addEventListener('abort', () => reject(abortError()));
+          });
+        },
+        releaseLock: () => {},
+        cancel: async () => {}
+      })
+    }
+  } as unknown as Response;
+};
+
+/**
+ * Transport answering each request with the next scripted response
+ */
+const createScriptedTransport = (
+  responses: Array<(url: string, init: RequestInit) => Response | Promise<Response>>,
+  requests: any[] = []
+): StreamTransport => async (url: string, init: RequestInit) => {
+  const respond = responses[requests.length];
+  requests.push(JSON.parse(String(init.body || '{}')));
+  return respond(url, init);
+};
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+afterEach(() => {
+  ApiClient.setStreamTransport(null);
+});
+
+describe('Interrupting a stream', () => {
+  it('parks the message as interrupted instead of reporting an error', async () => {
+    let requestStarted: () => void = () => {};
+    const started = new Promise<void>(resolve => {
+      requestStarted = resolve;
+    });
+    ApiClient.setStreamTransport(createScriptedTransport([
+      (_url, init) => {
+        requestStarted();
+        return createLinesResponse([], init.signal, true);
+      }
+    ]));
+
+    const onError = jest.fn();
+    const onInterrupted = jest.fn();
+    const streaming = streamProviderChat.streamChatCompletion(
+      {
+        provider: 'openai',
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Hello' }],
+        fallbackModels: [],
+        contextData: { messageId: 'message-interrupted' }
+      },
+      { onError, onInterrupted }
+    );
+
+    await started;
+    expect(streamProviderChat.interruptAllStreams()).toBe(1);
+    const state = await streaming;
+
+    expect(onInterrupted).toHaveBeenCalledTimes(1);
+    expect(onInterrupted.mock.calls[0][0]).toMatchObject({ messageId: 'message-interrupted' });
+    expect(onError).not.toHaveBeenCalled();
+    expect(state.error).toBeNull();
+    expect(streamProviderChat.getInterruptedMessageIds()).toEqual(['message-interrupted']);
+
+    streamProviderChat.discardInterruptedStream('message-interrupted');
+  });
+
+  it('resumes an answer interrupted after a tool call without running the tool again', async () => {
+    const defaultRegistry = streamProviderChat.getToolRegistry();
+    const search = jest.fn(async () => ({ results: [{ title: 'Expo SDK 53' }] }));
+    const registry = new ToolRegistry([{
+      name: 'web_search',
+      description: 'Search the web',
+      parameters: {
+        type: 'object',
+        properties: { query: { type: 'string' }, limit: { type: 'number' } },
+        required: ['query']
+      },
+      capabilities: ['web', 'search'],
+      execute: search
+    }]);
+    streamProviderChat.setToolRegistry(registry);
+
+    const replay = createReplayTransport([loadFixture('openai-split-tool-arguments')], { timing: 'instant' });
+    const requests: any[] = [];
+    ApiClient.setStreamTransport(createScriptedTransport([
+      replay,
+      (_url, init) => createLinesResponse([contentLine(0, 'Expo SDK 53 ')], init.signal, true),
+      () => createLinesResponse([contentLine(0, 'ships React Native 0.79.'), 'data: [DONE]'])
+    ], requests));
+
+    let answerStarted: () => void = () => {};
+    const started = new Promise<void>(resolve => {
+      answerStarted = resolve;
+    });
+    let settleInterrupted: (state: StreamingState) => void = () => {};
+    const interrupted = new Promise<StreamingState>(resolve => {
+      settleInterrupted = resolve;
+    });
+    const onError = jest.fn();
+    const onComplete = jest.fn();
+
+    try {
+      await streamProviderChat.streamChatCompletion(
+        {
+          provider: 'openai',
+          model: 'gpt-4o',
+          messages: [{ role: 'user', content: 'What is new in Expo SDK 53?' }],
+          tools: registry.getToolDefinitions(),
+          fallbackModels: [],
+          contextData: { messageId: 'message-after-tools' }
+        },
+        {
+          onUpdate: content => {
+            if (content === 'Expo SDK 53 ') answerStarted();
+          },
+          onInterrupted: (_cursor, state) => settleInterrupted(state),
+          onError,
+          onComplete
+        }
+      );
+
+      await started;
+      streamProviderChat.interruptAllStreams();
+      const parked = await interrupted;
+
+      expect(onError).not.toHaveBeenCalled();
+      expect(onComplete).not.toHaveBeenCalled();
+      expect(parked.content).toBe('Expo SDK 53 ');
+      expect(streamProviderChat.getInterruptedMessageIds()).toEqual(['message-after-tools']);
+
+      await streamProviderChat.resumeStream('message-after-tools');
+
+      const continuation = requests[2];
+      expect(continuation.tool_choice).toBe('none');
+      expect(continuation.messages.some((message: any) => message.role === 'tool')).toBe(true);
+      expect(search).toHaveBeenCalledTimes(1);
+      expect(onError).not.toHaveBeenCalled();
+      expect(onComplete).toHaveBeenCalledTimes(1);
+
+      const [finalContent, finalState] = onComplete.mock.calls[0];
+      expect(finalContent).toBe('Expo SDK 53 ships React Native 0.79.');
+      expect(finalState.pendingToolCalls.map((toolCall: any) => toolCall.id)).toEqual(['call_wQ3n8']);
+      expect(finalState.metadata.toolResults).toHaveLength(1);
+    } finally {
+      streamProviderChat.setToolRegistry(defaultRegistry);
+    }
+  });
+});
@@ -1,5 +1,9 @@
 import { ApiClient, ApiError } from '../apiClient';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ALL_MODELS, CatalogModel, ModelInfo, getModelLimits, isCustomModel, mergeModelCatalog } from '@/constants/Models';
+import { isReasoningModel, stripUnsupportedParams } from '@/constants/ModelCapabilities';
+import { customProviderService } from './customProviderService';
+import { estimateMessageTokens, estimateMessagesTokens, estimateTokens } from '@/lib/utils/tokenEstimator';
 
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system' | 'tool';
@@ -7,8 +11,24 @@ export interface ChatMessage {
   tool_calls?: any[];
   tool_call_id?: string;
   name?: string;
+  pinned?: boolean; // Never dropped when trimming history to the context window
 }
 
+export interface HistoryTrimOptions {
+  model?: string; // Trim to this model's context window when set
+  maxOutputTokens?: number; // Tokens reserved for the response
+  reservedTokens?: number; // Extra prompt tokens not in the messages (e.g. tool definitions)
+}
+
+// Headroom for the token estimate being approximate
+const CONTEXT_SAFETY_MARGIN = 0.1;
+
+// Size older messages are cut down to before whole turns get dropped
+const COMPRESSED_MESSAGE_TOKENS = 500;
+const COMPRESSED_MESSAGE_SUFFIX = '\n\n[...truncated to fit the context window]';
+
+const MODEL_CATALOG_CACHE_KEY = 'model_catalog';
+
 export interface StreamCompletionParams {
   provider: string;
   model: string;
@@ -64,10 +84,11 @@ export class BackendProviderService {
    */
   static async streamChatCompletion(
     params: StreamCompletionParams,
-    onUpdate: (content: string) => void,
+    onUpdate: (content: string, chunkIndex?: number) => void,
     onComplete?: (finalContent: string) => void,
     onError?: (error: ApiError) => void,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    onConnection?: (sessionId: string) => void
   ): Promise<string> {
     try {
       console.log('🌊 [BackendProviderService] Creating streaming chat completion:', {
@@ -81,8 +102,8 @@ export class BackendProviderService {
         throw new ApiError('Missing required parameters for streaming chat completion');
       }
 
-      // Prepare the request data
-      const requestData = {
+      // Prepare the request data, without parameters the model would reject
+      const requestData = stripUnsupportedParams({
         provider: params.provider,
         model: params.model,
         messages: params.messages,
@@ -104,7 +125,12 @@ export class BackendProviderService {
               'tool_choice', 'stream', 'parallel_tool_calls'].includes(key)
           )
         ),
-      };
+      }, params.model);
+
+      // Custom endpoint models go straight to the user's server
+      if (requestData.provider === 'custom' || isCustomModel(requestData.model)) {
+        return await customProviderService.streamChatCompletion(requestData, onUpdate, onComplete, onError, signal);
+      }
 
       console.log('📤 [BackendProviderService] Stream request data:', {
         provider: requestData.provider,
@@ -129,7 +155,7 @@ export class BackendProviderService {
       const result = await ApiClient.stream(
         '/api/ai/chat/stream',
         requestData,
-        (chunk: string) => {
+        (chunk: string, chunkIndex: number) => {
           chunkCount++;
           
           // Try to parse chunk and extract content for accumulation
@@ -148,7 +174,7 @@ export class BackendProviderService {
           }
           
           // Always pass the complete chunk to the callback
-          onUpdate(chunk);
+          onUpdate(chunk, chunkIndex);
         },
         (finalContent: string) => {
           console.log(`✅ [BackendProviderService] Stream completed:`, {
@@ -163,7 +189,8 @@ export class BackendProviderService {
           console.error('❌ [BackendProviderService] Stream error:', error);
           onError?.(error);
         },
-        signal
+        signal,
+        onConnection
       );
 
       return result;
@@ -185,6 +212,58 @@ export class BackendProviderService {
     }
   }
 
+  /**
+   * Reattach to an interrupted backend stream session.
+   * The backend replays every chunk after `offset` and then continues live.
+   */
+  static async resumeChatStream(
+    sessionId: string,
+    offset: number,
+    onUpdate: (content: string, chunkIndex?: number) => void,
+    onComplete?: (finalContent: string) => void,
+    onError?: (error: ApiError) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    console.log('🔁 [BackendProviderService] Resuming stream session:', { sessionId, offset });
+
+    try {
+      return await ApiClient.ai.resumeChatStream(
+        sessionId,
+        offset,
+        onUpdate,
+        onComplete,
+        (error: Error) => {
+          console.error('❌ [BackendProviderService] Resume stream error:', error);
+          onError?.(error as ApiError);
+        },
+        signal
+      );
+    } catch (error: any) {
+      if (error instanceof ApiError || error.name === 'AbortError') {
+        throw error;
+      }
+
+      throw new ApiError(
+        error.message || 'Resuming chat stream failed',
+        error.status || 0,
+        { originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Ask the backend to stop generating for a session. Best effort: the client
+   * has already dropped the connection, so failures are only logged.
+   */
+  static async cancelChatStream(sessionId: string): Promise<void> {
+    try {
+      await ApiClient.ai.cancelChatStream(sessionId);
+      console.log('🛑 [BackendProviderService] Stream session cancelled:', sessionId);
+    } catch (error) {
+      console.warn('⚠️ [BackendProviderService] Failed to cancel stream session:', sessionId, error);
+    }
+  }
+
   /**
    * Create a non-streaming chat completion
    */
@@ -202,9 +281,11 @@ export class BackendProviderService {
       }
 
       // Prepare request data (remove stream parameter for non-streaming)
-      const { stream, ...requestData } = params;
+      const { stream, ...requestData } = stripUnsupportedParams(params, params.model);
 
-      const response = await ApiClient.ai.chatCompletion(requestData);
+      const response = params.provider === 'custom' || isCustomModel(params.model)
+        ? await customProviderService.createChatCompletion(requestData)
+        : await ApiClient.ai.chatCompletion(requestData);
 
       console.log('✅ [BackendProviderService] Chat completion successful');
       return response.result || response;
@@ -224,6 +305,35 @@ export class BackendProviderService {
     }
   }
 
+  /**
+   * Model catalog from the backend merged with local metadata. Cached for
+   * CACHE_TTL; falls back to the bundled list when the backend is unreachable.
+   */
+  async getModelCatalog(forceRefresh: boolean = false): Promise<ModelInfo[]> {
+    if (!forceRefresh) {
+      const cached = await this.getFromCache(MODEL_CATALOG_CACHE_KEY);
+      if (Array.isArray(cached) && cached.length > 0) {
+        return mergeModelCatalog(cached);
+      }
+    }
+
+    try {
+      console.log('📋 [BackendProviderService] Fetching model catalog');
+      const response = await ApiClient.ai.models();
+      const entries: CatalogModel[] | undefined = Array.isArray(response) ? response : response?.models;
+
+      if (!Array.isArray(entries) || entries.length === 0) {
+        throw new Error('Model catalog is empty');
+      }
+
+      await this.setCache(MODEL_CATALOG_CACHE_KEY, entries);
+      return mergeModelCatalog(entries);
+    } catch (error: any) {
+      console.warn('⚠️ [BackendProviderService] Model catalog unavailable, using bundled models:', error?.message || error);
+      return ALL_MODELS;
+    }
+  }
+
   /**
    * List available models from a provider
    */
@@ -231,44 +341,13 @@ export class BackendProviderService {
     console.log('📋 [BackendProviderService] Listing models for provider:', provider);
 
     try {
-      // This would typically be an API call to get available models
-      // For now, we'll return a static list based on provider
-      const modelMap: { [key: string]: any[] } = {
-        openai: [
-          { id: 'gpt-4o', name: 'GPT-4o', provider: 'openai' },
-          { id: 'gpt-4o-mini', name: 'GPT-4o Mini', provider: 'openai' },
-          { id: 'gpt-4-turbo', name: 'GPT-4 Turbo', provider: 'openai' },
-          { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo', provider: 'openai' },
-        ],
-        anthropic: [
-          { id: 'claude-3-5-sonnet-20241022', name: 'Claude 3.5 Sonnet', provider: 'anthropic' },
-          { id: 'claude-3-5-haiku-20241022', name: 'Claude 3.5 Haiku', provider: 'anthropic' },
-          { id: 'claude-3-opus-20240229', name: 'Claude 3 Opus', provider: 'anthropic' },
-        ],
-        gemini: [
-          { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash', provider: 'gemini' },
-          { id: 'gemini-1.5-pro-latest', name: 'Gemini 1.5 Pro', provider: 'gemini' },
-          { id: 'gemini-1.5-flash-latest', name: 'Gemini 1.5 Flash', provider: 'gemini' },
-        ],
-        deepseek: [
-          { id: 'deepseek-chat', name: 'DeepSeek Chat', provider: 'deepseek' },
-          { id: 'deepseek-reasoner', name: 'DeepSeek Reasoner', provider: 'deepseek' },
-        ],
-        xai: [
-          { id: 'grok-3-beta', name: 'Grok 3 Beta', provider: 'xai' },
-          { id: 'grok-vision-beta', name: 'Grok Vision Beta', provider: 'xai' },
-        ],
-        mistral: [
-          { id: 'mistral-large-latest', name: 'Mistral Large', provider: 'mistral' },
-          { id: 'mistral-medium-latest', name: 'Mistral Medium', provider: 'mistral' },
-        ],
-        perplexity: [
-          { id: 'sonar', name: 'Sonar', provider: 'perplexity' },
-          { id: 'sonar-pro', name: 'Sonar Pro', provider: 'perplexity' },
-        ],
-      };
+      // Provider names here use 'gemini' where ModelInfo uses 'google'
+      const modelProvider = provider === 'gemini' ? 'google' : provider;
+      const catalog = await this.getModelCatalog();
 
-      return modelMap[provider] || [];
+      return catalog
+        .filter(info => info.provider === modelProvider && !info.deprecated)
+        .map(info => ({ id: info.model, name: info.name, provider }));
 
     } catch (error: any) {
       console.error('❌ [BackendProviderService] List models error:', error);
@@ -323,12 +402,18 @@ export class BackendProviderService {
 
   /**
    * Format message history for the provider
-   * This mirrors the web app's message formatting logic
+   * This mirrors the web app's message formatting logic. When a model is given,
+   * the oldest turns are compressed or dropped to fit its context window.
    */
-  formatMessageHistory(messages: ChatMessage[], instructions?: string): ChatMessage[] {
+  formatMessageHistory(
+    messages: ChatMessage[],
+    instructions?: string,
+    options: HistoryTrimOptions = {}
+  ): ChatMessage[] {
     console.log('📝 [BackendProviderService] Formatting message history:', {
       messageCount: messages.length,
-      hasInstructions: !!instructions
+      hasInstructions: !!instructions,
+      model: options.model
     });
 
     try {
@@ -357,9 +442,22 @@ export class BackendProviderService {
       // Ensure messages are properly formatted
       formattedMessages = formattedMessages.map(msg => ({
         role: msg.role,
-        content: msg.content
+        content: msg.content,
+        ...(msg.tool_calls?.length ? { tool_calls: msg.tool_calls } : {}),
+        ...(msg.tool_call_id ? { tool_call_id: msg.tool_call_id } : {}),
+        ...(msg.name ? { name: msg.name } : {}),
+        ...(msg.pinned ? { pinned: true } : {})
       }));
 
+      formattedMessages = this.validateAndFixToolCallSequences(formattedMessages);
+
+      if (options.model) {
+        formattedMessages = this.trimToContextWindow(formattedMessages, options.model, options);
+      }
+
+      // Pinning is client-side only, don't send it to the provider
+      formattedMessages = formattedMessages.map(({ pinned, ...msg }) => msg);
+
       console.log('✅ [BackendProviderService] Message history formatted:', {
         originalCount: messages.length,
         formattedCount: formattedMessages.length,
@@ -376,15 +474,72 @@ export class BackendProviderService {
 
   /**
    * Validate and fix tool call sequences
-   * This ensures tool calls are properly formatted
+   * Every assistant tool call must be answered by a tool message right after it,
+   * and every tool message must answer one of those calls. Unanswered calls and
+   * orphaned results are removed so providers don't reject the history.
    */
   validateAndFixToolCallSequences(messages: ChatMessage[]): ChatMessage[] {
     console.log('🔧 [BackendProviderService] Validating tool call sequences');
 
     try {
-      // For now, just return the messages as-is
-      // The backend handles tool call validation
-      return messages;
+      const fixedMessages: ChatMessage[] = [];
+      let removedCount = 0;
+
+      for (let i = 0; i < messages.length; i++) {
+        const message = messages[i];
+
+        if (message.role === 'tool') {
+          // Tool results are consumed together with their assistant message below
+          removedCount++;
+          continue;
+        }
+
+        if (message.role !== 'assistant' || !message.tool_calls?.length) {
+          fixedMessages.push(message);
+          continue;
+        }
+
+        // Collect the tool results that directly follow this assistant message
+        const results: ChatMessage[] = [];
+        let j = i + 1;
+        while (j < messages.length && messages[j].role === 'tool') {
+          results.push(messages[j]);
+          j++;
+        }
+
+        const callIds = new Set(message.tool_calls.map(tc => tc.id));
+        const answeredIds = new Set(
+          results.filter(result => callIds.has(result.tool_call_id)).map(result => result.tool_call_id)
+        );
+        const answeredCalls = message.tool_calls.filter(tc => answeredIds.has(tc.id));
+        const answeredResults = results.filter(
+          (result, index) =>
+            answeredIds.has(result.tool_call_id) &&
+            results.findIndex(other => other.tool_call_id === result.tool_call_id) === index
+        );
+
+        removedCount += results.length - answeredResults.length;
+
+        if (answeredCalls.length > 0) {
+          fixedMessages.push({ ...message, tool_calls: answeredCalls }, ...answeredResults);
+        } else {
+          // No results, keep whatever text the assistant wrote without the calls
+          const { tool_calls, ...withoutToolCalls } = message;
+          if (typeof message.content !== 'string' || message.content.trim()) {
+            fixedMessages.push(withoutToolCalls);
+          } else {
+            removedCount++;
+          }
+        }
+
+        i = j - 1;
+      }
+
+      if (removedCount > 0) {
+        console.log(`🔧 [BackendProviderService] Removed ${removedCount} unmatched tool messages`);
+      }
+
+      return fixedMessages;
 
     } catch (error: any) {
       console.error('❌ [BackendProviderService] Tool call validation error:', error);
@@ -392,20 +547,110 @@ export class BackendProviderService {
     }
   }
 
+  /**
+   * Fit messages into a model's context window. System messages, pinned messages
+   * and the latest user turn are always kept; older turns are first truncated and
+   * then dropped oldest first. An assistant tool call and its results are treated
+   * as one unit so the sequence stays valid.
+   */
+  trimToContextWindow(
+    messages: ChatMessage[],
+    model: string,
+    options: Omit<HistoryTrimOptions, 'model'> = {}
+  ): ChatMessage[] {
+    const limits = getModelLimits(model);
+    const outputTokens = Math.min(options.maxOutputTokens || limits.maxOutputTokens, limits.maxOutputTokens);
+    const budget =
+      Math.floor(limits.contextWindow * (1 - CONTEXT_SAFETY_MARGIN)) -
+      outputTokens -
+      (options.reservedTokens || 0);
+
+    let totalTokens = estimateMessagesTokens(messages);
+    if (totalTokens <= budget) {
+      return messages;
+    }
+
+    // Group messages into units that are kept or dropped together
+    const lastUserIndex = messages.map(msg => msg.role).lastIndexOf('user');
+    const groups: { messages: ChatMessage[]; protected: boolean }[] = [];
+
+    for (let i = 0; i < messages.length; i++) {
+      const group = [messages[i]];
+      if (messages[i].role === 'assistant' && messages[i].tool_calls?.length) {
+        while (i + 1 < messages.length && messages[i + 1].role === 'tool') {
+          group.push(messages[++i]);
+        }
+      }
+
+      const isProtected =
+        i >= lastUserIndex ||
+        group.some(msg => msg.role === 'system' || msg.pinned);
+      groups.push({ messages: group, protected: isProtected });
+    }
+
+    let compressedCount = 0;
+    let droppedCount = 0;
+
+    // First pass: truncate long older messages
+    for (const group of groups) {
+      if (totalTokens <= budget) break;
+      if (group.protected) continue;
+
+      group.messages = group.messages.map(msg => {
+        if (typeof msg.content !== 'string' || estimateTokens(msg.content) <= COMPRESSED_MESSAGE_TOKENS) {
+          return msg;
+        }
+
+        const compressed = {
+          ...msg,
+          content: msg.content.slice(0, COMPRESSED_MESSAGE_TOKENS * 4) + COMPRESSED_MESSAGE_SUFFIX
+        };
+        totalTokens -= estimateMessageTokens(msg) - estimateMessageTokens(compressed);
+        compressedCount++;
+        return compressed;
+      });
+    }
+
+    // Second pass: drop the oldest turns
+    const keptGroups = [...groups];
+    for (let i = 0; i < keptGroups.length && totalTokens > budget; i++) {
+      if (keptGroups[i].protected) continue;
+
+      totalTokens -= estimateMessagesTokens(keptGroups[i].messages);
+      droppedCount += keptGroups[i].messages.length;
+      keptGroups.splice(i, 1);
+      i--;
+    }
+
+    // Providers expect the conversation to start with a user turn after the system prompt
+    while (droppedCount > 0) {
+      const firstIndex = keptGroups.findIndex(group => group.messages[0].role !== 'system');
+      const first = keptGroups[firstIndex];
+      if (!first || first.protected || first.messages[0].role === 'user') break;
+
+      droppedCount += first.messages.length;
+      keptGroups.splice(firstIndex, 1);
+    }
+
+    const trimmedMessages = keptGroups.flatMap(group => group.messages);
+
+    console.log('✂️ [BackendProviderService] Trimmed history to context window:', {
+      model,
+      budget,
+      estimatedTokens: estimateMessagesTokens(trimmedMessages),
+      compressedCount,
+      droppedCount,
+      overBudget: totalTokens > budget
+    });
+
+    return trimmedMessages;
+  }
+
   /**
    * Check if a model is a reasoning model
    */
   isReasoningModel(modelName: string): boolean {
-    const reasoningModels = [
-      'o1-preview',
-      'o1-mini', 
-      'deepseek-reasoner',
-      'grok-3-beta'
-    ];
-
-    return reasoningModels.some(model => 
-      modelName.toLowerCase().includes(model.toLowerCase())
-    );
+    return isReasoningModel(modelName);
   }
 
   /**
@@ -0,0 +1,476 @@
+import { webSearchService, applySearchProfile, WebSearchRecency } from './webSearchService';
+import { imageGenerationService } from './imageGenerationService';
+import { editImage } from './imageEditingService';
+import { codeInterpreterService } from './codeInterpreterService';
+import { urlReaderService, DEFAULT_URL_READ_CHARS, MAX_URL_READ_CHARS } from './urlReaderService';
+import { ToolDefinition, ToolRegistry } from './toolRegistry';
+import { usageLedger, UsageRecord } from './usageLedger';
+
+export interface WebSearchToolArgs {
+  query: string;
+  limit?: number;
+  searchContextSize?: 'low' | 'medium' | 'high';
+  include_domains?: string[];
+  exclude_domains?: string[];
+  recency?: WebSearchRecency;
+}
+
+export interface ImageGenerationToolArgs {
+  prompt: string;
+  name: string;
+  model: string;
+  size: string;
+  quality: string;
+}
+
+export interface ImageEditToolArgs {
+  prompt: string;
+  name: string;
+  model: string;
+  size: string;
+  image_urls?: string[];
+  mask_url?: string;
+}
+
+export interface CodeInterpreterToolArgs {
+  code: string;
+  file_names?: string[];
+}
+
+export interface ReadUrlToolArgs {
+  url: string;
+  max_characters?: number;
+}
+
+// Output beyond this is cut from what the model sees; the execution card keeps streaming it live
+const MAX_CODE_OUTPUT_CHARS = 20000;
+
+function truncateOutput(text: string): { text: string; truncated: boolean } {
+  if (text.length <= MAX_CODE_OUTPUT_CHARS) {
+    return { text, truncated: false };
+  }
+  return { text: `${text.substring(0, MAX_CODE_OUTPUT_CHARS)}\n... [truncated]`, truncated: true };
+}
+
+/**
+ * Attribute a tool's cost to the message and thread that called it
+ */
+function recordToolUsage(
+  metadata: any,
+  record: Omit<UsageRecord, 'messageId' | 'threadId' | 'workspaceId'>
+): void {
+  const contextData = metadata?.contextData || {};
+  usageLedger.record({
+    ...record,
+    messageId: contextData.messageId,
+    threadId: contextData.threadId,
+    workspaceId: contextData.workspaceId,
+  }).catch(error => {
+    console.error('💰 [builtInTools] Failed to record tool usage:', error);
+  });
+}
+
+export const webSearchTool: ToolDefinition<WebSearchToolArgs> = {
+  name: 'web_search',
+  description: 'Search the web for current information and real-time data',
+  capabilities: ['web', 'search'],
+  timeoutMs: 30000,
+  parameters: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'The search query to execute',
+        minLength: 1,
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of results to return (default: 10)',
+        minimum: 1,
+        maximum: 50,
+      },
+      searchContextSize: {
+        type: 'string',
+        description: 'Search context size - affects cost and quality (default: medium)',
+        enum: ['low', 'medium', 'high'],
+      },
+      include_domains: {
+        type: 'array',
+        items: {
+          type: 'string',
+        },
+        description: 'Only return results from these domains, e.g. ["arxiv.org"]',
+      },
+      exclude_domains: {
+        type: 'array',
+        items: {
+          type: 'string',
+        },
+        description: 'Never return results from these domains',
+      },
+      recency: {
+        type: 'string',
+        description: 'Only return pages published within this window (default: any)',
+        enum: ['day', 'week', 'month', 'year', 'any'],
+      },
+    },
+    required: ['query'],
+  },
+  execute: async ({ query, limit, searchContextSize, include_domains, exclude_domains, recency }, { metadata, signal }) => {
+    // The workspace's default search profile fills in anything the model left out
+    const profile = await webSearchService.getWorkspaceProfile(metadata?.contextData?.workspaceId, { signal });
+    const params = applySearchProfile({
+      query,
+      limit,
+      searchContextSize,
+      includeDomains: include_domains,
+      excludeDomains: exclude_domains,
+      recency,
+    }, profile);
+
+    console.log('🔍 [builtInTools] Executing web search:', {
+      query,
+      limit: params.limit,
+      hasProfile: !!profile,
+    });
+
+    const searchResult = await webSearchService.search(params, signal);
+
+    if ('error' in searchResult) {
+      throw new Error(searchResult.message);
+    }
+
+    // Cached results were already paid for by the earlier search
+    if (!searchResult.metadata.cached) {
+      recordToolUsage(metadata, {
+        kind: 'web_search',
+        model: searchResult.metadata.provider,
+        costDollars: searchResult.metadata.usage?.total_cost || 0,
+      });
+    }
+
+    // Format search results for the AI
+    return {
+      query,
+      results_found: searchResult.sources.length,
+      summary: searchResult.content,
+      sources: searchResult.sources.map((source, index) => ({
+        position: index + 1,
+        title: source.title,
+        url: source.url,
+        description: source.description,
+        text_snippet: source.text?.substring(0, 300) + (source.text?.length > 300 ? '...' : ''),
+      })),
+      search_metadata: {
+        timestamp: searchResult.metadata.timestamp,
+        search_time: searchResult.metadata.searchTime,
+        total_results: searchResult.totalResults,
+        cached: searchResult.metadata.cached,
+        filters: searchResult.metadata.filters,
+      },
+    };
+  },
+};
+
+export const imageGenerationTool: ToolDefinition<ImageGenerationToolArgs> = {
+  name: 'image_gen',
+  aliases: ['generate_image'],
+  description: 'Generate images using AI. Can create detailed, high-quality images from text descriptions.',
+  capabilities: ['image_generation'],
+  timeoutMs: 90000,
+  parameters: {
+    type: 'object',
+    properties: {
+      prompt: {
+        type: 'string',
+        description: 'Detailed description of the image to generate',
+        minLength: 1,
+      },
+      name: {
+        type: 'string',
+        description: 'Name or title for the generated image',
+      },
+      model: {
+        type: 'string',
+        description: 'Image generation model to use',
+        enum: ['gpt-image-1', 'dall-e-3', 'flux-1.1-pro'],
+        default: 'gpt-image-1',
+      },
+      size: {
+        type: 'string',
+        description: 'Image size',
+        enum: ['1024x1024', '1792x1024', '1024x1792'],
+        default: '1024x1024',
+      },
+      quality: {
+        type: 'string',
+        enum: ['low', 'medium', 'high'],
+        description: 'Image quality level',
+        default: 'medium',
+      },
+    },
+    required: ['prompt', 'name'],
+  },
+  execute: async ({ prompt, name, model, size, quality }, { metadata, signal }) => {
+    console.log('🎨 [builtInTools] Executing image generation:', { prompt, name, model, size, quality });
+
+    const imageResult = await imageGenerationService.generateImage({
+      prompt,
+      name,
+      model,
+      size: size as any,
+      quality: quality as any,
+    }, signal);
+
+    if (!imageResult.success) {
+      throw new Error(imageResult.error || 'Image generation failed');
+    }
+
+    recordToolUsage(metadata, {
+      kind: 'image_generation',
+      model,
+      provider: imageResult.result.data.provider,
+      imageCount: 1,
+    });
+
+    return {
+      prompt,
+      name,
+      model,
+      size,
+      quality,
+      url: imageResult.result.data.url,
+      image_data: imageResult.result.data,
+      metadata: {
+        generated_at: imageResult.result.metadata.timestamp,
+        provider: imageResult.result.data.provider,
+        format: imageResult.result.metadata.format,
+        is_direct_url: imageResult.result.data.isDirectUrl,
+      },
+    };
+  },
+};
+
+export const imageEditTool: ToolDefinition<ImageEditToolArgs> = {
+  name: 'image_edit',
+  description: 'Edit existing images using AI. Can modify, enhance, or transform uploaded images based on text instructions.',
+  capabilities: ['image_editing', 'vision'],
+  timeoutMs: 90000,
+  parameters: {
+    type: 'object',
+    properties: {
+      prompt: {
+        type: 'string',
+        description: 'Detailed instructions for how to edit the image',
+        minLength: 1,
+      },
+      name: {
+        type: 'string',
+        description: 'Name or title for the edited image',
+      },
+      model: {
+        type: 'string',
+        description: 'Image editing model to use',
+        enum: ['gpt-image-1', 'dall-e-3'],
+        default: 'gpt-image-1',
+      },
+      size: {
+        type: 'string',
+        description: 'Output image size',
+        enum: ['1024x1024', '1792x1024', '1024x1792'],
+        default: '1024x1024',
+      },
+      image_urls: {
+        type: 'array',
+        items: {
+          type: 'string',
+        },
+        description: 'URLs of the images to edit (extracted from conversation context)',
+      },
+      mask_url: {
+        type: 'string',
+        description: 'Optional mask image URL for selective editing',
+      },
+    },
+    required: ['prompt', 'name'],
+  },
+  execute: async ({ prompt, name, model, size, image_urls, mask_url }, { metadata, signal }) => {
+    let imageUrls = image_urls || [];
+
+    // If no image URLs provided in arguments, fall back to images in the conversation context
+    if (imageUrls.length === 0 && metadata?.vision_image_urls?.length > 0) {
+      imageUrls = metadata.vision_image_urls;
+      console.log('🎨 [builtInTools] Found images in vision context:', imageUrls.length);
+    }
+
+    if (imageUrls.length === 0) {
+      throw new Error('No images found for editing. Please upload an image first or provide image URLs.');
+    }
+
+    console.log('🎨 [builtInTools] Executing image editing:', {
+      prompt: prompt.substring(0, 100) + '...',
+      model,
+      size,
+      imageCount: imageUrls.length,
+      hasMask: !!mask_url,
+    });
+
+    const editResult = await editImage({
+      prompt,
+      imageUrls,
+      maskUrl: mask_url,
+      size: size as any,
+      n: 1,
+      model,
+    }, signal);
+
+    if (!editResult.success) {
+      throw new Error(editResult.error || 'Image editing failed');
+    }
+
+    recordToolUsage(metadata, {
+      kind: 'image_edit',
+      model,
+      imageCount: editResult.result.data.images.length,
+    });
+
+    return {
+      prompt,
+      model,
+      size,
+      name,
+      original_images: imageUrls,
+      edited_images: editResult.result.data.images,
+      metadata: {
+        edited_at: new Date().toISOString(),
+        provider: model,
+        mask_used: !!mask_url,
+        image_count: editResult.result.data.images.length,
+      },
+    };
+  },
+};
+
+export const codeInterpreterTool: ToolDefinition<CodeInterpreterToolArgs> = {
+  name: 'code_interpreter',
+  aliases: ['python', 'execute_code'],
+  description: 'Run Python code in a sandbox for calculations, data analysis and charts. Files attached to the conversation or the workspace can be read by name; files and charts the code saves are returned to the user.',
+  capabilities: ['code_execution'],
+  timeoutMs: 120000,
+  parameters: {
+    type: 'object',
+    properties: {
+      code: {
+        type: 'string',
+        description: 'Python code to execute. Print results to stdout; save charts and files to the working directory.',
+        minLength: 1,
+      },
+      file_names: {
+        type: 'array',
+        items: {
+          type: 'string',
+        },
+        description: 'Names of attached or workspace files to make available to the code (default: all files attached to the conversation)',
+      },
+    },
+    required: ['code'],
+  },
+  execute: async ({ code, file_names }, { metadata, signal, onProgress }) => {
+    const files = await codeInterpreterService.resolveFiles(file_names, metadata?.contextData);
+
+    console.log('🐍 [builtInTools] Executing code interpreter:', {
+      codeLength: code.length,
+      files: files.map(file => file.name),
+    });
+
+    const result = await codeInterpreterService.execute({
+      code,
+      fileIds: files.map(file => file.id),
+    }, {
+      signal,
+      onOutput: onProgress,
+    });
+
+    const stdout = truncateOutput(result.stdout);
+    const stderr = truncateOutput(result.stderr);
+
+    return {
+      status: result.error || (result.exitCode !== undefined && result.exitCode !== 0) ? 'error' : 'success',
+      exit_code: result.exitCode,
+      stdout: stdout.text,
+      stderr: stderr.text,
+      output_truncated: stdout.truncated || stderr.truncated,
+      error: result.error,
+      files_used: files.map(file => file.name),
+      artifacts: result.artifacts.map(artifact => ({
+        name: artifact.name,
+        mime_type: artifact.mimeType,
+        url: artifact.url,
+        uri: artifact.uri,
+        size: artifact.size,
+      })),
+      duration_ms: result.durationMs,
+    };
+  },
+};
+
+export const readUrlTool: ToolDefinition<ReadUrlToolArgs> = {
+  name: 'read_url',
+  aliases: ['fetch_url', 'browse'],
+  description: 'Read a specific web page, such as a link the user shared, and return its main text and metadata. Use web_search instead to find pages.',
+  capabilities: ['web'],
+  timeoutMs: 45000,
+  parameters: {
+    type: 'object',
+    properties: {
+      url: {
+        type: 'string',
+        description: 'Full URL of the page to read',
+        minLength: 1,
+      },
+      max_characters: {
+        type: 'number',
+        description: `Maximum characters of page text to return (default: ${DEFAULT_URL_READ_CHARS})`,
+        default: DEFAULT_URL_READ_CHARS,
+        minimum: 500,
+        maximum: MAX_URL_READ_CHARS,
+      },
+    },
+    required: ['url'],
+  },
+  execute: async ({ url, max_characters }, { signal }) => {
+    console.log('📄 [builtInTools] Executing read_url:', { url, max_characters });
+
+    const page = await urlReaderService.read({ url, maxCharacters: max_characters }, signal);
+
+    return {
+      url: page.finalUrl,
+      title: page.title,
+      site_name: page.siteName,
+      byline: page.byline,
+      description: page.description,
+      published: page.publishedAt,
+      image: page.image,
+      language: page.language,
+      word_count: page.wordCount,
+      content: page.content,
+      content_truncated: page.contentTruncated,
+      total_characters: page.totalCharacters,
+    };
+  },
+};
+
+export const BUILT_IN_TOOLS: ToolDefinition[] = [
+  webSearchTool,
+  imageGenerationTool,
+  imageEditTool,
+  codeInterpreterTool,
+  readUrlTool,
+];
+
+/**
+ * Create a registry preloaded with the built-in tools
+ */
+export function createDefaultToolRegistry(): ToolRegistry {
+  return new ToolRegistry(BUILT_IN_TOOLS);
+}
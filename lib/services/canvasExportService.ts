@@ -0,0 +1,152 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { supabase } from '../supabase';
+import {
+  buildCanvasExport,
+  CanvasExportFile,
+  CanvasExportFormat,
+  ExportableCanvas,
+} from '../utils/canvasFormats';
+
+const EXPORT_DIRECTORY = `${FileSystem.cacheDirectory}canvas-exports/`;
+
+export interface CanvasExportSource extends ExportableCanvas {
+  messageId?: string;
+  threadId?: string;
+}
+
+/**
+ * Exports canvases as files, either through the share sheet or into the
+ * workspace as a workspace_files entry
+ */
+export class CanvasExportService {
+  private static instance: CanvasExportService;
+
+  private constructor() {}
+
+  static getInstance(): CanvasExportService {
+    if (!CanvasExportService.instance) {
+      CanvasExportService.instance = new CanvasExportService();
+    }
+    return CanvasExportService.instance;
+  }
+
+  /**
+   * Write the export to a temporary file and open the share sheet
+   */
+  async shareCanvas(canvas: CanvasExportSource, format: CanvasExportFormat): Promise<CanvasExportFile> {
+    const file = buildCanvasExport(canvas, format);
+
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+
+    const info = await FileSystem.getInfoAsync(EXPORT_DIRECTORY);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(EXPORT_DIRECTORY, { intermediates: true });
+    }
+
+    const uri = `${EXPORT_DIRECTORY}${file.fileName}`;
+    await FileSystem.writeAsStringAsync(uri, file.content, { encoding: FileSystem.EncodingType.UTF8 });
+
+    console.log(`📤 [CanvasExportService] Sharing "${canvas.name}" as ${file.fileName}`);
+    await Sharing.shareAsync(uri, { mimeType: file.mimeType, dialogTitle: file.fileName });
+    return file;
+  }
+
+  /**
+   * Save the export as a workspace file so it is available as workspace knowledge.
+   * The workspace is the one the canvas's thread belongs to unless one is given.
+   */
+  async saveToWorkspace(
+    canvas: CanvasExportSource,
+    format: CanvasExportFormat,
+    workspaceId?: string
+  ): Promise<{ id: string; fileName: string; workspaceId: string }> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('You need to be signed in to save to a workspace');
+    }
+
+    const targetWorkspaceId = workspaceId || (await this.getThreadWorkspaceId(canvas.threadId));
+    if (!targetWorkspaceId) {
+      throw new Error('No workspace found for this canvas');
+    }
+
+    const file = buildCanvasExport(canvas, format);
+    const { data: inserted, error } = await supabase
+      .from('workspace_files')
+      .insert({
+        workspace_id: targetWorkspaceId,
+        user_id: user.id,
+        created_by: user.id,
+        file_name: file.fileName,
+        file_type: file.mimeType,
+        file_size: file.content.length,
+        file_path: `${targetWorkspaceId}/${Date.now()}_${file.fileName}`,
+        storage_path: `canvas_exports/${targetWorkspaceId}/${file.fileName}`,
+        file_content: file.content,
+        metadata: {
+          type: file.mimeType,
+          purpose: 'workspace',
+          original_filename: file.fileName,
+          source: 'canvas_export',
+          export_format: format,
+          canvas_message_id: canvas.messageId,
+          canvas_thread_id: canvas.threadId,
+        },
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('📤 [CanvasExportService] Failed to save workspace file:', error);
+      throw error;
+    }
+
+    // The workspace keeps its own list of file ids
+    const { data: workspace, error: workspaceError } = await supabase
+      .from('workspaces')
+      .select('workspace_files')
+      .eq('id', targetWorkspaceId)
+      .single();
+
+    if (workspaceError) {
+      console.warn('📤 [CanvasExportService] Failed to load workspace files list:', workspaceError);
+    } else {
+      const updatedFiles = [...new Set([...(workspace.workspace_files || []), inserted.id])];
+      const { error: updateError } = await supabase
+        .from('workspaces')
+        .update({ workspace_files: updatedFiles })
+        .eq('id', targetWorkspaceId);
+
+      if (updateError) {
+        console.warn('📤 [CanvasExportService] Failed to update workspace files list:', updateError);
+      }
+    }
+
+    console.log(`📤 [CanvasExportService] Saved "${canvas.name}" to workspace as ${file.fileName}`);
+    return { id: inserted.id, fileName: file.fileName, workspaceId: targetWorkspaceId };
+  }
+
+  private async getThreadWorkspaceId(threadId?: string): Promise<string | null> {
+    if (!threadId) return null;
+
+    const { data, error } = await supabase
+      .from('threads')
+      .select('workspace_id')
+      .eq('id', threadId)
+      .single();
+
+    if (error) {
+      console.warn('📤 [CanvasExportService] Failed to look up thread workspace:', error);
+      return null;
+    }
+    return data?.workspace_id || null;
+  }
+}
+
+// Export singleton instance
+export const canvasExportService = CanvasExportService.getInstance();
+
+export default canvasExportService;
@@ -0,0 +1,369 @@
+import { supabase } from '../supabase';
+import backendProviderService from './backendProviderService';
+import { getProviderForModel } from './streamingUtils';
+import { blocksToMarkdown } from '../utils/canvasFormats';
+
+export type CanvasVersionSource = 'model' | 'user' | 'restore';
+
+/**
+ * One saved state of a canvas. Versions are kept on the canvas tool call in
+ * thread_messages.tool_calls so history follows the canvas across devices.
+ */
+export interface CanvasVersion {
+  version: number;
+  content: string;
+  source: CanvasVersionSource;
+  createdAt: string;
+  note?: string; // e.g. the rewrite instruction or "Restored version 2"
+}
+
+export interface CanvasDocument {
+  messageId: string;
+  toolCallId: string;
+  threadId?: string;
+  name: string;
+  type: string; // 'document' | 'code' | ...
+  language?: string;
+  content: string;
+  blocks?: any[]; // Rich-text blocks the canvas was stored as, until its first edit
+  version: number;
+  versions: CanvasVersion[];
+}
+
+export interface CanvasSelection {
+  start: number;
+  end: number;
+}
+
+type CanvasListener = (canvas: CanvasDocument) => void;
+
+// Text around a selection sent with a rewrite request, per side
+const SELECTION_CONTEXT_CHARS = 4000;
+
+const DEFAULT_REWRITE_MODEL = 'gpt-4o-mini';
+
+/**
+ * Function the model calls with the rewritten selection
+ */
+export const CANVAS_EDIT_TOOL = {
+  type: 'function',
+  function: {
+    name: 'canvas_edit',
+    description: 'Replace the selected part of the canvas with a rewritten version',
+    parameters: {
+      type: 'object',
+      properties: {
+        replacement: {
+          type: 'string',
+          description: 'The new text for the selection only, without the surrounding text',
+        },
+        summary: {
+          type: 'string',
+          description: 'One short sentence describing the change',
+        },
+      },
+      required: ['replacement'],
+    },
+  },
+};
+
+/**
+ * Canvas content as editable text. Rich-text blocks are edited as Markdown so
+ * headings, lists, links and tables survive a save.
+ */
+export function canvasContentToText(content: any): string {
+  if (content === null || content === undefined) return '';
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) return blocksToMarkdown(content);
+
+  return JSON.stringify(content, null, 2);
+}
+
+const isCanvasCreation = (toolCall: any) => {
+  const name: string = toolCall?.function?.name || '';
+  return name.startsWith('canvas_') && name !== 'canvas_edit';
+};
+
+function parseArguments(toolCall: any): any {
+  const raw = toolCall?.function?.arguments;
+  if (raw && typeof raw === 'object') return raw;
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Loads canvases from their tool calls, saves edits as new versions and asks
+ * the model to rewrite selections
+ */
+export class CanvasService {
+  private static instance: CanvasService;
+  private listeners = new Set<CanvasListener>();
+
+  private constructor() {}
+
+  static getInstance(): CanvasService {
+    if (!CanvasService.instance) {
+      CanvasService.instance = new CanvasService();
+    }
+    return CanvasService.instance;
+  }
+
+  /**
+   * Notified whenever a canvas gets a new version
+   */
+  subscribe(listener: CanvasListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async loadCanvas(messageId: string, toolCallId: string): Promise<CanvasDocument | null> {
+    const { data, error } = await supabase
+      .from('thread_messages')
+      .select('thread_id, tool_calls, created_at')
+      .eq('message_id', messageId)
+      .single();
+
+    if (error) {
+      console.error('🎨 [CanvasService] Failed to load canvas message:', error);
+      throw error;
+    }
+
+    const toolCall = (data?.tool_calls || []).find((call: any) => call?.id === toolCallId);
+    if (!toolCall) {
+      console.warn('🎨 [CanvasService] Canvas tool call not found:', { messageId, toolCallId });
+      return null;
+    }
+
+    const args = parseArguments(toolCall);
+    const rawContent = args.content ?? toolCall.result?.content;
+    const content = canvasContentToText(rawContent);
+    const version = toolCall.canvas_version || args.version || 1;
+
+    // Canvases made before version history start with their original content
+    const versions: CanvasVersion[] = toolCall.canvas_versions?.length
+      ? toolCall.canvas_versions
+      : [{ version, content, source: 'model', createdAt: data.created_at || new Date().toISOString() }];
+
+    return {
+      messageId,
+      toolCallId,
+      threadId: data.thread_id,
+      name: args.name || args.title || 'Untitled Canvas',
+      type: args.type || 'document',
+      language: args.language,
+      content,
+      blocks: Array.isArray(rawContent) ? rawContent : undefined,
+      version,
+      versions,
+    };
+  }
+
+  /**
+   * Save content as the next version. Unchanged content returns the canvas as is.
+   */
+  async saveVersion(
+    canvas: CanvasDocument,
+    content: string,
+    source: CanvasVersionSource,
+    note?: string
+  ): Promise<CanvasDocument> {
+    if (content === canvas.content) {
+      return canvas;
+    }
+
+    const latest = canvas.versions.reduce((max, entry) => Math.max(max, entry.version), canvas.version);
+    const nextVersion: CanvasVersion = {
+      version: latest + 1,
+      content,
+      source,
+      createdAt: new Date().toISOString(),
+      note,
+    };
+
+    const updated: CanvasDocument = {
+      ...canvas,
+      content,
+      blocks: undefined, // Saved as Markdown from now on
+      version: nextVersion.version,
+      versions: [...canvas.versions, nextVersion],
+    };
+
+    await this.persist(updated);
+    console.log(`🎨 [CanvasService] Saved version ${nextVersion.version} of "${canvas.name}" (${source})`);
+
+    this.listeners.forEach(listener => listener(updated));
+    return updated;
+  }
+
+  /**
+   * Apply a canvas_edit tool call from a chat turn as a new version of the
+   * canvas it edits: the one its canvas_id names, else the latest canvas in the
+   * thread with the same name, else the thread's latest canvas
+   */
+  async applyChatEdit(threadId: string, toolCall: any): Promise<CanvasDocument | null> {
+    const args = parseArguments(toolCall);
+    const content = args.content ?? args.updated_content;
+    if (content === undefined || content === null) {
+      console.warn('🎨 [CanvasService] canvas_edit without content, skipping:', toolCall?.id);
+      return null;
+    }
+
+    const target = await this.findEditedCanvas(threadId, args);
+    if (!target) {
+      console.warn('🎨 [CanvasService] No canvas in the thread for canvas_edit:', toolCall?.id);
+      return null;
+    }
+
+    const canvas = await this.loadCanvas(target.messageId, target.toolCallId);
+    if (!canvas) return null;
+
+    return this.saveVersion(
+      canvas,
+      canvasContentToText(content),
+      'model',
+      args.summary || args.description || 'Edited in chat'
+    );
+  }
+
+  async restoreVersion(canvas: CanvasDocument, version: number): Promise<CanvasDocument> {
+    const target = canvas.versions.find(entry => entry.version === version);
+    if (!target) {
+      throw new Error(`Version ${version} not found`);
+    }
+    return this.saveVersion(canvas, target.content, 'restore', `Restored version ${version}`);
+  }
+
+  /**
+   * Have the model rewrite only the selected range via canvas_edit, saving the
+   * result as a new version
+   */
+  async rewriteSelection(
+    canvas: CanvasDocument,
+    selection: CanvasSelection,
+    instruction: string,
+    model: string = DEFAULT_REWRITE_MODEL
+  ): Promise<CanvasDocument> {
+    const { start, end } = selection;
+    if (end <= start) {
+      throw new Error('Select some text to rewrite');
+    }
+
+    const before = canvas.content.slice(Math.max(0, start - SELECTION_CONTEXT_CHARS), start);
+    const selected = canvas.content.slice(start, end);
+    const after = canvas.content.slice(end, end + SELECTION_CONTEXT_CHARS);
+    const kind = canvas.type === 'code' ? `${canvas.language || 'code'} file` : 'document';
+
+    console.log('🎨 [CanvasService] Rewriting selection:', {
+      canvas: canvas.name,
+      selectionLength: selected.length,
+      model,
+    });
+
+    const response = await backendProviderService.createChatCompletion({
+      provider: getProviderForModel(model),
+      model,
+      temperature: 0.3,
+      messages: [
+        {
+          role: 'system',
+          content: `You edit part of a ${kind} named "${canvas.name}". Rewrite only the text inside <selection> as instructed and call canvas_edit with the replacement. Keep the surrounding style, formatting and indentation. Never repeat text from <before> or <after>.`,
+        },
+        {
+          role: 'user',
+          content: `<before>${before}</before>\n<selection>${selected}</selection>\n<after>${after}</after>\n\nInstruction: ${instruction}`,
+        },
+      ],
+      tools: [CANVAS_EDIT_TOOL],
+      tool_choice: { type: 'function', function: { name: 'canvas_edit' } },
+    });
+
+    const toolCall = response.choices?.[0]?.message?.tool_calls?.find(
+      (call: any) => call.function?.name === 'canvas_edit'
+    );
+    const replacement = parseArguments(toolCall).replacement;
+    if (typeof replacement !== 'string') {
+      throw new Error('The model did not return an edit');
+    }
+
+    const content = canvas.content.slice(0, start) + replacement + canvas.content.slice(end);
+    return this.saveVersion(canvas, content, 'model', instruction);
+  }
+
+  private async findEditedCanvas(
+    threadId: string,
+    args: any
+  ): Promise<{ messageId: string; toolCallId: string } | null> {
+    const { data, error } = await supabase
+      .from('thread_messages')
+      .select('message_id, tool_calls')
+      .eq('thread_id', threadId)
+      .not('tool_calls', 'is', null)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    const canvases = (data || [])
+      .filter((row: any) => row.message_id)
+      .flatMap((row: any) => (row.tool_calls || [])
+        .filter(isCanvasCreation)
+        .map((call: any) => {
+          const callArgs = parseArguments(call);
+          return { messageId: row.message_id, toolCallId: call.id, name: callArgs.name || callArgs.title };
+        }));
+
+    const canvasId = args.canvas_id || args.id;
+    const name = args.name || args.title;
+    return canvases.find(canvas => canvasId && canvas.toolCallId === canvasId)
+      || canvases.find(canvas => name && canvas.name === name)
+      || canvases[0]
+      || null;
+  }
+
+  private async persist(canvas: CanvasDocument): Promise<void> {
+    const { data, error } = await supabase
+      .from('thread_messages')
+      .select('tool_calls')
+      .eq('message_id', canvas.messageId)
+      .single();
+
+    if (error) throw error;
+
+    const toolCalls = (data?.tool_calls || []).map((call: any) => {
+      if (call?.id !== canvas.toolCallId) return call;
+
+      return {
+        ...call,
+        function: {
+          ...call.function,
+          arguments: JSON.stringify({
+            ...parseArguments(call),
+            content: canvas.content,
+            version: canvas.version,
+          }),
+        },
+        canvas_version: canvas.version,
+        canvas_versions: canvas.versions,
+      };
+    });
+
+    const { error: updateError } = await supabase
+      .from('thread_messages')
+      .update({ tool_calls: toolCalls })
+      .eq('message_id', canvas.messageId);
+
+    if (updateError) {
+      console.error('🎨 [CanvasService] Failed to save canvas:', updateError);
+      throw updateError;
+    }
+  }
+}
+
+// Export singleton instance
+export const canvasService = CanvasService.getInstance();
+
+export default canvasService;
@@ -1,6 +1,7 @@
 import { ApiClient, ApiError } from '../apiClient';
 import { supabase } from '../supabase';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { usageLedger } from './usageLedger';
 
 // Interface for chat messages
 export interface ChatMessage {
@@ -167,8 +168,14 @@ export class ChatCompletionService {
     if (!userId || !usageData) return;
 
     try {
-      // TODO: Implement token usage tracking
       console.log('Token usage:', { userId, usageData, modelId, featureId });
+      await usageLedger.record({
+        kind: 'chat',
+        model: modelId,
+        workspaceId: this.workspaceId || undefined,
+        promptTokens: usageData.prompt_tokens,
+        completionTokens: usageData.completion_tokens,
+      });
     } catch (error) {
       console.error('Failed to track token usage:', error);
     }
@@ -339,6 +346,8 @@ export class ChatCompletionService {
       return 'No summary available';
     }
 
+    this.error = null;
+
     try {
       const response = await ApiClient.ai.generateSummary({
         messages: this.messages,
@@ -358,10 +367,38 @@ export class ChatCompletionService {
       return summary;
     } catch (error) {
       console.error('Error generating summary:', error);
+      this.error = error as Error;
       return 'Error generating summary';
     }
   }
 
+  /**
+   * Ask the model to turn invalid structured output into JSON that matches
+   * the schema. Returns the repaired JSON text.
+   */
+  async repairStructuredOutput(content: string, schema: any, problems: string[]): Promise<string> {
+    console.log('Repairing structured output', { contentLength: content.length, problems });
+
+    const repaired = await this.getChatResponse(
+      [
+        {
+          role: 'system',
+          content: 'You repair JSON. Reply with only the corrected JSON document, matching the given schema and keeping the original data. No prose, no code fences.',
+        },
+        {
+          role: 'user',
+          content: `Schema:\n${JSON.stringify(schema)}\n\nProblems:\n${problems.join('\n')}\n\nJSON to repair:\n${content}`,
+        },
+      ],
+      {
+        response_format: { type: 'json_object' },
+        featureId: 'structured_output_repair',
+      }
+    );
+
+    return repaired || '';
+  }
+
   /**
    * Determine the provider and endpoint for an image model
    */
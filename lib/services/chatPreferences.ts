@@ -0,0 +1,94 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const PREFERENCES_STORAGE_KEY = '@ChatPreferences';
+
+/**
+ * Per-device chat behaviour chosen in Settings > Chat
+ */
+export interface ChatPreferences {
+  agentMode: boolean; // Let the model chain tool calls until it answers
+  agentMaxSteps: number; // Responses per agent turn, including the first; the last one answers
+  modelFallback: boolean; // Retry a rejected turn down the model's fallback chain
+  fallbackChains: Record<string, string[]>; // Chains edited in Settings, by ModelInfo id; others use the default
+}
+
+// Agent mode needs a tool step and an answer; more than this gets slow and expensive
+export const AGENT_MAX_STEPS_RANGE = { min: 2, max: 10 };
+
+export const DEFAULT_CHAT_PREFERENCES: ChatPreferences = {
+  agentMode: false,
+  agentMaxSteps: 5,
+  modelFallback: true,
+  fallbackChains: {},
+};
+
+type PreferencesListener = (preferences: ChatPreferences) => void;
+
+export class ChatPreferencesService {
+  private static instance: ChatPreferencesService;
+  private preferences: ChatPreferences = DEFAULT_CHAT_PREFERENCES;
+  private loadPromise: Promise<ChatPreferences> | null = null;
+  private listeners = new Set<PreferencesListener>();
+
+  private constructor() {}
+
+  static getInstance(): ChatPreferencesService {
+    if (!ChatPreferencesService.instance) {
+      ChatPreferencesService.instance = new ChatPreferencesService();
+    }
+    return ChatPreferencesService.instance;
+  }
+
+  /**
+   * Load the saved preferences once; later calls reuse the first load
+   */
+  loadPreferences(): Promise<ChatPreferences> {
+    if (!this.loadPromise) {
+      this.loadPromise = AsyncStorage.getItem(PREFERENCES_STORAGE_KEY)
+        .then(stored => {
+          if (stored) {
+            this.preferences = { ...DEFAULT_CHAT_PREFERENCES, ...JSON.parse(stored) };
+            this.notify();
+          }
+          return this.preferences;
+        })
+        .catch(error => {
+          console.warn('⚙️ [ChatPreferences] Failed to load preferences:', error);
+          return this.preferences;
+        });
+    }
+    return this.loadPromise;
+  }
+
+  getPreferences(): ChatPreferences {
+    return this.preferences;
+  }
+
+  async updatePreferences(changes: Partial<ChatPreferences>): Promise<ChatPreferences> {
+    await this.loadPreferences();
+    this.preferences = { ...this.preferences, ...changes };
+    this.notify();
+    await AsyncStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(this.preferences));
+    console.log('⚙️ [ChatPreferences] Preferences saved:', this.preferences);
+    return this.preferences;
+  }
+
+  /**
+   * Notified whenever the preferences load or change
+   */
+  subscribe(listener: PreferencesListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.preferences));
+  }
+}
+
+// Export singleton instance
+export const chatPreferences = ChatPreferencesService.getInstance();
+
+export default chatPreferences;
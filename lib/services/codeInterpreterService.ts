@@ -0,0 +1,265 @@
+import * as FileSystem from 'expo-file-system';
+import { ApiClient } from '../apiClient';
+import { supabase } from '../supabase';
+
+const ARTIFACT_DIRECTORY = `${FileSystem.documentDirectory}code-interpreter/`;
+
+/**
+ * A file or chart produced by a code run
+ */
+export interface CodeInterpreterArtifact {
+  name: string;
+  mimeType: string;
+  url?: string; // Download URL from the backend
+  uri?: string; // Local copy, for artifacts returned inline as base64
+  size?: number;
+}
+
+/**
+ * Output gathered so far while code is running
+ */
+export interface CodeInterpreterOutput {
+  stdout: string;
+  stderr: string;
+  artifacts: CodeInterpreterArtifact[];
+}
+
+export interface CodeInterpreterResult extends CodeInterpreterOutput {
+  exitCode?: number;
+  error?: string;
+  containerId?: string;
+  durationMs: number;
+}
+
+export interface CodeInterpreterFile {
+  id: string;
+  name: string;
+}
+
+export interface CodeInterpreterParams {
+  code: string;
+  fileIds?: string[];
+  containerId?: string;
+}
+
+export interface CodeInterpreterRunOptions {
+  signal?: AbortSignal;
+  onOutput?: (output: CodeInterpreterOutput) => void;
+}
+
+/**
+ * Runs code in the backend sandbox, streaming stdout/stderr as it arrives
+ */
+export class CodeInterpreterService {
+  private static instance: CodeInterpreterService;
+
+  private constructor() {}
+
+  static getInstance(): CodeInterpreterService {
+    if (!CodeInterpreterService.instance) {
+      CodeInterpreterService.instance = new CodeInterpreterService();
+    }
+    return CodeInterpreterService.instance;
+  }
+
+  async execute(
+    params: CodeInterpreterParams,
+    { signal, onOutput }: CodeInterpreterRunOptions = {}
+  ): Promise<CodeInterpreterResult> {
+    const startTime = Date.now();
+    const output: CodeInterpreterOutput = { stdout: '', stderr: '', artifacts: [] };
+    let finalResult: any = null;
+    let streamError: string | undefined;
+
+    console.log('🐍 [CodeInterpreterService] Running code:', {
+      codeLength: params.code.length,
+      fileCount: params.fileIds?.length || 0,
+    });
+
+    await ApiClient.tools.streamCodeInterpreter({
+      code: params.code,
+      files: params.fileIds || [],
+      containerId: params.containerId,
+    }, (event, isResponseBody) => {
+      // Non-streaming backends answer with a single JSON body holding the whole result
+      if (isResponseBody) {
+        finalResult = event?.data || event?.result?.data || event;
+        return;
+      }
+
+      switch (event?.type) {
+        case 'stdout':
+          output.stdout += event.text ?? event.data ?? '';
+          break;
+        case 'stderr':
+          output.stderr += event.text ?? event.data ?? '';
+          break;
+        case 'artifact':
+          output.artifacts.push(event.artifact || event);
+          break;
+        case 'result':
+          finalResult = event.result || event;
+          break;
+        case 'error':
+          streamError = event.error || event.message || 'Code execution failed';
+          break;
+        default:
+          // Heartbeats, status and start events carry no output
+          return;
+      }
+      onOutput?.({ ...output, artifacts: [...output.artifacts] });
+    }, signal);
+
+    // The final result is authoritative when the backend sends one
+    const stdout = finalResult?.stdout ?? finalResult?.output ?? output.stdout;
+    const stderr = finalResult?.stderr ?? output.stderr;
+    const rawArtifacts: any[] = finalResult?.artifacts || finalResult?.files || output.artifacts;
+    const artifacts = await Promise.all(rawArtifacts.map(artifact => this.normalizeArtifact(artifact)));
+
+    const result: CodeInterpreterResult = {
+      stdout: typeof stdout === 'string' ? stdout : JSON.stringify(stdout),
+      stderr,
+      artifacts,
+      exitCode: finalResult?.exitCode ?? finalResult?.exit_code,
+      error: streamError || finalResult?.error,
+      containerId: finalResult?.containerId ?? finalResult?.container_id,
+      durationMs: Date.now() - startTime,
+    };
+
+    console.log('🐍 [CodeInterpreterService] Run finished:', {
+      exitCode: result.exitCode,
+      stdoutLength: result.stdout.length,
+      stderrLength: result.stderr.length,
+      artifactCount: result.artifacts.length,
+      hasError: !!result.error,
+    });
+
+    return result;
+  }
+
+  /**
+   * Map file names the model asked for to conversation attachments first, then
+   * workspace files. Without names every conversation attachment is used.
+   */
+  async resolveFiles(names: string[] | undefined, contextData: any): Promise<CodeInterpreterFile[]> {
+    const attachments: CodeInterpreterFile[] = (contextData?.storage_files || [])
+      .filter((file: any) => file?.id)
+      .map((file: any) => ({ id: file.id, name: file.name }));
+
+    if (!names || names.length === 0) {
+      return attachments;
+    }
+
+    let available = attachments;
+    const isMissing = (name: string) => !available.some(file => file.name === name);
+
+    if (contextData?.workspaceId && names.some(isMissing)) {
+      const { data, error } = await supabase
+        .from('workspace_files')
+        .select('id, file_name')
+        .eq('workspace_id', contextData.workspaceId);
+
+      if (error) {
+        console.warn('🐍 [CodeInterpreterService] Failed to load workspace files:', error);
+      } else {
+        available = [
+          ...attachments,
+          ...(data || []).map((file: any) => ({ id: file.id, name: file.file_name })),
+        ];
+      }
+    }
+
+    const missing = names.filter(isMissing);
+    if (missing.length > 0) {
+      const availableNames = available.map(file => file.name).join(', ') || 'none';
+      throw new Error(`File(s) not found: ${missing.join(', ')}. Available files: ${availableNames}`);
+    }
+
+    return names.map(name => available.find(file => file.name === name)!);
+  }
+
+  /**
+   * Local file for an artifact, downloading it first if needed
+   */
+  async downloadArtifact(artifact: CodeInterpreterArtifact): Promise<string> {
+    if (artifact.uri) {
+      return artifact.uri;
+    }
+    if (!artifact.url) {
+      throw new Error(`${artifact.name} has no download link`);
+    }
+
+    await this.ensureArtifactDirectory();
+    const target = `${ARTIFACT_DIRECTORY}${Date.now()}_${sanitizeFileName(artifact.name)}`;
+    const download = await FileSystem.downloadAsync(artifact.url, target);
+    if (download.status !== 200) {
+      throw new Error(`Download failed with status ${download.status}`);
+    }
+    return download.uri;
+  }
+
+  private async normalizeArtifact(raw: any): Promise<CodeInterpreterArtifact> {
+    const name = raw?.name || raw?.filename || raw?.file_name || 'output';
+    const artifact: CodeInterpreterArtifact = {
+      name,
+      mimeType: raw?.mimeType || raw?.mime_type || raw?.contentType || guessMimeType(name),
+      url: raw?.url || raw?.download_url,
+      uri: raw?.uri,
+      size: raw?.size ?? raw?.bytes,
+    };
+
+    // Inline artifacts are saved so they survive as a file instead of a huge string
+    const base64 = raw?.base64 || raw?.data;
+    if (!artifact.url && !artifact.uri && typeof base64 === 'string') {
+      try {
+        await this.ensureArtifactDirectory();
+        artifact.uri = `${ARTIFACT_DIRECTORY}${Date.now()}_${sanitizeFileName(name)}`;
+        await FileSystem.writeAsStringAsync(artifact.uri, base64, { encoding: FileSystem.EncodingType.Base64 });
+      } catch (error) {
+        console.warn('🐍 [CodeInterpreterService] Failed to save artifact:', name, error);
+        artifact.uri = undefined;
+      }
+    }
+
+    return artifact;
+  }
+
+  private async ensureArtifactDirectory(): Promise<void> {
+    const info = await FileSystem.getInfoAsync(ARTIFACT_DIRECTORY);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(ARTIFACT_DIRECTORY, { intermediates: true });
+    }
+  }
+}
+
+function sanitizeFileName(name: string): string {
+  return name.replace(/[^\w.-]+/g, '_');
+}
+
+function guessMimeType(name: string): string {
+  const extension = name.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'png':
+      return 'image/png';
+    case 'jpg':
+    case 'jpeg':
+      return 'image/jpeg';
+    case 'svg':
+      return 'image/svg+xml';
+    case 'csv':
+      return 'text/csv';
+    case 'json':
+      return 'application/json';
+    case 'txt':
+      return 'text/plain';
+    case 'pdf':
+      return 'application/pdf';
+    default:
+      return 'application/octet-stream';
+  }
+}
+
+// Export singleton instance
+export const codeInterpreterService = CodeInterpreterService.getInstance();
+
+export default codeInterpreterService;
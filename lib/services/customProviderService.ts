@@ -0,0 +1,340 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+import { fetch } from 'expo/fetch';
+import { ApiClient, ApiError } from '../apiClient';
+import { getCustomModelName, setCustomModels, toCustomModelInfo } from '@/constants/Models';
+
+const CONFIG_STORAGE_KEY = '@CustomProvider:config';
+const API_KEY_STORAGE_KEY = 'custom_provider_api_key';
+
+// Request fields an OpenAI-compatible server understands; app-only fields like contextData are dropped
+const FORWARDED_PARAMS = [
+  'messages', 'temperature', 'max_tokens', 'top_p', 'frequency_penalty', 'presence_penalty',
+  'response_format', 'tools', 'tool_choice', 'parallel_tool_calls', 'stop', 'seed',
+];
+
+/**
+ * User-configured OpenAI-compatible endpoint (vLLM, Ollama, LiteLLM, ...)
+ */
+export interface CustomProviderConfig {
+  name: string; // Shown as the model version in pickers
+  baseUrl: string; // Up to and including the version segment, e.g. http://localhost:11434/v1
+  models: string[];
+}
+
+type ConfigListener = (config: CustomProviderConfig | null) => void;
+
+// SecureStore isn't available on web; fall back to AsyncStorage there
+const keyStorage = {
+  get: (key: string) => (Platform.OS === 'web' ? AsyncStorage.getItem(key) : SecureStore.getItemAsync(key)),
+  set: (key: string, value: string) =>
+    Platform.OS === 'web' ? AsyncStorage.setItem(key, value) : SecureStore.setItemAsync(key, value),
+  remove: (key: string) => (Platform.OS === 'web' ? AsyncStorage.removeItem(key) : SecureStore.deleteItemAsync(key)),
+};
+
+/**
+ * Talks to the custom endpoint directly, bypassing the hosted backend.
+ * Streams are re-emitted as OpenAI chunk JSON so they run through the same
+ * delta processing as backend streams.
+ */
+export class CustomProviderService {
+  private static instance: CustomProviderService;
+  private config: CustomProviderConfig | null = null;
+  private apiKey: string | null = null;
+  private loadPromise: Promise<CustomProviderConfig | null> | null = null;
+  private listeners = new Set<ConfigListener>();
+
+  private constructor() {}
+
+  static getInstance(): CustomProviderService {
+    if (!CustomProviderService.instance) {
+      CustomProviderService.instance = new CustomProviderService();
+    }
+    return CustomProviderService.instance;
+  }
+
+  /**
+   * Load the saved config once and register its models
+   */
+  async loadConfig(): Promise<CustomProviderConfig | null> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const [stored, apiKey] = await Promise.all([
+            AsyncStorage.getItem(CONFIG_STORAGE_KEY),
+            keyStorage.get(API_KEY_STORAGE_KEY),
+          ]);
+          this.apiKey = apiKey;
+          this.applyConfig(stored ? JSON.parse(stored) : null);
+        } catch (error) {
+          console.warn('🔌 [CustomProviderService] Failed to load config:', error);
+          this.applyConfig(null);
+        }
+        return this.config;
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  getConfig(): CustomProviderConfig | null {
+    return this.config;
+  }
+
+  async hasApiKey(): Promise<boolean> {
+    await this.loadConfig();
+    return !!this.apiKey;
+  }
+
+  /**
+   * Save the endpoint. `apiKey` undefined keeps the stored key, empty removes it.
+   */
+  async saveConfig(config: CustomProviderConfig, apiKey?: string): Promise<void> {
+    const normalized: CustomProviderConfig = {
+      name: config.name.trim() || 'Custom',
+      baseUrl: normalizeBaseUrl(config.baseUrl),
+      models: Array.from(new Set(config.models.map(model => model.trim()).filter(Boolean))),
+    };
+
+    await AsyncStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(normalized));
+
+    if (apiKey !== undefined) {
+      if (apiKey.trim()) {
+        await keyStorage.set(API_KEY_STORAGE_KEY, apiKey.trim());
+        this.apiKey = apiKey.trim();
+      } else {
+        await keyStorage.remove(API_KEY_STORAGE_KEY);
+        this.apiKey = null;
+      }
+    }
+
+    console.log('🔌 [CustomProviderService] Saved endpoint:', normalized.baseUrl, `(${normalized.models.length} models)`);
+    this.applyConfig(normalized);
+  }
+
+  async clearConfig(): Promise<void> {
+    await Promise.all([
+      AsyncStorage.removeItem(CONFIG_STORAGE_KEY),
+      keyStorage.remove(API_KEY_STORAGE_KEY),
+    ]);
+    this.apiKey = null;
+    this.applyConfig(null);
+  }
+
+  /**
+   * Notified whenever the endpoint or its models change
+   */
+  subscribe(listener: ConfigListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Model ids the endpoint reports from GET /models. Optional overrides let
+   * settings check an endpoint before it is saved.
+   */
+  async fetchModels(overrides: { baseUrl?: string; apiKey?: string } = {}): Promise<string[]> {
+    await this.loadConfig();
+    const baseUrl = normalizeBaseUrl(overrides.baseUrl ?? this.config?.baseUrl ?? '');
+    if (!baseUrl) {
+      throw new ApiError('No endpoint URL configured');
+    }
+
+    const response = await fetch(`${baseUrl}/models`, {
+      headers: this.buildHeaders(overrides.apiKey ?? this.apiKey),
+    });
+    if (!response.ok) {
+      throw new ApiError(await readErrorMessage(response), response.status);
+    }
+
+    const body = await response.json();
+    return (body?.data || body?.models || [])
+      .map((entry: any) => (typeof entry === 'string' ? entry : entry?.id || entry?.name))
+      .filter(Boolean);
+  }
+
+  /**
+   * Stream a chat completion. Mirrors BackendProviderService.streamChatCompletion:
+   * `onChunk` receives each OpenAI chunk as a JSON string.
+   */
+  async streamChatCompletion(
+    params: Record<string, any>,
+    onChunk: (chunk: string) => void,
+    onComplete?: (finalContent: string) => void,
+    onError?: (error: ApiError) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const body: Record<string, any> = { ...(await this.buildRequestBody(params)), stream: true };
+    console.log('🔌 [CustomProviderService] Streaming from custom endpoint:', {
+      baseUrl: this.config?.baseUrl,
+      model: body.model,
+      messageCount: body.messages?.length,
+      hasTools: !!body.tools?.length,
+    });
+
+    let content = '';
+    const url = `${this.config!.baseUrl}/chat/completions`;
+    const recording = ApiClient.getStreamRecorder()?.startRecording(url, { provider: 'custom', ...body });
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { ...this.buildHeaders(this.apiKey), Accept: 'text/event-stream' },
+        body: JSON.stringify(body),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new ApiError(await readErrorMessage(response), response.status);
+      }
+
+      const handleLine = (line: string): boolean => {
+        const trimmed = line.trim();
+        if (trimmed) {
+          recording?.recordLine(trimmed);
+        }
+        if (!trimmed.startsWith('data:')) return false;
+
+        const data = trimmed.slice(5).trim();
+        if (data === '[DONE]') return true;
+
+        try {
+          const chunk = JSON.parse(data);
+          const delta = chunk?.choices?.[0]?.delta;
+          if (delta?.content) {
+            content += delta.content;
+          }
+          // Usage-only chunks have no choices but still carry token counts
+          if (delta || chunk?.choices?.[0]?.finish_reason || chunk?.usage) {
+            onChunk(JSON.stringify(chunk));
+          }
+        } catch (parseError) {
+          console.warn('🔌 [CustomProviderService] Failed to parse SSE data:', data.substring(0, 100));
+        }
+        return false;
+      };
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        // No streaming body: replay the full response line by line
+        const text = await response.text();
+        for (const line of text.split('\n')) {
+          if (handleLine(line)) break;
+        }
+      } else {
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let done = false;
+
+        try {
+          while (!done) {
+            const result = await reader.read();
+            if (result.done || signal?.aborted) break;
+
+            buffer += decoder.decode(result.value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+            done = lines.some(handleLine);
+          }
+          if (!done && buffer) {
+            handleLine(buffer);
+          }
+        } finally {
+          reader.releaseLock();
+        }
+      }
+
+      recording?.finish();
+      onComplete?.(content);
+      return content;
+    } catch (error: any) {
+      recording?.finish(error);
+      if (error?.name === 'AbortError') {
+        throw error;
+      }
+
+      const apiError = error instanceof ApiError
+        ? error
+        : new ApiError(error?.message || 'Custom endpoint request failed', 0, { originalError: error });
+      console.error('❌ [CustomProviderService] Stream error:', apiError);
+      onError?.(apiError);
+      throw apiError;
+    }
+  }
+
+  /**
+   * Non-streaming chat completion; returns the OpenAI response body
+   */
+  async createChatCompletion(params: Record<string, any>): Promise<any> {
+    const body: Record<string, any> = { ...(await this.buildRequestBody(params)), stream: false };
+
+    const response = await fetch(`${this.config!.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.buildHeaders(this.apiKey),
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new ApiError(await readErrorMessage(response), response.status);
+    }
+
+    return response.json();
+  }
+
+  private async buildRequestBody(params: Record<string, any>): Promise<Record<string, any>> {
+    await this.loadConfig();
+    if (!this.config?.baseUrl) {
+      throw new ApiError('The custom provider is not configured. Add its URL in Settings.');
+    }
+
+    const body: Record<string, any> = { model: getCustomModelName(params.model) };
+    for (const key of FORWARDED_PARAMS) {
+      if (params[key] !== undefined) {
+        body[key] = params[key];
+      }
+    }
+
+    // Many compatible servers reject these without tools
+    if (!body.tools?.length) {
+      delete body.tools;
+      delete body.tool_choice;
+      delete body.parallel_tool_calls;
+    }
+
+    return body;
+  }
+
+  private buildHeaders(apiKey: string | null | undefined): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    };
+  }
+
+  private applyConfig(config: CustomProviderConfig | null): void {
+    this.config = config;
+    setCustomModels(config ? config.models.map(model => toCustomModelInfo(model, config.name)) : []);
+    this.listeners.forEach(listener => listener(config));
+  }
+}
+
+function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '').replace(/\/chat\/completions$/, '');
+}
+
+async function readErrorMessage(response: { status: number; statusText: string; text: () => Promise<string> }): Promise<string> {
+  try {
+    const text = await response.text();
+    const parsed = JSON.parse(text);
+    return parsed?.error?.message || parsed?.error || parsed?.message || text;
+  } catch {
+    return `HTTP ${response.status}: ${response.statusText}`;
+  }
+}
+
+// Export singleton instance
+export const customProviderService = CustomProviderService.getInstance();
+
+export default customProviderService;
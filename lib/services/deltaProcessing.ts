@@ -159,13 +159,9 @@ export function processReasoningContent(
     reasoningDuration,
   } = reasoningState;
 
-  // Handle DeepSeek and Grok reasoning content directly from reasoning_content field
-  if (
-    (modelProvider === 'deepseek' ||
-      modelProvider === 'xai' ||
-      modelProvider === 'grok') &&
-    reasoningDeltaContent
-  ) {
+  // Handle reasoning content sent in the reasoning_content field (DeepSeek, Grok,
+  // and OpenAI o-series reasoning summaries)
+  if (reasoningDeltaContent) {
     if (!isReasoningResponse) {
       isReasoningResponse = true;
       inReasoningBlock = true;
@@ -80,7 +80,7 @@ const getApiBaseUrl = (): string => {
 /**
  * Edit images using AI image models
  */
-export async function editImage(params: ImageEditParams): Promise<ImageEditResult | ImageEditError> {
+export async function editImage(params: ImageEditParams, signal?: AbortSignal): Promise<ImageEditResult | ImageEditError> {
   try {
     const {
       prompt,
@@ -138,6 +138,7 @@ export async function editImage(params: ImageEditParams): Promise<ImageEditResul
         'Content-Type': 'application/json',
       },
       body: JSON.stringify(requestBody),
+      signal,
     });
 
     if (!response.ok) {
@@ -189,7 +189,7 @@ export class ImageGenerationService {
     return ImageGenerationService.instance;
   }
 
-  async generateImage(params: ImageGenerationParams): Promise<ImageGenerationResult | ImageGenerationError> {
+  async generateImage(params: ImageGenerationParams, signal?: AbortSignal): Promise<ImageGenerationResult | ImageGenerationError> {
     try {
       const {
         prompt,
@@ -262,6 +262,7 @@ export class ImageGenerationService {
           model: 'gpt-4o',
           stream: false,
         }),
+        signal,
       });
 
       if (!response.ok) {
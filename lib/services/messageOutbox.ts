@@ -0,0 +1,180 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '@/lib/supabase';
+import { VectorStoreFile } from '@/lib/content';
+import { StructuredOutputSchema } from '@/lib/utils/structuredOutput';
+
+const OUTBOX_STORAGE_KEY = '@MessageOutbox:entries';
+
+export interface OutboxMessageOptions {
+  temperature?: number;
+  maxTokens?: number;
+  provider?: string;
+  model?: string;
+  responseSchema?: StructuredOutputSchema;
+  parentId?: string | null; // Edits fork from an earlier message
+}
+
+/**
+ * A user turn that was sent while offline and is waiting to be replayed.
+ * The id doubles as the thread_messages.message_id of the user message.
+ */
+export interface OutboxEntry {
+  id: string;
+  threadId?: string;
+  workspaceId?: string;
+  content: string;
+  files?: VectorStoreFile[];
+  toolChoice?: { toolId: string; toolName: string } | null;
+  options?: OutboxMessageOptions;
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+/**
+ * How far a queued turn got before the app went away: not saved, saved
+ * without an answer, or saved and answered
+ */
+export type OutboxSavedState = 'unsaved' | 'saved' | 'answered';
+
+export class MessageOutbox {
+  private static instance: MessageOutbox;
+  private entries: OutboxEntry[] | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor() {}
+
+  static getInstance(): MessageOutbox {
+    if (!MessageOutbox.instance) {
+      MessageOutbox.instance = new MessageOutbox();
+    }
+    return MessageOutbox.instance;
+  }
+
+  /**
+   * Get a thread's queued entries in the order they were sent. Entries queued
+   * in a chat that had no thread yet are only returned for an undefined threadId.
+   */
+  async getEntries(threadId?: string): Promise<OutboxEntry[]> {
+    const entries = await this.load();
+    return entries
+      .filter(entry => entry.threadId === threadId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async enqueue(
+    entry: Omit<OutboxEntry, 'createdAt' | 'attempts'> & { createdAt?: string },
+  ): Promise<OutboxEntry> {
+    const queued: OutboxEntry = {
+      ...entry,
+      createdAt: entry.createdAt || new Date().toISOString(),
+      attempts: 0,
+    };
+
+    await this.update(entries => [
+      ...entries.filter(existing => existing.id !== queued.id),
+      queued,
+    ]);
+
+    console.log(`📮 [MessageOutbox] Queued message ${queued.id} for thread ${queued.threadId || 'none'}`);
+    return queued;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.update(entries => entries.filter(entry => entry.id !== id));
+  }
+
+  async markAttempt(id: string, error?: string): Promise<void> {
+    await this.update(entries =>
+      entries.map(entry =>
+        entry.id === id
+          ? { ...entry, attempts: entry.attempts + 1, lastError: error }
+          : entry,
+      ),
+    );
+  }
+
+  async clear(threadId?: string): Promise<void> {
+    await this.update(entries =>
+      threadId === undefined ? [] : entries.filter(entry => entry.threadId !== threadId),
+    );
+  }
+
+  /**
+   * Check whether a queued message already reached thread_messages and got an
+   * answer, so a replay after a crash or a double reconnect never saves it twice
+   * and never leaves it unanswered.
+   */
+  async getSavedState(entry: OutboxEntry): Promise<OutboxSavedState> {
+    if (!entry.threadId) return 'unsaved';
+
+    try {
+      const { data, error } = await supabase
+        .from('thread_messages')
+        .select('id')
+        .eq('thread_id', entry.threadId)
+        .eq('message_id', entry.id)
+        .limit(1);
+
+      if (error) {
+        console.error('📮 [MessageOutbox] Error checking saved message:', error);
+        return 'unsaved';
+      }
+      if (!data?.length) return 'unsaved';
+
+      // Answers record the user message id as their parent
+      const { data: answers, error: answerError } = await supabase
+        .from('thread_messages')
+        .select('id')
+        .eq('thread_id', entry.threadId)
+        .eq('role', 'assistant')
+        .eq('metadata->>parentId', entry.id)
+        .limit(1);
+
+      if (answerError) {
+        console.error('📮 [MessageOutbox] Error checking saved answer:', answerError);
+        return 'saved';
+      }
+
+      return answers?.length ? 'answered' : 'saved';
+    } catch (error) {
+      console.error('📮 [MessageOutbox] Error checking saved message:', error);
+      return 'unsaved';
+    }
+  }
+
+  private async load(): Promise<OutboxEntry[]> {
+    if (this.entries) return this.entries;
+
+    try {
+      const stored = await AsyncStorage.getItem(OUTBOX_STORAGE_KEY);
+      this.entries = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('📮 [MessageOutbox] Error loading outbox:', error);
+      this.entries = [];
+    }
+
+    return this.entries!;
+  }
+
+  private update(mutate: (entries: OutboxEntry[]) => OutboxEntry[]): Promise<void> {
+    // Serialize writes so concurrent enqueue/remove calls don't clobber each other
+    this.writeQueue = this.writeQueue.then(async () => {
+      const entries = mutate(await this.load());
+      this.entries = entries;
+
+      try {
+        await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(entries));
+      } catch (error) {
+        console.error('📮 [MessageOutbox] Error saving outbox:', error);
+      }
+    });
+
+    return this.writeQueue;
+  }
+}
+
+// Export singleton instance
+export const messageOutbox = MessageOutbox.getInstance();
+
+export default messageOutbox;
@@ -0,0 +1,377 @@
+import * as FileSystem from 'expo-file-system';
+import {
+  ApiClient,
+  StreamRecorder,
+  StreamRecording,
+  StreamTransport
+} from '../apiClient';
+import {
+  processStreamDelta,
+  initializeReasoningState,
+  ReasoningState,
+  StreamDelta
+} from './deltaProcessing';
+import { ToolCall, finalizeToolCallArguments } from './streamingUtils';
+
+/**
+ * Record-and-replay harness for SSE streams.
+ *
+ * Recording captures the raw SSE lines of every ApiClient.stream call into
+ * fixtures; replaying feeds those fixtures back through ApiClient (or straight
+ * into deltaProcessing) so provider-specific delta handling can be reproduced
+ * without the backend.
+ */
+
+export interface SSEFixtureLine {
+  t: number; // Milliseconds since the stream started
+  line: string; // Raw SSE line, e.g. `data: {...}`
+}
+
+export interface SSEFixture {
+  version: 1;
+  id: string;
+  endpoint: string;
+  provider?: string;
+  model?: string;
+  recordedAt: string;
+  status: 'completed' | 'error' | 'aborted';
+  error?: string;
+  request?: any; // Only kept when the recorder is created with includeRequest
+  lines: SSEFixtureLine[];
+}
+
+export interface SSERecorderOptions {
+  persist?: boolean; // Write each fixture to the fixture directory
+  includeRequest?: boolean; // Keep the full request body (may contain user content)
+}
+
+export interface SSEReplayOptions {
+  timing?: 'recorded' | 'instant';
+  speed?: number; // Playback speed multiplier for recorded timing
+}
+
+export interface FixtureReplayResult {
+  content: string;
+  reasoningContent: string;
+  reasoningState: ReasoningState;
+  toolCalls: ToolCall[];
+  toolCallsFullyAccumulated: boolean;
+  chunkCount: number;
+  completed: boolean;
+}
+
+export const SSE_FIXTURE_DIRECTORY = `${FileSystem.documentDirectory}sse-fixtures/`;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Records every stream made through ApiClient as an SSE fixture
+ */
+export class SSERecorder implements StreamRecorder {
+  private fixtures: SSEFixture[] = [];
+
+  constructor(private options: SSERecorderOptions = {}) {}
+
+  startRecording(endpoint: string, data: any): StreamRecording {
+    const startedAt = Date.now();
+    const fixture: SSEFixture = {
+      version: 1,
+      id: `${data?.provider || 'stream'}_${data?.model || 'unknown'}_${startedAt}`,
+      endpoint,
+      provider: data?.provider,
+      model: data?.model,
+      recordedAt: new Date(startedAt).toISOString(),
+      status: 'completed',
+      request: this.options.includeRequest ? data : undefined,
+      lines: []
+    };
+
+    return {
+      recordLine: (line: string) => {
+        fixture.lines.push({ t: Date.now() - startedAt, line });
+      },
+      finish: (error?: any) => {
+        if (error) {
+          fixture.status = error.name === 'AbortError' ? 'aborted' : 'error';
+          fixture.error = error.message;
+        }
+
+        this.fixtures.push(fixture);
+        console.log(`⏺️ [SSERecorder] Recorded ${fixture.lines.length} lines for ${fixture.id}`);
+
+        if (this.options.persist) {
+          saveFixture(fixture).catch(saveError => {
+            console.error('⏺️ [SSERecorder] Failed to save fixture:', saveError);
+          });
+        }
+      }
+    };
+  }
+
+  getFixtures(): SSEFixture[] {
+    return [...this.fixtures];
+  }
+
+  clear(): void {
+    this.fixtures = [];
+  }
+}
+
+/**
+ * Build a response whose body yields the fixture's SSE lines
+ */
+function createReplayResponse(
+  fixture: SSEFixture,
+  options: SSEReplayOptions,
+  signal?: AbortSignal | null
+): Response {
+  const encoder = new TextEncoder();
+  const speed = options.speed || 1;
+  let index = 0;
+  let lastTime = 0;
+
+  const reader = {
+    read: async (): Promise<{ done: boolean; value?: Uint8Array }> => {
+      if (signal?.aborted || index >= fixture.lines.length) {
+        return { done: true, value: undefined };
+      }
+
+      const entry = fixture.lines[index++];
+      if (options.timing === 'recorded') {
+        await delay(Math.max(0, entry.t - lastTime) / speed);
+        lastTime = entry.t;
+      }
+
+      return { done: false, value: encoder.encode(`${entry.line}\n\n`) };
+    },
+    releaseLock: () => {},
+    cancel: async () => {}
+  };
+
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    headers: {
+      get: (name: string) => (name.toLowerCase() === 'content-type' ? 'text/event-stream' : null)
+    },
+    body: { getReader: () => reader },
+    text: async () => fixture.lines.map(entry => entry.line).join('\n\n'),
+    json: async () => {
+      throw new Error('Replay responses are event streams');
+    }
+  } as unknown as Response;
+}
+
+function createMissingFixtureResponse(model?: string): Response {
+  const body = { error: `No SSE fixture available to replay${model ? ` for ${model}` : ''}` };
+  return {
+    ok: false,
+    status: 404,
+    statusText: 'Not Found',
+    headers: { get: () => 'application/json' },
+    body: null,
+    text: async () => JSON.stringify(body),
+    json: async () => body
+  } as unknown as Response;
+}
+
+/**
+ * Transport that answers ApiClient streams from fixtures instead of the network.
+ * Fixtures recorded for the requested model are preferred; otherwise they are
+ * served in order.
+ */
+export function createReplayTransport(
+  fixtures: SSEFixture[],
+  options: SSEReplayOptions = {}
+): StreamTransport {
+  const queue = [...fixtures];
+
+  return async (url: string, init: RequestInit) => {
+    let requestedModel: string | undefined;
+    try {
+      requestedModel = JSON.parse(String(init.body || '{}')).model;
+    } catch {
+      requestedModel = undefined;
+    }
+
+    const matchIndex = queue.findIndex(fixture => fixture.model === requestedModel);
+    const [fixture] = queue.splice(matchIndex >= 0 ? matchIndex : 0, 1);
+
+    if (!fixture) {
+      console.warn('▶️ [SSEReplay] No fixture left for', url);
+      return createMissingFixtureResponse(requestedModel);
+    }
+
+    console.log(`▶️ [SSEReplay] Replaying ${fixture.id} (${fixture.lines.length} lines)`);
+    return createReplayResponse(fixture, options, init.signal);
+  };
+}
+
+/**
+ * Parse one raw SSE line, unwrapping the backend's envelope. Custom endpoints
+ * send bare OpenAI chunks, which are passed through as is.
+ */
+export function parseSSELine(line: string): { chunk?: StreamDelta; done: boolean } {
+  if (!line.startsWith('data: ')) {
+    return { done: false };
+  }
+
+  const data = line.slice(6);
+  if (data === '[DONE]') {
+    return { done: true };
+  }
+
+  try {
+    const parsed = JSON.parse(data);
+    if (parsed.type === 'complete') {
+      return { done: true };
+    }
+    if (parsed.type === 'chunk' && parsed.chunk) {
+      return { chunk: parsed.chunk, done: false };
+    }
+    if (parsed.choices) {
+      return { chunk: parsed, done: false };
+    }
+  } catch {
+    console.warn('▶️ [SSEReplay] Skipping unparseable line:', data.substring(0, 100));
+  }
+
+  return { done: false };
+}
+
+/**
+ * Extract provider chunks from a fixture, unwrapping the backend's SSE envelope
+ */
+export function getFixtureChunks(fixture: SSEFixture): { chunks: StreamDelta[]; completed: boolean } {
+  const chunks: StreamDelta[] = [];
+
+  for (const { line } of fixture.lines) {
+    const { chunk, done } = parseSSELine(line);
+    if (done) {
+      return { chunks, completed: true };
+    }
+    if (chunk) {
+      chunks.push(chunk);
+    }
+  }
+
+  return { chunks, completed: false };
+}
+
+/**
+ * Run provider chunks through processStreamDelta exactly as StreamProviderChat does,
+ * returning the accumulated content, reasoning and finalized tool calls
+ */
+export function replayChunksThroughDeltaProcessing(
+  chunks: StreamDelta[],
+  options: { provider: string; model: string; messageId?: string }
+): Omit<FixtureReplayResult, 'completed'> {
+  let reasoningState = initializeReasoningState();
+  let pendingToolCalls: ToolCall[] = [];
+  let bufferingForToolCall = false;
+  let hasDetectedToolCall = false;
+  let toolCallsFullyAccumulated = false;
+  let content = '';
+  let reasoningContent = '';
+
+  for (const chunk of chunks) {
+    const result = processStreamDelta({
+      delta: chunk,
+      modelProvider: options.provider,
+      modelName: options.model,
+      messageId: options.messageId || 'replay',
+      reasoningState,
+      pendingToolCalls,
+      bufferingForToolCall,
+      hasDetectedToolCall,
+      toolCallsFullyAccumulated
+    });
+
+    reasoningState = result.reasoningState;
+    pendingToolCalls = result.pendingToolCalls;
+    bufferingForToolCall = result.bufferingForToolCall;
+    hasDetectedToolCall = result.hasDetectedToolCall;
+    toolCallsFullyAccumulated = result.toolCallsFullyAccumulated;
+    content += result.deltaContent;
+    reasoningContent += result.reasoningDeltaContent || '';
+  }
+
+  return {
+    content,
+    reasoningContent,
+    reasoningState,
+    toolCalls: finalizeToolCallArguments(pendingToolCalls, options.provider),
+    toolCallsFullyAccumulated,
+    chunkCount: chunks.length
+  };
+}
+
+/**
+ * Run a fixture through processStreamDelta, unwrapping the backend's SSE envelope first
+ */
+export function replayFixtureThroughDeltaProcessing(
+  fixture: SSEFixture,
+  overrides: { provider?: string; model?: string } = {}
+): FixtureReplayResult {
+  const { chunks, completed } = getFixtureChunks(fixture);
+  return {
+    ...replayChunksThroughDeltaProcessing(chunks, {
+      provider: overrides.provider || fixture.provider || 'openai',
+      model: overrides.model || fixture.model || 'unknown',
+      messageId: `replay_${fixture.id}`
+    }),
+    completed
+  };
+}
+
+/**
+ * Write a fixture to the fixture directory, returning its file URI
+ */
+export async function saveFixture(fixture: SSEFixture): Promise<string> {
+  await FileSystem.makeDirectoryAsync(SSE_FIXTURE_DIRECTORY, { intermediates: true }).catch(() => {});
+  const uri = `${SSE_FIXTURE_DIRECTORY}${fixture.id}.json`;
+  await FileSystem.writeAsStringAsync(uri, JSON.stringify(fixture, null, 2));
+  return uri;
+}
+
+/**
+ * Load every fixture from the fixture directory, oldest first
+ */
+export async function loadFixtures(): Promise<SSEFixture[]> {
+  const info = await FileSystem.getInfoAsync(SSE_FIXTURE_DIRECTORY);
+  if (!info.exists) {
+    return [];
+  }
+
+  const files = (await FileSystem.readDirectoryAsync(SSE_FIXTURE_DIRECTORY))
+    .filter(file => file.endsWith('.json'))
+    .sort();
+
+  const fixtures: SSEFixture[] = [];
+  for (const file of files) {
+    try {
+      const raw = await FileSystem.readAsStringAsync(`${SSE_FIXTURE_DIRECTORY}${file}`);
+      fixtures.push(JSON.parse(raw));
+    } catch (error) {
+      console.warn(`▶️ [SSEReplay] Skipping invalid fixture ${file}:`, error);
+    }
+  }
+
+  return fixtures.sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+}
+
+/**
+ * Enable recording or replay in dev builds via EXPO_PUBLIC_SSE_HARNESS=record|replay
+ */
+export async function initSSEHarness(
+  mode: string | undefined = process.env.EXPO_PUBLIC_SSE_HARNESS
+): Promise<void> {
+  if (mode === 'record') {
+    ApiClient.setStreamRecorder(new SSERecorder({ persist: true }));
+  } else if (mode === 'replay') {
+    const fixtures = await loadFixtures();
+    console.log(`▶️ [SSEReplay] Loaded ${fixtures.length} fixtures`);
+    ApiClient.setStreamTransport(createReplayTransport(fixtures, { timing: 'recorded' }));
+  }
+}
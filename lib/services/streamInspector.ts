@@ -0,0 +1,341 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+import { ApiClient, StreamRecorder, StreamRecording } from '../apiClient';
+import { processStreamDelta, initializeReasoningState, ReasoningState } from './deltaProcessing';
+import { ToolCall, finalizeToolCallArguments } from './streamingUtils';
+import { SSEFixtureLine, parseSSELine } from './sseHarness';
+
+const ENABLED_STORAGE_KEY = '@StreamInspector:enabled';
+export const MAX_INSPECTED_STREAMS = 20;
+const MAX_LINES_PER_STREAM = 2000; // Long streams keep their first lines only
+
+export type InspectedStreamStatus = 'streaming' | 'completed' | 'error' | 'aborted';
+
+/**
+ * One provider chunk after delta processing, at `t` ms into the stream
+ */
+export interface InspectedDelta {
+  t: number;
+  content?: string;
+  reasoning?: string;
+  toolCallIndexes?: number[];
+  finishReason?: string;
+}
+
+/**
+ * A tool call fragment and the arguments accumulated once it was applied
+ */
+export interface ToolCallAccumulationStep {
+  t: number;
+  index: number;
+  id?: string;
+  name?: string;
+  argumentsDelta: string;
+  argumentsLength: number;
+}
+
+export interface ReasoningSegment {
+  startT: number;
+  endT?: number; // Open while reasoning is still streaming
+  content: string;
+}
+
+export interface StreamTimings {
+  firstLineMs?: number;
+  firstReasoningMs?: number;
+  firstContentMs?: number;
+  firstToolCallMs?: number;
+  totalMs?: number;
+}
+
+export interface InspectedStream {
+  id: string;
+  endpoint: string;
+  provider?: string;
+  model?: string;
+  startedAt: string;
+  status: InspectedStreamStatus;
+  error?: string;
+  request: any;
+  rawLines: SSEFixtureLine[];
+  truncated: boolean;
+  deltas: InspectedDelta[];
+  toolCallSteps: ToolCallAccumulationStep[];
+  toolCalls: ToolCall[];
+  reasoningSegments: ReasoningSegment[];
+  content: string;
+  timings: StreamTimings;
+}
+
+type InspectorListener = (streams: InspectedStream[]) => void;
+
+// Delta processing state carried between lines of one stream
+interface ProcessingState {
+  reasoningState: ReasoningState;
+  pendingToolCalls: ToolCall[];
+  bufferingForToolCall: boolean;
+  hasDetectedToolCall: boolean;
+  toolCallsFullyAccumulated: boolean;
+}
+
+/**
+ * Developer tool that keeps the most recent streams in memory. Installs itself
+ * as ApiClient's stream recorder (forwarding to any recorder already there, like
+ * the SSE harness) and runs every raw line through the same delta processing
+ * as StreamProviderChat, so the panel shows what the chat saw.
+ */
+export class StreamInspector implements StreamRecorder {
+  private static instance: StreamInspector;
+  private streams: InspectedStream[] = [];
+  private enabled = false;
+  private forwardTo: StreamRecorder | null = null;
+  private listeners = new Set<InspectorListener>();
+
+  private constructor() {}
+
+  static getInstance(): StreamInspector {
+    if (!StreamInspector.instance) {
+      StreamInspector.instance = new StreamInspector();
+    }
+    return StreamInspector.instance;
+  }
+
+  /**
+   * Restore the saved on/off setting
+   */
+  async init(): Promise<void> {
+    try {
+      if ((await AsyncStorage.getItem(ENABLED_STORAGE_KEY)) === 'true') {
+        this.install();
+      }
+    } catch (error) {
+      console.warn('🔬 [StreamInspector] Failed to load setting:', error);
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  async setEnabled(enabled: boolean): Promise<void> {
+    if (enabled) {
+      this.install();
+    } else {
+      this.uninstall();
+    }
+    await AsyncStorage.setItem(ENABLED_STORAGE_KEY, String(enabled));
+  }
+
+  /**
+   * Recorded streams, newest first
+   */
+  getStreams(): InspectedStream[] {
+    return [...this.streams];
+  }
+
+  getStream(id: string): InspectedStream | undefined {
+    return this.streams.find(stream => stream.id === id);
+  }
+
+  clear(): void {
+    this.streams = [];
+    this.notify();
+  }
+
+  /**
+   * Notified when a stream starts or finishes
+   */
+  subscribe(listener: InspectorListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  startRecording(endpoint: string, data: any): StreamRecording {
+    const forwarded = this.forwardTo?.startRecording(endpoint, data);
+    const startTime = Date.now();
+    const stream: InspectedStream = {
+      id: `${data?.model || 'stream'}_${startTime}`,
+      endpoint,
+      provider: data?.provider,
+      model: data?.model,
+      startedAt: new Date(startTime).toISOString(),
+      status: 'streaming',
+      request: data,
+      rawLines: [],
+      truncated: false,
+      deltas: [],
+      toolCallSteps: [],
+      toolCalls: [],
+      reasoningSegments: [],
+      content: '',
+      timings: {}
+    };
+    const processing: ProcessingState = {
+      reasoningState: initializeReasoningState(),
+      pendingToolCalls: [],
+      bufferingForToolCall: false,
+      hasDetectedToolCall: false,
+      toolCallsFullyAccumulated: false
+    };
+
+    this.streams = [stream, ...this.streams].slice(0, MAX_INSPECTED_STREAMS);
+    this.notify();
+
+    return {
+      recordLine: (line: string) => {
+        forwarded?.recordLine(line);
+        const t = Date.now() - startTime;
+
+        if (stream.rawLines.length < MAX_LINES_PER_STREAM) {
+          stream.rawLines.push({ t, line });
+        } else {
+          stream.truncated = true;
+        }
+        stream.timings.firstLineMs = stream.timings.firstLineMs ?? t;
+
+        try {
+          this.processLine(stream, processing, line, t);
+        } catch (error) {
+          console.warn('🔬 [StreamInspector] Failed to process line:', error);
+        }
+      },
+      finish: (error?: any) => {
+        forwarded?.finish(error);
+        const t = Date.now() - startTime;
+
+        stream.timings.totalMs = t;
+        stream.toolCalls = finalizeToolCallArguments(processing.pendingToolCalls, stream.provider || 'openai');
+        this.closeReasoningSegment(stream, t);
+        if (error) {
+          stream.status = error.name === 'AbortError' ? 'aborted' : 'error';
+          stream.error = error.message;
+        } else {
+          stream.status = 'completed';
+        }
+
+        this.notify();
+      }
+    };
+  }
+
+  /**
+   * Write streams to a JSON file for bug reports, returning its URI
+   */
+  async exportStreams(ids?: string[]): Promise<string> {
+    const streams = ids ? this.streams.filter(stream => ids.includes(stream.id)) : this.streams;
+    const uri = `${FileSystem.cacheDirectory}stream-inspector-${Date.now()}.json`;
+
+    await FileSystem.writeAsStringAsync(uri, JSON.stringify({
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      platform: Platform.OS,
+      streams
+    }, null, 2));
+
+    console.log(`🔬 [StreamInspector] Exported ${streams.length} stream(s) to ${uri}`);
+    return uri;
+  }
+
+  private processLine(stream: InspectedStream, processing: ProcessingState, line: string, t: number): void {
+    const { chunk } = parseSSELine(line);
+    if (!chunk) return;
+
+    const rawToolCalls: any[] = chunk.choices?.[0]?.delta?.tool_calls || [];
+    const result = processStreamDelta({
+      delta: chunk,
+      modelProvider: stream.provider || 'openai',
+      modelName: stream.model || 'unknown',
+      messageId: `inspect_${stream.id}`,
+      ...processing
+    });
+
+    processing.reasoningState = result.reasoningState;
+    processing.pendingToolCalls = result.pendingToolCalls;
+    processing.bufferingForToolCall = result.bufferingForToolCall;
+    processing.hasDetectedToolCall = result.hasDetectedToolCall;
+    processing.toolCallsFullyAccumulated = result.toolCallsFullyAccumulated;
+
+    const reasoning = result.reasoningDeltaContent || '';
+    if (reasoning) {
+      stream.timings.firstReasoningMs = stream.timings.firstReasoningMs ?? t;
+      const open = stream.reasoningSegments[stream.reasoningSegments.length - 1];
+      if (open && open.endT === undefined) {
+        open.content += reasoning;
+      } else {
+        stream.reasoningSegments.push({ startT: t, content: reasoning });
+      }
+    }
+
+    if (result.deltaContent) {
+      stream.timings.firstContentMs = stream.timings.firstContentMs ?? t;
+      stream.content += result.deltaContent;
+    }
+
+    // Reasoning ends once the answer or a tool call starts
+    if (result.deltaContent || rawToolCalls.length > 0) {
+      this.closeReasoningSegment(stream, t);
+    }
+
+    rawToolCalls.forEach((fragment, position) => {
+      const index = fragment.index ?? position;
+      stream.timings.firstToolCallMs = stream.timings.firstToolCallMs ?? t;
+      stream.toolCallSteps.push({
+        t,
+        index,
+        id: fragment.id,
+        name: fragment.function?.name,
+        argumentsDelta: fragment.function?.arguments || '',
+        argumentsLength: result.pendingToolCalls[index]?.function?.arguments?.length || 0
+      });
+    });
+
+    stream.deltas.push({
+      t,
+      content: result.deltaContent || undefined,
+      reasoning: reasoning || undefined,
+      toolCallIndexes: rawToolCalls.length > 0
+        ? rawToolCalls.map((fragment, position) => fragment.index ?? position)
+        : undefined,
+      finishReason: chunk.choices?.[0]?.finish_reason
+    });
+  }
+
+  private closeReasoningSegment(stream: InspectedStream, t: number): void {
+    const open = stream.reasoningSegments[stream.reasoningSegments.length - 1];
+    if (open && open.endT === undefined) {
+      open.endT = t;
+    }
+  }
+
+  private install(): void {
+    if (this.enabled) return;
+    this.forwardTo = ApiClient.getStreamRecorder();
+    ApiClient.setStreamRecorder(this);
+    this.enabled = true;
+    console.log('🔬 [StreamInspector] Recording streams');
+  }
+
+  private uninstall(): void {
+    if (!this.enabled) return;
+    // Only restore the previous recorder if nothing replaced us in the meantime
+    if (ApiClient.getStreamRecorder() === this) {
+      ApiClient.setStreamRecorder(this.forwardTo);
+    }
+    this.forwardTo = null;
+    this.enabled = false;
+    console.log('🔬 [StreamInspector] Stopped recording streams');
+  }
+
+  private notify(): void {
+    const streams = this.getStreams();
+    this.listeners.forEach(listener => listener(streams));
+  }
+}
+
+// Export singleton instance
+export const streamInspector = StreamInspector.getInstance();
+
+export default streamInspector;
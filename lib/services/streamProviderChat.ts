@@ -1,9 +1,8 @@
 import { ApiClient, ApiError } from '../apiClient';
 import { BackendProviderService } from './backendProviderService';
 import { ChatCompletionService } from './chatCompletionService';
-import { webSearchService } from './webSearchService';
-import { editImage } from './imageEditingService';
-import { imageGenerationService } from './imageGenerationService';
+import { ToolRegistry } from './toolRegistry';
+import { createDefaultToolRegistry } from './builtInTools';
 import { buildStructuredSystemPrompt } from './systemPromptBuilder';
 import { vectorStoreUtils } from './vectorStoreUtils';
 import {
@@ -17,7 +16,6 @@ import {
   ToolCall,
   ChatMessage,
   ContextData,
-  handleToolCalls,
   finalizeToolCallArguments,
   generateUUID,
   getProviderForModel,
@@ -26,6 +24,16 @@ import {
   ModelUtils
 } from './streamingUtils';
 import { supabase } from '../supabase';
+import { estimateTokens, estimateMessagesTokens } from '../utils/tokenEstimator';
+import {
+  StructuredOutputSchema,
+  extractJsonText,
+  parsePartialJson,
+  toResponseFormat
+} from '../utils/structuredOutput';
+import { formatSchemaError, validateAgainstSchema } from '../utils/jsonSchema';
+import { usageLedger } from './usageLedger';
+import { getFallbackModels } from '@/constants/Models';
 
 // Interfaces for streaming chat
 export interface StreamingChatParams {
@@ -44,6 +52,59 @@ export interface StreamingChatParams {
   response_format?: any;
   stream?: boolean;
   parallel_tool_calls?: boolean;
+  agentLoop?: AgentLoopOptions;
+  fallbackModels?: string[]; // Overrides the default fallback chain; [] disables fallback
+  structuredOutput?: StructuredOutputSchema; // Answer with JSON matching this schema
+}
+
+/**
+ * Agent loop mode: keep executing tools and re-prompting until the model stops calling tools
+ */
+export interface AgentLoopOptions {
+  maxSteps?: number; // Includes the initial response; the last step is forced to answer
+}
+
+export interface AgentStep {
+  index: number;
+  status: 'running' | 'completed' | 'error' | 'cancelled';
+  toolCalls: Array<{ id: string; name: string }>;
+  contentLength: number;
+  startedAt: number;
+  completedAt?: number;
+  error?: string;
+}
+
+/**
+ * A model that rejected the turn before the fallback model answered it
+ */
+export interface FallbackAttempt {
+  model: string;
+  provider: string;
+  status: number;
+  error: string;
+}
+
+/**
+ * Recorded in message metadata when a fallback model answered the turn
+ */
+export interface ModelFallback {
+  originalModel: string;
+  originalProvider: string;
+  model: string;
+  provider: string;
+  attempts: FallbackAttempt[];
+}
+
+/**
+ * Position of a stream that can be resumed after a network drop
+ */
+export interface StreamResumeCursor {
+  streamId: string;
+  sessionId?: string; // Backend session announced by the `connection` SSE event
+  messageId: string;
+  deltaOffset: number; // Backend index of the next chunk to apply, as reported by the stream
+  contentLength: number;
+  interruptedAt?: number;
 }
 
 export interface StreamingState {
@@ -58,6 +119,7 @@ export interface StreamingState {
   isCompleted: boolean;
   error: Error | null;
   metadata: any;
+  resumeCursor?: StreamResumeCursor;
 }
 
 export interface StreamingCallbacks {
@@ -66,10 +128,40 @@ export interface StreamingCallbacks {
   onError?: (error: Error) => void;
   onToolCall?: (toolCall: ToolCall) => void;
   onToolCallComplete?: (toolResult: any) => void;
+  onToolProgress?: (toolCall: ToolCall, progress: any) => void; // Partial output of a running tool
   onReasoningUpdate?: (reasoningContent: string) => void;
   onReasoningComplete?: (reasoningContent: string, duration?: number) => void;
+  onInterrupted?: (cursor: StreamResumeCursor, state: StreamingState) => void;
+  onStopped?: (state: StreamingState) => void; // Stopped by the user; state holds the partial answer
+  onAgentStep?: (step: AgentStep, steps: AgentStep[]) => void;
+  onFallback?: (fallback: ModelFallback) => void;
 }
 
+// Stream kept around after a network drop so it can be finished later
+interface InterruptedStream {
+  state: StreamingState;
+  params: any; // Prepared backend stream parameters
+  callbacks: StreamingCallbacks;
+  afterTools?: boolean; // Dropped while answering from tool results; the tools aren't run again
+}
+
+const DEFAULT_AGENT_MAX_STEPS = 5;
+
+const CONTINUATION_PROMPT =
+  'Your previous response was cut off by a network interruption. Continue exactly where it stopped, without repeating any text that was already written.';
+
+const STOPPED_CONTINUATION_PROMPT =
+  'Your previous response was stopped before it was finished. Continue exactly where it stopped, without repeating any text that was already written.';
+
+// Stored tool results are either the registry result or a plain error object
+const toToolResultContent = (result: any): string =>
+  typeof result?.content === 'string'
+    ? result.content
+    : JSON.stringify(result ?? { error: true, message: 'Stopped by user', cancelled: true });
+
+// Messages fetch uses when the connection itself failed (React Native, browsers, Safari)
+const NETWORK_FAILURE_PATTERN = /network request failed|failed to fetch|network ?error|load failed|internet connection|network connection/i;
+
 /**
  * StreamProviderChat - Handles streaming chat with tool integration for iOS
  */
@@ -77,83 +169,17 @@ export class StreamProviderChat {
   private backendService: BackendProviderService;
   private chatService: ChatCompletionService;
   private activeStreams: Map<string, AbortController> = new Map();
-  private toolRegistry: any = null; // Will be set via setToolRegistry
+  private interruptedStreams: Map<string, InterruptedStream> = new Map();
+  private interruptRequests: Set<string> = new Set();
+  private stopRequests: Set<string> = new Set();
+  private streamSessions: Map<string, string> = new Map(); // Backend session per stream, for cancellation
+  private toolRegistry: ToolRegistry;
 
   constructor() {
     this.backendService = new BackendProviderService();
     this.chatService = new ChatCompletionService();
     
-    // Initialize with built-in tools (web search and image generation)
-    // Create a proper tool registry interface that matches what handleToolCalls expects
-    this.toolRegistry = {
-      // Map of tool implementations
-      tools: {
-        web_search: {
-          id: 'web_search',
-          execute: async (args: any) => {
-            console.log(`🛠️ [StreamProviderChat] Executing web_search tool:`, args);
-            const webSearchService = await import('../services/webSearchService');
-            return await webSearchService.webSearchService.search(args);
-          }
-        },
-        image_gen: {
-          id: 'image_gen',
-          execute: async (args: any) => {
-            console.log(`🛠️ [StreamProviderChat] Executing image_gen tool:`, args);
-            const imageService = await import('../services/imageGenerationService');
-            return await imageService.ImageGenerationService.getInstance().generateImage(args);
-          }
-        },
-        generate_image: {
-          id: 'generate_image',
-          execute: async (args: any) => {
-            console.log(`🛠️ [StreamProviderChat] Executing generate_image tool:`, args);
-            const imageService = await import('../services/imageGenerationService');
-            return await imageService.ImageGenerationService.getInstance().generateImage(args);
-          }
-        },
-        image_edit: {
-          id: 'image_edit',
-          execute: async (args: any) => {
-            console.log(`🛠️ [StreamProviderChat] Executing image_edit tool:`, args);
-            const imageEditService = await import('../services/imageEditingService');
-            return await imageEditService.editImage(args);
-          }
-        }
-      },
-      
-      // Method to get a tool by name (required by handleToolCalls)
-      getTool: function(toolName: string) {
-        console.log(`🔍 [StreamProviderChat] getTool called for: ${toolName}`, {
-          availableTools: Object.keys(this.tools),
-          hasRequestedTool: !!this.tools[toolName]
-        });
-        return this.tools[toolName] || null;
-      },
-      
-      // Method to get tool statistics (useful for debugging)
-      getStats: function() {
-        return {
-          totalTools: Object.keys(this.tools).length,
-          availableTools: Object.keys(this.tools),
-          toolDetails: Object.entries(this.tools).map(([name, tool]: [string, any]) => ({
-            name,
-            id: tool.id,
-            hasExecute: typeof tool.execute === 'function'
-          }))
-        };
-      },
-      
-      // Legacy method for backward compatibility
-      executeTool: async function(toolName: string, args: any) {
-        console.log(`🛠️ [StreamProviderChat] Legacy executeTool called for: ${toolName}`, args);
-        const tool = this.tools[toolName];
-        if (tool && typeof tool.execute === 'function') {
-          return await tool.execute(args);
-        }
-        throw new Error(`Unknown tool: ${toolName}`);
-      }
-    };
+    this.toolRegistry = createDefaultToolRegistry();
     
     console.log('🌊 [StreamProviderChat] Initialized with built-in tool registry');
   }
@@ -161,17 +187,110 @@ export class StreamProviderChat {
   /**
    * Set tool registry for tool call execution
    */
-  setToolRegistry(toolRegistry: any): void {
+  setToolRegistry(toolRegistry: ToolRegistry): void {
     this.toolRegistry = toolRegistry;
   }
 
   /**
-   * Stream chat completion with full tool and reasoning support
+   * Get the tool registry used for tool call execution
+   */
+  getToolRegistry(): ToolRegistry {
+    return this.toolRegistry;
+  }
+
+  /**
+   * Stream chat completion with full tool and reasoning support. If the
+   * provider rejects the turn with a 429/5xx before anything streams, the
+   * same turn is retried down the model's fallback chain.
    */
   async streamChatCompletion(
     params: StreamingChatParams,
     callbacks: StreamingCallbacks = {},
     options: { signal?: AbortSignal } = {}
+  ): Promise<StreamingState> {
+    const fallbackModels = getFallbackModels(params.model, params.fallbackModels);
+    let attemptParams = params;
+    let fallback: ModelFallback | undefined;
+
+    for (let index = 0; ; index++) {
+      const nextModel = fallbackModels[index];
+      let receivedOutput = false;
+      let rejection = null as ApiError | null;
+
+      // Hold back retryable errors while there is still a model to fall back to
+      const attemptCallbacks: StreamingCallbacks = !nextModel ? callbacks : {
+        ...callbacks,
+        onUpdate: (content, state) => {
+          receivedOutput = true;
+          callbacks.onUpdate?.(content, state);
+        },
+        onReasoningUpdate: (reasoningContent) => {
+          receivedOutput = true;
+          callbacks.onReasoningUpdate?.(reasoningContent);
+        },
+        onToolCall: (toolCall) => {
+          receivedOutput = true;
+          callbacks.onToolCall?.(toolCall);
+        },
+        onError: (error) => {
+          if (!receivedOutput && !options.signal?.aborted && this.isFallbackEligible(error)) {
+            rejection = error as ApiError;
+            return;
+          }
+          callbacks.onError?.(error);
+        }
+      };
+
+      const state = await this.streamWithModel(attemptParams, attemptCallbacks, options, fallback);
+      if (!rejection || !nextModel) {
+        return state;
+      }
+
+      const provider = getProviderForModel(nextModel.model);
+      fallback = {
+        originalModel: params.model,
+        originalProvider: params.provider,
+        model: nextModel.model,
+        provider,
+        attempts: [
+          ...(fallback?.attempts || []),
+          {
+            model: attemptParams.model,
+            provider: attemptParams.provider,
+            status: rejection.status,
+            error: rejection.message
+          }
+        ]
+      };
+
+      console.warn(`🔀 [StreamProviderChat] ${attemptParams.model} failed with ${rejection.status}, falling back to ${nextModel.model}`);
+      callbacks.onFallback?.(fallback);
+
+      attemptParams = {
+        ...params,
+        provider,
+        model: nextModel.model,
+        max_tokens: params.max_tokens ? Math.min(params.max_tokens, nextModel.maxOutputTokens) : undefined
+      };
+    }
+  }
+
+  /**
+   * Rate limits and provider outages are worth retrying on another model;
+   * client errors and network drops are not
+   */
+  private isFallbackEligible(error: any): boolean {
+    return error instanceof ApiError && (error.status === 429 || error.isServerError);
+  }
+
+  /**
+   * Run a single streaming attempt against one model
+   */
+  private async streamWithModel(
+    params: StreamingChatParams,
+    callbacks: StreamingCallbacks,
+    options: { signal?: AbortSignal },
+    fallback?: ModelFallback
   ): Promise<StreamingState> {
     const streamId = generateUUID();
     const messageId = params.contextData?.messageId || generateUUID();
@@ -200,6 +319,7 @@ export class StreamProviderChat {
     // Initialize variables for vector store processing
     let retrievedFileIds: string[] = [];
     let updatedContextData = params.contextData || {};
+    let preparedParams: any = null;
 
     // Initialize streaming state
     const state: StreamingState = {
@@ -213,10 +333,24 @@ export class StreamProviderChat {
       toolCallsFullyAccumulated: false,
       isCompleted: false,
       error: null,
+      resumeCursor: {
+        streamId,
+        messageId,
+        deltaOffset: 0,
+        contentLength: 0
+      },
       metadata: {
         streamId,
         provider: params.provider,
         model: params.model,
+        fallback,
+        structuredOutputSchema: params.structuredOutput,
+        structuredOutput: params.structuredOutput ? {
+          name: params.structuredOutput.name,
+          status: 'streaming',
+          data: null,
+          errors: []
+        } : undefined,
         startTime: Date.now(),
         tokenCount: 0,
         originalMessages: params.messages, // Store original messages for follow-up stream
@@ -225,6 +359,11 @@ export class StreamProviderChat {
         retrievedFileIds: retrievedFileIds,
         temperature: params.temperature,
         maxTokens: params.max_tokens,
+        parallelToolCalls: params.parallel_tool_calls !== false,
+        agentLoop: params.agentLoop ? {
+          maxSteps: Math.max(2, params.agentLoop.maxSteps || DEFAULT_AGENT_MAX_STEPS),
+          tools: params.tools || []
+        } : undefined,
         reasoning: {
           isReasoningModel: isReasoningModel(params.model),
           startTime: null,
@@ -286,6 +425,18 @@ export class StreamProviderChat {
 
       // Get model capabilities
       const modelCapabilities = ModelUtils.getModelCapabilities(params.model);
+      const maxOutputTokens = params.max_tokens || Math.min(modelCapabilities.maxOutputTokens, 4096);
+
+      // Drop or compress the oldest turns so the history fits the model's context window
+      const toolTokens = estimateTokens(JSON.stringify(params.tools || []));
+      formattedMessages = this.backendService.formatMessageHistory(formattedMessages, undefined, {
+        model: params.model,
+        maxOutputTokens,
+        reservedTokens: toolTokens
+      });
+
+      // Fallback for the usage ledger when the provider doesn't report usage
+      state.metadata.estimatedPromptTokens = estimateMessagesTokens(formattedMessages) + toolTokens;
 
       // Prepare streaming parameters
       const streamParams: any = {
@@ -293,16 +444,17 @@ export class StreamProviderChat {
         model: params.model,
         messages: formattedMessages,
         temperature: params.temperature || 0.7,
-        max_tokens: params.max_tokens || Math.min(modelCapabilities.maxTokens, 4096),
+        max_tokens: maxOutputTokens,
         top_p: params.top_p || 1,
         frequency_penalty: params.frequency_penalty || 0,
         presence_penalty: params.presence_penalty || 0,
         stream: params.stream !== false, // Default to true
         parallel_tool_calls: params.parallel_tool_calls !== false, // Default to true
       };
+      preparedParams = streamParams;
 
       // Add tools if provided and supported
-      if (params.tools?.length && modelCapabilities.supportsTools) {
+      if (params.tools?.length && modelCapabilities.tools) {
         streamParams.tools = params.tools;
         if (params.tool_choice) {
           streamParams.tool_choice = params.tool_choice;
@@ -312,6 +464,8 @@ export class StreamProviderChat {
       // Add response format if provided
       if (params.response_format) {
         streamParams.response_format = params.response_format;
+      } else if (params.structuredOutput) {
+        streamParams.response_format = toResponseFormat(params.structuredOutput);
       }
 
       // Add contextData to match web app format (use updated context with retrieval results)
@@ -330,8 +484,8 @@ export class StreamProviderChat {
         messageCount: streamParams.messages.length,
         hasTools: !!streamParams.tools,
         maxTokens: streamParams.max_tokens,
-        supportsTools: modelCapabilities.supportsTools,
-        supportsVision: modelCapabilities.supportsVision
+        supportsTools: modelCapabilities.tools,
+        supportsVision: modelCapabilities.vision
       });
 
       // Start the stream using BackendProviderService
@@ -339,206 +493,624 @@ export class StreamProviderChat {
       
       await BackendProviderService.streamChatCompletion(
         streamParams,
-        (chunk: string) => {
-          // Parse the JSON chunk data from ApiClient
-          let parsedChunk: any;
-          try {
-            parsedChunk = JSON.parse(chunk);
-          } catch (error) {
-            console.warn('🔄 [StreamProviderChat] Failed to parse chunk JSON, treating as text:', error);
-            parsedChunk = { content: chunk };
+        (chunk: string, chunkIndex?: number) => this.handleStreamChunk(chunk, state, streamParams, callbacks, chunkIndex),
+        (finalContent: string) => this.handleStreamComplete(finalContent, state, callbacks),
+        (error: any) => {
+          console.error('❌ [StreamProviderChat] Stream error:', error);
+          state.error = error;
+          // Stops and interruptions are settled once, when the stream promise rejects
+          if (!this.stopRequests.has(streamId) && !this.shouldTreatAsInterruption(error, streamId)) {
+            callbacks.onError?.(error);
+          }
+        },
+        abortController.signal,
+        (sessionId: string) => {
+          this.streamSessions.set(streamId, sessionId);
+          if (state.resumeCursor) {
+            state.resumeCursor.sessionId = sessionId;
           }
+        }
+      );
 
-          // console.log(`🔍 [StreamProviderChat] Parsed chunk:`, {
-          //   hasChoices: !!parsedChunk.choices,
-          //   hasContent: !!parsedChunk.choices?.[0]?.delta?.content,
-          //   hasToolCalls: !!parsedChunk.choices?.[0]?.delta?.tool_calls,
-          //   toolCallsCount: parsedChunk.choices?.[0]?.delta?.tool_calls?.length || 0,
-          //   finishReason: parsedChunk.choices?.[0]?.finish_reason,
-          //   contentPreview: parsedChunk.choices?.[0]?.delta?.content?.substring(0, 30)
-          // });
-
-          // Process each chunk through delta processing with the correct format
-          const deltaResult = processStreamDelta({
-            delta: parsedChunk, // Pass the parsed chunk with proper structure
-            modelProvider: finalProvider,
-            modelName: params.model,
-            messageId: state.messageId,
-            reasoningState: state.reasoningState,
-            pendingToolCalls: state.pendingToolCalls,
-            bufferingForToolCall: state.bufferingForToolCall,
-            hasDetectedToolCall: state.hasDetectedToolCall,
-            toolCallsFullyAccumulated: state.toolCallsFullyAccumulated,
-            toolChoice: params.tool_choice,
-            contextData: state.metadata.contextData
-          });
+      if (this.stopRequests.has(streamId)) {
+        this.markStopped(state, callbacks);
+      } else if (this.interruptRequests.has(streamId)) {
+        this.markInterrupted(state, streamParams, callbacks);
+      } else if (!state.isCompleted) {
+        // If we reach here without completion, mark as completed
+        console.log('🔄 [StreamProviderChat] Stream not marked complete, finalizing...');
+        state.isCompleted = true;
+        await this.finalizeStream(state, callbacks);
+      }
 
-          // console.log(`🔍 [StreamProviderChat] Delta processing result:`, {
-          //   hasDeltaContent: !!deltaResult.deltaContent,
-          //   deltaContentLength: deltaResult.deltaContent?.length || 0,
-          //   hasReasoningContent: !!deltaResult.reasoningDeltaContent,
-          //   reasoningContentLength: deltaResult.reasoningDeltaContent?.length || 0,
-          //   hasToolCalls: deltaResult.hasDetectedToolCall,
-          //   toolCallsCount: deltaResult.pendingToolCalls.length,
-          //   streamCompleted: deltaResult.streamCompleted,
-          //   toolCallsFullyAccumulated: deltaResult.toolCallsFullyAccumulated,
-          //   bufferingForToolCall: deltaResult.bufferingForToolCall,
-          //   finishReason: parsedChunk.choices?.[0]?.finish_reason,
-          //   toolCallIds: deltaResult.pendingToolCalls.map(tc => tc.id),
-          //   toolCallNames: deltaResult.pendingToolCalls.map(tc => tc.function?.name),
-          //   toolCallArgsLengths: deltaResult.pendingToolCalls.map(tc => tc.function?.arguments?.length || 0)
-          // });
-
-          // Update state from processing result
-          state.reasoningState = deltaResult.reasoningState;
-          state.pendingToolCalls = deltaResult.pendingToolCalls;
-          state.bufferingForToolCall = deltaResult.bufferingForToolCall;
-          state.hasDetectedToolCall = deltaResult.hasDetectedToolCall;
-          state.toolCallsFullyAccumulated = deltaResult.toolCallsFullyAccumulated;
-
-          // Handle reasoning content
-          if (deltaResult.reasoningDeltaContent) {
-            console.log(`🧠 [StreamProviderChat] Reasoning update: ${deltaResult.reasoningDeltaContent.length} chars`);
-            callbacks.onReasoningUpdate?.(deltaResult.reasoningDeltaContent);
-          }
+    } catch (error: any) {
+      if (this.stopRequests.has(streamId)) {
+        this.markStopped(state, callbacks);
+      } else if (preparedParams && this.shouldTreatAsInterruption(error, streamId)) {
+        this.markInterrupted(state, preparedParams, callbacks);
+      } else {
+        console.error('❌ [StreamProviderChat] Stream error:', error);
+        state.error = error;
+        state.isCompleted = true;
+        callbacks.onError?.(error);
+      }
+    } finally {
+      // Cleanup
+      this.activeStreams.delete(streamId);
+      this.interruptRequests.delete(streamId);
+      this.stopRequests.delete(streamId);
+      this.streamSessions.delete(streamId);
+      console.log('🧹 [StreamProviderChat] Stream cleanup completed:', streamId);
+    }
 
-          // Handle regular content
-          if (deltaResult.deltaContent) {
-            const beforeLength = state.content.length;
-            state.content += deltaResult.deltaContent;
-            state.metadata.tokenCount = (state.metadata.tokenCount || 0) + 1;
-
-            // console.log(`📝 [StreamProviderChat] Content update:`, {
-            //   deltaLength: deltaResult.deltaContent.length,
-            //   beforeLength,
-            //   afterLength: state.content.length,
-            //   preview: deltaResult.deltaContent.substring(0, 30)
-            // });
-
-            callbacks.onUpdate?.(state.content, state);
-          } else {
-            console.log(`⚠️ [StreamProviderChat] No delta content in chunk`);
-          }
+    return state;
+  }
 
-          // Handle tool calls
-          if (deltaResult.hasDetectedToolCall && deltaResult.pendingToolCalls.length > 0) {
-            console.log(`🛠️ [StreamProviderChat] Tool calls detected:`, {
-              toolCallCount: deltaResult.pendingToolCalls.length,
-              toolNames: deltaResult.pendingToolCalls.map(tc => tc.function?.name),
-              streamCompleted: deltaResult.streamCompleted,
-              toolCallsFullyAccumulated: deltaResult.toolCallsFullyAccumulated
-            });
-            for (const toolCall of deltaResult.pendingToolCalls) {
-              callbacks.onToolCall?.(toolCall);
-            }
-          }
+  /**
+   * Apply a single backend chunk to the streaming state
+   */
+  private handleStreamChunk(
+    chunk: string,
+    state: StreamingState,
+    streamParams: any,
+    callbacks: StreamingCallbacks,
+    chunkIndex?: number
+  ): void {
+    // Parse the JSON chunk data from ApiClient
+    let parsedChunk: any;
+    try {
+      parsedChunk = JSON.parse(chunk);
+    } catch (error) {
+      console.warn('🔄 [StreamProviderChat] Failed to parse chunk JSON, treating as text:', error);
+      parsedChunk = { content: chunk };
+    }
 
-          // Check if we should finalize due to tool calls completion
-          if (deltaResult.streamCompleted || 
-              (deltaResult.hasDetectedToolCall && 
-               deltaResult.toolCallsFullyAccumulated && 
-               deltaResult.pendingToolCalls.length > 0)) {
-            console.log('🏁 [StreamProviderChat] Stream finalization triggered by tool calls:', {
-              streamCompleted: deltaResult.streamCompleted,
-              hasDetectedToolCall: deltaResult.hasDetectedToolCall,
-              toolCallsFullyAccumulated: deltaResult.toolCallsFullyAccumulated,
-              pendingToolCallsCount: deltaResult.pendingToolCalls.length,
-              toolCallIds: deltaResult.pendingToolCalls.map(tc => tc.id),
-              toolCallNames: deltaResult.pendingToolCalls.map(tc => tc.function?.name)
-            });
-            // Don't call finalize here - let the onComplete callback handle it
-          }
-        },
-        (finalContent: string) => {
-          console.log('✅ [StreamProviderChat] Stream completed:', {
-            messageId: state.messageId,
-            finalContentLength: finalContent.length,
-            stateContentLength: state.content.length,
-            toolCallsCount: state.pendingToolCalls.length,
-            finalPreview: finalContent.substring(0, 100),
-            statePreview: state.content.substring(0, 100)
-          });
+    // Providers that report usage send it on the last chunk
+    if (parsedChunk?.usage) {
+      state.metadata.usage = parsedChunk.usage;
+    }
 
-          // Finalize reasoning if needed
-          if (state.reasoningState.reasoningContent) {
-            const reasoningDuration = state.reasoningState.reasoningStartTime 
-              ? Date.now() - state.reasoningState.reasoningStartTime 
-              : undefined;
-            
-            console.log('🧠 [StreamProviderChat] Finalizing reasoning:', {
-              reasoningLength: state.reasoningState.reasoningContent.length,
-              duration: reasoningDuration
-            });
-            
-            callbacks.onReasoningComplete?.(state.reasoningState.reasoningContent, reasoningDuration);
-            
-            // Update state with reasoning info
-            state.reasoningState = {
-              ...state.reasoningState,
-              reasoningDuration
-            };
-          }
+    // Process each chunk through delta processing with the correct format
+    const deltaResult = processStreamDelta({
+      delta: parsedChunk, // Pass the parsed chunk with proper structure
+      modelProvider: streamParams.provider,
+      modelName: streamParams.model,
+      messageId: state.messageId,
+      reasoningState: state.reasoningState,
+      pendingToolCalls: state.pendingToolCalls,
+      bufferingForToolCall: state.bufferingForToolCall,
+      hasDetectedToolCall: state.hasDetectedToolCall,
+      toolCallsFullyAccumulated: state.toolCallsFullyAccumulated,
+      toolChoice: streamParams.tool_choice,
+      contextData: state.metadata.contextData
+    });
 
-          // Use the accumulated content from state, not the finalContent parameter
-          // This ensures we have all the processed delta content
-          const actualContent = state.content || finalContent;
-          
-          console.log('📤 [StreamProviderChat] Calling onComplete with:', {
-            actualContentLength: actualContent.length,
-            toolCallsCount: state.pendingToolCalls.length,
-            hasToolCalls: state.pendingToolCalls.length > 0,
-            preview: actualContent.substring(0, 100),
-            toolCallDetails: state.pendingToolCalls.map(tc => ({
-              id: tc.id,
-              name: tc.function?.name,
-              argsLength: tc.function?.arguments?.length || 0,
-              argsPreview: tc.function?.arguments?.substring(0, 50) || ''
-            }))
-          });
+    // Update state from processing result
+    state.reasoningState = deltaResult.reasoningState;
+    state.pendingToolCalls = deltaResult.pendingToolCalls;
+    state.bufferingForToolCall = deltaResult.bufferingForToolCall;
+    state.hasDetectedToolCall = deltaResult.hasDetectedToolCall;
+    state.toolCallsFullyAccumulated = deltaResult.toolCallsFullyAccumulated;
+
+    // Handle reasoning content
+    if (deltaResult.reasoningDeltaContent) {
+      console.log(`🧠 [StreamProviderChat] Reasoning update: ${deltaResult.reasoningDeltaContent.length} chars`);
+      callbacks.onReasoningUpdate?.(deltaResult.reasoningDeltaContent);
+    }
 
-          state.content = actualContent;
-          state.isCompleted = true;
-          
-          // If we have tool calls, finalize them before calling onComplete
-          if (state.pendingToolCalls.length > 0) {
-            console.log('🛠️ [StreamProviderChat] Tool calls detected in completion, finalizing...');
-            // Don't call onComplete yet - let finalizeStream handle it
-            this.finalizeStream(state, callbacks);
-          } else {
-            // Only call onComplete if not already called
-            if (!state.metadata.completionCallbackCalled) {
-              state.metadata.completionCallbackCalled = true;
-          callbacks.onComplete?.(actualContent, state);
-            }
+    // Handle regular content
+    if (deltaResult.deltaContent) {
+      state.content += deltaResult.deltaContent;
+      state.metadata.tokenCount = (state.metadata.tokenCount || 0) + 1;
+
+      if (state.metadata.structuredOutputSchema) {
+        this.updateStructuredOutput(state);
+      }
+    }
+
+    // Advance the resume cursor before notifying so listeners see a consistent position
+    if (state.resumeCursor) {
+      state.resumeCursor.deltaOffset = chunkIndex !== undefined
+        ? chunkIndex + 1
+        : state.resumeCursor.deltaOffset + 1;
+      state.resumeCursor.contentLength = state.content.length;
+    }
+
+    if (deltaResult.deltaContent) {
+      callbacks.onUpdate?.(state.content, state);
+    } else {
+      console.log(`⚠️ [StreamProviderChat] No delta content in chunk`);
+    }
+
+    // Handle tool calls
+    if (deltaResult.hasDetectedToolCall && deltaResult.pendingToolCalls.length > 0) {
+      console.log(`🛠️ [StreamProviderChat] Tool calls detected:`, {
+        toolCallCount: deltaResult.pendingToolCalls.length,
+        toolNames: deltaResult.pendingToolCalls.map(tc => tc.function?.name),
+        streamCompleted: deltaResult.streamCompleted,
+        toolCallsFullyAccumulated: deltaResult.toolCallsFullyAccumulated
+      });
+      for (const toolCall of deltaResult.pendingToolCalls) {
+        callbacks.onToolCall?.(toolCall);
+      }
+    }
+
+    // Check if we should finalize due to tool calls completion
+    if (deltaResult.streamCompleted || 
+        (deltaResult.hasDetectedToolCall && 
+         deltaResult.toolCallsFullyAccumulated && 
+         deltaResult.pendingToolCalls.length > 0)) {
+      console.log('🏁 [StreamProviderChat] Stream finalization triggered by tool calls:', {
+        streamCompleted: deltaResult.streamCompleted,
+        hasDetectedToolCall: deltaResult.hasDetectedToolCall,
+        toolCallsFullyAccumulated: deltaResult.toolCallsFullyAccumulated,
+        pendingToolCallsCount: deltaResult.pendingToolCalls.length,
+        toolCallIds: deltaResult.pendingToolCalls.map(tc => tc.id),
+        toolCallNames: deltaResult.pendingToolCalls.map(tc => tc.function?.name)
+      });
+      // Don't call finalize here - let the onComplete callback handle it
+    }
+  }
+
+  /**
+   * Handle the backend completion signal for a stream
+   */
+  private handleStreamComplete(
+    finalContent: string,
+    state: StreamingState,
+    callbacks: StreamingCallbacks
+  ): void {
+    // A requested interruption or stop aborts the reader, which the API client reports as completion
+    if (this.interruptRequests.has(state.metadata.streamId) || this.stopRequests.has(state.metadata.streamId)) {
+      console.log('⏸️ [StreamProviderChat] Ignoring completion of interrupted stream:', state.metadata.streamId);
+      return;
+    }
+
+    console.log('✅ [StreamProviderChat] Stream completed:', {
+      messageId: state.messageId,
+      finalContentLength: finalContent.length,
+      stateContentLength: state.content.length,
+      toolCallsCount: state.pendingToolCalls.length,
+      finalPreview: finalContent.substring(0, 100),
+      statePreview: state.content.substring(0, 100)
+    });
+
+    // Finalize reasoning if needed
+    if (state.reasoningState.reasoningContent) {
+      const reasoningDuration = state.reasoningState.reasoningStartTime 
+        ? Date.now() - state.reasoningState.reasoningStartTime 
+        : undefined;
+      
+      console.log('🧠 [StreamProviderChat] Finalizing reasoning:', {
+        reasoningLength: state.reasoningState.reasoningContent.length,
+        duration: reasoningDuration
+      });
+      
+      callbacks.onReasoningComplete?.(state.reasoningState.reasoningContent, reasoningDuration);
+      
+      // Update state with reasoning info
+      state.reasoningState = {
+        ...state.reasoningState,
+        reasoningDuration
+      };
+    }
+
+    // Use the accumulated content from state, not the finalContent parameter
+    // This ensures we have all the processed delta content
+    const actualContent = state.content || finalContent;
+    
+    console.log('📤 [StreamProviderChat] Calling onComplete with:', {
+      actualContentLength: actualContent.length,
+      toolCallsCount: state.pendingToolCalls.length,
+      hasToolCalls: state.pendingToolCalls.length > 0,
+      preview: actualContent.substring(0, 100),
+      toolCallDetails: state.pendingToolCalls.map(tc => ({
+        id: tc.id,
+        name: tc.function?.name,
+        argsLength: tc.function?.arguments?.length || 0,
+        argsPreview: tc.function?.arguments?.substring(0, 50) || ''
+      }))
+    });
+
+    state.content = actualContent;
+    state.isCompleted = true;
+    this.recordStreamUsage(state);
+    
+    // If we have tool calls, finalize them before calling onComplete.
+    // A resumed tool-turn answer already has its tool results.
+    if (state.pendingToolCalls.length > 0 && !state.metadata.toolResults) {
+      console.log('🛠️ [StreamProviderChat] Tool calls detected in completion, finalizing...');
+      // Don't call onComplete yet - let finalizeStream handle it
+      this.finalizeStream(state, callbacks);
+    } else {
+      // A resumed agent answer finishes the step it was interrupted in
+      for (const step of (state.metadata.agentSteps || []) as AgentStep[]) {
+        if (step.status === 'running') {
+          step.status = 'completed';
+          step.completedAt = Date.now();
+        }
+      }
+
+      // Only call onComplete if not already called
+      const complete = () => {
+        if (!state.metadata.completionCallbackCalled) {
+          state.metadata.completionCallbackCalled = true;
+          callbacks.onComplete?.(state.content, state);
+        }
+      };
+
+      if (state.metadata.structuredOutputSchema) {
+        // Validate (and repair if needed) the JSON before the message is saved
+        this.finalizeStructuredOutput(state).finally(complete);
+      } else {
+        complete();
+      }
+    }
+  }
+
+  /**
+   * Re-parse structured output as it streams so the data card can fill in
+   */
+  private updateStructuredOutput(state: StreamingState): void {
+    const spec: StructuredOutputSchema = state.metadata.structuredOutputSchema;
+    const parsed = parsePartialJson(state.content);
+    if (!parsed) return;
+
+    state.metadata.structuredOutput = {
+      name: spec.name,
+      status: 'streaming',
+      data: parsed.value,
+      errors: parsed.complete ? this.validateStructuredOutput(parsed.value, spec) : []
+    };
+  }
+
+  /**
+   * Schema errors as readable lines for the data card and the repair prompt
+   */
+  private validateStructuredOutput(value: any, spec: StructuredOutputSchema): string[] {
+    return validateAgainstSchema(value, spec.schema).map(formatSchemaError);
+  }
+
+  /**
+   * Validate the final structured output, with one repair pass when the
+   * model returned invalid JSON
+   */
+  private async finalizeStructuredOutput(state: StreamingState): Promise<void> {
+    const spec: StructuredOutputSchema = state.metadata.structuredOutputSchema;
+    const parsed = parsePartialJson(state.content);
+    const errors = parsed?.complete
+      ? this.validateStructuredOutput(parsed.value, spec)
+      : ['Response is not valid JSON'];
+
+    if (errors.length === 0) {
+      state.metadata.structuredOutput = { name: spec.name, status: 'valid', data: parsed!.value, errors };
+      return;
+    }
+
+    if (state.content.trim()) {
+      console.warn('🧩 [StreamProviderChat] Structured output invalid, attempting repair:', errors.slice(0, 5));
+
+      try {
+        const repaired = await this.chatService.repairStructuredOutput(state.content, spec.schema, errors.slice(0, 20));
+        const value = JSON.parse(extractJsonText(repaired));
+        const remainingErrors = this.validateStructuredOutput(value, spec);
+
+        state.content = JSON.stringify(value, null, 2);
+        state.metadata.structuredOutput = {
+          name: spec.name,
+          status: remainingErrors.length === 0 ? 'repaired' : 'invalid',
+          data: value,
+          errors: remainingErrors
+        };
+        return;
+      } catch (error) {
+        console.error('❌ [StreamProviderChat] Structured output repair failed:', error);
+      }
+    }
+
+    state.metadata.structuredOutput = {
+      name: spec.name,
+      status: 'invalid',
+      data: parsed?.value ?? null,
+      errors
+    };
+  }
+
+  /**
+   * Whether a stream failure is a connectivity drop rather than a provider error
+   */
+  private isNetworkInterruption(error: any): boolean {
+    // Status 0 also wraps exceptions thrown while applying chunks, so judge the wrapped error
+    if (error instanceof ApiError) {
+      if (!error.isNetworkError) return false;
+      return error.data?.originalError
+        ? this.isNetworkInterruption(error.data.originalError)
+        : NETWORK_FAILURE_PATTERN.test(error.message);
+    }
+    return error instanceof TypeError && NETWORK_FAILURE_PATTERN.test(error.message);
+  }
+
+  private shouldTreatAsInterruption(error: any, streamId: string): boolean {
+    // Decided before looking at the error: the backend service wraps the abort in an ApiError
+    if (this.interruptRequests.has(streamId)) {
+      return true;
+    }
+    if (error?.name === 'AbortError') {
+      return false;
+    }
+    return this.isNetworkInterruption(error);
+  }
+
+  /**
+   * Park a stream so it can be resumed when connectivity returns
+   */
+  private markInterrupted(
+    state: StreamingState,
+    params: any,
+    callbacks: StreamingCallbacks,
+    afterTools = false
+  ): void {
+    const cursor: StreamResumeCursor = {
+      streamId: state.metadata.streamId,
+      messageId: state.messageId,
+      ...state.resumeCursor,
+      deltaOffset: state.resumeCursor?.deltaOffset || 0,
+      contentLength: state.content.length,
+      interruptedAt: Date.now()
+    };
+
+    state.resumeCursor = cursor;
+    state.error = null;
+    state.isCompleted = false;
+    state.metadata.interrupted = true;
+    this.interruptedStreams.set(state.messageId, { state, params, callbacks, afterTools });
+
+    console.log('⏸️ [StreamProviderChat] Stream interrupted, resume cursor saved:', cursor);
+    callbacks.onInterrupted?.(cursor, state);
+  }
+
+  /**
+   * Settle a stream the user stopped, handing the partial answer to the caller
+   */
+  private markStopped(state: StreamingState, callbacks: StreamingCallbacks): void {
+    // Already settled, e.g. the stop landed just after the answer finished
+    if (state.metadata.completionCallbackCalled) {
+      return;
+    }
+    state.metadata.completionCallbackCalled = true;
+    state.error = null;
+    state.isCompleted = true;
+    state.metadata.stopped = true;
+    state.metadata.endTime = Date.now();
+    state.metadata.duration = state.metadata.endTime - state.metadata.startTime;
+    this.recordStreamUsage(state);
+
+    console.log('🛑 [StreamProviderChat] Stream stopped by user:', {
+      messageId: state.messageId,
+      contentLength: state.content.length,
+      toolCallCount: state.pendingToolCalls.length
+    });
+    callbacks.onStopped?.(state);
+  }
+
+  /**
+   * Build the "continue from here" request used when the backend session is gone
+   */
+  private buildContinuationParams(params: any, state: StreamingState): any {
+    return {
+      ...params,
+      messages: [
+        ...params.messages,
+        { role: 'assistant', content: state.content || ' ' },
+        { role: 'user', content: CONTINUATION_PROMPT }
+      ]
+    };
+  }
+
+  /**
+   * Resume an interrupted stream, finishing the same message.
+   * Reattaches to the backend session when possible, otherwise asks the model to continue
+   * from the partial content.
+   */
+  async resumeStream(
+    messageId: string,
+    callbacks?: StreamingCallbacks,
+    options: { signal?: AbortSignal } = {}
+  ): Promise<StreamingState | null> {
+    const interrupted = this.interruptedStreams.get(messageId);
+    if (!interrupted) {
+      return null;
+    }
+    this.interruptedStreams.delete(messageId);
+
+    const { state, params, afterTools } = interrupted;
+    const activeCallbacks = callbacks || interrupted.callbacks;
+    const cursor = state.resumeCursor as StreamResumeCursor;
+    const streamId = cursor.streamId;
+
+    const abortController = new AbortController();
+    this.activeStreams.set(streamId, abortController);
+    if (cursor.sessionId) {
+      this.streamSessions.set(streamId, cursor.sessionId);
+    }
+
+    // The caller aborting means the user stopped the resumed answer
+    const handleCallerAbort = () => this.stopStream(streamId);
+    if (options.signal?.aborted) {
+      handleCallerAbort();
+    } else {
+      options.signal?.addEventListener('abort', handleCallerAbort);
+    }
+
+    state.metadata.interrupted = false;
+    state.metadata.resumeCount = (state.metadata.resumeCount || 0) + 1;
+
+    const onChunk = (chunk: string, chunkIndex?: number) =>
+      this.handleStreamChunk(chunk, state, params, activeCallbacks, chunkIndex);
+    const onComplete = (finalContent: string) => this.handleStreamComplete(finalContent, state, activeCallbacks);
+
+    console.log('▶️ [StreamProviderChat] Resuming stream:', cursor);
+
+    try {
+      let reattached = false;
+
+      if (cursor.sessionId) {
+        try {
+          await BackendProviderService.resumeChatStream(
+            cursor.sessionId,
+            cursor.deltaOffset,
+            onChunk,
+            onComplete,
+            undefined,
+            abortController.signal
+          );
+          reattached = true;
+          state.metadata.resumedVia = 'reattach';
+        } catch (error) {
+          // An expired or unknown session is a client error; anything else is retried later
+          if (!(error instanceof ApiError && error.isClientError)) {
+            throw error;
           }
-        },
-        (error: any) => {
-          console.error('❌ [StreamProviderChat] Stream error:', error);
-          state.error = error;
-          callbacks.onError?.(error);
-        },
-        options?.signal
-      );
+          console.warn('⚠️ [StreamProviderChat] Stream session no longer available, continuing from partial content');
+        }
+      }
 
-      // If we reach here without completion, mark as completed
-      if (!state.isCompleted) {
-        console.log('🔄 [StreamProviderChat] Stream not marked complete, finalizing...');
+      if (!reattached) {
+        // The continuation is a fresh backend session, so its offsets start over
+        cursor.sessionId = undefined;
+        cursor.deltaOffset = 0;
+        if (!afterTools) {
+          state.pendingToolCalls = [];
+        }
+        state.hasDetectedToolCall = false;
+        state.bufferingForToolCall = false;
+        state.toolCallsFullyAccumulated = false;
+        state.metadata.resumedVia = 'continuation';
+
+        await BackendProviderService.streamChatCompletion(
+          this.buildContinuationParams(params, state),
+          onChunk,
+          onComplete,
+          undefined,
+          abortController.signal,
+          (sessionId: string) => {
+            cursor.sessionId = sessionId;
+            this.streamSessions.set(streamId, sessionId);
+          }
+        );
+      }
+
+      if (this.stopRequests.has(streamId)) {
+        this.markStopped(state, activeCallbacks);
+      } else if (this.interruptRequests.has(streamId)) {
+        this.markInterrupted(state, params, activeCallbacks, afterTools);
+      } else if (!state.isCompleted) {
         state.isCompleted = true;
-        await this.finalizeStream(state, callbacks);
+        await this.finalizeStream(state, activeCallbacks);
       }
+    } catch (error: any) {
+      if (this.stopRequests.has(streamId)) {
+        this.markStopped(state, activeCallbacks);
+      } else if (this.shouldTreatAsInterruption(error, streamId)) {
+        this.markInterrupted(state, params, activeCallbacks, afterTools);
+      } else {
+        console.error('❌ [StreamProviderChat] Resumed stream error:', error);
+        state.error = error;
+        state.isCompleted = true;
+        activeCallbacks.onError?.(error);
+      }
+    } finally {
+      options.signal?.removeEventListener('abort', handleCallerAbort);
+      this.activeStreams.delete(streamId);
+      this.interruptRequests.delete(streamId);
+      this.stopRequests.delete(streamId);
+      this.streamSessions.delete(streamId);
+    }
+
+    return state;
+  }
+
+  /**
+   * Continue an answer the user stopped. The model is given the partial answer,
+   * the tool calls it made with their results (cancelled ones included) and is
+   * asked to carry on; callbacks see the partial answer plus the new text.
+   */
+  async continueStoppedMessage(
+    params: StreamingChatParams,
+    stopped: { content: string; toolCalls?: ToolCall[] },
+    callbacks: StreamingCallbacks = {},
+    options: { signal?: AbortSignal } = {}
+  ): Promise<StreamingState> {
+    const partialContent = stopped.content;
+    const stoppedToolCalls = stopped.toolCalls || [];
+    const withPartial = (state: StreamingState): StreamingState => ({
+      ...state,
+      content: partialContent + state.content
+    });
+
+    return this.streamChatCompletion(
+      {
+        ...params,
+        messages: [
+          ...params.messages,
+          {
+            role: 'assistant' as const,
+            content: partialContent || ' ',
+            ...(stoppedToolCalls.length > 0 && {
+              tool_calls: stoppedToolCalls.map(toolCall => ({
+                id: toolCall.id,
+                type: 'function',
+                function: toolCall.function
+              }))
+            })
+          },
+          ...stoppedToolCalls.map(toolCall => ({
+            role: 'tool' as const,
+            tool_call_id: toolCall.id,
+            name: toolCall.function?.name,
+            content: toToolResultContent(toolCall.result)
+          })),
+          { role: 'user' as const, content: STOPPED_CONTINUATION_PROMPT }
+        ]
+      },
+      {
+        ...callbacks,
+        onUpdate: (content, state) => callbacks.onUpdate?.(partialContent + content, withPartial(state)),
+        onComplete: (finalContent, state) => callbacks.onComplete?.(partialContent + finalContent, withPartial(state)),
+        onInterrupted: (cursor, state) => callbacks.onInterrupted?.(cursor, withPartial(state)),
+        onStopped: (state) => callbacks.onStopped?.(withPartial(state))
+      },
+      options
+    );
+  }
 
-    } catch (error: any) {
-      console.error('❌ [StreamProviderChat] Stream error:', error);
-      state.error = error;
-      state.isCompleted = true;
-      callbacks.onError?.(error);
-    } finally {
-      // Cleanup
-      this.activeStreams.delete(streamId);
-      console.log('🧹 [StreamProviderChat] Stream cleanup completed:', streamId);
+  /**
+   * Stop an active stream because connectivity was lost, keeping it resumable
+   */
+  interruptStream(streamId: string): boolean {
+    const controller = this.activeStreams.get(streamId);
+    if (!controller) {
+      return false;
     }
 
-    return state;
+    this.interruptRequests.add(streamId);
+    controller.abort();
+    console.log('⏸️ [StreamProviderChat] Stream interrupt requested:', streamId);
+    return true;
+  }
+
+  /**
+   * Message IDs of streams waiting to be resumed
+   */
+  getInterruptedMessageIds(): string[] {
+    return Array.from(this.interruptedStreams.keys());
+  }
+
+  /**
+   * Drop an interrupted stream without resuming it
+   */
+  discardInterruptedStream(messageId: string): boolean {
+    return this.interruptedStreams.delete(messageId);
   }
 
   /**
@@ -607,17 +1179,17 @@ export class StreamProviderChat {
           }))
         });
 
-        // Execute tool calls if tool registry is available
+        const parked = await this.executeToolCalls(state, callbacks);
 
+        // Stopped while tools or the follow-up were running
+        if (state.metadata.stopped) {
+          this.markStopped(state, callbacks);
+          return;
+        }
 
-        if (this.toolRegistry) {
-          if (typeof this.toolRegistry.getTool === 'function') {
-            await this.executeToolCalls(state, callbacks);
-          } else {
-            console.error('❌ [StreamProviderChat] Tool registry missing getTool method');
-          }
-        } else {
-          console.warn('⚠️ [StreamProviderChat] Tool registry not set, skipping tool execution');
+        // The answer after the tools was interrupted and waits to be resumed
+        if (parked) {
+          return;
         }
       }
 
@@ -647,110 +1219,18 @@ export class StreamProviderChat {
   }
 
   /**
-   * Execute tool calls with built-in handlers for web search and image generation
+   * Execute tool calls with built-in handlers for web search and image generation.
+   * Resolves true when the answer after the tools was interrupted and parked for resuming.
    */
   private async executeToolCalls(
     state: StreamingState,
     callbacks: StreamingCallbacks
-  ): Promise<void> {
+  ): Promise<boolean> {
     if (state.pendingToolCalls.length === 0) {
-      return;
+      return false;
     }
 
-    const toolResults: any[] = [];
-
-    // Execute each tool call
-    for (let i = 0; i < state.pendingToolCalls.length; i++) {
-      const toolCall = state.pendingToolCalls[i];
-      
-      try {
-        console.log(`🔧 [StreamProviderChat] Executing tool: ${toolCall.function?.name} (${i + 1}/${state.pendingToolCalls.length})`);
-
-        let result: any;
-
-        // Handle built-in tools first
-        if (toolCall.function?.name === 'web_search') {
-          result = await this.handleWebSearchTool(toolCall);
-        } else if (toolCall.function?.name === 'image_gen' || toolCall.function?.name === 'generate_image') {
-          result = await this.handleImageGenerationTool(toolCall);
-        } else if (toolCall.function?.name === 'image_edit') {
-          result = await this.handleImageEditingTool(toolCall, state.metadata);
-        } else if (this.toolRegistry) {
-          // Use external tool registry for other tools
-          result = await handleToolCalls(
-            toolCall,
-            (stateUpdate: any) => {
-              // Handle state updates during tool execution
-              console.log('📊 [StreamProviderChat] Tool state update:', stateUpdate);
-            },
-            this.toolRegistry,
-            state.metadata.provider
-          );
-        } else {
-          // Create a default error result for unknown tools
-          result = {
-            tool_call_id: toolCall.id,
-            role: 'tool' as const,
-            content: JSON.stringify({
-              error: `Tool "${toolCall.function?.name}" is not available`,
-              tool_name: toolCall.function?.name
-            }),
-            name: toolCall.function?.name
-          };
-        }
-
-        // 📊 LOG TOOL RESULT - Detailed logging for debugging
-        console.log(`📊 [StreamProviderChat] Tool result received for "${toolCall.function?.name}":`, {
-          toolCallId: toolCall.id,
-          toolName: toolCall.function?.name,
-          resultType: typeof result,
-          resultSize: typeof result === 'string' ? result.length : JSON.stringify(result).length,
-          hasError: result && typeof result === 'object' && 'error' in result,
-          resultPreview: typeof result === 'string' 
-            ? result.substring(0, 200) + (result.length > 200 ? '...' : '')
-            : JSON.stringify(result, null, 2).substring(0, 300) + (JSON.stringify(result, null, 2).length > 300 ? '...' : ''),
-          fullResult: result // Full result for debugging
-        });
-
-        // Format the tool result properly
-        const formattedResult = {
-          tool_call_id: toolCall.id,
-          role: 'tool' as const,
-          content: typeof result === 'string' ? result : JSON.stringify(result),
-          name: toolCall.function?.name,
-          result: result // Keep the original result for metadata
-        };
-
-        toolResults.push(formattedResult);
-        
-        // Add result to the tool call itself
-        toolCall.result = result;
-
-        console.log(`✅ [StreamProviderChat] Tool "${toolCall.function?.name}" executed successfully`);
-
-        // Notify callback about tool completion
-        callbacks.onToolCallComplete?.(formattedResult);
-
-      } catch (error) {
-        console.error(`❌ [StreamProviderChat] Tool "${toolCall.function?.name}" execution failed:`, error);
-        
-        // Create error result
-        const errorResult = {
-          tool_call_id: toolCall.id,
-          role: 'tool' as const,
-          content: JSON.stringify({
-            error: error instanceof Error ? error.message : 'Tool execution failed',
-            tool_name: toolCall.function?.name,
-            timestamp: new Date().toISOString()
-          }),
-          name: toolCall.function?.name,
-          result: { error: true, message: error instanceof Error ? error.message : 'Unknown error' }
-        };
-
-        toolResults.push(errorResult);
-        toolCall.result = errorResult.result;
-      }
-    }
+    const toolResults = await this.runToolCalls(state.pendingToolCalls, state, callbacks);
 
     // Store tool results in state metadata
     state.metadata.toolResults = toolResults;
@@ -759,28 +1239,170 @@ export class StreamProviderChat {
     console.log(`🏁 [StreamProviderChat] All ${state.pendingToolCalls.length} tools executed. Results summary:`);
     console.log('📈 [StreamProviderChat] Tool execution results:', {
       totalTools: state.pendingToolCalls.length,
-      successfulTools: toolResults.filter(r => !r.result?.error).length,
-      failedTools: toolResults.filter(r => r.result?.error).length,
+      successfulTools: toolResults.filter(r => !r.result?.error && !r.result?.isValidationError).length,
+      failedTools: toolResults.filter(r => r.result?.error || r.result?.isValidationError).length,
       toolSummary: toolResults.map((result, index) => ({
         index: index + 1,
         toolName: result.name,
         toolCallId: result.tool_call_id,
-        success: !result.result?.error,
+        success: !result.result?.error && !result.result?.isValidationError,
         resultSize: result.content.length,
         hasData: !!result.result && typeof result.result === 'object' && Object.keys(result.result).length > 0,
         errorMessage: result.result?.error ? (result.result.message || 'Unknown error') : null
       })),
-      nextStep: 'follow-up-stream',
+      nextStep: state.metadata.agentLoop ? 'agent-loop' : 'follow-up-stream',
       timestamp: new Date().toISOString()
     });
 
+    // Stopped by the user while tools were running - don't ask the model to continue
+    if (state.metadata.toolsCancelled) {
+      console.log('🛑 [StreamProviderChat] Tools cancelled, skipping follow-up stream');
+      return false;
+    }
+
     // Now start the follow-up stream to get AI's response based on tool results
     try {
-      await this.executeFollowUpStream(state, toolResults, callbacks);
+      return state.metadata.agentLoop
+        ? await this.executeAgentLoop(state, toolResults, callbacks)
+        : await this.executeFollowUpStream(state, toolResults, callbacks);
     } catch (followUpError) {
       console.error('❌ [StreamProviderChat] Follow-up stream failed:', followUpError);
       // Even if follow-up fails, we should still call completion with tool results
       callbacks.onComplete?.(state.content, state);
+      return false;
+    }
+  }
+
+  /**
+   * Execute a batch of tool calls and collect their results in call order.
+   * Calls run concurrently when parallel tool calls are enabled; a tool that times
+   * out yields an error result without holding back the others.
+   */
+  private async runToolCalls(
+    toolCalls: ToolCall[],
+    state: StreamingState,
+    callbacks: StreamingCallbacks
+  ): Promise<any[]> {
+    // Registered like a stream so abortStream/abortAllStreams reach in-flight tools
+    const toolsStreamId = `${state.metadata.streamId}_tools_${Date.now()}`;
+    const abortController = new AbortController();
+    this.activeStreams.set(toolsStreamId, abortController);
+
+    const runInParallel = state.metadata.parallelToolCalls !== false && toolCalls.length > 1;
+    console.log(`🔧 [StreamProviderChat] Running ${toolCalls.length} tool(s) ${runInParallel ? 'in parallel' : 'sequentially'}`);
+
+    try {
+      if (runInParallel) {
+        return await Promise.all(
+          toolCalls.map((toolCall, i) =>
+            this.runSingleToolCall(toolCall, i, toolCalls.length, state, callbacks, abortController.signal)
+          )
+        );
+      }
+
+      const toolResults: any[] = [];
+      for (let i = 0; i < toolCalls.length; i++) {
+        toolResults.push(
+          await this.runSingleToolCall(toolCalls[i], i, toolCalls.length, state, callbacks, abortController.signal)
+        );
+      }
+      return toolResults;
+    } finally {
+      if (abortController.signal.aborted) {
+        state.metadata.toolsCancelled = true;
+      }
+      if (this.stopRequests.has(toolsStreamId)) {
+        state.metadata.stopped = true;
+      }
+      this.activeStreams.delete(toolsStreamId);
+      this.interruptRequests.delete(toolsStreamId);
+      this.stopRequests.delete(toolsStreamId);
+    }
+  }
+
+  /**
+   * Execute one tool call, always resolving to a tool result message
+   */
+  private async runSingleToolCall(
+    toolCall: ToolCall,
+    index: number,
+    total: number,
+    state: StreamingState,
+    callbacks: StreamingCallbacks,
+    signal: AbortSignal
+  ): Promise<any> {
+    try {
+      console.log(`🔧 [StreamProviderChat] Executing tool: ${toolCall.function?.name} (${index + 1}/${total})`);
+
+      // Arguments are validated against the tool schema; invalid calls come back
+      // as error results so the model can correct itself
+      const result = await this.toolRegistry.executeToolCall(toolCall, {
+        metadata: state.metadata,
+        signal,
+        onProgress: (progress) => callbacks.onToolProgress?.(toolCall, progress)
+      });
+
+      // 📊 LOG TOOL RESULT - Detailed logging for debugging
+      console.log(`📊 [StreamProviderChat] Tool result received for "${toolCall.function?.name}":`, {
+        toolCallId: toolCall.id,
+        toolName: toolCall.function?.name,
+        resultSize: result.content.length,
+        hasError: !!result.isValidationError || !!result.timedOut,
+        resultPreview: result.content.substring(0, 300) + (result.content.length > 300 ? '...' : ''),
+        fullResult: result // Full result for debugging
+      });
+
+      // Format the tool result properly
+      const formattedResult = {
+        tool_call_id: toolCall.id,
+        role: 'tool' as const,
+        content: result.content,
+        name: result.name,
+        result: result // Keep the original result for metadata
+      };
+
+      // Add result to the tool call itself
+      toolCall.result = result;
+
+      if (result.timedOut) {
+        console.warn(`⏱️ [StreamProviderChat] Tool "${toolCall.function?.name}" timed out, continuing with partial results`);
+      } else if (result.isValidationError) {
+        console.warn(`⚠️ [StreamProviderChat] Tool "${toolCall.function?.name}" rejected, returning errors to model`);
+      } else {
+        console.log(`✅ [StreamProviderChat] Tool "${toolCall.function?.name}" executed successfully`);
+      }
+
+      // Notify callback about tool completion
+      callbacks.onToolCallComplete?.(formattedResult);
+
+      return formattedResult;
+    } catch (error) {
+      const cancelled = error instanceof Error && error.name === 'AbortError';
+      if (cancelled) {
+        console.log(`🛑 [StreamProviderChat] Tool "${toolCall.function?.name}" cancelled`);
+      } else {
+        console.error(`❌ [StreamProviderChat] Tool "${toolCall.function?.name}" execution failed:`, error);
+      }
+
+      // Create error result
+      const errorResult = {
+        tool_call_id: toolCall.id,
+        role: 'tool' as const,
+        content: JSON.stringify({
+          error: error instanceof Error ? error.message : 'Tool execution failed',
+          tool_name: toolCall.function?.name,
+          timestamp: new Date().toISOString()
+        }),
+        name: toolCall.function?.name,
+        result: {
+          error: true,
+          message: error instanceof Error ? error.message : 'Unknown error',
+          cancelled
+        }
+      };
+
+      toolCall.result = errorResult.result;
+      return errorResult;
     }
   }
 
@@ -792,7 +1414,15 @@ export class StreamProviderChat {
     state: StreamingState,
     toolResults: any[],
     callbacks: StreamingCallbacks
-  ): Promise<void> {
+  ): Promise<boolean> {
+    // Registered like a stream so stopping reaches the follow-up too
+    const followUpStreamId = this.generateStreamId();
+    const abortController = new AbortController();
+    this.activeStreams.set(followUpStreamId, abortController);
+    let followUpContent = '';
+    let resumeParams: StreamingChatParams | null = null; // Kept to resume an interrupted answer
+    let interrupted = false;
+
     try {
       console.log('🌊 [StreamProviderChat] Starting follow-up stream with tool results');
 
@@ -843,6 +1473,7 @@ export class StreamProviderChat {
         tools: [], // Disable tools in follow-up to prevent recursion
         tool_choice: 'none' // Explicitly disable tool choice
       };
+      resumeParams = followUpParams;
 
       // 🌊 LOG FOLLOW-UP STREAM START - Detailed request body logging
       console.log('🌊 [StreamProviderChat] Follow-up stream starting after tool execution:');
@@ -894,8 +1525,6 @@ export class StreamProviderChat {
         }))
       );
 
-      // Create a new stream ID for the follow-up
-      const followUpStreamId = this.generateStreamId();
       const followUpMessageId = `${state.messageId}_followup`;
 
       // Create follow-up streaming state
@@ -984,238 +1613,379 @@ export class StreamProviderChat {
 
           const { content: deltaContent } = extractDeltaContent(parsedChunk, followUpParams.provider);
           followUpState.content += deltaContent;
+          followUpContent = followUpState.content;
           followUpCallbacks.onUpdate?.(followUpState.content, followUpState);
         },
         (finalContent: string) => {
+          if (this.stopRequests.has(followUpStreamId) || this.interruptRequests.has(followUpStreamId)) return;
           followUpState.content = finalContent;
           followUpState.isCompleted = true;
           followUpCallbacks.onComplete?.(finalContent, followUpState);
         },
         (error: any) => {
+          if (this.stopRequests.has(followUpStreamId) || this.shouldTreatAsInterruption(error, followUpStreamId)) return;
           followUpCallbacks.onError?.(error);
+        },
+        abortController.signal,
+        (sessionId: string) => {
+          this.streamSessions.set(followUpStreamId, sessionId);
         }
       );
 
     } catch (error) {
-      console.error('❌ [StreamProviderChat] Follow-up stream execution failed:', error);
-      callbacks.onError?.(error instanceof Error ? error : new Error(String(error)));
+      interrupted = this.shouldTreatAsInterruption(error, followUpStreamId);
+      if (!this.stopRequests.has(followUpStreamId) && !interrupted) {
+        console.error('❌ [StreamProviderChat] Follow-up stream execution failed:', error);
+        callbacks.onError?.(error instanceof Error ? error : new Error(String(error)));
+      }
+    } finally {
+      const stopped = this.stopRequests.has(followUpStreamId);
+      interrupted = !stopped && (interrupted || this.interruptRequests.has(followUpStreamId));
+
+      // The follow-up text is the answer shown so far; finalizeStream reports the stop
+      if (stopped || interrupted) {
+        state.content = followUpContent;
+        state.metadata.toolResults = toolResults;
+        state.metadata.followUpContent = followUpContent;
+      }
+      if (stopped) {
+        state.metadata.stopped = true;
+      } else if (interrupted && resumeParams) {
+        // The follow-up had its own backend session, so it resumes by continuation
+        state.resumeCursor = undefined;
+        this.markInterrupted(state, resumeParams, callbacks, true);
+      }
+      this.activeStreams.delete(followUpStreamId);
+      this.interruptRequests.delete(followUpStreamId);
+      this.stopRequests.delete(followUpStreamId);
+      this.streamSessions.delete(followUpStreamId);
     }
-  }
 
-  /**
-   * Generate a unique stream ID
-   */
-  private generateStreamId(): string {
-    return `stream_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    return interrupted;
   }
 
   /**
-   * Handle web search tool execution
+   * Keep re-prompting with tool results until the model answers without calling tools.
+   * Every step streams into the same assistant message.
    */
-  private async handleWebSearchTool(toolCall: ToolCall): Promise<any> {
-    try {
-      const args = JSON.parse(toolCall.function?.arguments || '{}');
-      const query = args.query;
-      const limit = args.limit || 10;
-
-      if (!query) {
-        throw new Error('Search query is required');
-      }
+  private async executeAgentLoop(
+    state: StreamingState,
+    toolResults: any[],
+    callbacks: StreamingCallbacks
+  ): Promise<boolean> {
+    const { maxSteps, tools } = state.metadata.agentLoop;
+    const steps: AgentStep[] = [];
+    const allToolCalls: ToolCall[] = [...state.pendingToolCalls];
+    const allToolResults: any[] = [...toolResults];
+    const summarizeToolCalls = (toolCalls: ToolCall[]) =>
+      toolCalls.map(tc => ({ id: tc.id, name: tc.function?.name }));
+    const notifyStep = (step: AgentStep) => {
+      state.metadata.agentSteps = [...steps];
+      callbacks.onAgentStep?.({ ...step }, [...steps]);
+    };
 
-      console.log('🔍 [StreamProviderChat] Executing web search:', { query, limit });
+    const messages: any[] = [
+      ...(state.metadata.originalMessages || []),
+      ...this.buildToolTurnMessages(state.content, state.pendingToolCalls, toolResults)
+    ];
+
+    // Step 1 is the initial response that requested the tools
+    const firstStep: AgentStep = {
+      index: 1,
+      status: 'completed',
+      toolCalls: summarizeToolCalls(state.pendingToolCalls),
+      contentLength: state.content.length,
+      startedAt: state.metadata.startTime,
+      completedAt: Date.now()
+    };
+    steps.push(firstStep);
+    notifyStep(firstStep);
+
+    let transcript = state.content.trim();
+    let resumeParams: any = null;
+
+    for (let index = 2; index <= maxSteps; index++) {
+      // The last step can't call tools, so the loop always ends with an answer
+      const isFinalStep = index === maxSteps;
+      const step: AgentStep = {
+        index,
+        status: 'running',
+        toolCalls: [],
+        contentLength: 0,
+        startedAt: Date.now()
+      };
+      steps.push(step);
+      notifyStep(step);
 
-      const searchResult = await webSearchService.search({
-        query,
-        limit,
-        searchContextSize: 'medium',
+      console.log(`🔁 [StreamProviderChat] Agent step ${index}/${maxSteps}`, {
+        messageCount: messages.length,
+        toolsOffered: isFinalStep ? 0 : tools.length
       });
 
-      if ('error' in searchResult) {
-        throw new Error(searchResult.message);
-      }
+      const { stepState, stepParams, cancelled, interrupted } = await this.streamAgentStep(
+        state,
+        messages,
+        isFinalStep ? [] : tools,
+        transcript,
+        callbacks
+      );
 
-      // Format search results for the AI
-      const formattedResult = {
-        query,
-        results_found: searchResult.sources.length,
-        summary: searchResult.content,
-        sources: searchResult.sources.map((source, index) => ({
-          position: index + 1,
-          title: source.title,
-          url: source.url,
-          description: source.description,
-          text_snippet: source.text?.substring(0, 300) + (source.text?.length > 300 ? '...' : ''),
-        })),
-        search_metadata: {
-          timestamp: searchResult.metadata.timestamp,
-          search_time: searchResult.metadata.searchTime,
-          total_results: searchResult.totalResults,
-        }
-      };
+      step.contentLength = stepState.content.length;
+      if (stepState.content.trim()) {
+        transcript = transcript ? `${transcript}\n\n${stepState.content.trim()}` : stepState.content.trim();
+      }
 
-      return {
-        tool_call_id: toolCall.id,
-        role: 'tool' as const,
-        content: JSON.stringify(formattedResult, null, 2),
-        name: 'web_search'
-      };
+      // The step stays running until it's resumed, which finishes the answer without more tools
+      if (interrupted) {
+        resumeParams = { ...stepParams, tools: [], tool_choice: 'none' };
+        break;
+      }
 
-    } catch (error) {
-      console.error('❌ [StreamProviderChat] Web search tool error:', error);
-      throw error;
-    }
-  }
+      if (cancelled || stepState.error) {
+        step.status = cancelled ? 'cancelled' : 'error';
+        step.error = stepState.error?.message;
+        step.completedAt = Date.now();
+        notifyStep(step);
+        if (stepState.error && !cancelled) {
+          callbacks.onError?.(stepState.error);
+        }
+        break;
+      }
 
-  /**
-   * Handle image generation tool execution
-   */
-  private async handleImageGenerationTool(toolCall: ToolCall): Promise<any> {
-    try {
-      const args = JSON.parse(toolCall.function?.arguments || '{}');
-      const prompt = args.prompt;
-      const name = args.name || 'Generated Image';
-      const model = args.model || 'gpt-image-1';
-      const size = args.size || '1024x1024';
-      const quality = args.quality || 'medium';
-
-      if (!prompt) {
-        throw new Error('Image prompt is required');
+      if (stepState.pendingToolCalls.length === 0) {
+        step.status = 'completed';
+        step.completedAt = Date.now();
+        notifyStep(step);
+        break;
       }
 
-      console.log('🎨 [StreamProviderChat] Executing image generation:', { prompt, name, model, size, quality });
+      const stepToolCalls = finalizeToolCallArguments(
+        stepState.pendingToolCalls,
+        state.metadata.provider
+      );
+      step.toolCalls = summarizeToolCalls(stepToolCalls);
+      notifyStep(step);
+
+      const stepResults = await this.runToolCalls(stepToolCalls, state, callbacks);
+      messages.push(...this.buildToolTurnMessages(stepState.content, stepToolCalls, stepResults));
+      allToolCalls.push(...stepToolCalls);
+      allToolResults.push(...stepResults);
 
-      const imageResult = await imageGenerationService.generateImage({
-        prompt,
-        name,
-        model,
-        size: size as any,
-        quality: quality as any,
-      });
+      step.status = state.metadata.toolsCancelled ? 'cancelled' : 'completed';
+      step.completedAt = Date.now();
+      notifyStep(step);
 
-      if (!imageResult.success) {
-        throw new Error(imageResult.error || 'Image generation failed');
+      if (state.metadata.toolsCancelled) {
+        break;
       }
+    }
 
-      const formattedResult = {
-        prompt,
-        name,
-        model,
-        size,
-        quality,
-        url: imageResult.result.data.url,
-        image_data: imageResult.result.data,
-        metadata: {
-          generated_at: imageResult.result.metadata.timestamp,
-          provider: imageResult.result.data.provider,
-          format: imageResult.result.metadata.format,
-          is_direct_url: imageResult.result.data.isDirectUrl,
-        }
-      };
+    console.log('🏁 [StreamProviderChat] Agent loop finished:', {
+      steps: steps.length,
+      toolCallCount: allToolCalls.length,
+      contentLength: transcript.length
+    });
 
-      return {
-        tool_call_id: toolCall.id,
-        role: 'tool' as const,
-        content: JSON.stringify(formattedResult, null, 2),
-        name: 'image_gen'
-      };
+    state.pendingToolCalls = allToolCalls;
+    state.content = transcript;
+    state.metadata.toolResults = allToolResults;
 
-    } catch (error) {
-      console.error('❌ [StreamProviderChat] Image generation tool error:', error);
-      throw error;
+    // finalizeStream reports the stop with the steps so far
+    if (state.metadata.stopped) {
+      state.metadata.agentSteps = steps;
+      return false;
+    }
+
+    if (resumeParams) {
+      state.metadata.agentSteps = steps;
+      // Each step had its own backend session, so the answer resumes by continuation
+      state.resumeCursor = undefined;
+      this.markInterrupted(state, resumeParams, callbacks, true);
+      return true;
     }
+
+    state.metadata.completionCallbackCalled = true;
+
+    callbacks.onComplete?.(transcript, {
+      ...state,
+      isCompleted: true,
+      metadata: {
+        ...state.metadata,
+        followUpContent: transcript,
+        toolExecutionComplete: true,
+        agentSteps: steps
+      }
+    });
+    return false;
   }
 
   /**
-   * Handle image editing tool execution
+   * Stream a single agent step, forwarding its content appended to the earlier steps
    */
-  private async handleImageEditingTool(toolCall: ToolCall, contextData?: any): Promise<any> {
-    try {
-      const args = JSON.parse(toolCall.function?.arguments || '{}');
-      const prompt = args.prompt;
-      const model = args.model || 'gpt-image-1';
-      const size = args.size || '1024x1024';
-      const name = args.name || 'Edited Image';
-      let imageUrls = args.image_urls || [];
-      const maskUrl = args.mask_url;
-
-      if (!prompt) {
-        throw new Error('Image editing prompt is required');
+  private async streamAgentStep(
+    state: StreamingState,
+    messages: any[],
+    tools: any[],
+    transcript: string,
+    callbacks: StreamingCallbacks
+  ): Promise<{ stepState: StreamingState; stepParams: any; cancelled: boolean; interrupted: boolean }> {
+    const stepStreamId = this.generateStreamId();
+    const abortController = new AbortController();
+    this.activeStreams.set(stepStreamId, abortController);
+    let interrupted = false;
+
+    const stepState: StreamingState = {
+      messageId: state.messageId,
+      threadId: state.threadId,
+      content: '',
+      reasoningState: initializeReasoningState(),
+      pendingToolCalls: [],
+      hasDetectedToolCall: false,
+      bufferingForToolCall: false,
+      toolCallsFullyAccumulated: false,
+      isCompleted: false,
+      error: null,
+      metadata: {
+        ...state.metadata,
+        streamId: stepStreamId,
+        usage: undefined,
+        usageRecorded: false
       }
+    };
 
-      // If no image URLs provided in arguments, try to extract from conversation context
-      if (!imageUrls || imageUrls.length === 0) {
-        console.log('🎨 [StreamProviderChat] Extracting image URLs from context');
-        
-        // Extract from context data (vision_image_urls)
-        if (contextData?.vision_image_urls && contextData.vision_image_urls.length > 0) {
-          imageUrls = contextData.vision_image_urls;
-          console.log('🎨 [StreamProviderChat] Found images in vision context:', imageUrls.length);
-        }
-        // Also check for file URLs if files are available
-        else if (contextData?.file_ids && contextData.current_file_names) {
-          const imageFiles = contextData.current_file_names.filter((name: string) => 
-            /\.(jpg|jpeg|png|gif|webp|bmp)$/i.test(name)
-          );
-          if (imageFiles.length > 0) {
-            console.log('🎨 [StreamProviderChat] Found image files in context:', imageFiles);
-            // Would need to convert file IDs to URLs based on your storage system
-            // For now, we'll still need the URLs to be provided
-          }
-        }
+    const maxOutputTokens = state.metadata.maxTokens || 4096;
+    const stepParams: any = {
+      provider: state.metadata.provider,
+      model: state.metadata.model,
+      messages: this.backendService.formatMessageHistory(messages, undefined, {
+        model: state.metadata.model,
+        maxOutputTokens,
+        reservedTokens: estimateTokens(JSON.stringify(tools))
+      }),
+      instructions: state.metadata.instructions,
+      contextData: state.metadata.contextData,
+      temperature: state.metadata.temperature || 0.7,
+      max_tokens: maxOutputTokens,
+      stream: true,
+      tools,
+      tool_choice: tools.length > 0 ? 'auto' : 'none',
+      parallel_tool_calls: true
+    };
+
+    stepState.metadata.estimatedPromptTokens =
+      estimateMessagesTokens(stepParams.messages) + estimateTokens(JSON.stringify(tools));
+
+    const stepCallbacks: StreamingCallbacks = {
+      onUpdate: (content: string) => {
+        const combined = transcript ? `${transcript}\n\n${content}` : content;
+        callbacks.onUpdate?.(combined, { ...state, content: combined });
+      },
+      onToolCall: callbacks.onToolCall,
+      onReasoningUpdate: callbacks.onReasoningUpdate
+    };
 
-        // If still no images found, throw an error
-        if (!imageUrls || imageUrls.length === 0) {
-          throw new Error('No images found for editing. Please upload an image first or provide image URLs.');
+    try {
+      await BackendProviderService.streamChatCompletion(
+        stepParams,
+        (chunk: string) => this.handleStreamChunk(chunk, stepState, stepParams, stepCallbacks),
+        () => {
+          stepState.isCompleted = true;
+        },
+        (error: any) => {
+          stepState.error = error;
+        },
+        abortController.signal,
+        (sessionId: string) => {
+          this.streamSessions.set(stepStreamId, sessionId);
         }
+      );
+    } catch (error: any) {
+      interrupted = this.shouldTreatAsInterruption(error, stepStreamId);
+      if (error?.name !== 'AbortError' && !interrupted) {
+        stepState.error = error;
       }
+    } finally {
+      if (this.stopRequests.has(stepStreamId)) {
+        state.metadata.stopped = true;
+        interrupted = false;
+      } else if (interrupted || this.interruptRequests.has(stepStreamId)) {
+        interrupted = true;
+        stepState.error = null;
+      }
+      this.activeStreams.delete(stepStreamId);
+      this.interruptRequests.delete(stepStreamId);
+      this.stopRequests.delete(stepStreamId);
+      this.streamSessions.delete(stepStreamId);
+    }
 
-      console.log('🎨 [StreamProviderChat] Executing image editing:', { 
-        prompt: prompt.substring(0, 100) + '...', 
-        model, 
-        size, 
-        imageCount: imageUrls.length,
-        hasMask: !!maskUrl
-      });
-
-      const editResult = await editImage({
-        prompt,
-        imageUrls,
-        maskUrl,
-        size: size as any,
-        n: 1,
-        model,
-      });
+    if (stepState.isCompleted) {
+      this.recordStreamUsage(stepState);
+    }
 
-      if (!editResult.success) {
-        throw new Error(editResult.error || 'Image editing failed');
-      }
+    return { stepState, stepParams, cancelled: abortController.signal.aborted && !interrupted, interrupted };
+  }
 
-      const formattedResult = {
-        prompt,
-        model,
-        size,
-        name,
-        original_images: imageUrls,
-        edited_images: editResult.result.data.images,
-        metadata: {
-          edited_at: new Date().toISOString(),
-          provider: model,
-          mask_used: !!maskUrl,
-          image_count: editResult.result.data.images.length,
-        }
-      };
+  /**
+   * Record a finished stream's token usage in the usage ledger, using the
+   * provider's reported usage when present and client-side estimates otherwise
+   */
+  private recordStreamUsage(state: StreamingState): void {
+    if (state.metadata.usageRecorded) return;
+    state.metadata.usageRecorded = true;
+
+    const usage = state.metadata.usage;
+    const reasoningTokens = usage
+      ? usage.completion_tokens_details?.reasoning_tokens || 0
+      : estimateTokens(state.reasoningState.reasoningContent);
+    const toolCallTokens = state.pendingToolCalls.reduce(
+      (total, tc) => total + estimateTokens(tc.function?.arguments),
+      0
+    );
+    const contextData = state.metadata.contextData || {};
+
+    usageLedger.record({
+      kind: 'chat',
+      model: state.metadata.model,
+      provider: state.metadata.provider,
+      messageId: state.messageId,
+      threadId: state.threadId || contextData.threadId,
+      workspaceId: contextData.workspaceId,
+      promptTokens: usage?.prompt_tokens ?? state.metadata.estimatedPromptTokens ?? 0,
+      // Reported completion tokens include reasoning tokens, which are tracked separately
+      completionTokens: usage
+        ? Math.max((usage.completion_tokens || 0) - (usage.completion_tokens_details?.reasoning_tokens || 0), 0)
+        : estimateTokens(state.content) + toolCallTokens,
+      reasoningTokens,
+      estimated: !usage
+    }).catch(error => {
+      console.error('💰 [StreamProviderChat] Failed to record usage:', error);
+    });
+  }
 
-      return {
-        tool_call_id: toolCall.id,
-        role: 'tool' as const,
-        content: JSON.stringify(formattedResult, null, 2),
-        name: 'image_edit'
-      };
+  /**
+   * Assistant tool-call turn followed by its tool result messages
+   */
+  private buildToolTurnMessages(content: string, toolCalls: ToolCall[], toolResults: any[]): any[] {
+    return [
+      {
+        role: 'assistant',
+        content: content || ' ',
+        tool_calls: toolCalls
+      },
+      ...toolResults.map(toolResult => ({
+        role: 'tool',
+        tool_call_id: toolResult.tool_call_id,
+        content: toolResult.content,
+        name: toolResult.name
+      }))
+    ];
+  }
 
-    } catch (error) {
-      console.error('❌ [StreamProviderChat] Image editing tool error:', error);
-      throw error;
-    }
+  /**
+   * Generate a unique stream ID
+   */
+  private generateStreamId(): string {
+    return `stream_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
   }
 
   /**
@@ -1243,6 +2013,48 @@ export class StreamProviderChat {
     console.log('🛑 [StreamProviderChat] All streams aborted:', streamIds.length);
   }
 
+  /**
+   * Stop a stream at the user's request. The backend is told to stop generating
+   * and the stream settles through onStopped with what it produced so far.
+   */
+  stopStream(streamId: string): boolean {
+    const controller = this.activeStreams.get(streamId);
+    if (!controller) {
+      return false;
+    }
+
+    this.stopRequests.add(streamId);
+    controller.abort();
+
+    const sessionId = this.streamSessions.get(streamId);
+    if (sessionId) {
+      BackendProviderService.cancelChatStream(sessionId);
+    }
+
+    console.log('🛑 [StreamProviderChat] Stream stop requested:', streamId);
+    return true;
+  }
+
+  /**
+   * Stop all active streams, including running tool calls and follow-ups
+   */
+  stopAllStreams(): number {
+    const streamIds = Array.from(this.activeStreams.keys());
+    const stopped = streamIds.filter(streamId => this.stopStream(streamId)).length;
+    console.log('🛑 [StreamProviderChat] All streams stopped:', stopped);
+    return stopped;
+  }
+
+  /**
+   * Interrupt all active streams, keeping them resumable
+   */
+  interruptAllStreams(): number {
+    const streamIds = Array.from(this.activeStreams.keys());
+    const interrupted = streamIds.filter(streamId => this.interruptStream(streamId)).length;
+    console.log('⏸️ [StreamProviderChat] All streams interrupted:', interrupted);
+    return interrupted;
+  }
+
   /**
    * Get active stream count
    */
@@ -1309,6 +2121,12 @@ export class StreamProviderChat {
         console.error('❌ [StreamProviderChat] Vector store retrieval failed for non-streaming:', error);
       }
 
+      formattedMessages = this.backendService.formatMessageHistory(formattedMessages, undefined, {
+        model: params.model,
+        maxOutputTokens: params.max_tokens || 4096,
+        reservedTokens: estimateTokens(JSON.stringify(params.tools || []))
+      });
+
       // Prepare completion parameters
       const completionParams = {
         provider: params.provider,
@@ -1,6 +1,12 @@
 import { ChatCompletionService } from './chatCompletionService';
 import { supabase } from '../supabase';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  getModelCapabilities,
+  isReasoningModel as isRegisteredReasoningModel,
+  stripUnsupportedParams,
+} from '@/constants/ModelCapabilities';
+import { isCustomModel } from '@/constants/Models';
 
 // Tool call interfaces
 export interface ToolCall {
@@ -28,6 +34,7 @@ export interface ChatMessage {
   tool_calls?: ToolCall[];
   tool_call_id?: string;
   name?: string;
+  pinned?: boolean; // Never dropped when trimming history to the context window
 }
 
 // Context data interface
@@ -43,7 +50,7 @@ export interface ContextData {
 }
 
 // Simple LRU Cache implementation
-class SimpleLRUCache {
+export class SimpleLRUCache {
   private cache = new Map<string, any>();
   private maxSize: number;
 
@@ -78,11 +85,82 @@ class SimpleLRUCache {
   has(key: string): boolean {
     return this.cache.has(key);
   }
+
+  delete(key: string): void {
+    this.cache.delete(key);
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+
+  // Entries from least to most recently used
+  entries(): [string, any][] {
+    return Array.from(this.cache.entries());
+  }
 }
 
 // Global cache instance
 const globalCache = new SimpleLRUCache(1000);
 
+export const DEFAULT_TOOL_TIMEOUT_MS = 60000;
+
+export class ToolTimeoutError extends Error {
+  constructor(public toolName: string, public timeoutMs: number) {
+    super(`Tool "${toolName}" timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'ToolTimeoutError';
+  }
+}
+
+export interface ToolExecutionOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal; // Aborts the tool when the owning stream is aborted
+}
+
+/**
+ * Run a tool executor with a timeout. The executor receives a signal that fires on
+ * timeout or when the parent signal aborts, so in-flight requests are cancelled too.
+ */
+export async function executeWithTimeout<T>(
+  toolName: string,
+  executor: (signal: AbortSignal) => Promise<T>,
+  options: ToolExecutionOptions = {}
+): Promise<T> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+  const controller = new AbortController();
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  let onParentAbort: (() => void) | undefined;
+
+  const cancelled = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      controller.abort();
+      reject(new ToolTimeoutError(toolName, timeoutMs));
+    }, timeoutMs);
+
+    onParentAbort = () => {
+      controller.abort();
+      const abortError = new Error(`Tool "${toolName}" was cancelled`);
+      abortError.name = 'AbortError';
+      reject(abortError);
+    };
+
+    if (options.signal?.aborted) {
+      onParentAbort();
+    } else {
+      options.signal?.addEventListener('abort', onParentAbort);
+    }
+  });
+
+  try {
+    return await Promise.race([executor(controller.signal), cancelled]);
+  } finally {
+    clearTimeout(timeoutId);
+    if (onParentAbort) {
+      options.signal?.removeEventListener('abort', onParentAbort);
+    }
+  }
+}
+
 /**
  * Handle tool calls execution
  */
@@ -90,7 +168,8 @@ export async function handleToolCalls(
   toolCall: ToolCall,
   updateState: (stateUpdate: any) => void,
   toolRegistry: any,
-  provider: string = 'openai'
+  provider: string = 'openai',
+  options: ToolExecutionOptions = {}
 ): Promise<any> {
   try {
     const functionName = toolCall.function?.name;
@@ -144,7 +223,11 @@ export async function handleToolCalls(
     });
 
     // Execute the tool
-    const result = await tool.execute(parsedArgs);
+    const result = await executeWithTimeout(
+      functionName,
+      (signal) => tool.execute(parsedArgs, { toolCall, signal }),
+      { timeoutMs: tool.timeoutMs, signal: options.signal }
+    );
 
     console.log(`✅ [handleToolCalls] Tool execution completed: ${functionName}`, {
       resultType: typeof result,
@@ -177,6 +260,7 @@ export async function handleToolCalls(
       content: JSON.stringify({
         error: error.message || 'Tool execution failed',
         tool_name: toolCall.function?.name,
+        ...(error instanceof ToolTimeoutError && { timed_out: true }),
       }),
       name: toolCall.function?.name,
     };
@@ -301,6 +385,11 @@ export function finalizeToolCallArguments(toolCalls: ToolCall[], provider: strin
 export function getProviderForModel(modelName: string): string {
   if (!modelName) return 'openai';
 
+  // User's own OpenAI-compatible endpoint
+  if (isCustomModel(modelName)) {
+    return 'custom';
+  }
+
   const lowerModel = modelName.toLowerCase();
 
   // OpenAI models
@@ -356,19 +445,7 @@ export function getProviderForModel(modelName: string): string {
  * Check if a model is a reasoning model
  */
 export function isReasoningModel(modelName: string): boolean {
-  if (!modelName) return false;
-
-  const lowerModel = modelName.toLowerCase();
-  const reasoningModels = [
-    'o1-preview',
-    'o1-mini',
-    'o1-pro',
-    'deepseek-reasoner',
-    'grok-3-beta',
-    'claude-3-opus', // Has some reasoning capabilities
-  ];
-
-  return reasoningModels.some(model => lowerModel.includes(model));
+  return isRegisteredReasoningModel(modelName);
 }
 
 /**
@@ -441,8 +518,8 @@ export function getDefaultChatParams(
     presence_penalty: 0,
   };
 
-  // Add reasoning effort for reasoning models
-  if (isReasoningModel(modelName)) {
+  // Add reasoning effort for models that accept it
+  if (getModelCapabilities(modelName).reasoningEffort) {
     (baseParams as any).reasoning_effort = 'medium';
   }
 
@@ -453,7 +530,7 @@ export function getDefaultChatParams(
  * Remove unsupported parameters for specific models/providers
  */
 export function removeUnsupportedParams(params: any, modelName: string, providerName: string): any {
-  const cleanParams = { ...params };
+  const cleanParams = stripUnsupportedParams(params, modelName);
 
   // Anthropic doesn't support frequency_penalty and presence_penalty
   if (providerName === 'anthropic') {
@@ -462,15 +539,6 @@ export function removeUnsupportedParams(params: any, modelName: string, provider
     delete cleanParams.top_p; // Claude uses different parameter names
   }
 
-  // Reasoning models have different parameter constraints
-  if (isReasoningModel(modelName)) {
-    // Remove parameters that reasoning models don't support
-    delete cleanParams.temperature;
-    delete cleanParams.top_p;
-    delete cleanParams.frequency_penalty;
-    delete cleanParams.presence_penalty;
-  }
-
   return cleanParams;
 }
 
@@ -695,56 +763,7 @@ export const ModelUtils = {
   isReasoningModel,
   getProviderForModel,
   isReasoningContent,
-  
-  /**
-   * Get model capabilities
-   */
-  getModelCapabilities(modelName: string): {
-    supportsVision: boolean;
-    supportsTools: boolean;
-    supportsStreaming: boolean;
-    maxTokens: number;
-    supportedFormats: string[];
-  } {
-    const lowerModel = modelName.toLowerCase();
-    
-    // Default capabilities
-    let capabilities = {
-      supportsVision: false,
-      supportsTools: true,
-      supportsStreaming: true,
-      maxTokens: 4096,
-      supportedFormats: ['text'],
-    };
-
-    // GPT-4 Vision models
-    if (lowerModel.includes('gpt-4') && (lowerModel.includes('vision') || lowerModel.includes('gpt-4o'))) {
-      capabilities.supportsVision = true;
-      capabilities.supportedFormats.push('image');
-    }
-
-    // Claude models with vision
-    if (lowerModel.includes('claude-3')) {
-      capabilities.supportsVision = true;
-      capabilities.supportedFormats.push('image');
-      capabilities.maxTokens = 200000;
-    }
-
-    // Gemini models
-    if (lowerModel.includes('gemini')) {
-      capabilities.supportsVision = true;
-      capabilities.supportedFormats.push('image', 'video', 'audio');
-      capabilities.maxTokens = 1000000;
-    }
-
-    // Reasoning models
-    if (isReasoningModel(modelName)) {
-      capabilities.supportsTools = false; // Most reasoning models don't support tools
-      capabilities.maxTokens = 32768;
-    }
-
-    return capabilities;
-  },
+  getModelCapabilities, // From the capability registry
 };
 
 /**
@@ -6,6 +6,7 @@ import { CacheUtils } from './streamingUtils';
 export interface ContextData {
   threadId?: string;
   workspaceId?: string;
+  thread_summary?: string; // Rolling summary of turns dropped from the history
   workspace_initiated?: boolean;
   is_workspace_chat?: boolean;
   from_workspace_chat?: boolean;
@@ -418,6 +419,11 @@ function buildToolGuidelines(): string {
 - **Activate when:** Explicit requests (search web, look up online) OR current events/recent data needed
 - **Citations:** Always cite sources with [Source Name][1] format and include reference URLs
 
+**Read URL:**
+- **Tool:** read_url
+- **Activate when:** The user shares a link or asks about a specific page; use web_search to find pages first
+- **Citations:** Cite the page like a search result
+
 **Canvas Creation:**
 - **Tool:** canvas_create
 - **Create:** ONLY when user says "use canvas" or "create a document"
@@ -445,6 +451,18 @@ function buildToolGuidelines(): string {
 </tool_guidelines>`;
 }
 
+/**
+ * Build the rolling summary of earlier turns that no longer fit in the history
+ */
+function buildConversationSummary(summary: string): string {
+  return `<conversation_summary priority="4">
+**EARLIER CONVERSATION (Priority: 4)**
+The oldest messages of this conversation are not included below. This is a summary of them:
+
+${summary.trim()}
+</conversation_summary>`;
+}
+
 /**
  * Build an optimized system prompt with memory integration
  */
@@ -477,6 +495,7 @@ export async function buildStructuredSystemPrompt(
         <level priority="2" type="USER">USER_PROFILE</level>
         <level priority="3" type="ASSISTANT">ASSISTANT_ROLE</level>
         <level priority="4" type="CONTEXTUAL">PROJECT_CONTEXT</level>
+        <level priority="4" type="CONTEXTUAL">CONVERSATION_SUMMARY</level>
     </enforcement_levels>
 </system_hierarchy>`);
 
@@ -516,6 +535,11 @@ export async function buildStructuredSystemPrompt(
     sections.push(workspaceContext);
   }
 
+  // Summary of turns dropped from the message history
+  if (contextData?.thread_summary?.trim()) {
+    sections.push(buildConversationSummary(contextData.thread_summary));
+  }
+
   return sections.filter(Boolean).join('\n\n');
 }
 
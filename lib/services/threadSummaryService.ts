@@ -0,0 +1,155 @@
+import { supabase } from '../supabase';
+import { ThreadManager } from '../threads';
+import { ChatCompletionService, ChatMessage } from './chatCompletionService';
+
+// Start summarizing once a thread has this many messages
+export const SUMMARY_THRESHOLD_MESSAGES = 24;
+
+// Most recent messages always sent verbatim
+const KEEP_RECENT_MESSAGES = 12;
+
+// Wait for this many new messages before folding them into the summary
+const MIN_NEW_MESSAGES = 8;
+
+/**
+ * Rolling summary of a thread's older turns. messageCount is how many leading
+ * thread messages the summary replaces in the conversation history.
+ */
+export interface ThreadSummary {
+  summary: string;
+  messageCount: number;
+  updatedAt: string;
+}
+
+export interface SummarizableMessage {
+  role: 'user' | 'assistant' | 'system' | 'tool';
+  content: string;
+}
+
+export class ThreadSummaryService {
+  private static instance: ThreadSummaryService;
+  private inFlight: Set<string> = new Set();
+
+  private constructor() {}
+
+  static getInstance(): ThreadSummaryService {
+    if (!ThreadSummaryService.instance) {
+      ThreadSummaryService.instance = new ThreadSummaryService();
+    }
+    return ThreadSummaryService.instance;
+  }
+
+  /**
+   * Load the stored summary for a thread
+   */
+  async getSummary(threadId: string): Promise<ThreadSummary | null> {
+    try {
+      const { data, error } = await supabase
+        .from('threads')
+        .select('summary, metadata')
+        .eq('id', threadId)
+        .single();
+
+      if (error || !data?.summary) {
+        return null;
+      }
+
+      return {
+        summary: data.summary,
+        messageCount: data.metadata?.summary_message_count || 0,
+        updatedAt: data.metadata?.summary_updated_at || '',
+      };
+    } catch (error) {
+      console.error('📜 [ThreadSummaryService] Error loading summary:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Index of the first message kept verbatim. Always lands on a user turn so a
+   * tool call is never separated from its answer.
+   */
+  getSummaryCutoff(messages: SummarizableMessage[]): number {
+    let cutoff = messages.length - KEEP_RECENT_MESSAGES;
+    while (cutoff > 0 && messages[cutoff]?.role !== 'user') {
+      cutoff--;
+    }
+    return Math.max(cutoff, 0);
+  }
+
+  shouldUpdate(messages: SummarizableMessage[], current: ThreadSummary | null): boolean {
+    if (messages.length < SUMMARY_THRESHOLD_MESSAGES) {
+      return false;
+    }
+    return this.getSummaryCutoff(messages) - (current?.messageCount || 0) >= MIN_NEW_MESSAGES;
+  }
+
+  /**
+   * Fold the turns since the last summary into a new rolling summary and save it
+   * to threads.summary. Returns null when there was nothing to do or it failed.
+   */
+  async updateSummary(
+    threadId: string,
+    messages: SummarizableMessage[],
+    current: ThreadSummary | null
+  ): Promise<ThreadSummary | null> {
+    if (this.inFlight.has(threadId) || !this.shouldUpdate(messages, current)) {
+      return null;
+    }
+
+    this.inFlight.add(threadId);
+
+    try {
+      const cutoff = this.getSummaryCutoff(messages);
+      const newTurns: ChatMessage[] = messages
+        .slice(current?.messageCount || 0, cutoff)
+        .filter(msg => (msg.role === 'user' || msg.role === 'assistant') && msg.content?.trim())
+        .map(msg => ({ role: msg.role as 'user' | 'assistant', content: msg.content }));
+
+      console.log('📜 [ThreadSummaryService] Updating summary:', {
+        threadId,
+        previousMessageCount: current?.messageCount || 0,
+        newMessageCount: cutoff,
+        turnsSummarized: newTurns.length,
+      });
+
+      const completionService = new ChatCompletionService();
+      completionService.messages = current
+        ? [{ role: 'system', content: `Summary of the conversation so far:\n${current.summary}` }, ...newTurns]
+        : newTurns;
+
+      const summary = await completionService.generateSummary();
+      if (completionService.error || !summary?.trim()) {
+        return null;
+      }
+
+      const thread = await ThreadManager.getThread(threadId);
+      const updated: ThreadSummary = {
+        summary: summary.trim(),
+        messageCount: cutoff,
+        updatedAt: new Date().toISOString(),
+      };
+
+      const saved = await ThreadManager.updateThread(threadId, {
+        summary: updated.summary,
+        metadata: {
+          ...thread?.metadata,
+          summary_message_count: updated.messageCount,
+          summary_updated_at: updated.updatedAt,
+        },
+      });
+
+      return saved ? updated : null;
+    } catch (error) {
+      console.error('📜 [ThreadSummaryService] Error updating summary:', error);
+      return null;
+    } finally {
+      this.inFlight.delete(threadId);
+    }
+  }
+}
+
+// Export singleton instance
+export const threadSummaryService = ThreadSummaryService.getInstance();
+
+export default threadSummaryService;
@@ -0,0 +1,250 @@
+import { ToolCall, ToolTimeoutError, executeWithTimeout } from './streamingUtils';
+import { JSONSchema, SchemaValidationError, validateAgainstSchema } from '../utils/jsonSchema';
+
+export type { JSONSchema };
+
+export type ToolCapability =
+  | 'web'
+  | 'search'
+  | 'image_generation'
+  | 'image_editing'
+  | 'vision'
+  | 'code_execution';
+
+export interface ToolExecutionContext {
+  toolCall: ToolCall;
+  metadata?: any; // Streaming state metadata (provider, contextData, vision urls...)
+  signal?: AbortSignal;
+  onProgress?: (progress: any) => void; // Partial output shown while the tool runs
+}
+
+export interface ToolDefinition<TArgs = any> {
+  name: string;
+  description: string;
+  parameters: JSONSchema;
+  capabilities: ToolCapability[];
+  aliases?: string[]; // Alternative names the model may call the tool by
+  timeoutMs?: number; // Defaults to DEFAULT_TOOL_TIMEOUT_MS
+  execute: (args: TArgs, context: ToolExecutionContext) => Promise<any>;
+}
+
+export type ToolValidationError = SchemaValidationError;
+
+export interface ToolValidationResult {
+  valid: boolean;
+  errors: ToolValidationError[];
+  args: any; // Arguments with schema defaults applied
+}
+
+export interface ToolResultMessage {
+  tool_call_id: string;
+  role: 'tool';
+  content: string;
+  name: string;
+  isValidationError?: boolean;
+  timedOut?: boolean;
+}
+
+function applyDefaults(args: any, schema: JSONSchema): any {
+  if (!args || typeof args !== 'object' || Array.isArray(args) || !schema.properties) {
+    return args;
+  }
+
+  const withDefaults = { ...args };
+  for (const [key, propertySchema] of Object.entries(schema.properties)) {
+    if (withDefaults[key] === undefined && propertySchema.default !== undefined) {
+      withDefaults[key] = propertySchema.default;
+    }
+  }
+  return withDefaults;
+}
+
+/**
+ * ToolRegistry - Typed registry of executable tools with schema-validated arguments
+ */
+export class ToolRegistry {
+  private tools: Map<string, ToolDefinition> = new Map();
+  private aliases: Map<string, string> = new Map();
+
+  constructor(tools: ToolDefinition[] = []) {
+    tools.forEach(tool => this.register(tool));
+  }
+
+  register(tool: ToolDefinition): this {
+    if (this.tools.has(tool.name)) {
+      console.warn(`⚠️ [ToolRegistry] Replacing existing tool: ${tool.name}`);
+    }
+
+    this.tools.set(tool.name, tool);
+    tool.aliases?.forEach(alias => this.aliases.set(alias, tool.name));
+    return this;
+  }
+
+  unregister(name: string): boolean {
+    const tool = this.tools.get(name);
+    if (!tool) return false;
+
+    tool.aliases?.forEach(alias => this.aliases.delete(alias));
+    return this.tools.delete(name);
+  }
+
+  /**
+   * Get a tool by name or alias
+   */
+  getTool(name: string): ToolDefinition | null {
+    return this.tools.get(name) || this.tools.get(this.aliases.get(name) || '') || null;
+  }
+
+  hasTool(name: string): boolean {
+    return !!this.getTool(name);
+  }
+
+  getTools(): ToolDefinition[] {
+    return Array.from(this.tools.values());
+  }
+
+  getToolsByCapability(capability: ToolCapability): ToolDefinition[] {
+    return this.getTools().filter(tool => tool.capabilities.includes(capability));
+  }
+
+  /**
+   * Get OpenAI-style function definitions to send with a completion request
+   */
+  getToolDefinitions(names?: string[]): any[] {
+    const tools = names
+      ? names.map(name => this.getTool(name)).filter((tool): tool is ToolDefinition => !!tool)
+      : this.getTools();
+
+    return tools.map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+  }
+
+  getStats() {
+    return {
+      totalTools: this.tools.size,
+      availableTools: Array.from(this.tools.keys()),
+      toolDetails: this.getTools().map(tool => ({
+        name: tool.name,
+        aliases: tool.aliases || [],
+        capabilities: tool.capabilities,
+      })),
+    };
+  }
+
+  /**
+   * Parse and validate raw tool call arguments against the tool's schema
+   */
+  validateArguments(name: string, rawArgs: string | object | undefined): ToolValidationResult {
+    const tool = this.getTool(name);
+    if (!tool) {
+      return {
+        valid: false,
+        errors: [{ path: '$', message: `Unknown tool "${name}"` }],
+        args: undefined,
+      };
+    }
+
+    let args: any = {};
+    if (typeof rawArgs === 'string') {
+      if (rawArgs.trim()) {
+        try {
+          args = JSON.parse(rawArgs);
+        } catch (error: any) {
+          return {
+            valid: false,
+            errors: [{ path: '$', message: `Arguments are not valid JSON: ${error?.message || 'parse error'}` }],
+            args: undefined,
+          };
+        }
+      }
+    } else if (rawArgs && typeof rawArgs === 'object') {
+      args = rawArgs;
+    }
+
+    args = applyDefaults(args, tool.parameters);
+    const errors = validateAgainstSchema(args, tool.parameters);
+
+    return { valid: errors.length === 0, errors, args };
+  }
+
+  /**
+   * Validate and execute a tool call. Validation failures and timeouts are returned
+   * as tool results so the model can correct itself or answer with what it has;
+   * executor errors and cancellation throw.
+   */
+  async executeToolCall(
+    toolCall: ToolCall,
+    context: Omit<ToolExecutionContext, 'toolCall'> = {}
+  ): Promise<ToolResultMessage> {
+    const name = toolCall.function?.name || '';
+    const tool = this.getTool(name);
+
+    if (!tool) {
+      console.error(`❌ [ToolRegistry] Tool "${name}" not found`, this.getStats());
+      return this.createErrorResult(toolCall, name, {
+        error: `Tool "${name}" is not available`,
+        available_tools: Array.from(this.tools.keys()),
+      });
+    }
+
+    const validation = this.validateArguments(tool.name, toolCall.function?.arguments);
+    if (!validation.valid) {
+      console.warn(`⚠️ [ToolRegistry] Invalid arguments for "${tool.name}":`, validation.errors);
+      return this.createErrorResult(toolCall, tool.name, {
+        error: `Invalid arguments for tool "${tool.name}"`,
+        validation_errors: validation.errors,
+        expected_parameters: tool.parameters,
+        hint: 'Fix the arguments to match the schema and call the tool again.',
+      });
+    }
+
+    console.log(`🛠️ [ToolRegistry] Executing tool: ${tool.name}`, validation.args);
+
+    let output: any;
+    try {
+      output = await executeWithTimeout(
+        tool.name,
+        (signal) => tool.execute(validation.args, { ...context, toolCall, signal }),
+        { timeoutMs: tool.timeoutMs, signal: context.signal }
+      );
+    } catch (error) {
+      if (!(error instanceof ToolTimeoutError)) {
+        throw error;
+      }
+
+      console.warn(`⏱️ [ToolRegistry] ${error.message}`);
+      return {
+        ...this.createErrorResult(toolCall, tool.name, {
+          error: error.message,
+          timed_out: true,
+          hint: 'This tool did not finish in time. Answer using the other results available.',
+        }),
+        isValidationError: false,
+        timedOut: true,
+      };
+    }
+
+    return {
+      tool_call_id: toolCall.id,
+      role: 'tool',
+      content: typeof output === 'string' ? output : JSON.stringify(output, null, 2),
+      name: tool.name,
+    };
+  }
+
+  private createErrorResult(toolCall: ToolCall, name: string, payload: any): ToolResultMessage {
+    return {
+      tool_call_id: toolCall.id,
+      role: 'tool',
+      content: JSON.stringify({ ...payload, tool_name: name }),
+      name,
+      isValidationError: true,
+    };
+  }
+}
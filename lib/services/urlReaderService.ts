@@ -0,0 +1,135 @@
+import { ApiClient } from '../apiClient';
+
+// Characters of page text returned when the caller sets no budget
+export const DEFAULT_URL_READ_CHARS = 12000;
+export const MAX_URL_READ_CHARS = 40000;
+
+export interface UrlReadParams {
+  url: string;
+  maxCharacters?: number;
+}
+
+/**
+ * Readable text and metadata of one web page
+ */
+export interface UrlReadResult {
+  url: string; // URL that was requested
+  finalUrl: string; // URL after redirects
+  title: string;
+  siteName?: string;
+  byline?: string;
+  description?: string;
+  publishedAt?: string;
+  image?: string;
+  language?: string;
+  content: string;
+  contentTruncated: boolean;
+  totalCharacters: number;
+  wordCount: number;
+}
+
+/**
+ * Validate and normalize a URL the model or user supplied
+ */
+export function normalizeReadableUrl(rawUrl: string): string {
+  const trimmed = rawUrl?.trim() || '';
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(withScheme);
+  } catch {
+    throw new Error(`Invalid URL: ${rawUrl}`);
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`Only http and https URLs can be read: ${rawUrl}`);
+  }
+  return parsed.toString();
+}
+
+/**
+ * Cut text to a budget, ending on a paragraph or sentence boundary when one is close
+ */
+export function truncateToBudget(text: string, maxCharacters: number): { text: string; truncated: boolean } {
+  if (text.length <= maxCharacters) {
+    return { text, truncated: false };
+  }
+
+  const slice = text.slice(0, maxCharacters);
+  const minimumCut = Math.floor(maxCharacters * 0.8);
+  const paragraphEnd = slice.lastIndexOf('\n\n');
+  const sentenceEnd = Math.max(slice.lastIndexOf('. '), slice.lastIndexOf('.\n'));
+  const cut = paragraphEnd >= minimumCut ? paragraphEnd : sentenceEnd >= minimumCut ? sentenceEnd + 1 : maxCharacters;
+
+  return { text: slice.slice(0, cut).trimEnd(), truncated: true };
+}
+
+/**
+ * Reads single web pages through the backend, which fetches the page and
+ * extracts the article text
+ */
+export class UrlReaderService {
+  private static instance: UrlReaderService;
+
+  private constructor() {}
+
+  static getInstance(): UrlReaderService {
+    if (!UrlReaderService.instance) {
+      UrlReaderService.instance = new UrlReaderService();
+    }
+    return UrlReaderService.instance;
+  }
+
+  async read(params: UrlReadParams, signal?: AbortSignal): Promise<UrlReadResult> {
+    const url = normalizeReadableUrl(params.url);
+    const maxCharacters = Math.min(
+      Math.max(params.maxCharacters || DEFAULT_URL_READ_CHARS, 500),
+      MAX_URL_READ_CHARS
+    );
+
+    console.log('📄 [UrlReaderService] Reading page:', { url, maxCharacters });
+
+    const response = await ApiClient.tools.readUrl({ url }, signal);
+    const page = response?.result?.data || response?.data || response;
+
+    if (!page || typeof page !== 'object' || page.error) {
+      throw new Error(page?.error?.message || page?.error || `Could not read ${url}`);
+    }
+
+    const fullText: string = page.markdown || page.content || page.text || '';
+    if (!fullText.trim()) {
+      throw new Error(`No readable text found at ${url}`);
+    }
+
+    const { text, truncated } = truncateToBudget(fullText, maxCharacters);
+    const result: UrlReadResult = {
+      url,
+      finalUrl: page.finalUrl || page.final_url || page.url || url,
+      title: page.title || page.metadata?.title || url,
+      siteName: page.siteName || page.site_name || page.metadata?.siteName,
+      byline: page.byline || page.author || page.metadata?.author,
+      description: page.description || page.excerpt || page.metadata?.description,
+      publishedAt: page.publishedAt || page.published_time || page.publishedDate || page.metadata?.publishedTime,
+      image: page.image || page.metadata?.image || page.metadata?.ogImage,
+      language: page.language || page.lang || page.metadata?.language,
+      content: text,
+      contentTruncated: truncated,
+      totalCharacters: fullText.length,
+      wordCount: fullText.split(/\s+/).filter(Boolean).length,
+    };
+
+    console.log('📄 [UrlReaderService] Page read:', {
+      title: result.title,
+      totalCharacters: result.totalCharacters,
+      truncated,
+    });
+
+    return result;
+  }
+}
+
+// Export singleton instance
+export const urlReaderService = UrlReaderService.getInstance();
+
+export default urlReaderService;
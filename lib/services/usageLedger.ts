@@ -0,0 +1,248 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '@/lib/supabase';
+import { getModelInfo } from '@/constants/Models';
+import { getImageModelById, getImageModelByModel } from '@/constants/ImageModels';
+
+const LEDGER_STORAGE_PREFIX = '@UsageLedger:';
+
+// Oldest entries are dropped past this so storage stays bounded
+const MAX_LEDGER_ENTRIES = 5000;
+
+export type UsageKind = 'chat' | 'image_generation' | 'image_edit' | 'web_search';
+
+/**
+ * One billable event, tied to the message that caused it
+ */
+export interface UsageEntry {
+  id: string;
+  kind: UsageKind;
+  model: string;
+  provider?: string;
+  messageId?: string;
+  threadId?: string;
+  workspaceId?: string;
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  imageCount: number;
+  costDollars: number;
+  estimated: boolean; // Token counts were estimated client-side, not reported by the provider
+  createdAt: string;
+}
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  totalTokens: number;
+  imageCount: number;
+  searchCount: number;
+  costDollars: number;
+  entryCount: number;
+}
+
+export interface UsageFilter {
+  threadId?: string;
+  workspaceId?: string;
+  model?: string;
+  kind?: UsageKind;
+  since?: string; // ISO timestamp
+}
+
+export type UsageGroupBy = 'thread' | 'workspace' | 'model';
+
+/**
+ * Fields callers provide when recording usage; counts default to zero
+ */
+export interface UsageRecord {
+  kind: UsageKind;
+  model: string;
+  provider?: string;
+  messageId?: string;
+  threadId?: string;
+  workspaceId?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  reasoningTokens?: number;
+  imageCount?: number;
+  costDollars?: number; // Provider-reported cost; estimated from pricing when omitted
+  estimated?: boolean;
+}
+
+const EMPTY_TOTALS: UsageTotals = {
+  promptTokens: 0,
+  completionTokens: 0,
+  reasoningTokens: 0,
+  totalTokens: 0,
+  imageCount: 0,
+  searchCount: 0,
+  costDollars: 0,
+  entryCount: 0,
+};
+
+/**
+ * Estimate the cost of an entry from model pricing. Reasoning tokens are
+ * billed as output tokens.
+ */
+export function estimateUsageCost(entry: Pick<UsageEntry, 'kind' | 'model' | 'promptTokens' | 'completionTokens' | 'reasoningTokens' | 'imageCount'>): number {
+  if (entry.kind === 'image_generation' || entry.kind === 'image_edit') {
+    const imageModel = getImageModelById(entry.model) || getImageModelByModel(entry.model);
+    return (imageModel?.costPerImage || 0) * entry.imageCount;
+  }
+
+  const pricing = getModelInfo(entry.model)?.pricing;
+  if (!pricing) return 0;
+
+  return (
+    (entry.promptTokens * pricing.input +
+      (entry.completionTokens + entry.reasoningTokens) * pricing.output) /
+    1_000_000
+  );
+}
+
+export class UsageLedger {
+  private static instance: UsageLedger;
+  private entries: UsageEntry[] | null = null;
+  private storageKey: string | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor() {}
+
+  static getInstance(): UsageLedger {
+    if (!UsageLedger.instance) {
+      UsageLedger.instance = new UsageLedger();
+    }
+    return UsageLedger.instance;
+  }
+
+  /**
+   * Record a usage event. Cost is estimated from pricing unless provided.
+   */
+  async record(record: UsageRecord): Promise<UsageEntry> {
+    const entry: UsageEntry = {
+      promptTokens: 0,
+      completionTokens: 0,
+      reasoningTokens: 0,
+      imageCount: 0,
+      estimated: false,
+      ...record,
+      id: `${Date.now()}_${Math.random().toString(36).slice(2, 10)}`,
+      costDollars: 0,
+      createdAt: new Date().toISOString(),
+    };
+    entry.costDollars = record.costDollars ?? estimateUsageCost(entry);
+
+    await this.update(entries => [...entries, entry].slice(-MAX_LEDGER_ENTRIES));
+
+    console.log(`💰 [UsageLedger] Recorded ${entry.kind} usage for ${entry.model}:`, {
+      messageId: entry.messageId,
+      tokens: entry.promptTokens + entry.completionTokens + entry.reasoningTokens,
+      imageCount: entry.imageCount,
+      costDollars: entry.costDollars.toFixed(4),
+      estimated: entry.estimated,
+    });
+    return entry;
+  }
+
+  async getEntries(filter: UsageFilter = {}): Promise<UsageEntry[]> {
+    const entries = await this.load();
+    return entries.filter(entry =>
+      (!filter.threadId || entry.threadId === filter.threadId) &&
+      (!filter.workspaceId || entry.workspaceId === filter.workspaceId) &&
+      (!filter.model || entry.model === filter.model) &&
+      (!filter.kind || entry.kind === filter.kind) &&
+      (!filter.since || entry.createdAt >= filter.since)
+    );
+  }
+
+  /**
+   * Totals across the account, or for whatever the filter selects
+   */
+  async getTotals(filter: UsageFilter = {}): Promise<UsageTotals> {
+    return sumEntries(await this.getEntries(filter));
+  }
+
+  /**
+   * Totals grouped by thread, workspace or model, most expensive first
+   */
+  async getTotalsBy(groupBy: UsageGroupBy, filter: UsageFilter = {}): Promise<Array<{ key: string; totals: UsageTotals }>> {
+    const groups = new Map<string, UsageEntry[]>();
+
+    for (const entry of await this.getEntries(filter)) {
+      const key =
+        (groupBy === 'thread' ? entry.threadId : groupBy === 'workspace' ? entry.workspaceId : entry.model) ||
+        'unknown';
+      groups.set(key, [...(groups.get(key) || []), entry]);
+    }
+
+    return Array.from(groups.entries())
+      .map(([key, entries]) => ({ key, totals: sumEntries(entries) }))
+      .sort((a, b) => b.totals.costDollars - a.totals.costDollars);
+  }
+
+  async clear(): Promise<void> {
+    await this.update(() => []);
+  }
+
+  /**
+   * The ledger is kept per signed-in account
+   */
+  private async getStorageKey(): Promise<string> {
+    try {
+      const { data } = await supabase.auth.getSession();
+      return `${LEDGER_STORAGE_PREFIX}${data.session?.user?.id || 'anonymous'}`;
+    } catch {
+      return `${LEDGER_STORAGE_PREFIX}anonymous`;
+    }
+  }
+
+  private async load(): Promise<UsageEntry[]> {
+    const storageKey = await this.getStorageKey();
+    if (this.entries && this.storageKey === storageKey) return this.entries;
+
+    try {
+      const stored = await AsyncStorage.getItem(storageKey);
+      this.entries = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('💰 [UsageLedger] Error loading ledger:', error);
+      this.entries = [];
+    }
+
+    this.storageKey = storageKey;
+    return this.entries!;
+  }
+
+  private update(mutate: (entries: UsageEntry[]) => UsageEntry[]): Promise<void> {
+    // Serialize writes so concurrent records don't clobber each other
+    this.writeQueue = this.writeQueue.then(async () => {
+      const entries = mutate(await this.load());
+      this.entries = entries;
+
+      try {
+        await AsyncStorage.setItem(this.storageKey!, JSON.stringify(entries));
+      } catch (error) {
+        console.error('💰 [UsageLedger] Error saving ledger:', error);
+      }
+    });
+
+    return this.writeQueue;
+  }
+}
+
+function sumEntries(entries: UsageEntry[]): UsageTotals {
+  return entries.reduce<UsageTotals>((totals, entry) => ({
+    promptTokens: totals.promptTokens + entry.promptTokens,
+    completionTokens: totals.completionTokens + entry.completionTokens,
+    reasoningTokens: totals.reasoningTokens + entry.reasoningTokens,
+    totalTokens: totals.totalTokens + entry.promptTokens + entry.completionTokens + entry.reasoningTokens,
+    imageCount: totals.imageCount + entry.imageCount,
+    searchCount: totals.searchCount + (entry.kind === 'web_search' ? 1 : 0),
+    costDollars: totals.costDollars + entry.costDollars,
+    entryCount: totals.entryCount + 1,
+  }), { ...EMPTY_TOTALS });
+}
+
+// Export singleton instance
+export const usageLedger = UsageLedger.getInstance();
+
+export default usageLedger;
@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase';
+import { CacheUtils, SimpleLRUCache } from './streamingUtils';
 
 // Rate limiting implementation
 interface RateLimitState {
@@ -24,6 +25,8 @@ const checkRateLimit = async (key: string, maxRequests = 50, windowMs = 60000) =
   rateLimitStates.set(key, state);
 };
 
+export type WebSearchRecency = 'day' | 'week' | 'month' | 'year' | 'any';
+
 export interface WebSearchParams {
   query: string;
   limit?: number;
@@ -34,6 +37,93 @@ export interface WebSearchParams {
     region?: string;
     timezone?: string;
   };
+  includeDomains?: string[]; // Only return results from these domains
+  excludeDomains?: string[]; // Never return results from these domains
+  recency?: WebSearchRecency; // Only return pages published within this window
+  skipCache?: boolean;
+}
+
+/**
+ * Default search settings for a workspace, stored in workspaces.settings.webSearch.
+ * Arguments passed to a search take precedence.
+ */
+export interface WebSearchProfile {
+  includeDomains?: string[];
+  excludeDomains?: string[];
+  recency?: WebSearchRecency;
+  searchContextSize?: 'low' | 'medium' | 'high';
+  limit?: number;
+}
+
+interface CachedSearch {
+  result: WebSearchResult;
+  cachedAt: number;
+}
+
+// Identical searches within this window are answered from the cache
+const SEARCH_CACHE_TTL_MS = 60 * 60 * 1000;
+const SEARCH_CACHE_SIZE = 100;
+// Only the most recent searches are kept on the device
+const PERSISTED_CACHE_SIZE = 30;
+const SEARCH_CACHE_STORAGE_KEY = '@webSearchCache';
+const searchProfileStorageKey = (workspaceId: string) => `@webSearchProfile:${workspaceId}`;
+// Source text kept per result in the persisted cache
+const PERSISTED_SOURCE_TEXT_CHARS = 1000;
+
+const RECENCY_DAYS: Record<Exclude<WebSearchRecency, 'any'>, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+  year: 365,
+};
+
+/**
+ * Normalize user-entered domains: lowercase host only, no scheme, path or www.
+ */
+export function normalizeDomains(domains?: string[]): string[] {
+  if (!Array.isArray(domains)) return [];
+
+  const normalized = domains
+    .map(domain => (domain || '')
+      .trim()
+      .toLowerCase()
+      .replace(/^[a-z]+:\/\//, '')
+      .replace(/^www\./, '')
+      .split(/[/?#]/)[0])
+    .filter(Boolean);
+
+  return Array.from(new Set(normalized)).sort();
+}
+
+// Raw provider data and full page text would make the stored cache too large
+function compactForStorage(entry: CachedSearch): CachedSearch {
+  return {
+    ...entry,
+    result: {
+      ...entry.result,
+      data: [],
+      sources: entry.result.sources.map(source => ({
+        ...source,
+        text: source.text?.substring(0, PERSISTED_SOURCE_TEXT_CHARS) || '',
+      })),
+    },
+  };
+}
+
+/**
+ * Merge a workspace profile under explicit search params
+ */
+export function applySearchProfile(params: WebSearchParams, profile?: WebSearchProfile | null): WebSearchParams {
+  if (!profile) return params;
+
+  return {
+    ...params,
+    limit: params.limit ?? profile.limit,
+    searchContextSize: params.searchContextSize ?? profile.searchContextSize,
+    includeDomains: params.includeDomains?.length ? params.includeDomains : profile.includeDomains,
+    excludeDomains: Array.from(new Set([...(profile.excludeDomains || []), ...(params.excludeDomains || [])])),
+    recency: params.recency ?? profile.recency,
+  };
 }
 
 export interface WebSearchSource {
@@ -61,6 +151,12 @@ export interface WebSearchResult {
     totalSources: number;
     usage?: any;
     costDollars?: any;
+    cached?: boolean; // Served from the cache without calling the provider
+    filters?: {
+      includeDomains: string[];
+      excludeDomains: string[];
+      recency?: WebSearchRecency;
+    };
   };
   data: WebSearchSource[];
   totalResults: number;
@@ -86,6 +182,9 @@ export interface WebSearchError {
 export class WebSearchService {
   private static instance: WebSearchService;
   private baseUrl: string;
+  private cache = new SimpleLRUCache(SEARCH_CACHE_SIZE);
+  private cacheLoaded: Promise<void> | null = null;
+  private profiles = new Map<string, WebSearchProfile | null>(); // Workspace profiles read this session
 
   private constructor() {
     this.baseUrl = process.env.EXPO_PUBLIC_API_BASE_URL || 'https://assistantservicesapi.onrender.com';
@@ -98,18 +197,23 @@ export class WebSearchService {
     return WebSearchService.instance;
   }
 
-  async search(params: WebSearchParams): Promise<WebSearchResult | WebSearchError> {
+  async search(params: WebSearchParams, signal?: AbortSignal): Promise<WebSearchResult | WebSearchError> {
     const {
       query,
       limit = 10,
       searchContextSize = 'medium',
       userLocation,
+      recency,
+      skipCache,
     } = params;
+    const includeDomains = normalizeDomains(params.includeDomains);
+    const excludeDomains = normalizeDomains(params.excludeDomains)
+      .filter(domain => !includeDomains.includes(domain));
+    const startPublishedDate = recency && recency !== 'any'
+      ? new Date(Date.now() - RECENCY_DAYS[recency] * 24 * 60 * 60 * 1000).toISOString()
+      : undefined;
 
     try {
-      // Apply rate limiting
-      await checkRateLimit('web_search', 50, 60000);
-
       // Validate inputs
       if (!query?.trim()) {
         return {
@@ -120,10 +224,38 @@ export class WebSearchService {
         };
       }
 
+      const cacheKey = JSON.stringify({
+        query: query.trim().toLowerCase(),
+        limit,
+        searchContextSize,
+        userLocation: userLocation || null,
+        includeDomains,
+        excludeDomains,
+        recency: recency || 'any',
+      });
+
+      if (!skipCache) {
+        const cached = await this.getCachedSearch(cacheKey);
+        if (cached) {
+          console.log(`🔍 [WebSearchService] Cache hit for "${query}"`);
+          return {
+            ...cached,
+            metadata: { ...cached.metadata, cached: true },
+          };
+        }
+      }
+
+      // Apply rate limiting
+      await checkRateLimit('web_search', 50, 60000);
+
       // Get user info for tracking
       const { data: { user } } = await supabase.auth.getUser();
       
-      console.log(`🔍 [WebSearchService] Executing search: "${query}"`);
+      console.log(`🔍 [WebSearchService] Executing search: "${query}"`, {
+        includeDomains,
+        excludeDomains,
+        recency,
+      });
 
       // Call the web search API endpoint
       const response = await fetch(`${this.baseUrl}/api/tools/web-search`, {
@@ -136,7 +268,12 @@ export class WebSearchService {
           limit,
           searchContextSize,
           userLocation,
+          includeDomains: includeDomains.length > 0 ? includeDomains : undefined,
+          excludeDomains: excludeDomains.length > 0 ? excludeDomains : undefined,
+          recency,
+          startPublishedDate,
         }),
+        signal,
       });
 
       if (!response.ok) {
@@ -213,6 +350,8 @@ export class WebSearchService {
           totalSources: searchResults.length,
           usage: actualUsage,
           costDollars: costInfo,
+          cached: false,
+          filters: { includeDomains, excludeDomains, recency },
         },
 
         // Additional properties for compatibility
@@ -230,6 +369,8 @@ export class WebSearchService {
         isError: false,
       };
 
+      this.setCachedSearch(cacheKey, formattedResult);
+
       return formattedResult;
     } catch (error: any) {
       console.error(`🔍 [WebSearchService] Search failed:`, error);
@@ -245,6 +386,125 @@ export class WebSearchService {
     }
   }
 
+  /**
+   * Default search settings of a workspace, or null when none are set. Read
+   * from Supabase once per session (or on `refresh`) so changes made on other
+   * devices apply; the stored copy is only used when Supabase can't be reached.
+   */
+  async getWorkspaceProfile(
+    workspaceId?: string,
+    options: { signal?: AbortSignal; refresh?: boolean } = {}
+  ): Promise<WebSearchProfile | null> {
+    if (!workspaceId) return null;
+    if (!options.refresh && this.profiles.has(workspaceId)) {
+      return this.profiles.get(workspaceId) || null;
+    }
+
+    const storageKey = searchProfileStorageKey(workspaceId);
+    let query = supabase
+      .from('workspaces')
+      .select('settings')
+      .eq('id', workspaceId);
+    if (options.signal) {
+      query = query.abortSignal(options.signal);
+    }
+    const { data, error } = await query.single();
+
+    if (error) {
+      console.warn('🔍 [WebSearchService] Failed to load workspace search profile, using stored copy:', error);
+      return (await CacheUtils.getFromStorage(storageKey)) || null;
+    }
+
+    const profile: WebSearchProfile | null = data?.settings?.webSearch || null;
+    this.profiles.set(workspaceId, profile);
+    if (profile) {
+      await CacheUtils.setToStorage(storageKey, profile);
+    } else {
+      await CacheUtils.removeFromStorage(storageKey);
+    }
+    return profile;
+  }
+
+  async saveWorkspaceProfile(workspaceId: string, profile: WebSearchProfile): Promise<WebSearchProfile> {
+    const normalized: WebSearchProfile = {
+      ...profile,
+      includeDomains: normalizeDomains(profile.includeDomains),
+      excludeDomains: normalizeDomains(profile.excludeDomains),
+    };
+
+    const { data, error } = await supabase
+      .from('workspaces')
+      .select('settings')
+      .eq('id', workspaceId)
+      .single();
+
+    if (error) throw error;
+
+    const { error: updateError } = await supabase
+      .from('workspaces')
+      .update({ settings: { ...(data?.settings || {}), webSearch: normalized } })
+      .eq('id', workspaceId);
+
+    if (updateError) {
+      console.error('🔍 [WebSearchService] Failed to save workspace search profile:', updateError);
+      throw updateError;
+    }
+
+    this.profiles.set(workspaceId, normalized);
+    await CacheUtils.setToStorage(searchProfileStorageKey(workspaceId), normalized);
+    console.log('🔍 [WebSearchService] Saved workspace search profile:', { workspaceId, ...normalized });
+    return normalized;
+  }
+
+  async clearCache(): Promise<void> {
+    await this.loadPersistedCache();
+    this.cache.clear();
+    await CacheUtils.removeFromStorage(SEARCH_CACHE_STORAGE_KEY);
+  }
+
+  private async getCachedSearch(key: string): Promise<WebSearchResult | null> {
+    await this.loadPersistedCache();
+
+    const entry: CachedSearch | undefined = this.cache.get(key);
+    if (!entry) return null;
+
+    if (Date.now() - entry.cachedAt > SEARCH_CACHE_TTL_MS) {
+      this.cache.delete(key);
+      return null;
+    }
+    return entry.result;
+  }
+
+  private setCachedSearch(key: string, result: WebSearchResult): void {
+    const entry: CachedSearch = { result, cachedAt: Date.now() };
+
+    // Persist the newest entries so repeated searches survive an app restart
+    this.loadPersistedCache().then(() => {
+      this.cache.set(key, entry);
+      const recent = this.cache.entries()
+        .slice(-PERSISTED_CACHE_SIZE)
+        .map(([cacheKey, cached]: [string, CachedSearch]) => [cacheKey, compactForStorage(cached)]);
+      return CacheUtils.setToStorage(SEARCH_CACHE_STORAGE_KEY, recent);
+    });
+  }
+
+  private loadPersistedCache(): Promise<void> {
+    if (!this.cacheLoaded) {
+      this.cacheLoaded = CacheUtils.getFromStorage(SEARCH_CACHE_STORAGE_KEY).then(stored => {
+        if (!Array.isArray(stored)) return;
+
+        const now = Date.now();
+        stored.forEach(([key, entry]: [string, CachedSearch]) => {
+          // Entries made in this session are newer than the stored copy
+          if (!this.cache.has(key) && now - entry?.cachedAt <= SEARCH_CACHE_TTL_MS) {
+            this.cache.set(key, entry);
+          }
+        });
+      });
+    }
+    return this.cacheLoaded;
+  }
+
   // Helper method to extract domain from URL
   static extractDomain(url: string): string {
     try {
@@ -2,6 +2,8 @@ import { supabase } from './supabase';
 import { AuthManager } from './auth';
 import { ChatCompletionService } from './services/chatCompletionService';
 import { OpenAIService } from './openai';
+import { customProviderService } from './services/customProviderService';
+import { isCustomModel } from '@/constants/Models';
 
 export interface Thread {
   id: string;
@@ -23,6 +25,12 @@ export interface CreateThreadOptions {
   metadata?: any;
 }
 
+const buildTitlePrompt = (userMessage: string) => `Generate a concise, descriptive title (max 50 characters) for a conversation that starts with this message. The title should capture the main topic or intent. Return only the title, no quotes or extra text.
+
+Message: "${userMessage}"
+
+Title:`;
+
 export class ThreadManager {
   /**
    * Create a new thread in the user's personal workspace
@@ -294,9 +302,14 @@ export class ThreadManager {
   /**
    * Generate AI-powered thread title based on user message
    */
-  static async generateThreadTitle(userMessage: string): Promise<string> {
+  static async generateThreadTitle(userMessage: string, model?: string): Promise<string> {
     try {
       console.log('🧵 ThreadManager: Generating AI title for message...');
+
+      // Custom endpoint chats title themselves without the hosted services
+      if (model && isCustomModel(model)) {
+        return await this.generateCustomModelTitle(userMessage, model);
+      }
       
       // Validate OpenAI API key
       if (!OpenAIService.validateApiKey()) {
@@ -306,11 +319,7 @@ export class ThreadManager {
           : userMessage.trim();
       }
 
-      const titlePrompt = `Generate a concise, descriptive title (max 50 characters) for a conversation that starts with this message. The title should capture the main topic or intent. Return only the title, no quotes or extra text.
-
-Message: "${userMessage}"
-
-Title:`;
+      const titlePrompt = buildTitlePrompt(userMessage);
 
       const generatedTitle = await OpenAIService.createChatCompletion(
         'gpt-3.5-turbo', // Use faster, cheaper model for title generation
@@ -344,15 +353,37 @@ Title:`;
     }
   }
 
+  /**
+   * Title a thread with the custom endpoint model the chat runs on
+   */
+  private static async generateCustomModelTitle(userMessage: string, model: string): Promise<string> {
+    const response = await customProviderService.createChatCompletion({
+      model,
+      messages: [{ role: 'user', content: buildTitlePrompt(userMessage) }],
+      max_tokens: 20,
+      temperature: 0.3,
+    });
+
+    const generatedTitle = response?.choices?.[0]?.message?.content?.trim().replace(/^["']|["']$/g, '');
+    if (!generatedTitle) {
+      throw new Error('Empty response from AI');
+    }
+
+    console.log('🧵 ThreadManager: Generated AI title:', generatedTitle);
+    return generatedTitle.length > 50
+      ? generatedTitle.substring(0, 47) + '...'
+      : generatedTitle;
+  }
+
   /**
    * Update thread title based on first user message using AI
    */
-  static async updateThreadTitle(threadId: string, userMessage: string): Promise<boolean> {
+  static async updateThreadTitle(threadId: string, userMessage: string, model?: string): Promise<boolean> {
     try {
       console.log('🧵 ThreadManager: Updating thread title with AI...');
       
       // Generate AI-powered title
-      const title = await this.generateThreadTitle(userMessage);
+      const title = await this.generateThreadTitle(userMessage, model);
 
       const success = await this.updateThread(threadId, { 
         title,
@@ -0,0 +1,389 @@
+export type CanvasExportFormat = 'markdown' | 'text' | 'html' | 'source';
+
+export interface ExportableCanvas {
+  name: string;
+  type: string;
+  language?: string;
+  content: any; // Plain text or rich-text blocks
+}
+
+export interface CanvasExportFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+interface LanguageFile {
+  extension: string;
+  mimeType: string;
+}
+
+const LANGUAGE_FILES: Record<string, LanguageFile> = {
+  javascript: { extension: 'js', mimeType: 'text/javascript' },
+  js: { extension: 'js', mimeType: 'text/javascript' },
+  jsx: { extension: 'jsx', mimeType: 'text/javascript' },
+  typescript: { extension: 'ts', mimeType: 'text/plain' },
+  ts: { extension: 'ts', mimeType: 'text/plain' },
+  tsx: { extension: 'tsx', mimeType: 'text/plain' },
+  python: { extension: 'py', mimeType: 'text/x-python' },
+  py: { extension: 'py', mimeType: 'text/x-python' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  html: { extension: 'html', mimeType: 'text/html' },
+  css: { extension: 'css', mimeType: 'text/css' },
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  sql: { extension: 'sql', mimeType: 'application/sql' },
+  bash: { extension: 'sh', mimeType: 'application/x-sh' },
+  shell: { extension: 'sh', mimeType: 'application/x-sh' },
+  sh: { extension: 'sh', mimeType: 'application/x-sh' },
+  java: { extension: 'java', mimeType: 'text/x-java' },
+  kotlin: { extension: 'kt', mimeType: 'text/plain' },
+  swift: { extension: 'swift', mimeType: 'text/x-swift' },
+  go: { extension: 'go', mimeType: 'text/x-go' },
+  rust: { extension: 'rs', mimeType: 'text/x-rust' },
+  ruby: { extension: 'rb', mimeType: 'text/x-ruby' },
+  php: { extension: 'php', mimeType: 'application/x-httpd-php' },
+  c: { extension: 'c', mimeType: 'text/x-c' },
+  cpp: { extension: 'cpp', mimeType: 'text/x-c++' },
+  'c++': { extension: 'cpp', mimeType: 'text/x-c++' },
+  csharp: { extension: 'cs', mimeType: 'text/plain' },
+  'c#': { extension: 'cs', mimeType: 'text/plain' },
+  yaml: { extension: 'yaml', mimeType: 'application/yaml' },
+  yml: { extension: 'yaml', mimeType: 'application/yaml' },
+  xml: { extension: 'xml', mimeType: 'application/xml' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  md: { extension: 'md', mimeType: 'text/markdown' },
+};
+
+const FORMAT_FILES: Record<Exclude<CanvasExportFormat, 'source'>, LanguageFile> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  text: { extension: 'txt', mimeType: 'text/plain' },
+  html: { extension: 'html', mimeType: 'text/html' },
+};
+
+export const isCodeCanvas = (canvas: ExportableCanvas) =>
+  canvas.type === 'code' || canvas.type === 'spreadsheet';
+
+/**
+ * Source file details for a code language, falling back to .txt
+ */
+export function getLanguageFile(language?: string): LanguageFile {
+  return LANGUAGE_FILES[(language || '').toLowerCase()] || { extension: 'txt', mimeType: 'text/plain' };
+}
+
+/**
+ * Formats offered for a canvas; code canvases also export as a source file
+ */
+export function getExportFormats(canvas: ExportableCanvas): CanvasExportFormat[] {
+  return isCodeCanvas(canvas)
+    ? ['source', 'markdown', 'text', 'html']
+    : ['markdown', 'text', 'html'];
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Inline content of a block: text runs with styles, and links
+function inlineToMarkdown(items: any): string {
+  if (typeof items === 'string') return items;
+  if (!Array.isArray(items)) return '';
+
+  return items.map((item: any) => {
+    if (item?.type === 'link') {
+      return `[${inlineToMarkdown(item.content)}](${item.href || ''})`;
+    }
+
+    let text: string = item?.text || '';
+    if (!text.trim()) return text;
+
+    const styles = item?.styles || {};
+    if (styles.code) text = `\`${text}\``;
+    if (styles.bold) text = `**${text}**`;
+    if (styles.italic) text = `*${text}*`;
+    if (styles.strike) text = `~~${text}~~`;
+    return text;
+  }).join('');
+}
+
+function inlineToPlainText(items: any): string {
+  if (typeof items === 'string') return items;
+  if (!Array.isArray(items)) return '';
+  return items.map((item: any) => (item?.type === 'link' ? inlineToPlainText(item.content) : item?.text || '')).join('');
+}
+
+function tableToMarkdown(content: any): string {
+  const rows: any[] = content?.rows || [];
+  if (rows.length === 0) return '';
+
+  const lines = rows.map(row =>
+    `| ${(row.cells || []).map((cell: any) => inlineToMarkdown(cell).replace(/\|/g, '\\|')).join(' | ')} |`
+  );
+  const columnCount = rows[0].cells?.length || 1;
+  lines.splice(1, 0, `| ${Array(columnCount).fill('---').join(' | ')} |`);
+  return lines.join('\n');
+}
+
+/**
+ * Convert rich-text blocks (heading, paragraph, list items, code, table...) to Markdown
+ */
+export function blocksToMarkdown(blocks: any[], depth = 0): string {
+  const indent = '  '.repeat(depth);
+  let numbered = 0;
+
+  const lines = blocks.map(block => {
+    const type = block?.type || 'paragraph';
+    if (type !== 'numberedListItem') numbered = 0;
+
+    let line: string;
+    switch (type) {
+      case 'heading':
+        line = `${'#'.repeat(Math.min(block.props?.level || 1, 6))} ${inlineToMarkdown(block.content)}`;
+        break;
+      case 'bulletListItem':
+        line = `${indent}- ${inlineToMarkdown(block.content)}`;
+        break;
+      case 'numberedListItem':
+        numbered++;
+        line = `${indent}${numbered}. ${inlineToMarkdown(block.content)}`;
+        break;
+      case 'checkListItem':
+        line = `${indent}- [${block.props?.checked ? 'x' : ' '}] ${inlineToMarkdown(block.content)}`;
+        break;
+      case 'codeBlock':
+        line = `\`\`\`${block.props?.language || ''}\n${inlineToPlainText(block.content)}\n\`\`\``;
+        break;
+      case 'quote':
+        line = `> ${inlineToMarkdown(block.content)}`;
+        break;
+      case 'table':
+        line = tableToMarkdown(block.content);
+        break;
+      case 'image':
+        line = `![${block.props?.caption || block.props?.name || ''}](${block.props?.url || ''})`;
+        break;
+      default:
+        line = `${indent}${typeof block === 'string' ? block : inlineToMarkdown(block?.content ?? block?.text)}`;
+    }
+
+    if (Array.isArray(block?.children) && block.children.length > 0) {
+      line += `\n${blocksToMarkdown(block.children, depth + 1)}`;
+    }
+    return line;
+  });
+
+  // Items of the same list stay together; other blocks get a blank line between them
+  return lines.reduce((markdown, line, index) => {
+    if (index === 0) return line;
+    const type = blocks[index]?.type || '';
+    const sameList = /ListItem$/.test(type) && type === blocks[index - 1]?.type;
+    const separator = sameList ? '\n' : '\n\n';
+    return markdown + separator + line;
+  }, '');
+}
+
+// Exported HTML opens in browsers, so javascript:, data: and relative URLs are dropped
+const SAFE_URL_PATTERN = /^(?:https?:\/\/|mailto:)/i;
+
+const isSafeUrl = (url: string) => SAFE_URL_PATTERN.test(url.trim());
+
+function inlineMarkdownToHtml(text: string): string {
+  return escapeHtml(text)
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*([^*]+)\*/g, '<em>$1</em>')
+    .replace(/~~([^~]+)~~/g, '<del>$1</del>')
+    .replace(/!\[([^\]]*)\]\(([^)]+)\)/g, (_match, alt: string, src: string) =>
+      isSafeUrl(src) ? `<img alt="${alt}" src="${src.trim()}" />` : alt)
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, (_match, label: string, href: string) =>
+      isSafeUrl(href) ? `<a href="${href.trim()}">${label}</a>` : label);
+}
+
+/**
+ * Small Markdown to HTML conversion covering what canvases produce: headings,
+ * lists, quotes, fenced code, tables and inline styles
+ */
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown.split('\n');
+  const html: string[] = [];
+  let listTag: 'ul' | 'ol' | null = null;
+  let paragraph: string[] = [];
+
+  const closeParagraph = () => {
+    if (paragraph.length > 0) {
+      html.push(`<p>${paragraph.map(inlineMarkdownToHtml).join('<br />')}</p>`);
+      paragraph = [];
+    }
+  };
+  const closeList = () => {
+    if (listTag) {
+      html.push(`</${listTag}>`);
+      listTag = null;
+    }
+  };
+  const openList = (tag: 'ul' | 'ol') => {
+    if (listTag !== tag) {
+      closeList();
+      html.push(`<${tag}>`);
+      listTag = tag;
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    const fence = trimmed.match(/^```(\S*)/);
+    if (fence) {
+      closeParagraph();
+      closeList();
+      const code: string[] = [];
+      while (i + 1 < lines.length && !lines[i + 1].trim().startsWith('```')) {
+        code.push(lines[++i]);
+      }
+      i++; // closing fence
+      const languageClass = fence[1] ? ` class="language-${escapeHtml(fence[1])}"` : '';
+      html.push(`<pre><code${languageClass}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    if (!trimmed) {
+      closeParagraph();
+      closeList();
+      continue;
+    }
+
+    const heading = trimmed.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = trimmed.match(/^[-*]\s+(?:\[([ x])\]\s+)?(.*)$/);
+    const numbered = trimmed.match(/^\d+\.\s+(.*)$/);
+
+    if (heading) {
+      closeParagraph();
+      closeList();
+      const level = heading[1].length;
+      html.push(`<h${level}>${inlineMarkdownToHtml(heading[2])}</h${level}>`);
+    } else if (bullet) {
+      closeParagraph();
+      openList('ul');
+      const checkbox = bullet[1] !== undefined
+        ? `<input type="checkbox" disabled${bullet[1] === 'x' ? ' checked' : ''} /> `
+        : '';
+      html.push(`<li>${checkbox}${inlineMarkdownToHtml(bullet[2])}</li>`);
+    } else if (numbered) {
+      closeParagraph();
+      openList('ol');
+      html.push(`<li>${inlineMarkdownToHtml(numbered[1])}</li>`);
+    } else if (trimmed.startsWith('>')) {
+      closeParagraph();
+      closeList();
+      html.push(`<blockquote>${inlineMarkdownToHtml(trimmed.replace(/^>\s?/, ''))}</blockquote>`);
+    } else if (trimmed.startsWith('|') && lines[i + 1]?.trim().match(/^\|[\s|:-]+\|$/)) {
+      closeParagraph();
+      closeList();
+      const cells = (row: string) => row.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim());
+      const header = cells(trimmed).map(cell => `<th>${inlineMarkdownToHtml(cell)}</th>`).join('');
+      const body: string[] = [];
+      i++; // separator row
+      while (i + 1 < lines.length && lines[i + 1].trim().startsWith('|')) {
+        body.push(`<tr>${cells(lines[++i]).map(cell => `<td>${inlineMarkdownToHtml(cell)}</td>`).join('')}</tr>`);
+      }
+      html.push(`<table><thead><tr>${header}</tr></thead><tbody>${body.join('')}</tbody></table>`);
+    } else {
+      closeList();
+      paragraph.push(trimmed);
+    }
+  }
+
+  closeParagraph();
+  closeList();
+  return html.join('\n');
+}
+
+function wrapHtmlDocument(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: -apple-system, system-ui, sans-serif; line-height: 1.6; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #1e293b; }
+pre { background: #f1f5f9; padding: 1rem; border-radius: 8px; overflow-x: auto; }
+code { font-family: Menlo, Consolas, monospace; font-size: 0.9em; }
+blockquote { border-left: 3px solid #cbd5e1; margin: 0; padding-left: 1rem; color: #475569; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #cbd5e1; padding: 0.4rem 0.75rem; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Canvas content as Markdown: blocks are converted, code is fenced, text is kept as is
+ */
+export function canvasToMarkdown(canvas: ExportableCanvas): string {
+  const { content } = canvas;
+  if (Array.isArray(content)) return blocksToMarkdown(content);
+
+  const text = typeof content === 'string' ? content : JSON.stringify(content ?? '', null, 2);
+  return isCodeCanvas(canvas) ? `\`\`\`${canvas.language || ''}\n${text}\n\`\`\`` : text;
+}
+
+/**
+ * Canvas content without any markup
+ */
+export function canvasToPlainText(canvas: ExportableCanvas): string {
+  const { content } = canvas;
+  if (Array.isArray(content)) {
+    return content.map(block => inlineToPlainText(block?.content ?? block?.text)).join('\n');
+  }
+  return typeof content === 'string' ? content : JSON.stringify(content ?? '', null, 2);
+}
+
+function toFileBaseName(name: string): string {
+  const base = name.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_');
+  return base || 'canvas';
+}
+
+/**
+ * Build the file for one export format
+ */
+export function buildCanvasExport(canvas: ExportableCanvas, format: CanvasExportFormat): CanvasExportFile {
+  const baseName = toFileBaseName(canvas.name);
+
+  switch (format) {
+    case 'source': {
+      const { extension, mimeType } = getLanguageFile(canvas.language);
+      return { fileName: `${baseName}.${extension}`, mimeType, content: canvasToPlainText(canvas) };
+    }
+    case 'html': {
+      const body = isCodeCanvas(canvas) && canvas.language?.toLowerCase() === 'html'
+        ? `<pre><code>${escapeHtml(canvasToPlainText(canvas))}</code></pre>`
+        : markdownToHtml(canvasToMarkdown(canvas));
+      return {
+        fileName: `${baseName}.${FORMAT_FILES.html.extension}`,
+        mimeType: FORMAT_FILES.html.mimeType,
+        content: wrapHtmlDocument(canvas.name, body),
+      };
+    }
+    case 'text':
+      return {
+        fileName: `${baseName}.${FORMAT_FILES.text.extension}`,
+        mimeType: FORMAT_FILES.text.mimeType,
+        content: canvasToPlainText(canvas),
+      };
+    case 'markdown':
+    default:
+      return {
+        fileName: `${baseName}.${FORMAT_FILES.markdown.extension}`,
+        mimeType: FORMAT_FILES.markdown.mimeType,
+        content: canvasToMarkdown(canvas),
+      };
+  }
+}
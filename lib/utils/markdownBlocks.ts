@@ -0,0 +1,93 @@
+/**
+ * Markdown split into top-level blocks. Everything before `offset` is in
+ * `blocks` and only changes if a later reference definition pulls blocks back
+ * into the open one; the rest is the block still being written.
+ */
+export interface MarkdownBlocks {
+  source: string;
+  blocks: string[];
+  offset: number;
+}
+
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+const LIST_ITEM_PATTERN = /^(?:[*+-]|\d{1,9}[.)])(?:\s|$)/;
+const REFERENCE_DEFINITION_PATTERN = /^ {0,3}\[([^\]]+)\]:\s*\S/;
+
+/**
+ * Split markdown into completed blocks and a trailing open block. A block ends
+ * at a blank line followed by an unindented line, outside code fences, so list
+ * items and indented continuations stay together. Loose lists (items separated
+ * by blank lines) stay one block, and a reference definition such as `[1]: url`
+ * pulls the first block that uses it and everything after it into the open
+ * block, so the links resolve. Pass the previous result to only scan the text
+ * after its last completed block.
+ */
+export function splitMarkdownBlocks(content: string, previous?: MarkdownBlocks): MarkdownBlocks {
+  const canResume = !!previous &&
+    content.length >= previous.offset &&
+    content.startsWith(previous.source.slice(0, previous.offset));
+
+  const blocks = canResume ? [...previous!.blocks] : [];
+  let blockStart = canResume ? previous!.offset : 0;
+  let lineStart = blockStart;
+  let fence: string | null = null;
+  let hasText = false;
+  let sawBlankLine = false;
+  let inList = false;
+  let hasReferences = false;
+
+  while (lineStart < content.length) {
+    const lineEnd = content.indexOf('\n', lineStart);
+    if (lineEnd === -1) break; // The last line is still being written
+
+    const line = content.slice(lineStart, lineEnd);
+    const fenceMatch = line.match(FENCE_PATTERN);
+
+    if (fence) {
+      // Closing fence: same character, at least as long, nothing after it
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length &&
+          line.trim() === fenceMatch[1]) {
+        fence = null;
+      }
+    } else if (line.trim() === '') {
+      sawBlankLine = hasText;
+    } else {
+      const isListItem = LIST_ITEM_PATTERN.test(line);
+      const referenceMatch = line.match(REFERENCE_DEFINITION_PATTERN);
+
+      if (sawBlankLine && !/^\s/.test(line) && !hasReferences && !(inList && isListItem)) {
+        blocks.push(content.slice(blockStart, lineStart));
+        blockStart = lineStart;
+      }
+
+      if (referenceMatch) {
+        blockStart = mergeBlocksUsingReference(blocks, blockStart, referenceMatch[1]);
+        hasReferences = true;
+      }
+
+      if (!/^\s/.test(line)) {
+        inList = isListItem;
+      }
+      sawBlankLine = false;
+      hasText = true;
+      fence = fenceMatch ? fenceMatch[1] : null;
+    }
+
+    lineStart = lineEnd + 1;
+  }
+
+  return { source: content, blocks, offset: blockStart };
+}
+
+/**
+ * Drop completed blocks from the first one that uses `label` onward and
+ * return where the open block now starts.
+ */
+function mergeBlocksUsingReference(blocks: string[], blockStart: number, label: string): number {
+  const usage = `[${label.toLowerCase()}]`;
+  const firstUse = blocks.findIndex(block => block.toLowerCase().includes(usage));
+  if (firstUse === -1) return blockStart;
+
+  const merged = blocks.splice(firstUse);
+  return blockStart - merged.reduce((length, block) => length + block.length, 0);
+}
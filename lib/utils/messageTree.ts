@@ -0,0 +1,114 @@
+/**
+ * Conversation tree helpers. Every message points at the message it follows
+ * (`parentId`, null for the first turn), so edits and reruns become siblings
+ * and the thread shown is one path from the root to a leaf.
+ */
+export interface TreeMessage {
+  id: string;
+  parentId?: string | null;
+}
+
+export interface MessageTree<T extends TreeMessage> {
+  byId: Map<string, T>;
+  children: Map<string | null, T[]>; // Keyed by parent id, null for roots; in creation order
+}
+
+// Key for the root level in branch selections
+export const ROOT_BRANCH_KEY = '__root__';
+
+/**
+ * Branch chosen at each fork, keyed by parent id (ROOT_BRANCH_KEY for roots).
+ * Forks without a selection follow their newest child.
+ */
+export type BranchSelections = Record<string, string>;
+
+export function buildMessageTree<T extends TreeMessage>(messages: T[]): MessageTree<T> {
+  const byId = new Map<string, T>();
+  messages.forEach(message => byId.set(message.id, message));
+
+  const children = new Map<string | null, T[]>();
+  for (const message of messages) {
+    // Orphans (parent deleted or never saved) hang off the root so they stay reachable
+    const parentKey = message.parentId && byId.has(message.parentId) ? message.parentId : null;
+    const siblings = children.get(parentKey);
+    if (siblings) {
+      siblings.push(message);
+    } else {
+      children.set(parentKey, [message]);
+    }
+  }
+
+  return { byId, children };
+}
+
+export function getParentKey<T extends TreeMessage>(tree: MessageTree<T>, message: T): string | null {
+  return message.parentId && tree.byId.has(message.parentId) ? message.parentId : null;
+}
+
+/**
+ * Messages sharing a parent with `message`, including itself
+ */
+export function getSiblings<T extends TreeMessage>(tree: MessageTree<T>, message: T): T[] {
+  return tree.children.get(getParentKey(tree, message)) || [message];
+}
+
+/**
+ * Path from the root down to `messageId`, inclusive
+ */
+export function getBranchPath<T extends TreeMessage>(tree: MessageTree<T>, messageId: string | null | undefined): T[] {
+  const path: T[] = [];
+  const visited = new Set<string>();
+  let current = messageId ? tree.byId.get(messageId) : undefined;
+
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    path.unshift(current);
+    const parentKey = getParentKey(tree, current);
+    current = parentKey ? tree.byId.get(parentKey) : undefined;
+  }
+
+  return path;
+}
+
+/**
+ * Follow the selected (or newest) child from the root to a leaf
+ */
+export function getActiveBranch<T extends TreeMessage>(tree: MessageTree<T>, selections: BranchSelections): T[] {
+  const path: T[] = [];
+  let parentKey: string | null = null;
+
+  while (path.length < tree.byId.size) {
+    const children = tree.children.get(parentKey);
+    if (!children?.length) break;
+
+    const selectedId: string | undefined = selections[parentKey ?? ROOT_BRANCH_KEY];
+    const next: T = children.find(child => child.id === selectedId) || children[children.length - 1];
+    path.push(next);
+    parentKey = next.id;
+  }
+
+  return path;
+}
+
+/**
+ * Selections that make `message` part of the active branch
+ */
+export function selectBranch<T extends TreeMessage>(
+  tree: MessageTree<T>,
+  selections: BranchSelections,
+  message: T
+): BranchSelections {
+  const next = { ...selections };
+  getBranchPath(tree, message.id).forEach(node => {
+    next[getParentKey(tree, node) ?? ROOT_BRANCH_KEY] = node.id;
+  });
+  return next;
+}
+
+/**
+ * True when any of the first `count` messages on the path has siblings, i.e.
+ * the path forked somewhere in that range
+ */
+export function hasForkWithin<T extends TreeMessage>(tree: MessageTree<T>, path: T[], count: number): boolean {
+  return path.slice(0, count).some(message => getSiblings(tree, message).length > 1);
+}
@@ -0,0 +1,148 @@
+/**
+ * One uninterrupted stretch of reasoning. Agent loops and tool follow-ups
+ * produce one phase per model call.
+ */
+export interface ReasoningPhase {
+  offset: number; // Start of the phase in the trace content
+  durationMs: number;
+}
+
+/**
+ * Reasoning trace persisted in thread_messages.metadata.reasoningMetadata
+ */
+export interface ReasoningTrace {
+  model?: string;
+  startedAt?: number;
+  completedAt?: number;
+  durationMs: number;
+  phases: ReasoningPhase[];
+}
+
+export interface ReasoningStep {
+  title?: string;
+  content: string;
+}
+
+export interface ReasoningTraceRecorder {
+  append: (delta: string) => void;
+  endPhase: () => boolean; // True when a phase was open
+  getContent: () => string;
+  snapshot: () => ReasoningTrace;
+}
+
+/**
+ * Collect reasoning deltas for one assistant message, timing each phase from
+ * its first to its last delta
+ */
+export function createReasoningTraceRecorder(model?: string): ReasoningTraceRecorder {
+  let content = '';
+  let startedAt: number | undefined;
+  let completedAt: number | undefined;
+  const phases: ReasoningPhase[] = [];
+  let openPhase: { offset: number; startedAt: number; lastDeltaAt: number } | null = null;
+
+  const endPhase = () => {
+    if (!openPhase) return false;
+    phases.push({ offset: openPhase.offset, durationMs: openPhase.lastDeltaAt - openPhase.startedAt });
+    completedAt = openPhase.lastDeltaAt;
+    openPhase = null;
+    return true;
+  };
+
+  return {
+    append: (delta: string) => {
+      if (!delta) return;
+      const now = Date.now();
+
+      if (!openPhase) {
+        // Keep phases apart so they segment into separate steps
+        if (content && !content.endsWith('\n\n')) {
+          content += '\n\n';
+        }
+        openPhase = { offset: content.length, startedAt: now, lastDeltaAt: now };
+        startedAt = startedAt ?? now;
+      }
+
+      content += delta;
+      openPhase.lastDeltaAt = now;
+    },
+    endPhase,
+    getContent: () => content,
+    snapshot: () => {
+      const closed = [...phases];
+      if (openPhase) {
+        closed.push({ offset: openPhase.offset, durationMs: Date.now() - openPhase.startedAt });
+      }
+      return {
+        model,
+        startedAt,
+        completedAt: openPhase ? undefined : completedAt,
+        durationMs: closed.reduce((total, phase) => total + phase.durationMs, 0),
+        phases: closed,
+      };
+    },
+  };
+}
+
+/**
+ * Duration of a stored trace in ms. Older messages stored `duration` instead.
+ */
+export function getReasoningDurationMs(metadata: any): number | undefined {
+  if (typeof metadata?.durationMs === 'number') return metadata.durationMs;
+  if (typeof metadata?.duration === 'number') return metadata.duration;
+  return undefined;
+}
+
+/**
+ * "Thought for 12s" style label
+ */
+export function formatReasoningDuration(durationMs: number | undefined): string {
+  if (durationMs === undefined) return 'Thought';
+
+  const seconds = Math.round(durationMs / 1000);
+  if (seconds < 1) return 'Thought for a moment';
+  if (seconds < 60) return `Thought for ${seconds}s`;
+  return `Thought for ${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+const STEP_TITLE_PATTERN = /^(?:#{1,6}\s+(.+)|\*\*([^*]+)\*\*)\s*$/;
+
+/**
+ * Split reasoning into steps. Phases always start a new step; within a phase,
+ * headings or bold title lines (as in reasoning summaries) start steps, and
+ * untitled reasoning is split by paragraph.
+ */
+export function segmentReasoningSteps(content: string, phases: ReasoningPhase[] = []): ReasoningStep[] {
+  const offsets = phases.map(phase => phase.offset).filter(offset => offset > 0 && offset < content.length);
+  const chunks = [0, ...offsets].map((start, index, all) => content.slice(start, all[index + 1] ?? content.length));
+
+  const steps: ReasoningStep[] = [];
+
+  for (const chunk of chunks) {
+    const lines = chunk.split('\n');
+    const hasTitles = lines.some(line => STEP_TITLE_PATTERN.test(line.trim()));
+
+    if (!hasTitles) {
+      chunk.split(/\n\s*\n/)
+        .map(paragraph => paragraph.trim())
+        .filter(Boolean)
+        .forEach(paragraph => steps.push({ content: paragraph }));
+      continue;
+    }
+
+    let current: ReasoningStep | null = null;
+    for (const line of lines) {
+      const title = line.trim().match(STEP_TITLE_PATTERN);
+      if (title) {
+        if (current && (current.title || current.content.trim())) steps.push(current);
+        current = { title: title[1] || title[2], content: '' };
+      } else {
+        current = current || { content: '' };
+        current.content += `${line}\n`;
+      }
+    }
+    if (current && (current.title || current.content.trim())) steps.push(current);
+  }
+
+  return steps.map(step => ({ ...step, content: step.content.trim() }));
+}
@@ -0,0 +1,149 @@
+import { JSONSchema } from './jsonSchema';
+
+/**
+ * A JSON schema an assistant or a single turn asks the model to answer with
+ */
+export interface StructuredOutputSchema {
+  name: string;
+  schema: JSONSchema;
+  strict?: boolean;
+}
+
+export type StructuredOutputStatus = 'streaming' | 'valid' | 'repaired' | 'invalid';
+
+/**
+ * Parsed structured output kept in message metadata
+ */
+export interface StructuredOutputResult {
+  name: string;
+  status: StructuredOutputStatus;
+  data: any;
+  errors: string[];
+}
+
+/**
+ * Build the provider response_format for a schema
+ */
+export function toResponseFormat(spec: StructuredOutputSchema) {
+  return {
+    type: 'json_schema',
+    json_schema: {
+      name: spec.name.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64) || 'response',
+      schema: spec.schema,
+      strict: spec.strict ?? false,
+    },
+  };
+}
+
+/**
+ * Read a stored response_format (assistants.response_format is a JSON string)
+ * into a schema. Accepts a json_schema response_format or a bare schema;
+ * returns null for plain text or json_object formats.
+ */
+export function parseResponseFormat(raw: string | object | null | undefined): StructuredOutputSchema | null {
+  if (!raw) return null;
+
+  let format: any = raw;
+  if (typeof raw === 'string') {
+    try {
+      format = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+
+  if (format?.type === 'json_schema' && format.json_schema?.schema) {
+    return {
+      name: format.json_schema.name || 'response',
+      schema: format.json_schema.schema,
+      strict: format.json_schema.strict,
+    };
+  }
+
+  if (format?.type === 'object' || format?.properties) {
+    return { name: 'response', schema: format };
+  }
+
+  return null;
+}
+
+/**
+ * Strip a markdown code fence some models wrap JSON in
+ */
+export function extractJsonText(content: string): string {
+  const trimmed = content.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*\n?([\s\S]*?)(?:\n?```)?$/);
+  return (fenced ? fenced[1] : trimmed).trim();
+}
+
+const closeBrackets = (stack: string) =>
+  stack.split('').reverse().map(bracket => (bracket === '{' ? '}' : ']')).join('');
+
+/**
+ * Candidate completions of a truncated JSON document, best first: close the
+ * open string and brackets, or cut back to the last complete member.
+ */
+function completePartialJson(text: string): string[] {
+  let stack = '';
+  let inString = false;
+  let escaped = false;
+  let lastCut: { index: number; stack: string } | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack += char;
+      lastCut = { index: i + 1, stack };
+    } else if (char === '}' || char === ']') {
+      stack = stack.slice(0, -1);
+    } else if (char === ',') {
+      lastCut = { index: i, stack };
+    }
+  }
+
+  let body = text;
+  if (inString) {
+    body = (escaped ? body.slice(0, -1) : body) + '"';
+  }
+
+  const candidates = [body.replace(/[\s,:]+$/, '') + closeBrackets(stack)];
+  if (lastCut) {
+    candidates.push(text.slice(0, lastCut.index) + closeBrackets(lastCut.stack));
+  }
+  return candidates;
+}
+
+/**
+ * Parse JSON that may still be streaming in. `complete` is false when the
+ * value was recovered from a truncated document.
+ */
+export function parsePartialJson(content: string): { value: any; complete: boolean } | null {
+  const json = extractJsonText(content);
+  if (!json) return null;
+
+  try {
+    return { value: JSON.parse(json), complete: true };
+  } catch {
+    // Still streaming or malformed, try closing it off
+  }
+
+  for (const candidate of completePartialJson(json)) {
+    try {
+      return { value: JSON.parse(candidate), complete: false };
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,100 @@
+export type DiffLineType = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  oldLine?: number; // 1-based line number in the old text
+  newLine?: number; // 1-based line number in the new text
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+// Above this many line pairs the LCS table gets too big for a phone
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Line-based diff of two texts using the longest common subsequence
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+
+  // Common prefix and suffix don't need the table
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < start; i++) {
+    result.push({ type: 'equal', text: oldLines[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  const oldMiddle = oldLines.slice(start, oldEnd);
+  const newMiddle = newLines.slice(start, newEnd);
+  const rows = oldMiddle.length;
+  const cols = newMiddle.length;
+
+  if (rows * cols > MAX_LCS_CELLS) {
+    // Too large to align: show the changed block as removed then added
+    oldMiddle.forEach((text, i) => result.push({ type: 'removed', text, oldLine: start + i + 1 }));
+    newMiddle.forEach((text, j) => result.push({ type: 'added', text, newLine: start + j + 1 }));
+  } else {
+    // lengths[i * (cols + 1) + j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+    const width = cols + 1;
+    const lengths = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lengths[i * width + j] = oldMiddle[i] === newMiddle[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < cols) {
+      if (i < rows && j < cols && oldMiddle[i] === newMiddle[j]) {
+        result.push({ type: 'equal', text: oldMiddle[i], oldLine: start + i + 1, newLine: start + j + 1 });
+        i++;
+        j++;
+      } else if (i < rows && (j === cols || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+        result.push({ type: 'removed', text: oldMiddle[i], oldLine: start + i + 1 });
+        i++;
+      } else {
+        result.push({ type: 'added', text: newMiddle[j], newLine: start + j + 1 });
+        j++;
+      }
+    }
+  }
+
+  for (let k = 0; k < oldLines.length - oldEnd; k++) {
+    result.push({
+      type: 'equal',
+      text: oldLines[oldEnd + k],
+      oldLine: oldEnd + k + 1,
+      newLine: newEnd + k + 1,
+    });
+  }
+
+  return result;
+}
+
+export function getDiffStats(diff: DiffLine[]): DiffStats {
+  return diff.reduce(
+    (stats, line) => ({
+      added: stats.added + (line.type === 'added' ? 1 : 0),
+      removed: stats.removed + (line.type === 'removed' ? 1 : 0),
+    }),
+    { added: 0, removed: 0 }
+  );
+}
@@ -0,0 +1,51 @@
+import { ChatMessage } from '@/lib/services/streamingUtils';
+
+// Rough average for English text and code across provider tokenizers
+const CHARS_PER_TOKEN = 4;
+
+// Per-message framing (role, separators) added by chat formats
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Flat cost for an image part; providers bill images by tiles, this is a typical high-detail size
+const IMAGE_TOKENS = 765;
+
+/**
+ * Estimate the token count of a piece of text
+ */
+export function estimateTokens(text: string | undefined | null): number {
+  if (!text) return 0;
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the tokens a single chat message takes in the prompt, including
+ * image parts and tool call arguments
+ */
+export function estimateMessageTokens(message: ChatMessage): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+
+  if (typeof message.content === 'string') {
+    tokens += estimateTokens(message.content);
+  } else if (Array.isArray(message.content)) {
+    for (const part of message.content) {
+      tokens += part.type === 'image_url' ? IMAGE_TOKENS : estimateTokens(part.text);
+    }
+  }
+
+  for (const toolCall of message.tool_calls || []) {
+    tokens += estimateTokens(toolCall.function?.name) + estimateTokens(toolCall.function?.arguments);
+  }
+
+  if (message.name) {
+    tokens += estimateTokens(message.name);
+  }
+
+  return tokens;
+}
+
+/**
+ * Estimate the total prompt tokens for a list of chat messages
+ */
+export function estimateMessagesTokens(messages: ChatMessage[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
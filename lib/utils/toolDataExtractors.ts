@@ -30,6 +30,26 @@ export interface GeneratedImage {
   metadata?: any;
 }
 
+export interface CodeExecutionArtifact {
+  name: string;
+  mimeType: string;
+  url?: string;
+  uri?: string;
+  size?: number;
+}
+
+export interface CodeExecutionData {
+  id: string;
+  code: string;
+  status: 'running' | 'success' | 'error';
+  stdout: string;
+  stderr: string;
+  error?: string;
+  exitCode?: number;
+  artifacts: CodeExecutionArtifact[];
+  durationMs?: number;
+}
+
 export interface ToolCall {
   id: string;
   type: string;
@@ -174,8 +194,13 @@ function extractWebSearchData(message: Message, isUser: boolean): WebSearchToolD
     summary: '',
   };
 
+  // Pages read with read_url are cited alongside search results
+  const readUrlSources = extractReadUrlSources((message as any)?.tool_calls || message?.toolCalls);
+
   if (!message?.metadata) {
-    return defaultData;
+    return readUrlSources.length > 0
+      ? { hasWebSearch: true, sources: readUrlSources, summary: '' }
+      : defaultData;
   }
 
   try {
@@ -294,6 +319,9 @@ function extractWebSearchData(message: Message, isUser: boolean): WebSearchToolD
       summary = webSearchData.content || webSearchData.summary || webSearchData.markdown || '';
     }
 
+    const searchUrls = new Set(sources.map((source: any) => source.url));
+    sources = [...sources, ...readUrlSources.filter(source => !searchUrls.has(source.url))];
+
     if (sources.length > 0 || summary) {
       return {
         hasWebSearch: true,
@@ -506,4 +534,105 @@ export function getToolCallStatus(message: Message): 'pending' | 'processing' |
   }
 
   return 'pending';
-} 
\ No newline at end of file
+} 
+
+const CODE_INTERPRETER_TOOL_NAMES = ['code_interpreter', 'python', 'execute_code'];
+
+/**
+ * Build execution card data for code interpreter calls, from live progress
+ * while running or from the tool result once finished
+ */
+export function extractCodeExecutions(toolCalls?: any[]): CodeExecutionData[] {
+  if (!Array.isArray(toolCalls)) return [];
+
+  return toolCalls
+    .filter(call => CODE_INTERPRETER_TOOL_NAMES.includes(call?.function?.name || call?.name))
+    .map(call => {
+      let code = '';
+      try {
+        code = JSON.parse(call.function?.arguments || '{}').code || '';
+      } catch {
+        // Arguments are still streaming in
+      }
+
+      // Results are the raw tool message while streaming and parsed JSON once saved
+      let output = call.result;
+      if (typeof output?.content === 'string') {
+        try {
+          output = JSON.parse(output.content);
+        } catch {
+          output = { stdout: output.content };
+        }
+      }
+
+      if (!output) {
+        return {
+          id: call.id,
+          code,
+          status: 'running' as const,
+          stdout: call.progress?.stdout || '',
+          stderr: call.progress?.stderr || '',
+          artifacts: call.progress?.artifacts || [],
+        };
+      }
+
+      const error = output.error === true ? output.message : output.error;
+      return {
+        id: call.id,
+        code,
+        status: output.status === 'success' && !error ? 'success' as const : 'error' as const,
+        stdout: output.stdout || '',
+        stderr: output.stderr || '',
+        error,
+        exitCode: output.exit_code,
+        artifacts: (output.artifacts || []).map((artifact: any) => ({
+          name: artifact.name,
+          mimeType: artifact.mime_type || artifact.mimeType || 'application/octet-stream',
+          url: artifact.url,
+          uri: artifact.uri,
+          size: artifact.size,
+        })),
+        durationMs: output.duration_ms,
+      };
+    });
+}
+
+const READ_URL_TOOL_NAMES = ['read_url', 'fetch_url', 'browse'];
+
+/**
+ * Citation sources for pages read with read_url, in the same shape as search results
+ */
+export function extractReadUrlSources(toolCalls?: any[]): WebSearchSource[] {
+  if (!Array.isArray(toolCalls)) return [];
+
+  return toolCalls
+    .filter(call => READ_URL_TOOL_NAMES.includes(call?.function?.name || call?.name) && call.result)
+    .map((call): WebSearchSource | null => {
+      // Results are the raw tool message while streaming and parsed JSON once saved
+      let page = call.result;
+      if (typeof page?.content === 'string' && page.url === undefined) {
+        try {
+          page = JSON.parse(page.content);
+        } catch {
+          return null;
+        }
+      }
+      if (!page?.url || page.error) return null;
+
+      return {
+        url: page.url,
+        title: page.title || page.url,
+        description: page.description || '',
+        text: typeof page.content === 'string' ? page.content.substring(0, 300) : '',
+        published: page.published,
+        image: page.image,
+        metadata: {
+          type: 'read_url',
+          siteName: page.site_name,
+          byline: page.byline,
+          wordCount: page.word_count,
+        },
+      };
+    })
+    .filter((source): source is WebSearchSource => source !== null);
+}
@@ -0,0 +1,48 @@
+export interface UpdateBatcher<T> {
+  push: (value: T) => void;
+  flush: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Coalesce rapid updates so only the latest value is applied, at most once
+ * per interval. The first update after a quiet period is applied right away.
+ */
+export function createUpdateBatcher<T>(apply: (value: T) => void, intervalMs: number): UpdateBatcher<T> {
+  let pending: { value: T } | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastAppliedAt = 0;
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!pending) return;
+
+    const { value } = pending;
+    pending = null;
+    lastAppliedAt = Date.now();
+    apply(value);
+  };
+
+  return {
+    push: (value: T) => {
+      pending = { value };
+      const wait = intervalMs - (Date.now() - lastAppliedAt);
+      if (wait <= 0) {
+        flush();
+      } else if (!timer) {
+        timer = setTimeout(flush, wait);
+      }
+    },
+    flush,
+    cancel: () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      pending = null;
+    },
+  };
+}